@@ -35,7 +35,7 @@ export class AnalyticsController {
   @ApiOperation({
     summary: 'COGS Report',
     description:
-      'Returns COGS report with total costs, revenue, and profit margins',
+      'Returns COGS report with order revenue, gross profit and margin, broken down by day, branch and menu category. Voided orders are excluded.',
   })
   @ApiQuery({ name: 'from', required: false, type: Date })
   @ApiQuery({ name: 'to', required: false, type: Date })
@@ -53,17 +53,52 @@ export class AnalyticsController {
     );
   }
 
+  @Get('waste')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Waste Report',
+    description:
+      'Returns approved waste costed at batch unit cost, broken down by reason, ingredient and branch',
+  })
+  @ApiQuery({ name: 'from', required: false, type: Date })
+  @ApiQuery({ name: 'to', required: false, type: Date })
+  @ApiQuery({ name: 'branchId', required: false, type: String })
+  @ApiResponse({ status: 200, description: 'Waste report' })
+  wasteReport(
+    @CurrentUser() user: UserPayload,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('branchId') branchId?: string,
+  ) {
+    requiresOrganization(user);
+    return this.analyticsService.wasteReport(
+      user.organizationId,
+      from ? new Date(from) : undefined,
+      to ? new Date(to) : undefined,
+      branchId,
+    );
+  }
+
   @Get('inventory-value')
   @UseGuards(RolesGuard)
   @Roles(UserRole.OWNER, UserRole.MANAGER)
   @ApiOperation({
     summary: 'Inventory Valuation',
-    description: 'Returns total inventory value by ingredient',
+    description:
+      'Returns total inventory value by ingredient with a per-branch rollup, optionally for a single branch',
   })
+  @ApiQuery({ name: 'branchId', required: false, type: String })
   @ApiResponse({ status: 200, description: 'Inventory valuation report' })
-  inventoryValuation(@CurrentUser() user: UserPayload) {
+  inventoryValuation(
+    @CurrentUser() user: UserPayload,
+    @Query('branchId') branchId?: string,
+  ) {
     requiresOrganization(user);
-    return this.analyticsService.inventoryValuation(user.organizationId);
+    return this.analyticsService.inventoryValuation(
+      user.organizationId,
+      branchId,
+    );
   }
 
   @Get('menu-margins')
@@ -2,6 +2,23 @@ import { Injectable, NotFoundException } from '@nestjs/common';
 
 import { Prisma } from '../../generated/prisma';
 import { PrismaService } from '../database/prisma.service';
+import { getLocalDate } from '../menu-categories/category-schedule';
+import {
+  applyDiscount,
+  getCategoryPath,
+  isPriceRuleTarget,
+} from '../pricing/price-resolver';
+
+interface ProfitTotals {
+  revenue: Prisma.Decimal;
+  cogs: Prisma.Decimal;
+}
+
+interface WasteTotals {
+  quantity: Prisma.Decimal;
+  cost: Prisma.Decimal;
+  entries: number;
+}
 
 @Injectable()
 export class AnalyticsService {
@@ -25,6 +42,7 @@ export class AnalyticsService {
 
     const where: Prisma.CogsLedgerWhereInput = {
       companyId: organization.id,
+      order: { status: { not: 'VOIDED' } },
       ...(from || to
         ? {
             createdAt: {
@@ -37,40 +55,241 @@ export class AnalyticsService {
 
     const cogsEntries = await this.prismaService.cogsLedger.findMany({
       where,
+      include: {
+        order: {
+          include: {
+            branch: { select: { id: true, name: true, timezone: true } },
+            lines: {
+              include: {
+                menuItem: {
+                  select: {
+                    category: true,
+                    menuCategory: { select: { name: true } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
       orderBy: { createdAt: 'desc' },
     });
 
-    const totalCogs = cogsEntries.reduce(
-      (sum, entry) => sum.add(entry.totalCost),
-      new Prisma.Decimal(0),
-    );
+    const byDay = new Map<string, ProfitTotals>();
+    const byBranch = new Map<string, ProfitTotals & { name: string }>();
+    const byCategory = new Map<string, ProfitTotals>();
+    const totals = this.emptyTotals();
+
+    for (const entry of cogsEntries) {
+      const { order } = entry;
+
+      this.addToTotals(totals, order.total, entry.totalCost);
+
+      // Days are the branch's business days, not UTC ones
+      const day = getLocalDate(order.createdAt, order.branch.timezone);
+      this.addToTotals(
+        this.getOrInit(byDay, day, () => this.emptyTotals()),
+        order.total,
+        entry.totalCost,
+      );
 
-    // TODO: Calculate revenue from Order model when it's created
-    const totalRevenue = new Prisma.Decimal(0);
+      this.addToTotals(
+        this.getOrInit(byBranch, order.branchId, () => ({
+          ...this.emptyTotals(),
+          name: order.branch.name,
+        })),
+        order.total,
+        entry.totalCost,
+      );
+
+      // Category split uses the per-line cost recorded at consumption;
+      // older entries without it are allocated by each line's revenue share.
+      // Line revenue is what was paid for it, after points redeemed.
+      const lineCosts = this.getLineCosts(entry.metadata);
+      const paidShare = order.subtotal.gt(0)
+        ? order.total.div(order.subtotal)
+        : new Prisma.Decimal(0);
+      for (const line of order.lines) {
+        const recordedCost = lineCosts.get(line.id);
+        const lineCost =
+          recordedCost ??
+          (order.subtotal.gt(0)
+            ? entry.totalCost.mul(line.lineTotal).div(order.subtotal)
+            : new Prisma.Decimal(0));
+
+        this.addToTotals(
+          this.getOrInit(
+            byCategory,
+            line.menuItem.menuCategory?.name ??
+              line.menuItem.category ??
+              'Uncategorized',
+            () => this.emptyTotals(),
+          ),
+          line.lineTotal.mul(paidShare),
+          lineCost,
+        );
+      }
+    }
 
     return {
       period: { from, to },
       totalEntries: cogsEntries.length,
-      totalCogs: totalCogs.toString(),
-      totalRevenue: totalRevenue.toString(),
-      grossProfit: totalRevenue.sub(totalCogs).toString(),
-      grossMargin: totalRevenue.gt(0)
-        ? totalRevenue.sub(totalCogs).div(totalRevenue).toString()
-        : '0',
+      ...this.formatTotals(totals),
+      byDay: [...byDay.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, dayTotals]) => ({
+          date,
+          ...this.formatTotals(dayTotals),
+        })),
+      byBranch: [...byBranch.entries()].map(([branchId, branchTotals]) => ({
+        branchId,
+        branchName: branchTotals.name,
+        ...this.formatTotals(branchTotals),
+      })),
+      byCategory: [...byCategory.entries()].map(
+        ([category, categoryTotals]) => ({
+          category,
+          ...this.formatTotals(categoryTotals),
+        }),
+      ),
       entries: cogsEntries.map((entry) => ({
         id: entry.id,
         orderId: entry.orderId,
+        branchId: entry.order.branchId,
         totalCost: entry.totalCost.toString(),
-        revenue: '0', // TODO: Get from Order model when created
+        revenue: entry.order.total.toString(),
+        grossProfit: entry.order.total.sub(entry.totalCost).toString(),
+        createdAt: entry.createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Waste Report (approved waste, costed at batch unit cost)
+   */
+  async wasteReport(
+    companyId: string,
+    from?: Date,
+    to?: Date,
+    branchId?: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const wasteEntries = await this.prismaService.stockEntry.findMany({
+      where: {
+        type: 'WASTAGE',
+        wasteApprovalStatus: 'APPROVED',
+        ingredient: { companyId: organization.id },
+        ...(branchId && { branchId }),
+        ...(from || to
+          ? {
+              createdAt: {
+                ...(from && { gte: from }),
+                ...(to && { lte: to }),
+              },
+            }
+          : {}),
+      },
+      include: {
+        ingredient: { select: { id: true, name: true, unit: true } },
+        batch: { select: { id: true, unitCost: true } },
+        branch: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const byReason = new Map<string, WasteTotals>();
+    const byIngredient = new Map<
+      string,
+      WasteTotals & { name: string; unit: string }
+    >();
+    const byBranch = new Map<string, WasteTotals & { name: string | null }>();
+    let totalCost = new Prisma.Decimal(0);
+
+    const lines = wasteEntries.map((entry) => {
+      const unitCost = entry.batch?.unitCost ?? entry.unitCost;
+      const cost = unitCost.mul(entry.quantity);
+      totalCost = totalCost.add(cost);
+
+      this.addToWasteTotals(
+        this.getOrInit(byReason, entry.wasteReason ?? 'OTHER', () =>
+          this.emptyWasteTotals(),
+        ),
+        entry.quantity,
+        cost,
+      );
+      this.addToWasteTotals(
+        this.getOrInit(byIngredient, entry.ingredientId, () => ({
+          ...this.emptyWasteTotals(),
+          name: entry.ingredient.name,
+          unit: entry.ingredient.unit,
+        })),
+        entry.quantity,
+        cost,
+      );
+      this.addToWasteTotals(
+        this.getOrInit(byBranch, entry.branchId ?? 'unassigned', () => ({
+          ...this.emptyWasteTotals(),
+          name: entry.branch?.name ?? null,
+        })),
+        entry.quantity,
+        cost,
+      );
+
+      return {
+        id: entry.id,
+        ingredientId: entry.ingredientId,
+        ingredientName: entry.ingredient.name,
+        batchId: entry.batchId,
+        branchId: entry.branchId,
+        reason: entry.wasteReason,
+        notes: entry.wasteNotes,
+        quantity: entry.quantity.toString(),
+        unitCost: unitCost.toString(),
+        cost: cost.toDecimalPlaces(2).toString(),
         createdAt: entry.createdAt,
+      };
+    });
+
+    return {
+      period: { from, to },
+      branchId: branchId ?? null,
+      totalEntries: wasteEntries.length,
+      totalCost: totalCost.toDecimalPlaces(2).toString(),
+      byReason: [...byReason.entries()].map(([reason, totals]) => ({
+        reason,
+        ...this.formatWasteTotals(totals),
+      })),
+      byIngredient: [...byIngredient.entries()].map(
+        ([ingredientId, totals]) => ({
+          ingredientId,
+          name: totals.name,
+          unit: totals.unit,
+          ...this.formatWasteTotals(totals),
+        }),
+      ),
+      byBranch: [...byBranch.entries()].map(([id, totals]) => ({
+        branchId: id === 'unassigned' ? null : id,
+        branchName: totals.name,
+        ...this.formatWasteTotals(totals),
       })),
+      entries: lines,
     };
   }
 
   /**
    * Inventory Valuation
    */
-  async inventoryValuation(companyId: string): Promise<unknown> {
+  async inventoryValuation(
+    companyId: string,
+    branchId?: string,
+  ): Promise<unknown> {
     const organization = await this.prismaService.organization.findUnique({
       where: { auth0OrgId: companyId },
     });
@@ -86,26 +305,68 @@ export class AnalyticsService {
       },
       include: {
         batches: {
-          where: { isClosed: false },
+          where: {
+            isClosed: false,
+            ...(branchId && { branchId }),
+          },
+          include: {
+            branch: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
         },
+        branchStocks: branchId ? { where: { branchId } } : true,
       },
     });
 
+    // Company-wide rollup of batch value per branch
+    const byBranch = new Map<
+      string,
+      {
+        branchId: string | null;
+        branchName: string | null;
+        totalValue: Prisma.Decimal;
+      }
+    >();
+
     const valuation = ingredients.map((ing) => {
-      const totalValue = ing.batches.reduce(
-        (sum, batch) => sum.add(batch.unitCost.mul(batch.remainingQty)),
-        new Prisma.Decimal(0),
-      );
+      let totalValue = new Prisma.Decimal(0);
+      for (const batch of ing.batches) {
+        const batchValue = batch.unitCost.mul(batch.remainingQty);
+        totalValue = totalValue.add(batchValue);
+
+        const branchEntry = this.getOrInit(
+          byBranch,
+          batch.branchId ?? 'none',
+          () => ({
+            branchId: batch.branchId,
+            branchName: batch.branch?.name ?? null,
+            totalValue: new Prisma.Decimal(0),
+          }),
+        );
+        branchEntry.totalValue = branchEntry.totalValue.add(batchValue);
+      }
+
+      const stock = branchId
+        ? (ing.branchStocks[0]?.quantity ?? new Prisma.Decimal(0))
+        : ing.totalStock;
 
       return {
         ingredientId: ing.id,
         name: ing.name,
         unit: ing.unit,
-        totalStock: ing.totalStock.toString(),
+        totalStock: stock.toString(),
         averageUnitCost: ing.averageUnitCost?.toString() ?? null,
         fifoUnitCost: ing.fifoUnitCost?.toString() ?? null,
         totalValue: totalValue.toString(),
         batchCount: ing.batches.length,
+        branchStocks: ing.branchStocks.map((bs) => ({
+          branchId: bs.branchId,
+          quantity: bs.quantity.toString(),
+        })),
       };
     });
 
@@ -115,8 +376,13 @@ export class AnalyticsService {
     );
 
     return {
+      branchId: branchId ?? null,
       totalValuation: totalValuation.toString(),
       ingredientCount: valuation.length,
+      byBranch: [...byBranch.values()].map((entry) => ({
+        ...entry,
+        totalValue: entry.totalValue.toString(),
+      })),
       ingredients: valuation,
     };
   }
@@ -147,10 +413,50 @@ export class AnalyticsService {
             yieldQuantity: true,
           },
         },
+        modifierGroups: {
+          where: { isActive: true },
+          include: {
+            modifiers: {
+              where: { isActive: true },
+            },
+          },
+        },
       },
     });
 
+    // Revenue each item earned as part of combos, as allocated at sale time
+    const componentRevenue =
+      await this.prismaService.orderLineComponent.groupBy({
+        by: ['menuItemId'],
+        where: {
+          menuItem: { companyId: organization.id },
+          orderLine: { order: { status: { not: 'VOIDED' } } },
+        },
+        _sum: { allocatedRevenue: true },
+      });
+    const comboRevenueByItem = new Map(
+      componentRevenue.map((r) => [r.menuItemId, r._sum.allocatedRevenue]),
+    );
+
+    // Active price rules, to show each item's margin while they run
+    const [priceRules, categories] = await Promise.all([
+      this.prismaService.priceRule.findMany({
+        where: {
+          companyId: organization.id,
+          isActive: true,
+          OR: [{ endsAt: null }, { endsAt: { gt: new Date() } }],
+        },
+        include: { targets: true },
+      }),
+      this.prismaService.menuCategory.findMany({
+        where: { companyId: organization.id },
+        select: { id: true, parentId: true },
+      }),
+    ]);
+    const parentOf = new Map(categories.map((c) => [c.id, c.parentId]));
+
     const report = menuItems.map((item) => {
+      const categoryPath = getCategoryPath(item.categoryId, parentOf);
       const margin = item.margin
         ? item.margin.mul(new Prisma.Decimal(100))
         : null;
@@ -159,6 +465,7 @@ export class AnalyticsService {
       return {
         menuItemId: item.id,
         name: item.name,
+        type: item.type,
         basePrice: item.basePrice.toString(),
         computedCost: item.computedCost?.toString() ?? null,
         margin: marginPercent,
@@ -167,7 +474,46 @@ export class AnalyticsService {
           : null,
         totalOrders: item.totalOrders,
         totalRevenue: item.totalRevenue.toString(),
+        comboRevenue: (
+          comboRevenueByItem.get(item.id) ?? new Prisma.Decimal(0)
+        ).toString(),
         recipeName: item.recipe?.name ?? null,
+        // What each modifier adds to the item's margin when selected
+        modifiers: item.modifierGroups.flatMap((group) =>
+          group.modifiers.map((modifier) => ({
+            modifierId: modifier.id,
+            group: group.name,
+            name: modifier.name,
+            isDefault: modifier.isDefault,
+            priceDelta: modifier.priceDelta.toString(),
+            costDelta: modifier.costDelta.toString(),
+            marginValue: modifier.priceDelta.sub(modifier.costDelta).toString(),
+          })),
+        ),
+        // The margin while each applicable price rule runs
+        priceRules: priceRules
+          .filter((rule) => isPriceRuleTarget(rule, item.id, categoryPath))
+          .map((rule) => {
+            const price = applyDiscount(item.basePrice, rule);
+            const marginValue = item.computedCost
+              ? price.sub(item.computedCost)
+              : null;
+            return {
+              priceRuleId: rule.id,
+              name: rule.name,
+              branchId: rule.branchId,
+              discountedPrice: price.toString(),
+              margin:
+                marginValue && price.gt(0)
+                  ? marginValue
+                      .div(price)
+                      .mul(100)
+                      .toDecimalPlaces(2)
+                      .toString()
+                  : null,
+              marginValue: marginValue?.toString() ?? null,
+            };
+          }),
       };
     });
 
@@ -265,4 +611,95 @@ export class AnalyticsService {
       trend,
     };
   }
+
+  /**
+   * Read per-line costs recorded in a COGS ledger entry's metadata
+   */
+  private getLineCosts(
+    metadata: Prisma.JsonValue,
+  ): Map<string, Prisma.Decimal> {
+    const lineCosts = new Map<string, Prisma.Decimal>();
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      return lineCosts;
+    }
+
+    const lines = metadata['lines'];
+    if (!Array.isArray(lines)) {
+      return lineCosts;
+    }
+
+    for (const line of lines) {
+      if (
+        line &&
+        typeof line === 'object' &&
+        !Array.isArray(line) &&
+        typeof line['orderLineId'] === 'string' &&
+        typeof line['cost'] === 'string'
+      ) {
+        lineCosts.set(line['orderLineId'], new Prisma.Decimal(line['cost']));
+      }
+    }
+
+    return lineCosts;
+  }
+
+  private emptyTotals(): ProfitTotals {
+    return { revenue: new Prisma.Decimal(0), cogs: new Prisma.Decimal(0) };
+  }
+
+  private addToTotals(
+    totals: ProfitTotals,
+    revenue: Prisma.Decimal,
+    cogs: Prisma.Decimal,
+  ): void {
+    totals.revenue = totals.revenue.add(revenue);
+    totals.cogs = totals.cogs.add(cogs);
+  }
+
+  private getOrInit<T>(map: Map<string, T>, key: string, init: () => T): T {
+    let value = map.get(key);
+    if (!value) {
+      value = init();
+      map.set(key, value);
+    }
+    return value;
+  }
+
+  private formatTotals(totals: ProfitTotals) {
+    const grossProfit = totals.revenue.sub(totals.cogs);
+    return {
+      totalRevenue: totals.revenue.toDecimalPlaces(2).toString(),
+      totalCogs: totals.cogs.toDecimalPlaces(2).toString(),
+      grossProfit: grossProfit.toDecimalPlaces(2).toString(),
+      grossMargin: totals.revenue.gt(0)
+        ? grossProfit.div(totals.revenue).toDecimalPlaces(4).toString()
+        : '0',
+    };
+  }
+
+  private emptyWasteTotals(): WasteTotals {
+    return {
+      quantity: new Prisma.Decimal(0),
+      cost: new Prisma.Decimal(0),
+      entries: 0,
+    };
+  }
+
+  private addToWasteTotals(
+    totals: WasteTotals,
+    quantity: Prisma.Decimal,
+    cost: Prisma.Decimal,
+  ): void {
+    totals.quantity = totals.quantity.add(quantity);
+    totals.cost = totals.cost.add(cost);
+    totals.entries += 1;
+  }
+
+  private formatWasteTotals(totals: WasteTotals) {
+    return {
+      entries: totals.entries,
+      quantity: totals.quantity.toString(),
+      cost: totals.cost.toDecimalPlaces(2).toString(),
+    };
+  }
 }
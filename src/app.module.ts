@@ -6,30 +6,46 @@ import { AppService } from './app.service';
 import { AuthModule } from './auth';
 import { BranchMenuModule } from './branch-menu';
 import { BranchesModule } from './branches';
+import { CampaignsModule } from './campaigns';
 import { ClerkWebhookModule } from './clerk-webhook';
 import { CommonModule } from './common/common.module';
 import { LoggerMiddleware } from './common/middleware/logger.middleware';
 import { CompanySettingsModule } from './company-settings';
 import { ConfigModule, ConfigService } from './config';
+import { CostSimulationsModule } from './cost-simulations';
 import { CustomersModule } from './customers';
 import { PrismaModule } from './database';
 import { HealthModule } from './health';
 import { IngredientsModule } from './ingredients';
 import { InventoryModule } from './inventory';
+import { LoyaltyModule } from './loyalty';
 import { MenuModule } from './menu';
+import { MenuCategoriesModule } from './menu-categories';
 import { MenuProposalsModule } from './menu-proposals';
 import { MonitoringModule } from './monitoring/monitoring.module';
+import { OrdersModule } from './orders';
 import { OrganizationsModule } from './organizations';
 import { PlansModule } from './plans';
+import { PriceChangeRequestsModule } from './price-change-requests';
+import { PricingModule } from './pricing';
+import { ProductionModule } from './production';
+import { PurchaseOrdersModule } from './purchase-orders';
 import { RecipesModule } from './recipes';
+import { ReorderingModule } from './reordering';
 import { CacheModule } from './services/cache/cache.module';
 import { EmailModule } from './services/email/email.module';
 import { MapsModule } from './services/maps/maps.module';
 import { QueueModule } from './services/queue/queue.module';
 import { SMSModule } from './services/sms/sms.module';
 import { StorageModule } from './services/storage/storage.module';
+import { WhatsAppModule } from './services/whatsapp/whatsapp.module';
+import { StockTransfersModule } from './stock-transfers';
 import { SubscriptionsModule } from './subscriptions';
+import { SuppliersModule } from './suppliers';
+import { SyncModule } from './sync';
+import { UnitsModule } from './units';
 import { UsersModule } from './users';
+import { WhatsAppOrderingModule } from './whatsapp-ordering';
 
 @Module({
   imports: [
@@ -40,6 +56,7 @@ import { UsersModule } from './users';
     StorageModule,
     QueueModule,
     SMSModule,
+    WhatsAppModule,
     EmailModule,
     MapsModule,
     HealthModule,
@@ -51,15 +68,30 @@ import { UsersModule } from './users';
     PlansModule,
     SubscriptionsModule,
     IngredientsModule,
+    UnitsModule,
     RecipesModule,
     MenuModule,
+    MenuCategoriesModule,
     BranchMenuModule,
     CompanySettingsModule,
     MenuProposalsModule,
+    PriceChangeRequestsModule,
+    PricingModule,
     InventoryModule,
+    StockTransfersModule,
+    SuppliersModule,
+    PurchaseOrdersModule,
+    ReorderingModule,
+    ProductionModule,
+    OrdersModule,
+    SyncModule,
     AnalyticsModule,
+    CostSimulationsModule,
     CustomersModule,
+    LoyaltyModule,
+    CampaignsModule,
     ClerkWebhookModule,
+    WhatsAppOrderingModule,
   ],
   controllers: [AppController],
   providers: [AppService, ConfigService],
@@ -73,10 +73,14 @@ export class BranchMenuController {
   @ApiOperation({
     summary: 'Update branch menu override',
     description:
-      'Updates branch-specific overrides. Price changes may require approval.',
+      'Updates branch-specific overrides. When branch price overrides are disabled, only owners can change the price; managers must submit a price change request.',
   })
   @ApiParam({ name: 'id', description: 'Branch Menu UUID' })
   @ApiResponse({ status: 200, description: 'Branch menu updated successfully' })
+  @ApiResponse({
+    status: 403,
+    description: 'Branch price overrides are disabled',
+  })
   update(
     @Param('id') id: string,
     @Body() updateBranchMenuDto: UpdateBranchMenuDto,
@@ -87,6 +91,7 @@ export class BranchMenuController {
       id,
       updateBranchMenuDto,
       user.organizationId,
+      user.role,
     );
   }
 }
@@ -2,10 +2,12 @@ import {
   Injectable,
   NotFoundException,
   ConflictException,
+  ForbiddenException,
   Logger,
 } from '@nestjs/common';
 
 import { Prisma } from '../../generated/prisma';
+import { UserRole } from '../auth/enums/user-role.enum';
 import { CompanySettingsService } from '../company-settings/company-settings.service';
 import { PrismaService } from '../database/prisma.service';
 import { CacheService } from '../services/cache';
@@ -98,6 +100,7 @@ export class BranchMenuService {
     id: string,
     dto: UpdateBranchMenuDto,
     companyId: string,
+    role: UserRole,
   ): Promise<unknown> {
     const organization = await this.prismaService.organization.findUnique({
       where: { auth0OrgId: companyId },
@@ -127,29 +130,11 @@ export class BranchMenuService {
       throw new NotFoundException('Branch menu not found');
     }
 
-    // Check if price change requires approval
-    if (dto.localPrice !== undefined) {
-      const settings = (await this.companySettingsService.getSettings(
-        companyId,
-      )) as { requiresApprovalForProposals: boolean };
-      const requiresApproval = settings.requiresApprovalForProposals;
-
-      if (
-        requiresApproval &&
-        dto.localPrice !== branchMenu.localPrice?.toNumber()
-      ) {
-        // Create price change request
-        await this.prismaService.priceChangeRequest.create({
-          data: {
-            branchId: branchMenu.branchId,
-            menuItemId: branchMenu.menuItemId,
-            requestedPrice: new Prisma.Decimal(dto.localPrice),
-            status: 'PENDING',
-          },
-        });
-
-        this.logger.log(`Price change request created for branch menu ${id}`);
-      }
+    if (
+      dto.localPrice !== undefined &&
+      dto.localPrice !== branchMenu.localPrice?.toNumber()
+    ) {
+      await this.assertCanOverridePrice(companyId, role);
     }
 
     const updated = await this.prismaService.branchMenu.update({
@@ -230,6 +215,7 @@ export class BranchMenuService {
     menuItemId: string,
     overrideDto: UpdateBranchMenuDto,
     companyId: string,
+    role: UserRole,
   ): Promise<unknown> {
     const organization = await this.prismaService.organization.findUnique({
       where: { auth0OrgId: companyId },
@@ -250,7 +236,11 @@ export class BranchMenuService {
     });
 
     if (existing) {
-      return this.updateBranchMenu(existing.id, overrideDto, companyId);
+      return this.updateBranchMenu(existing.id, overrideDto, companyId, role);
+    }
+
+    if (overrideDto.localPrice !== undefined) {
+      await this.assertCanOverridePrice(companyId, role);
     }
 
     // Create new override
@@ -277,4 +267,25 @@ export class BranchMenuService {
 
     return branchMenu;
   }
+
+  /**
+   * Only owners may set branch prices directly when branch price overrides
+   * are disabled; everyone else must go through a price change request.
+   */
+  private async assertCanOverridePrice(
+    companyId: string,
+    role: UserRole,
+  ): Promise<void> {
+    if (role === UserRole.OWNER) {
+      return;
+    }
+
+    const allowed =
+      await this.companySettingsService.allowBranchPriceOverride(companyId);
+    if (!allowed) {
+      throw new ForbiddenException(
+        'Branch price overrides are disabled. Submit a price change request for owner approval.',
+      );
+    }
+  }
 }
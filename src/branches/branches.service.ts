@@ -63,6 +63,9 @@ export class BranchesService {
         name: createBranchDto.name,
         address: createBranchDto.address,
         phone: createBranchDto.phone ?? null,
+        ...(createBranchDto.timezone && {
+          timezone: createBranchDto.timezone,
+        }),
         organizationId: organization.id,
       },
     });
@@ -308,6 +311,22 @@ export class BranchesService {
       }
     }
 
+    // A WhatsApp number can only take orders for one branch
+    if (updateBranchDto.whatsappPhoneNumberId) {
+      const existingBranch = await this.prismaService.branch.findFirst({
+        where: {
+          whatsappPhoneNumberId: updateBranchDto.whatsappPhoneNumberId,
+          id: { not: id },
+        },
+      });
+
+      if (existingBranch) {
+        throw new ConflictException(
+          'This WhatsApp number is already linked to another branch',
+        );
+      }
+    }
+
     const updated = await this.prismaService.branch.update({
       where: { id },
       data: updateBranchDto,
@@ -5,6 +5,7 @@ import {
   MaxLength,
   IsOptional,
   Matches,
+  IsTimeZone,
 } from 'class-validator';
 
 export class CreateBranchDto {
@@ -31,4 +32,13 @@ export class CreateBranchDto {
     },
   )
   phone?: string;
+
+  @ApiPropertyOptional({
+    description: 'IANA timezone used for menu schedules',
+    example: 'Africa/Lagos',
+    default: 'UTC',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
 }
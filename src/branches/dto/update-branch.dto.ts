@@ -1,4 +1,10 @@
-import { IsString, IsOptional, IsBoolean, MinLength } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  MinLength,
+  IsTimeZone,
+} from 'class-validator';
 
 export class UpdateBranchDto {
   @IsOptional()
@@ -15,6 +21,14 @@ export class UpdateBranchDto {
   @IsString()
   phone?: string;
 
+  @IsOptional()
+  @IsString()
+  whatsappPhoneNumberId?: string;
+
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
   @IsOptional()
   @IsBoolean()
   isActive?: boolean;
@@ -0,0 +1,136 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+
+import { CurrentUser, Roles, requiresOrganization } from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+
+import { CampaignsService } from './campaigns.service';
+import { CreateCampaignDto, UpdateCampaignDto } from './dto';
+
+@ApiTags('Campaigns')
+@ApiBearerAuth('Auth0')
+@Controller('campaigns')
+@UseGuards(Auth0Guard)
+export class CampaignsController {
+  constructor(private readonly campaignsService: CampaignsService) {}
+
+  @Post()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Create campaign',
+    description: 'Creates a draft promotion for a customer segment',
+  })
+  @ApiResponse({ status: 201, description: 'Campaign created' })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  create(
+    @Body() createCampaignDto: CreateCampaignDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.campaignsService.createCampaign(
+      createCampaignDto,
+      user.organizationId,
+      user.auth0Id,
+    );
+  }
+
+  @Get()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'List campaigns',
+    description: 'Returns campaigns with their delivery counts, newest first',
+  })
+  @ApiResponse({ status: 200, description: 'List of campaigns' })
+  findAll(@CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.campaignsService.listCampaigns(user.organizationId);
+  }
+
+  @Get(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Get campaign',
+    description:
+      'Returns a campaign with its recipient, sent, failed, skipped and pending counts',
+  })
+  @ApiParam({ name: 'id', description: 'Campaign UUID' })
+  @ApiResponse({ status: 200, description: 'Campaign details' })
+  @ApiResponse({ status: 404, description: 'Campaign not found' })
+  findOne(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.campaignsService.getCampaignById(id, user.organizationId);
+  }
+
+  @Patch(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Update campaign',
+    description: 'Updates a draft campaign',
+  })
+  @ApiParam({ name: 'id', description: 'Campaign UUID' })
+  @ApiResponse({ status: 200, description: 'Campaign updated' })
+  @ApiResponse({ status: 400, description: 'Campaign is not a draft' })
+  update(
+    @Param('id') id: string,
+    @Body() updateCampaignDto: UpdateCampaignDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.campaignsService.updateCampaign(
+      id,
+      updateCampaignDto,
+      user.organizationId,
+    );
+  }
+
+  @Post(':id/send')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Send campaign',
+    description:
+      'Sends a draft campaign to every consenting customer in its segment, throttled through the campaigns queue',
+  })
+  @ApiParam({ name: 'id', description: 'Campaign UUID' })
+  @ApiResponse({ status: 201, description: 'Campaign sending started' })
+  @ApiResponse({ status: 400, description: 'Campaign is not a draft' })
+  send(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.campaignsService.sendCampaign(id, user.organizationId);
+  }
+
+  @Post(':id/cancel')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Cancel campaign',
+    description:
+      'Cancels a draft or sending campaign; messages not yet sent are dropped',
+  })
+  @ApiParam({ name: 'id', description: 'Campaign UUID' })
+  @ApiResponse({ status: 201, description: 'Campaign cancelled' })
+  cancel(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.campaignsService.cancelCampaign(id, user.organizationId);
+  }
+}
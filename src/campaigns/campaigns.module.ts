@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+
+import { CommonModule } from '../common/common.module';
+import { CustomersModule } from '../customers';
+import { PrismaModule } from '../database';
+import { CacheModule } from '../services/cache';
+
+import { CampaignsController } from './campaigns.controller';
+import { CampaignsService } from './campaigns.service';
+import { CustomerSegmentsController } from './customer-segments.controller';
+import { CustomerSegmentsService } from './customer-segments.service';
+
+@Module({
+  imports: [PrismaModule, CacheModule, CommonModule, CustomersModule],
+  controllers: [CustomerSegmentsController, CampaignsController],
+  providers: [CustomerSegmentsService, CampaignsService],
+  exports: [CustomerSegmentsService, CampaignsService],
+})
+export class CampaignsModule {}
@@ -0,0 +1,614 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+
+import { ConsentService } from '../customers/services/consent.service';
+import { NotificationService } from '../customers/services/notification.service';
+import { PrismaService } from '../database/prisma.service';
+import { CacheService } from '../services/cache';
+import { EmailService } from '../services/email/email.service';
+import { ORDARO_JOB_TYPES } from '../services/queue/job-types.enum';
+import { QueueService } from '../services/queue/queue.service';
+import { SMSService } from '../services/sms/sms.service';
+
+import {
+  CreateCampaignDto,
+  UpdateCampaignDto,
+  CampaignChannel,
+  SegmentFiltersDto,
+} from './dto';
+import { buildSegmentWhere } from './segment-filter';
+
+const DISPATCH_BATCH_SIZE = 500;
+
+@Injectable()
+export class CampaignsService {
+  private readonly logger = new Logger(CampaignsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly cacheService: CacheService,
+    private readonly queueService: QueueService,
+    private readonly notificationService: NotificationService,
+    private readonly consentService: ConsentService,
+    private readonly emailService: EmailService,
+    private readonly smsService: SMSService,
+  ) {}
+
+  /**
+   * Create a draft campaign
+   */
+  async createCampaign(
+    dto: CreateCampaignDto,
+    companyId: string,
+    creatorId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.assertSegment(dto.segmentId, organization.id);
+    this.assertSubject(dto.channel, dto.subject);
+
+    const creator = await this.prismaService.user.findUnique({
+      where: { auth0UserId: creatorId },
+    });
+
+    const campaign = await this.prismaService.campaign.create({
+      data: {
+        name: dto.name,
+        channel: dto.channel,
+        subject: dto.subject ?? null,
+        body: dto.body,
+        companyId: organization.id,
+        segmentId: dto.segmentId,
+        createdById: creator?.id ?? null,
+      },
+    });
+
+    this.logger.log(`Campaign created: ${campaign.id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return campaign;
+  }
+
+  /**
+   * List campaigns, newest first
+   */
+  async listCampaigns(companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    return this.prismaService.campaign.findMany({
+      where: { companyId: organization.id },
+      include: {
+        segment: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Get a campaign with its delivery counts
+   */
+  async getCampaignById(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const campaign = await this.prismaService.campaign.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+      },
+      include: {
+        segment: { select: { id: true, name: true, filters: true } },
+        createdBy: { select: { id: true, name: true } },
+      },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    const pendingCount = await this.prismaService.customerNotification.count({
+      where: { campaignId: id, status: { in: ['PENDING', 'SENDING'] } },
+    });
+
+    return { ...campaign, pendingCount };
+  }
+
+  /**
+   * Update a draft campaign
+   */
+  async updateCampaign(
+    id: string,
+    dto: UpdateCampaignDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const campaign = await this.findCampaign(id, organization.id);
+
+    if (campaign.status !== 'DRAFT') {
+      throw new BadRequestException('Only draft campaigns can be edited');
+    }
+
+    if (dto.segmentId) {
+      await this.assertSegment(dto.segmentId, organization.id);
+    }
+
+    this.assertSubject(
+      dto.channel ?? (campaign.channel as CampaignChannel),
+      dto.subject ?? campaign.subject ?? undefined,
+    );
+
+    const updated = await this.prismaService.campaign.update({
+      where: { id },
+      data: {
+        ...(dto.name && { name: dto.name }),
+        ...(dto.segmentId && { segmentId: dto.segmentId }),
+        ...(dto.channel && { channel: dto.channel }),
+        ...(dto.subject !== undefined && { subject: dto.subject }),
+        ...(dto.body && { body: dto.body }),
+      },
+    });
+
+    this.logger.log(`Campaign updated: ${id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return updated;
+  }
+
+  /**
+   * Start sending a draft campaign
+   *
+   * Recipients are resolved from the segment in the background, then each
+   * message is delivered through the rate-limited campaigns queue.
+   */
+  async sendCampaign(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.findCampaign(id, organization.id);
+
+    // Guard against a campaign being sent twice
+    const { count } = await this.prismaService.campaign.updateMany({
+      where: { id, status: 'DRAFT' },
+      data: { status: 'SENDING', startedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Only draft campaigns can be sent');
+    }
+
+    await this.queueService.addJob(ORDARO_JOB_TYPES.DISPATCH_CAMPAIGN, {
+      campaignId: id,
+    });
+
+    this.logger.log(`Campaign sending started: ${id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return this.getCampaignById(id, companyId);
+  }
+
+  /**
+   * Cancel a draft or sending campaign; messages not yet sent are dropped
+   */
+  async cancelCampaign(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.findCampaign(id, organization.id);
+
+    const { count } = await this.prismaService.campaign.updateMany({
+      where: { id, status: { in: ['DRAFT', 'SENDING'] } },
+      data: { status: 'CANCELLED', completedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException(
+        'Only draft or sending campaigns can be cancelled',
+      );
+    }
+
+    const dropped = await this.prismaService.customerNotification.deleteMany({
+      where: { campaignId: id, status: 'PENDING' },
+    });
+
+    this.logger.log(
+      `Campaign cancelled: ${id}, ${dropped.count} unsent messages dropped`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return this.getCampaignById(id, companyId);
+  }
+
+  /**
+   * Resolve a sending campaign's recipients and queue a message for each
+   *
+   * Customers need contact details for the channel, consent via
+   * `checkConsent`, and no withdrawn consent; the rest get a SKIPPED
+   * message so they are counted once. Safe to retry: customers already
+   * messaged or skipped are left out.
+   */
+  async dispatchCampaign(
+    campaignId: string,
+  ): Promise<{ queued: number; skipped: number }> {
+    const campaign = await this.prismaService.campaign.findUnique({
+      where: { id: campaignId },
+      include: { segment: true },
+    });
+
+    if (campaign?.status !== 'SENDING') {
+      return { queued: 0, skipped: 0 };
+    }
+
+    const channel = campaign.channel as CampaignChannel;
+    const alreadyQueued = new Set(
+      (
+        await this.prismaService.customerNotification.findMany({
+          where: { campaignId },
+          select: { customerId: true },
+        })
+      ).map((n) => n.customerId),
+    );
+
+    const where = buildSegmentWhere(
+      campaign.companyId,
+      campaign.segment.filters as SegmentFiltersDto,
+    );
+
+    let queued = 0;
+    let skipped = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const batch = await this.prismaService.organizationCustomer.findMany({
+        where: {
+          ...where,
+          ...(cursor && { id: { gt: cursor } }),
+        },
+        include: {
+          customer: {
+            select: {
+              id: true,
+              email: true,
+              phone: true,
+              firstName: true,
+              fullName: true,
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+        take: DISPATCH_BATCH_SIZE,
+      });
+
+      if (batch.length === 0) {
+        break;
+      }
+      cursor = batch[batch.length - 1]?.id;
+
+      for (const { customer } of batch) {
+        if (alreadyQueued.has(customer.id)) {
+          continue;
+        }
+
+        const address =
+          channel === CampaignChannel.EMAIL ? customer.email : customer.phone;
+        const skipReason = !address
+          ? `Customer has no ${channel === CampaignChannel.EMAIL ? 'email address' : 'phone number'}`
+          : !(await this.canMessage(customer.id, campaign.companyId, channel))
+            ? 'No consent to promotions'
+            : null;
+
+        const notification =
+          await this.prismaService.customerNotification.create({
+            data: {
+              customerId: customer.id,
+              organizationId: campaign.companyId,
+              channel,
+              type: 'PROMOTION',
+              subject: campaign.subject,
+              body: campaign.body.replace(
+                /\{\{\s*firstName\s*\}\}/g,
+                customer.firstName ?? customer.fullName ?? 'there',
+              ),
+              campaignId,
+              ...(skipReason && {
+                status: 'SKIPPED',
+                failedAt: new Date(),
+                errorMessage: skipReason,
+              }),
+            },
+          });
+
+        if (skipReason) {
+          skipped++;
+          continue;
+        }
+
+        await this.queueService.addJob(
+          ORDARO_JOB_TYPES.DELIVER_CAMPAIGN_MESSAGE,
+          { notificationId: notification.id },
+        );
+        queued++;
+      }
+    }
+
+    const recipientCount = await this.prismaService.customerNotification.count({
+      where: { campaignId, status: { not: 'SKIPPED' } },
+    });
+
+    await this.prismaService.campaign.update({
+      where: { id: campaignId },
+      data: {
+        recipientCount,
+        skippedCount: { increment: skipped },
+        dispatchedAt: new Date(),
+      },
+    });
+
+    this.logger.log(
+      `Campaign ${campaignId} dispatched: ${queued} messages queued, ${skipped} customers skipped`,
+    );
+
+    await this.completeIfDone(campaignId);
+
+    return { queued, skipped };
+  }
+
+  /**
+   * Send one campaign message and record the outcome on the campaign
+   *
+   * The message is claimed as SENDING before the provider is called, so a
+   * duplicate job can't send it twice. Consent is checked again, since it
+   * may have been withdrawn after the message was queued. A failed send is
+   * released and retried by the queue; only the final failure counts
+   * towards the campaign.
+   */
+  async deliverCampaignMessage(
+    notificationId: string,
+    isFinalAttempt: boolean,
+  ): Promise<{ status: string }> {
+    const notification =
+      await this.prismaService.customerNotification.findUnique({
+        where: { id: notificationId },
+        include: {
+          campaign: true,
+          customer: { select: { email: true, phone: true } },
+        },
+      });
+
+    if (
+      !notification?.campaign ||
+      notification.status !== 'PENDING' ||
+      notification.campaign.status !== 'SENDING'
+    ) {
+      return { status: 'skipped' };
+    }
+
+    const claimed = await this.prismaService.customerNotification.updateMany({
+      where: { id: notificationId, status: 'PENDING' },
+      data: { status: 'SENDING' },
+    });
+
+    if (claimed.count === 0) {
+      return { status: 'skipped' };
+    }
+
+    const { campaign, customer } = notification;
+    const channel = notification.channel as CampaignChannel;
+
+    if (
+      !(await this.canMessage(
+        notification.customerId,
+        notification.organizationId,
+        channel,
+      ))
+    ) {
+      await this.prismaService.$transaction([
+        this.prismaService.customerNotification.update({
+          where: { id: notificationId },
+          data: {
+            status: 'SKIPPED',
+            failedAt: new Date(),
+            errorMessage: 'Consent withdrawn before sending',
+          },
+        }),
+        this.prismaService.campaign.update({
+          where: { id: campaign.id },
+          data: { skippedCount: { increment: 1 } },
+        }),
+      ]);
+      await this.completeIfDone(campaign.id);
+      return { status: 'skipped' };
+    }
+
+    try {
+      if (channel === CampaignChannel.EMAIL) {
+        if (!customer.email) {
+          throw new Error('Customer has no email address');
+        }
+        await this.emailService.sendEmail({
+          to: customer.email,
+          subject: notification.subject ?? campaign.name,
+          text: notification.body,
+        });
+      } else {
+        if (!customer.phone) {
+          throw new Error('Customer has no phone number');
+        }
+        const result = await this.smsService.sendSMS(
+          customer.phone,
+          notification.body,
+        );
+        if (!result.success) {
+          throw new Error(result.error ?? 'SMS could not be sent');
+        }
+      }
+    } catch (error) {
+      if (!isFinalAttempt) {
+        // Release the claim for the queue's next attempt
+        await this.prismaService.customerNotification.update({
+          where: { id: notificationId },
+          data: { status: 'PENDING' },
+        });
+        throw error;
+      }
+
+      await this.prismaService.$transaction([
+        this.prismaService.customerNotification.update({
+          where: { id: notificationId },
+          data: {
+            status: 'FAILED',
+            failedAt: new Date(),
+            errorMessage:
+              error instanceof Error ? error.message : String(error),
+          },
+        }),
+        this.prismaService.campaign.update({
+          where: { id: campaign.id },
+          data: { failedCount: { increment: 1 } },
+        }),
+      ]);
+      await this.completeIfDone(campaign.id);
+      return { status: 'failed' };
+    }
+
+    await this.prismaService.$transaction([
+      this.prismaService.customerNotification.update({
+        where: { id: notificationId },
+        data: { status: 'SENT', sentAt: new Date() },
+      }),
+      this.prismaService.campaign.update({
+        where: { id: campaign.id },
+        data: { sentCount: { increment: 1 } },
+      }),
+    ]);
+    await this.completeIfDone(campaign.id);
+
+    return { status: 'sent' };
+  }
+
+  /**
+   * Whether a customer may receive a promotion on a channel
+   */
+  private async canMessage(
+    customerId: string,
+    organizationId: string,
+    channel: CampaignChannel,
+  ): Promise<boolean> {
+    return (
+      (await this.notificationService.checkConsent(
+        customerId,
+        organizationId,
+        channel,
+      )) &&
+      !(await this.consentService.hasWithdrawnConsent(
+        customerId,
+        organizationId,
+        channel,
+      ))
+    );
+  }
+
+  /**
+   * Mark a sending campaign as sent once every recipient has been queued and
+   * no messages are left to deliver
+   */
+  private async completeIfDone(campaignId: string): Promise<void> {
+    // A message mid-send may still be released back to PENDING for a retry
+    const pending = await this.prismaService.customerNotification.count({
+      where: { campaignId, status: { in: ['PENDING', 'SENDING'] } },
+    });
+
+    if (pending === 0) {
+      await this.prismaService.campaign.updateMany({
+        where: {
+          id: campaignId,
+          status: 'SENDING',
+          dispatchedAt: { not: null },
+        },
+        data: { status: 'SENT', completedAt: new Date() },
+      });
+    }
+  }
+
+  private async findCampaign(id: string, organizationId: string) {
+    const campaign = await this.prismaService.campaign.findFirst({
+      where: {
+        id,
+        companyId: organizationId,
+      },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    return campaign;
+  }
+
+  private async assertSegment(
+    segmentId: string,
+    organizationId: string,
+  ): Promise<void> {
+    const segment = await this.prismaService.customerSegment.findFirst({
+      where: {
+        id: segmentId,
+        companyId: organizationId,
+      },
+    });
+
+    if (!segment) {
+      throw new NotFoundException('Customer segment not found');
+    }
+  }
+
+  private assertSubject(channel: CampaignChannel, subject?: string): void {
+    if (channel === CampaignChannel.EMAIL && !subject) {
+      throw new BadRequestException('Email campaigns need a subject');
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+
+import { CurrentUser, Roles, requiresOrganization } from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+import { PaginationQueryDto } from '../common/dto/pagination.dto';
+
+import { CustomerSegmentsService } from './customer-segments.service';
+import { CreateSegmentDto, UpdateSegmentDto, SegmentFiltersDto } from './dto';
+
+@ApiTags('Customer Segments')
+@ApiBearerAuth('Auth0')
+@Controller('customer-segments')
+@UseGuards(Auth0Guard)
+export class CustomerSegmentsController {
+  constructor(
+    private readonly customerSegmentsService: CustomerSegmentsService,
+  ) {}
+
+  @Post()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Create customer segment',
+    description:
+      'Saves customer filters over order stats, VIP flag, branch, loyalty tier, preferences and last order date',
+  })
+  @ApiResponse({ status: 201, description: 'Segment created' })
+  @ApiResponse({ status: 409, description: 'Segment name already in use' })
+  create(
+    @Body() createSegmentDto: CreateSegmentDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.customerSegmentsService.createSegment(
+      createSegmentDto,
+      user.organizationId,
+      user.auth0Id,
+    );
+  }
+
+  @Post('preview')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Preview customer segment',
+    description: 'Counts the customers a set of filters matches',
+  })
+  @ApiResponse({ status: 201, description: 'Matching customer count' })
+  preview(
+    @Body() filters: SegmentFiltersDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.customerSegmentsService.previewSegment(
+      filters,
+      user.organizationId,
+    );
+  }
+
+  @Get()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'List customer segments',
+    description: 'Returns saved segments with their current customer counts',
+  })
+  @ApiResponse({ status: 200, description: 'List of segments' })
+  findAll(@CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.customerSegmentsService.listSegments(user.organizationId);
+  }
+
+  @Get(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Get customer segment',
+    description: 'Returns a segment with its current customer count',
+  })
+  @ApiParam({ name: 'id', description: 'Segment UUID' })
+  @ApiResponse({ status: 200, description: 'Segment details' })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  findOne(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.customerSegmentsService.getSegmentById(id, user.organizationId);
+  }
+
+  @Get(':id/customers')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'List segment customers',
+    description: 'Returns the customers the segment currently matches',
+  })
+  @ApiParam({ name: 'id', description: 'Segment UUID' })
+  @ApiResponse({ status: 200, description: 'Paginated customers' })
+  listCustomers(
+    @Param('id') id: string,
+    @Query() query: PaginationQueryDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.customerSegmentsService.listSegmentCustomers(
+      id,
+      user.organizationId,
+      query,
+    );
+  }
+
+  @Patch(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Update customer segment',
+    description: 'Updates a segment; filters are replaced when provided',
+  })
+  @ApiParam({ name: 'id', description: 'Segment UUID' })
+  @ApiResponse({ status: 200, description: 'Segment updated' })
+  update(
+    @Param('id') id: string,
+    @Body() updateSegmentDto: UpdateSegmentDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.customerSegmentsService.updateSegment(
+      id,
+      updateSegmentDto,
+      user.organizationId,
+    );
+  }
+
+  @Delete(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Delete customer segment',
+    description: 'Deletes a segment that no campaign uses',
+  })
+  @ApiParam({ name: 'id', description: 'Segment UUID' })
+  @ApiResponse({ status: 200, description: 'Segment deleted' })
+  @ApiResponse({ status: 409, description: 'Segment is used by a campaign' })
+  remove(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.customerSegmentsService.deleteSegment(id, user.organizationId);
+  }
+}
@@ -0,0 +1,348 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PaginationQueryDto } from '../common/dto/pagination.dto';
+import { PaginationService } from '../common/services/pagination.service';
+import { PrismaService } from '../database/prisma.service';
+import { CacheService } from '../services/cache';
+
+import { CreateSegmentDto, UpdateSegmentDto, SegmentFiltersDto } from './dto';
+import { buildSegmentWhere } from './segment-filter';
+
+@Injectable()
+export class CustomerSegmentsService {
+  private readonly logger = new Logger(CustomerSegmentsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * Save a customer segment
+   */
+  async createSegment(
+    dto: CreateSegmentDto,
+    companyId: string,
+    creatorId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    this.assertFilters(dto.filters);
+    await this.assertUniqueName(organization.id, dto.name);
+
+    const creator = await this.prismaService.user.findUnique({
+      where: { auth0UserId: creatorId },
+    });
+
+    const segment = await this.prismaService.customerSegment.create({
+      data: {
+        name: dto.name,
+        description: dto.description ?? null,
+        filters: dto.filters as Prisma.InputJsonValue,
+        companyId: organization.id,
+        createdById: creator?.id ?? null,
+      },
+    });
+
+    this.logger.log(`Customer segment created: ${segment.id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return segment;
+  }
+
+  /**
+   * List segments with how many customers each currently matches
+   */
+  async listSegments(companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const segments = await this.prismaService.customerSegment.findMany({
+      where: { companyId: organization.id },
+      orderBy: { name: 'asc' },
+    });
+
+    return Promise.all(
+      segments.map(async (segment) => ({
+        ...segment,
+        customerCount: await this.prismaService.organizationCustomer.count({
+          where: buildSegmentWhere(
+            organization.id,
+            segment.filters as SegmentFiltersDto,
+          ),
+        }),
+      })),
+    );
+  }
+
+  /**
+   * Get a segment with how many customers it currently matches
+   */
+  async getSegmentById(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const segment = await this.findSegment(id, organization.id);
+
+    const customerCount = await this.prismaService.organizationCustomer.count({
+      where: buildSegmentWhere(
+        organization.id,
+        segment.filters as SegmentFiltersDto,
+      ),
+    });
+
+    return { ...segment, customerCount };
+  }
+
+  /**
+   * Count the customers a set of filters matches, without saving a segment
+   */
+  async previewSegment(
+    filters: SegmentFiltersDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    this.assertFilters(filters);
+
+    const customerCount = await this.prismaService.organizationCustomer.count({
+      where: buildSegmentWhere(organization.id, filters),
+    });
+
+    return { filters, customerCount };
+  }
+
+  /**
+   * List the customers a segment currently matches
+   */
+  async listSegmentCustomers(
+    id: string,
+    companyId: string,
+    query: PaginationQueryDto,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const segment = await this.findSegment(id, organization.id);
+
+    const { limit = 20, cursor } = query;
+
+    let cursorCondition = {};
+    if (cursor) {
+      const decodedCursor = this.paginationService.decodeCursor(cursor);
+      if (decodedCursor && typeof decodedCursor.tieBreakerValue === 'string') {
+        cursorCondition = {
+          id: { gt: decodedCursor.tieBreakerValue },
+        };
+      }
+    }
+
+    const customers = await this.prismaService.organizationCustomer.findMany({
+      where: {
+        ...buildSegmentWhere(
+          organization.id,
+          segment.filters as SegmentFiltersDto,
+        ),
+        ...cursorCondition,
+      },
+      include: {
+        customer: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            fullName: true,
+            email: true,
+            phone: true,
+          },
+        },
+      },
+      orderBy: { id: 'asc' },
+      take: limit + 1,
+    });
+
+    return this.paginationService.buildPaginatedResponse(customers, limit, {
+      cursorField: 'id',
+    });
+  }
+
+  /**
+   * Update a segment; filters are replaced when provided
+   */
+  async updateSegment(
+    id: string,
+    dto: UpdateSegmentDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.findSegment(id, organization.id);
+
+    if (dto.filters) {
+      this.assertFilters(dto.filters);
+    }
+
+    if (dto.name) {
+      await this.assertUniqueName(organization.id, dto.name, id);
+    }
+
+    const segment = await this.prismaService.customerSegment.update({
+      where: { id },
+      data: {
+        ...(dto.name && { name: dto.name }),
+        ...(dto.description !== undefined && {
+          description: dto.description,
+        }),
+        ...(dto.filters && {
+          filters: dto.filters as Prisma.InputJsonValue,
+        }),
+      },
+    });
+
+    this.logger.log(`Customer segment updated: ${id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return segment;
+  }
+
+  /**
+   * Delete a segment that no campaign uses
+   */
+  async deleteSegment(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.findSegment(id, organization.id);
+
+    const campaigns = await this.prismaService.campaign.count({
+      where: { segmentId: id },
+    });
+
+    if (campaigns > 0) {
+      throw new ConflictException(
+        'This segment is used by a campaign and cannot be deleted',
+      );
+    }
+
+    const result = await this.prismaService.customerSegment.delete({
+      where: { id },
+    });
+
+    this.logger.log(`Customer segment deleted: ${id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return result;
+  }
+
+  private async findSegment(id: string, organizationId: string) {
+    const segment = await this.prismaService.customerSegment.findFirst({
+      where: {
+        id,
+        companyId: organizationId,
+      },
+    });
+
+    if (!segment) {
+      throw new NotFoundException('Customer segment not found');
+    }
+
+    return segment;
+  }
+
+  private async assertUniqueName(
+    organizationId: string,
+    name: string,
+    excludeId?: string,
+  ): Promise<void> {
+    const existing = await this.prismaService.customerSegment.findFirst({
+      where: {
+        companyId: organizationId,
+        name,
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        'A customer segment with this name already exists',
+      );
+    }
+  }
+
+  private assertFilters(filters: SegmentFiltersDto): void {
+    const ranges: Array<[number | undefined, number | undefined, string]> = [
+      [filters.minTotalOrders, filters.maxTotalOrders, 'total orders'],
+      [filters.minTotalSpent, filters.maxTotalSpent, 'total spent'],
+    ];
+
+    for (const [min, max, label] of ranges) {
+      if (min !== undefined && max !== undefined && min > max) {
+        throw new BadRequestException(
+          `The minimum ${label} cannot exceed the maximum`,
+        );
+      }
+    }
+
+    if (
+      filters.orderedWithinDays !== undefined &&
+      filters.notOrderedForDays !== undefined &&
+      filters.orderedWithinDays <= filters.notOrderedForDays
+    ) {
+      throw new BadRequestException(
+        'orderedWithinDays must be greater than notOrderedForDays',
+      );
+    }
+  }
+}
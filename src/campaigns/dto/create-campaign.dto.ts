@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsEnum,
+  IsOptional,
+} from 'class-validator';
+
+export enum CampaignChannel {
+  EMAIL = 'EMAIL',
+  SMS = 'SMS',
+}
+
+export class CreateCampaignDto {
+  @ApiProperty({
+    description: 'Campaign name (e.g., Weekend brunch launch)',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiProperty({ description: 'Segment to send to' })
+  @IsString()
+  @IsNotEmpty()
+  segmentId!: string;
+
+  @ApiProperty({ description: 'Delivery channel', enum: CampaignChannel })
+  @IsEnum(CampaignChannel)
+  channel!: CampaignChannel;
+
+  @ApiPropertyOptional({
+    description: 'Email subject (required for email campaigns)',
+    maxLength: 200,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  subject?: string;
+
+  @ApiProperty({
+    description:
+      "Message text. {{firstName}} is replaced with the customer's first name",
+    maxLength: 5000,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body!: string;
+}
@@ -0,0 +1,33 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsOptional,
+  ValidateNested,
+} from 'class-validator';
+
+import { SegmentFiltersDto } from './segment-filters.dto';
+
+export class CreateSegmentDto {
+  @ApiProperty({
+    description: 'Segment name (e.g., Lapsed regulars)',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiPropertyOptional({ description: 'Segment description' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ description: 'Customer filters', type: SegmentFiltersDto })
+  @ValidateNested()
+  @Type(() => SegmentFiltersDto)
+  filters!: SegmentFiltersDto;
+}
@@ -0,0 +1,5 @@
+export * from './segment-filters.dto';
+export * from './create-segment.dto';
+export * from './update-segment.dto';
+export * from './create-campaign.dto';
+export * from './update-campaign.dto';
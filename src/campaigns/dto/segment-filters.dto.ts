@@ -0,0 +1,131 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNumber,
+  IsInt,
+  Min,
+  IsArray,
+  ArrayUnique,
+  IsOptional,
+  IsBoolean,
+} from 'class-validator';
+
+/**
+ * Customer filters; a customer must match every filter that is set
+ */
+export class SegmentFiltersDto {
+  @ApiPropertyOptional({ description: 'At least this many orders' })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(0)
+  minTotalOrders?: number;
+
+  @ApiPropertyOptional({ description: 'At most this many orders' })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(0)
+  maxTotalOrders?: number;
+
+  @ApiPropertyOptional({ description: 'Spent at least this much in total' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0)
+  minTotalSpent?: number;
+
+  @ApiPropertyOptional({ description: 'Spent at most this much in total' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0)
+  maxTotalSpent?: number;
+
+  @ApiPropertyOptional({ description: 'Average order value of at least' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0)
+  minAverageOrderValue?: number;
+
+  @ApiPropertyOptional({ description: 'At least this many loyalty points' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0)
+  minLoyaltyPoints?: number;
+
+  @ApiPropertyOptional({ description: 'Only VIPs (true) or non-VIPs (false)' })
+  @IsOptional()
+  @IsBoolean()
+  isVIP?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Customers whose most-visited branch is one of these',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  branchIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Customers in one of these loyalty tiers',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  loyaltyTierIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Ordered within the last N days',
+    example: 30,
+  })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  orderedWithinDays?: number;
+
+  @ApiPropertyOptional({
+    description: "Haven't ordered for at least N days (lapsed customers)",
+    example: 60,
+  })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  notOrderedForDays?: number;
+
+  @ApiPropertyOptional({
+    description: 'Has all of these dietary restrictions (e.g. VEGAN)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  dietaryRestrictions?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Has all of these allergies',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allergies?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Has all of these among their favourite menu items',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  favoriteItems?: string[];
+}
@@ -0,0 +1,45 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsEnum,
+  IsOptional,
+} from 'class-validator';
+
+import { CampaignChannel } from './create-campaign.dto';
+
+export class UpdateCampaignDto {
+  @ApiPropertyOptional({ description: 'Campaign name', maxLength: 100 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Segment to send to' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  segmentId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Delivery channel',
+    enum: CampaignChannel,
+  })
+  @IsOptional()
+  @IsEnum(CampaignChannel)
+  channel?: CampaignChannel;
+
+  @ApiPropertyOptional({ description: 'Email subject', maxLength: 200 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  subject?: string;
+
+  @ApiPropertyOptional({ description: 'Message text', maxLength: 5000 })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body?: string;
+}
@@ -0,0 +1,33 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  MaxLength,
+  IsOptional,
+  ValidateNested,
+} from 'class-validator';
+
+import { SegmentFiltersDto } from './segment-filters.dto';
+
+export class UpdateSegmentDto {
+  @ApiPropertyOptional({ description: 'Segment name', maxLength: 100 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Segment description' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Customer filters; replaces the existing filters',
+    type: SegmentFiltersDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SegmentFiltersDto)
+  filters?: SegmentFiltersDto;
+}
@@ -0,0 +1,7 @@
+export * from './dto';
+export * from './campaigns.controller';
+export * from './campaigns.module';
+export * from './campaigns.service';
+export * from './customer-segments.controller';
+export * from './customer-segments.service';
+export * from './segment-filter';
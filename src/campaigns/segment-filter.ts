@@ -0,0 +1,75 @@
+import { Prisma } from '../../generated/prisma';
+
+import { SegmentFiltersDto } from './dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Turn a segment's filters into a query over an organization's customers
+ *
+ * Relative filters ("ordered within 30 days") are evaluated against `now`, so
+ * a saved segment picks up new customers and drops others as time passes.
+ */
+export function buildSegmentWhere(
+  organizationId: string,
+  filters: SegmentFiltersDto,
+  now: Date = new Date(),
+): Prisma.OrganizationCustomerWhereInput {
+  const range = <T>(min?: T, max?: T) =>
+    min !== undefined || max !== undefined
+      ? {
+          ...(min !== undefined && { gte: min }),
+          ...(max !== undefined && { lte: max }),
+        }
+      : undefined;
+
+  const totalOrders = range(filters.minTotalOrders, filters.maxTotalOrders);
+  const totalSpent = range(filters.minTotalSpent, filters.maxTotalSpent);
+  const lastOrderAt = {
+    ...(filters.orderedWithinDays !== undefined && {
+      gte: new Date(now.getTime() - filters.orderedWithinDays * DAY_MS),
+    }),
+    ...(filters.notOrderedForDays !== undefined && {
+      lt: new Date(now.getTime() - filters.notOrderedForDays * DAY_MS),
+    }),
+  };
+
+  const preferences: Prisma.CustomerPreferenceWhereInput = {
+    ...(filters.dietaryRestrictions?.length && {
+      dietaryRestrictions: { array_contains: filters.dietaryRestrictions },
+    }),
+    ...(filters.allergies?.length && {
+      allergies: { array_contains: filters.allergies },
+    }),
+    ...(filters.favoriteItems?.length && {
+      favoriteItems: { array_contains: filters.favoriteItems },
+    }),
+  };
+
+  return {
+    organizationId,
+    ...(totalOrders && { totalOrders }),
+    ...(totalSpent && { totalSpent }),
+    ...(filters.minAverageOrderValue !== undefined && {
+      averageOrderValue: { gte: filters.minAverageOrderValue },
+    }),
+    ...(filters.minLoyaltyPoints !== undefined && {
+      loyaltyPoints: { gte: filters.minLoyaltyPoints },
+    }),
+    ...(filters.isVIP !== undefined && { isVIP: filters.isVIP }),
+    ...(filters.branchIds?.length && {
+      branchId: { in: filters.branchIds },
+    }),
+    ...(filters.loyaltyTierIds?.length && {
+      loyaltyTierId: { in: filters.loyaltyTierIds },
+    }),
+    ...(Object.keys(lastOrderAt).length > 0 && { lastOrderAt }),
+    ...(Object.keys(preferences).length > 0 && {
+      customer: {
+        preferences: {
+          some: { organizationId, ...preferences },
+        },
+      },
+    }),
+  };
+}
@@ -42,6 +42,7 @@ export class CompanySettingsService {
           autoPropagateApprovedMenus: true,
           targetMarginThreshold: new Prisma.Decimal(0.3), // 30%
           expiresSoonWarningDays: 7,
+          reorderWindowDays: 28,
         },
       });
     }
@@ -85,6 +86,9 @@ export class CompanySettingsService {
         ...(dto.targetMarginThreshold !== undefined && {
           targetMarginThreshold: new Prisma.Decimal(dto.targetMarginThreshold),
         }),
+        ...(dto.reorderWindowDays !== undefined && {
+          reorderWindowDays: dto.reorderWindowDays,
+        }),
       },
     });
 
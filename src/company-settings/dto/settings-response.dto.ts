@@ -19,6 +19,11 @@ export class SettingsResponseDto {
   @ApiPropertyOptional({ description: 'Target margin threshold' })
   targetMarginThreshold?: number | null;
 
+  @ApiProperty({
+    description: 'Days of consumption behind reorder suggestions',
+  })
+  reorderWindowDays!: number;
+
   @ApiProperty({ description: 'Company ID' })
   companyId!: string;
 
@@ -1,6 +1,13 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
-import { IsBoolean, IsOptional, IsNumber, Min, Max } from 'class-validator';
+import {
+  IsBoolean,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
 
 export class UpdateSettingsDto {
   @ApiPropertyOptional({
@@ -44,4 +51,17 @@ export class UpdateSettingsDto {
   @Min(0)
   @Max(1)
   targetMarginThreshold?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Days of consumption history used to work out reorder suggestions',
+    minimum: 1,
+    maximum: 365,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  reorderWindowDays?: number;
 }
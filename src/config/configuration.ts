@@ -92,6 +92,16 @@ export default registerAs('app', () => {
       apiKey: process.env['SMS_SERVICE_API_KEY'],
     },
 
+    whatsapp: {
+      provider: process.env['WHATSAPP_PROVIDER'] || 'mock', // 'cloud' or 'mock'
+      accessToken: process.env['WHATSAPP_ACCESS_TOKEN'],
+      phoneNumberId: process.env['WHATSAPP_PHONE_NUMBER_ID'],
+      apiVersion: process.env['WHATSAPP_API_VERSION'] || 'v21.0',
+      templateLanguage: process.env['WHATSAPP_TEMPLATE_LANGUAGE'] || 'en',
+      appSecret: process.env['WHATSAPP_APP_SECRET'], // Verifies inbound webhook signatures
+      verifyToken: process.env['WHATSAPP_VERIFY_TOKEN'], // Webhook subscription handshake
+    },
+
     // Logging
     logging: {
       level: process.env['LOG_LEVEL'],
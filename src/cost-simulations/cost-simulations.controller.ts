@@ -0,0 +1,117 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+
+import { CurrentUser, Roles, requiresOrganization } from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+import { PaginationQueryDto } from '../common/dto/pagination.dto';
+
+import { CostSimulationsService } from './cost-simulations.service';
+import { CreateCostSimulationDto } from './dto';
+
+@ApiTags('Cost Simulations')
+@ApiBearerAuth('Auth0')
+@Controller('cost-simulations')
+@UseGuards(Auth0Guard)
+export class CostSimulationsController {
+  constructor(
+    private readonly costSimulationsService: CostSimulationsService,
+  ) {}
+
+  @Post()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Run cost simulation',
+    description:
+      'Saves hypothetical ingredient unit costs and recomputes the cost and margin of every affected menu item. Live recipes and menu items are not modified. Results below the target margin threshold are flagged.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Cost simulation created with per-menu-item results',
+  })
+  @ApiResponse({ status: 404, description: 'Ingredient not found' })
+  createSimulation(
+    @Body() createCostSimulationDto: CreateCostSimulationDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.costSimulationsService.createSimulation(
+      createCostSimulationDto,
+      user.organizationId,
+      user.auth0Id,
+    );
+  }
+
+  @Get()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'List cost simulations',
+    description: 'Returns paginated list of saved cost simulations',
+  })
+  @ApiResponse({ status: 200, description: 'Paginated list of simulations' })
+  listSimulations(
+    @CurrentUser() user: UserPayload,
+    @Query() paginationQuery: PaginationQueryDto,
+  ) {
+    requiresOrganization(user);
+    return this.costSimulationsService.listSimulations(
+      user.organizationId,
+      paginationQuery,
+    );
+  }
+
+  @Get(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Get cost simulation',
+    description:
+      'Returns simulated ingredient costs and per-menu-item results, worst margin change first',
+  })
+  @ApiParam({ name: 'id', description: 'Cost simulation ID' })
+  @ApiResponse({ status: 200, description: 'Cost simulation details' })
+  @ApiResponse({ status: 404, description: 'Cost simulation not found' })
+  getSimulationById(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.costSimulationsService.getSimulationById(
+      id,
+      user.organizationId,
+    );
+  }
+
+  @Delete(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Delete cost simulation',
+    description: 'Deletes a saved cost simulation and its results',
+  })
+  @ApiParam({ name: 'id', description: 'Cost simulation ID' })
+  @ApiResponse({ status: 200, description: 'Cost simulation deleted' })
+  @ApiResponse({ status: 404, description: 'Cost simulation not found' })
+  deleteSimulation(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.costSimulationsService.deleteSimulation(
+      id,
+      user.organizationId,
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+
+import { CommonModule } from '../common/common.module';
+import { CompanySettingsModule } from '../company-settings';
+import { PrismaModule } from '../database';
+import { InventoryModule } from '../inventory/inventory.module';
+
+import { CostSimulationsController } from './cost-simulations.controller';
+import { CostSimulationsService } from './cost-simulations.service';
+
+@Module({
+  imports: [PrismaModule, CommonModule, CompanySettingsModule, InventoryModule],
+  controllers: [CostSimulationsController],
+  providers: [CostSimulationsService],
+  exports: [CostSimulationsService],
+})
+export class CostSimulationsModule {}
@@ -0,0 +1,605 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PaginationQueryDto } from '../common/dto/pagination.dto';
+import { PaginationService } from '../common/services/pagination.service';
+import { CompanySettingsService } from '../company-settings/company-settings.service';
+import { PrismaService } from '../database/prisma.service';
+import { InventoryService } from '../inventory/inventory.service';
+import {
+  ComboOption,
+  computeComboCost,
+  computeModifierBaseline,
+  currentUnitCost,
+  loadModifierGroups,
+} from '../menu/menu-costing';
+
+import { CreateCostSimulationDto } from './dto';
+
+interface SimulatedCost {
+  current: Prisma.Decimal;
+  simulated: Prisma.Decimal;
+  affected: boolean;
+}
+
+interface SimulationCosting {
+  ingredients: Map<
+    string,
+    {
+      id: string;
+      fifoUnitCost: Prisma.Decimal | null;
+      averageUnitCost: Prisma.Decimal | null;
+    }
+  >;
+  simulatedCosts: Map<string, Prisma.Decimal>;
+  recipeCosts: Map<string, SimulatedCost>;
+}
+
+@Injectable()
+export class CostSimulationsService {
+  private readonly logger = new Logger(CostSimulationsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly companySettingsService: CompanySettingsService,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  /**
+   * Create and run a cost simulation
+   */
+  async createSimulation(
+    dto: CreateCostSimulationDto,
+    companyId: string,
+    creatorId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const creator = await this.prismaService.user.findUnique({
+      where: { auth0UserId: creatorId },
+    });
+
+    if (!creator) {
+      throw new NotFoundException('User not found');
+    }
+
+    const ingredientIds = dto.ingredients.map((i) => i.ingredientId);
+    if (new Set(ingredientIds).size !== ingredientIds.length) {
+      throw new BadRequestException('Each ingredient can only appear once');
+    }
+
+    const ingredients = await this.prismaService.ingredient.findMany({
+      where: {
+        id: { in: ingredientIds },
+        companyId: organization.id,
+      },
+    });
+
+    // Resolve each hypothetical unit cost against the live unit cost
+    const simulatedIngredients = dto.ingredients.map((input) => {
+      const ingredient = ingredients.find((i) => i.id === input.ingredientId);
+      if (!ingredient) {
+        throw new NotFoundException(
+          `Ingredient ${input.ingredientId} not found`,
+        );
+      }
+
+      const hasUnitCost = input.simulatedUnitCost !== undefined;
+      const hasPercent = input.percentChange !== undefined;
+      if (hasUnitCost === hasPercent) {
+        throw new BadRequestException(
+          `Provide either simulatedUnitCost or percentChange for ${ingredient.name}`,
+        );
+      }
+
+      const unitCost = currentUnitCost(ingredient);
+      const simulatedUnitCost =
+        input.simulatedUnitCost !== undefined
+          ? new Prisma.Decimal(input.simulatedUnitCost)
+          : unitCost.mul(
+              new Prisma.Decimal(100).add(input.percentChange ?? 0).div(100),
+            );
+
+      return {
+        ingredientId: ingredient.id,
+        currentUnitCost: unitCost.toDecimalPlaces(4),
+        simulatedUnitCost: simulatedUnitCost.toDecimalPlaces(4),
+      };
+    });
+
+    const targetMargin =
+      await this.companySettingsService.getTargetMarginThreshold(companyId);
+
+    const results = await this.simulateMenuItems(
+      organization.id,
+      new Map(
+        simulatedIngredients.map((i) => [i.ingredientId, i.simulatedUnitCost]),
+      ),
+      targetMargin !== null ? new Prisma.Decimal(targetMargin) : null,
+    );
+
+    const simulation = await this.prismaService.costSimulation.create({
+      data: {
+        name: dto.name,
+        description: dto.description ?? null,
+        companyId: organization.id,
+        createdBy: creator.id,
+        ingredients: {
+          create: simulatedIngredients,
+        },
+        results: {
+          create: results,
+        },
+      },
+    });
+
+    this.logger.log(
+      `Cost simulation created: ${simulation.id}, ${results.length} menu items affected`,
+    );
+
+    return this.getSimulationById(simulation.id, companyId);
+  }
+
+  /**
+   * List cost simulations
+   */
+  async listSimulations(
+    companyId: string,
+    paginationQuery?: PaginationQueryDto,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const { limit = 20, cursor, orderDir = 'desc' } = paginationQuery ?? {};
+
+    let cursorCondition = {};
+    if (cursor) {
+      const decodedCursor = this.paginationService.decodeCursor(cursor);
+      if (decodedCursor && typeof decodedCursor.tieBreakerValue === 'string') {
+        cursorCondition = {
+          id:
+            orderDir === 'desc'
+              ? { lt: decodedCursor.tieBreakerValue }
+              : { gt: decodedCursor.tieBreakerValue },
+        };
+      }
+    }
+
+    const simulations = await this.prismaService.costSimulation.findMany({
+      where: {
+        companyId: organization.id,
+        ...cursorCondition,
+      },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        _count: {
+          select: {
+            ingredients: true,
+            results: true,
+          },
+        },
+      },
+      orderBy: { createdAt: orderDir },
+      take: limit + 1,
+    });
+
+    return this.paginationService.buildPaginatedResponse(simulations, limit, {
+      cursorField: 'id',
+      additionalCursorFields: ['createdAt'],
+    });
+  }
+
+  /**
+   * Get cost simulation with ingredients and per-menu-item results
+   */
+  async getSimulationById(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const simulation = await this.prismaService.costSimulation.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+      },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        ingredients: {
+          include: {
+            ingredient: {
+              select: {
+                id: true,
+                name: true,
+                unit: true,
+              },
+            },
+          },
+        },
+        results: {
+          include: {
+            menuItem: {
+              select: {
+                id: true,
+                name: true,
+                basePrice: true,
+              },
+            },
+            menuVariant: {
+              select: {
+                id: true,
+                name: true,
+                price: true,
+              },
+            },
+          },
+          orderBy: { marginChange: 'asc' },
+        },
+      },
+    });
+
+    if (!simulation) {
+      throw new NotFoundException('Cost simulation not found');
+    }
+
+    return {
+      ...simulation,
+      summary: {
+        affectedMenuItems: simulation.results.length,
+        belowTargetMargin: simulation.results.filter((r) => r.belowTargetMargin)
+          .length,
+      },
+    };
+  }
+
+  /**
+   * Delete cost simulation
+   */
+  async deleteSimulation(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const simulation = await this.prismaService.costSimulation.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+      },
+    });
+
+    if (!simulation) {
+      throw new NotFoundException('Cost simulation not found');
+    }
+
+    const result = await this.prismaService.costSimulation.delete({
+      where: { id },
+    });
+
+    this.logger.log(`Cost simulation deleted: ${id}`);
+
+    return result;
+  }
+
+  /**
+   * Recompute cost and margin of every menu item and variant whose cost uses
+   * a simulated ingredient, directly, through sub-recipes, baseline modifiers
+   * or combo components. Costed the way the menu is; nothing is written to
+   * the live Recipe/MenuItem rows.
+   */
+  private async simulateMenuItems(
+    organizationId: string,
+    simulatedCosts: Map<string, Prisma.Decimal>,
+    targetMargin: Prisma.Decimal | null,
+  ): Promise<
+    Array<{
+      menuItemId: string;
+      menuVariantId: string | null;
+      currentCost: Prisma.Decimal;
+      simulatedCost: Prisma.Decimal;
+      currentMargin: Prisma.Decimal | null;
+      simulatedMargin: Prisma.Decimal | null;
+      marginChange: Prisma.Decimal;
+      belowTargetMargin: boolean;
+    }>
+  > {
+    const ingredients = await this.prismaService.ingredient.findMany({
+      where: { companyId: organizationId },
+      select: { id: true, fifoUnitCost: true, averageUnitCost: true },
+    });
+    const costing: SimulationCosting = {
+      ingredients: new Map(ingredients.map((i) => [i.id, i])),
+      simulatedCosts,
+      recipeCosts: new Map(),
+    };
+
+    const menuItems = await this.prismaService.menuItem.findMany({
+      where: {
+        companyId: organizationId,
+        isActive: true,
+      },
+      include: {
+        recipe: true,
+        variants: {
+          where: { isActive: true },
+          include: { recipe: true },
+        },
+      },
+    });
+
+    const results = [];
+    for (const menuItem of menuItems) {
+      const entries = [
+        {
+          menuVariantId: null as string | null,
+          cost: await this.getMenuItemCost(menuItem, costing),
+          price: menuItem.basePrice,
+        },
+      ];
+
+      if (menuItem.type !== 'COMBO') {
+        for (const variant of menuItem.variants) {
+          const recipe = variant.recipe ?? menuItem.recipe;
+          entries.push({
+            menuVariantId: variant.id,
+            cost: recipe
+              ? this.getPortionCost(
+                  await this.getRecipeCost(recipe.id, costing),
+                  recipe.yieldQuantity,
+                  variant.portionMultiplier,
+                )
+              : null,
+            price: variant.price,
+          });
+        }
+      }
+
+      if (entries.every(({ cost }) => !cost)) {
+        continue;
+      }
+
+      // Baseline modifiers (defaults and required choices) are part of the item
+      const modifiers = await this.getModifierCost(menuItem.id, costing);
+
+      for (const { menuVariantId, cost, price } of entries) {
+        if (!cost || !(cost.affected || modifiers.affected)) {
+          continue;
+        }
+
+        const currentPrice = price.add(modifiers.currentPriceDelta);
+        const simulatedPrice = price.add(modifiers.simulatedPriceDelta);
+        const currentCost = cost.current.add(modifiers.current);
+        const simulatedCost = cost.simulated.add(modifiers.simulated);
+        const currentMargin = currentPrice.gt(0)
+          ? currentPrice.sub(currentCost).div(currentPrice)
+          : null;
+        const simulatedMargin = simulatedPrice.gt(0)
+          ? simulatedPrice.sub(simulatedCost).div(simulatedPrice)
+          : null;
+
+        results.push({
+          menuItemId: menuItem.id,
+          menuVariantId,
+          currentCost: currentCost.toDecimalPlaces(2),
+          simulatedCost: simulatedCost.toDecimalPlaces(2),
+          currentMargin: currentMargin?.toDecimalPlaces(2) ?? null,
+          simulatedMargin: simulatedMargin?.toDecimalPlaces(2) ?? null,
+          marginChange:
+            currentMargin && simulatedMargin
+              ? simulatedMargin.sub(currentMargin).toDecimalPlaces(2)
+              : new Prisma.Decimal(0),
+          belowTargetMargin:
+            targetMargin !== null &&
+            simulatedMargin !== null &&
+            simulatedMargin.lt(targetMargin),
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Current and simulated cost of one yield batch of a recipe, expanded
+   * through its sub-recipes as production and orders consume it
+   */
+  private async getRecipeCost(
+    recipeId: string,
+    costing: SimulationCosting,
+  ): Promise<SimulatedCost> {
+    const cached = costing.recipeCosts.get(recipeId);
+    if (cached) {
+      return cached;
+    }
+
+    const cost: SimulatedCost = {
+      current: new Prisma.Decimal(0),
+      simulated: new Prisma.Decimal(0),
+      affected: false,
+    };
+    for (const item of await this.inventoryService.expandRecipe(
+      recipeId,
+      new Prisma.Decimal(1),
+    )) {
+      const ingredient = costing.ingredients.get(item.ingredientId);
+      const current = ingredient
+        ? currentUnitCost(ingredient)
+        : new Prisma.Decimal(0);
+      const simulated = costing.simulatedCosts.get(item.ingredientId);
+
+      cost.current = cost.current.add(current.mul(item.qty));
+      cost.simulated = cost.simulated.add((simulated ?? current).mul(item.qty));
+      cost.affected ||= simulated !== undefined;
+    }
+
+    costing.recipeCosts.set(recipeId, cost);
+    return cost;
+  }
+
+  private getPortionCost(
+    recipeCost: SimulatedCost,
+    yieldQuantity: Prisma.Decimal,
+    portionMultiplier: Prisma.Decimal,
+  ): SimulatedCost {
+    return {
+      current: recipeCost.current.div(yieldQuantity).mul(portionMultiplier),
+      simulated: recipeCost.simulated.div(yieldQuantity).mul(portionMultiplier),
+      affected: recipeCost.affected,
+    };
+  }
+
+  /**
+   * Current and simulated cost of a menu item before modifiers: a portion of
+   * its recipe, or a combo's components
+   */
+  private async getMenuItemCost(
+    menuItem: {
+      id: string;
+      type: string;
+      portionMultiplier: Prisma.Decimal;
+      recipe: { id: string; yieldQuantity: Prisma.Decimal } | null;
+    },
+    costing: SimulationCosting,
+  ): Promise<SimulatedCost | null> {
+    if (menuItem.type === 'COMBO') {
+      let affected = false;
+      const optionCost =
+        (simulated: boolean) =>
+        async (option: ComboOption): Promise<Prisma.Decimal | null> => {
+          const cost = await this.getComboOptionCost(option, costing);
+          affected ||= cost?.affected ?? false;
+          return cost && (simulated ? cost.simulated : cost.current);
+        };
+
+      const current = await computeComboCost(
+        this.prismaService,
+        menuItem.id,
+        optionCost(false),
+      );
+      const simulated = await computeComboCost(
+        this.prismaService,
+        menuItem.id,
+        optionCost(true),
+      );
+
+      return current && simulated ? { current, simulated, affected } : null;
+    }
+
+    if (!menuItem.recipe) {
+      return null;
+    }
+
+    return this.getPortionCost(
+      await this.getRecipeCost(menuItem.recipe.id, costing),
+      menuItem.recipe.yieldQuantity,
+      menuItem.portionMultiplier,
+    );
+  }
+
+  /**
+   * A combo option at a variant's recipe portion, otherwise at the item's
+   * cost with its baseline modifiers. Nested combos keep their stored cost.
+   */
+  private async getComboOptionCost(
+    option: ComboOption,
+    costing: SimulationCosting,
+  ): Promise<SimulatedCost | null> {
+    const variant = option.menuVariant;
+    const recipe = variant?.recipe ?? option.menuItem.recipe;
+    if (variant && recipe) {
+      return this.getPortionCost(
+        await this.getRecipeCost(recipe.id, costing),
+        recipe.yieldQuantity,
+        variant.portionMultiplier,
+      );
+    }
+
+    if (option.menuItem.type === 'COMBO') {
+      const stored = option.menuItem.computedCost;
+      return stored && { current: stored, simulated: stored, affected: false };
+    }
+
+    const cost = await this.getMenuItemCost(option.menuItem, costing);
+    if (!cost) {
+      return null;
+    }
+
+    const modifiers = await this.getModifierCost(option.menuItem.id, costing);
+    return {
+      current: cost.current.add(modifiers.current),
+      simulated: cost.simulated.add(modifiers.simulated),
+      affected: cost.affected || modifiers.affected,
+    };
+  }
+
+  /**
+   * Current and simulated cost and price of a menu item's baseline modifiers
+   */
+  private async getModifierCost(
+    menuItemId: string,
+    costing: SimulationCosting,
+  ): Promise<
+    SimulatedCost & {
+      currentPriceDelta: Prisma.Decimal;
+      simulatedPriceDelta: Prisma.Decimal;
+    }
+  > {
+    const groups = await loadModifierGroups(this.prismaService, menuItemId);
+    const current = computeModifierBaseline(groups).baseline;
+    const simulated = computeModifierBaseline(
+      groups,
+      (ingredient) =>
+        costing.simulatedCosts.get(ingredient.id) ??
+        currentUnitCost(ingredient),
+    ).baseline;
+
+    return {
+      current: current.costDelta,
+      simulated: simulated.costDelta,
+      affected: groups.some((group) =>
+        group.modifiers.some((modifier) =>
+          modifier.ingredients.some((mi) =>
+            costing.simulatedCosts.has(mi.ingredientId),
+          ),
+        ),
+      ),
+      currentPriceDelta: current.priceDelta,
+      simulatedPriceDelta: simulated.priceDelta,
+    };
+  }
+}
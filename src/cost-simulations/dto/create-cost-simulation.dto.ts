@@ -0,0 +1,66 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsNumber,
+  Min,
+  IsOptional,
+  IsArray,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+
+export class SimulatedIngredientDto {
+  @ApiProperty({ description: 'Ingredient ID' })
+  @IsString()
+  @IsNotEmpty()
+  ingredientId!: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Hypothetical unit cost. Provide either this or percentChange.',
+    example: 12.5,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  simulatedUnitCost?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Percentage change applied to the current unit cost (e.g. 30 for +30%, -10 for -10%)',
+    example: 30,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(-100)
+  percentChange?: number;
+}
+
+export class CreateCostSimulationDto {
+  @ApiProperty({ description: 'Simulation name', maxLength: 100 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiPropertyOptional({ description: 'Simulation description' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({
+    description: 'Ingredients with hypothetical unit costs',
+    type: [SimulatedIngredientDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => SimulatedIngredientDto)
+  ingredients!: SimulatedIngredientDto[];
+}
@@ -0,0 +1 @@
+export * from './create-cost-simulation.dto';
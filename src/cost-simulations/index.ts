@@ -0,0 +1,4 @@
+export * from './dto';
+export * from './cost-simulations.controller';
+export * from './cost-simulations.service';
+export * from './cost-simulations.module';
@@ -76,7 +76,8 @@ export class CustomerAnalyticsController {
   @Roles(UserRole.OWNER, UserRole.MANAGER)
   @ApiOperation({
     summary: 'Get customer insights',
-    description: 'Returns detailed insights for a specific customer',
+    description:
+      'Returns order history, favourite items, visit frequency, preferred branch and RFM score for a customer',
   })
   @ApiParam({ name: 'customerId', description: 'Customer UUID' })
   @ApiResponse({ status: 200, description: 'Customer insights' })
@@ -149,6 +149,32 @@ export class ConsentService {
     return updated;
   }
 
+  /**
+   * Whether the customer has withdrawn consent for a channel, either for the
+   * organization or globally
+   */
+  async hasWithdrawnConsent(
+    customerId: string,
+    organizationId: string,
+    channel: 'EMAIL' | 'SMS' | 'WHATSAPP',
+  ): Promise<boolean> {
+    const consents = await this.prismaService.customerConsent.findMany({
+      where: {
+        customerId,
+        OR: [{ organizationId }, { organizationId: null }],
+        withdrawnAt: { not: null },
+      },
+    });
+
+    return consents.some((consent) =>
+      channel === 'EMAIL'
+        ? !consent.marketingEmails
+        : channel === 'SMS'
+          ? !consent.smsNotifications
+          : !consent.whatsappMessages,
+    );
+  }
+
   /**
    * Get consent status
    */
@@ -3,6 +3,8 @@ import { Injectable, NotFoundException } from '@nestjs/common';
 import { Prisma } from '../../../generated/prisma';
 import { PrismaService } from '../../database/prisma.service';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 @Injectable()
 export class CustomerAnalyticsService {
   constructor(private readonly prismaService: PrismaService) {}
@@ -195,19 +197,32 @@ export class CustomerAnalyticsService {
 
   /**
    * Get customer insights
+   *
+   * Favourite items, visit frequency and preferred branch come from the
+   * customer's orders; voided orders don't count. RFM scores rank the customer
+   * from 1 to 5 against the organization's other ordering customers on how
+   * recently, how often and how much they order.
    */
   async getCustomerInsights(
     customerId: string,
-    organizationId: string,
+    companyId: string,
   ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
     const customer = await this.prismaService.transactionCustomer.findUnique({
       where: { id: customerId },
       include: {
         organizationCustomers: {
-          where: { organizationId },
+          where: { organizationId: organization.id },
         },
         preferences: {
-          where: { organizationId },
+          where: { organizationId: organization.id },
         },
       },
     });
@@ -224,8 +239,62 @@ export class CustomerAnalyticsService {
       );
     }
 
-    // TODO: Get order history when Order model is created
-    // const orders = await this.getCustomerOrders(customerId, organizationId);
+    const orderWhere: Prisma.OrderWhereInput = {
+      customerId,
+      companyId: organization.id,
+      status: { not: 'VOIDED' },
+    };
+
+    const [recentOrders, itemGroups, branchGroups] = await Promise.all([
+      this.prismaService.order.findMany({
+        where: {
+          customerId,
+          companyId: organization.id,
+        },
+        select: {
+          id: true,
+          status: true,
+          type: true,
+          total: true,
+          createdAt: true,
+          branch: { select: { id: true, name: true } },
+          _count: { select: { lines: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+      }),
+      this.prismaService.orderLine.groupBy({
+        by: ['menuItemId'],
+        where: { order: orderWhere },
+        _sum: { quantity: true, lineTotal: true },
+        _count: { orderId: true },
+        orderBy: { _sum: { quantity: 'desc' } },
+        take: 5,
+      }),
+      this.prismaService.order.groupBy({
+        by: ['branchId'],
+        where: orderWhere,
+        _count: { _all: true },
+        _max: { createdAt: true },
+      }),
+    ]);
+
+    const [menuItems, branches] = await Promise.all([
+      this.prismaService.menuItem.findMany({
+        where: { id: { in: itemGroups.map((g) => g.menuItemId) } },
+        select: { id: true, name: true },
+      }),
+      this.prismaService.branch.findMany({
+        where: { id: { in: branchGroups.map((g) => g.branchId) } },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    const preferredBranch = [...branchGroups].sort(
+      (a, b) =>
+        b._count._all - a._count._all ||
+        (b._max.createdAt?.getTime() ?? 0) - (a._max.createdAt?.getTime() ?? 0),
+    )[0];
 
     return {
       customer: {
@@ -247,7 +316,132 @@ export class CustomerAnalyticsService {
         notes: orgCustomer.notes,
       },
       preferences: customer.preferences[0] ?? null,
-      // orderHistory: orders,
+      favouriteItems: itemGroups.map((group) => ({
+        menuItemId: group.menuItemId,
+        name: menuItems.find((m) => m.id === group.menuItemId)?.name ?? null,
+        quantity: group._sum.quantity ?? 0,
+        orders: group._count.orderId,
+        spent: (group._sum.lineTotal ?? new Prisma.Decimal(0)).toString(),
+      })),
+      visitFrequency: this.getVisitFrequency(orgCustomer),
+      preferredBranch: preferredBranch
+        ? {
+            branchId: preferredBranch.branchId,
+            name:
+              branches.find((b) => b.id === preferredBranch.branchId)?.name ??
+              null,
+            orders: preferredBranch._count._all,
+            share:
+              orgCustomer.totalOrders > 0
+                ? preferredBranch._count._all / orgCustomer.totalOrders
+                : 0,
+          }
+        : null,
+      rfm: await this.getRfmScore(orgCustomer),
+      orderHistory: recentOrders.map((order) => ({
+        id: order.id,
+        status: order.status,
+        type: order.type,
+        total: order.total.toString(),
+        lines: order._count.lines,
+        branch: order.branch,
+        createdAt: order.createdAt,
+      })),
+    };
+  }
+
+  private getVisitFrequency(orgCustomer: {
+    totalOrders: number;
+    firstOrderAt: Date | null;
+    lastOrderAt: Date | null;
+  }) {
+    const { totalOrders, firstOrderAt, lastOrderAt } = orgCustomer;
+
+    if (!firstOrderAt || !lastOrderAt) {
+      return {
+        averageDaysBetweenOrders: null,
+        ordersPerMonth: 0,
+        daysSinceLastOrder: null,
+      };
+    }
+
+    const activeDays =
+      (lastOrderAt.getTime() - firstOrderAt.getTime()) / DAY_MS;
+
+    return {
+      averageDaysBetweenOrders:
+        totalOrders > 1
+          ? Math.round((activeDays / (totalOrders - 1)) * 10) / 10
+          : null,
+      // A customer active for under a month is counted over one month
+      ordersPerMonth:
+        Math.round((totalOrders / Math.max(activeDays / 30, 1)) * 10) / 10,
+      daysSinceLastOrder: Math.floor(
+        (Date.now() - lastOrderAt.getTime()) / DAY_MS,
+      ),
+    };
+  }
+
+  /**
+   * Score recency, frequency and monetary value from 1 to 5 by the share of
+   * the organization's ordering customers the customer matches or beats
+   */
+  private async getRfmScore(orgCustomer: {
+    organizationId: string;
+    totalOrders: number;
+    totalSpent: Prisma.Decimal;
+    lastOrderAt: Date | null;
+  }) {
+    if (!orgCustomer.lastOrderAt || orgCustomer.totalOrders === 0) {
+      return null;
+    }
+
+    const base: Prisma.OrganizationCustomerWhereInput = {
+      organizationId: orgCustomer.organizationId,
+      totalOrders: { gt: 0 },
+    };
+
+    const [customers, recency, frequency, monetary] = await Promise.all([
+      this.prismaService.organizationCustomer.count({ where: base }),
+      this.prismaService.organizationCustomer.count({
+        where: { ...base, lastOrderAt: { lte: orgCustomer.lastOrderAt } },
+      }),
+      this.prismaService.organizationCustomer.count({
+        where: { ...base, totalOrders: { lte: orgCustomer.totalOrders } },
+      }),
+      this.prismaService.organizationCustomer.count({
+        where: { ...base, totalSpent: { lte: orgCustomer.totalSpent } },
+      }),
+    ]);
+
+    const score = (matched: number) =>
+      Math.min(5, Math.max(1, Math.ceil((matched / customers) * 5)));
+
+    const r = score(recency);
+    const f = score(frequency);
+    const m = score(monetary);
+
+    let segment: string;
+    if (r >= 4 && f >= 4 && m >= 4) {
+      segment = 'CHAMPION';
+    } else if (r >= 4 && orgCustomer.totalOrders === 1) {
+      segment = 'NEW';
+    } else if (r >= 3 && f >= 3) {
+      segment = 'LOYAL';
+    } else if (r <= 2 && f >= 3) {
+      segment = 'AT_RISK';
+    } else if (r <= 2) {
+      segment = 'HIBERNATING';
+    } else {
+      segment = 'PROMISING';
+    }
+
+    return {
+      recency: r,
+      frequency: f,
+      monetary: m,
+      score: `${r}${f}${m}`,
+      segment,
     };
   }
 }
@@ -1,9 +1,21 @@
 import { Injectable, Logger } from '@nestjs/common';
 
+import { NotificationType, Prisma } from '../../../generated/prisma';
 import { PrismaService } from '../../database/prisma.service';
 import { ORDARO_JOB_TYPES } from '../../services/queue/job-types.enum';
 import { QueueService } from '../../services/queue/queue.service';
 
+type OrderMessageType = 'ORDER_CONFIRMATION' | 'ORDER_READY' | 'RECEIPT';
+
+/**
+ * Approved WhatsApp template names for order messages
+ */
+const WHATSAPP_TEMPLATES: Record<OrderMessageType, string> = {
+  ORDER_CONFIRMATION: 'order_confirmation',
+  ORDER_READY: 'order_ready',
+  RECEIPT: 'order_receipt',
+};
+
 @Injectable()
 export class NotificationService {
   private readonly logger = new Logger(NotificationService.name);
@@ -70,147 +82,258 @@ export class NotificationService {
     orderId: string,
     customerId: string,
     organizationId: string,
+  ): Promise<void> {
+    await this.sendOrderMessage(orderId, customerId, organizationId, 'RECEIPT');
+
+    this.logger.log(
+      `Order receipt sent to customer ${customerId} for order ${orderId}`,
+    );
+  }
+
+  /**
+   * Send order confirmation
+   */
+  async sendOrderConfirmation(
+    orderId: string,
+    customerId: string,
+    organizationId: string,
+  ): Promise<void> {
+    await this.sendOrderMessage(
+      orderId,
+      customerId,
+      organizationId,
+      'ORDER_CONFIRMATION',
+    );
+  }
+
+  /**
+   * Send order ready notification
+   */
+  async sendOrderReady(
+    orderId: string,
+    customerId: string,
+    organizationId: string,
+  ): Promise<void> {
+    await this.sendOrderMessage(
+      orderId,
+      customerId,
+      organizationId,
+      'ORDER_READY',
+    );
+  }
+
+  /**
+   * Tell a customer their points balance changed, by SMS or else email,
+   * if they have consented to either
+   */
+  async sendLoyaltyUpdate(
+    customerId: string,
+    organizationId: string,
+    update: {
+      points: number;
+      balance: number;
+      reason: string;
+      tierName?: string | null;
+    },
   ): Promise<void> {
     const customer = await this.prismaService.transactionCustomer.findUnique({
       where: { id: customerId },
-      include: {
-        organizationCustomers: {
-          where: { organizationId },
-        },
-      },
     });
 
     if (!customer) {
-      this.logger.warn(`Customer not found: ${customerId}`);
       return;
     }
 
-    // TODO: Get order details when Order model is created
-    // const order = await this.getOrderDetails(orderId);
+    const change =
+      update.points >= 0
+        ? `You earned ${update.points} points`
+        : `${-update.points} points were ${update.reason}`;
+    const body = `${change}. Your balance is now ${update.balance} points${update.tierName ? ` (${update.tierName})` : ''}.`;
 
-    // Send via email if consented
+    let channel: 'SMS' | 'EMAIL' | null = null;
     if (
+      customer.phone &&
+      (await this.checkConsent(customerId, organizationId, 'SMS'))
+    ) {
+      channel = 'SMS';
+    } else if (
       customer.email &&
       (await this.checkConsent(customerId, organizationId, 'EMAIL'))
     ) {
-      await this.queueService.addJob(ORDARO_JOB_TYPES.SEND_EMAIL, {
-        to: customer.email,
-        subject: 'Order Receipt',
-        template: 'order-receipt',
-        variables: {
-          customerName: customer.firstName ?? customer.fullName ?? 'Customer',
-          orderId,
-          // orderDetails: order,
-        },
-      });
+      channel = 'EMAIL';
     }
 
-    // Send via SMS if consented
-    if (
-      customer.phone &&
-      (await this.checkConsent(customerId, organizationId, 'SMS'))
-    ) {
-      await this.queueService.addJob(ORDARO_JOB_TYPES.SEND_SMS, {
-        to: customer.phone,
-        message: `Thank you for your order! Order ID: ${orderId}. Receipt sent to email.`,
-      });
+    if (!channel) {
+      return;
     }
 
-    // TODO: WhatsApp integration when implemented
-    // if (customer.phone && await this.checkConsent(customerId, organizationId, 'WHATSAPP')) {
-    //   await this.sendWhatsAppReceipt(customer.phone, orderId);
-    // }
-
-    this.logger.log(
-      `Order receipt sent to customer ${customerId} for order ${orderId}`,
+    await this.queueMessage(
+      customer,
+      organizationId,
+      channel,
+      'LOYALTY_UPDATE',
+      {
+        subject: 'Your points balance',
+        body,
+        metadata: {
+          points: update.points,
+          balance: update.balance,
+          tierName: update.tierName ?? null,
+        },
+      },
     );
   }
 
   /**
-   * Send order confirmation
+   * Send an order message by email and by WhatsApp, falling back to SMS,
+   * on each channel the customer has consented to
    */
-  async sendOrderConfirmation(
+  private async sendOrderMessage(
     orderId: string,
     customerId: string,
     organizationId: string,
+    type: OrderMessageType,
   ): Promise<void> {
     const customer = await this.prismaService.transactionCustomer.findUnique({
       where: { id: customerId },
     });
 
     if (!customer) {
+      this.logger.warn(`Customer not found: ${customerId}`);
+      return;
+    }
+
+    const order = await this.prismaService.order.findUnique({
+      where: { id: orderId },
+      include: { branch: { select: { name: true } } },
+    });
+
+    if (!order) {
+      this.logger.warn(`Order not found: ${orderId}`);
       return;
     }
 
-    // Send via email if consented
+    const customerName = customer.firstName ?? customer.fullName ?? 'Customer';
+    const reference = order.id.slice(0, 8).toUpperCase();
+    const total = order.total.toFixed(2);
+
+    let subject: string;
+    let body: string;
+    let parameters: string[];
+    switch (type) {
+      case 'ORDER_CONFIRMATION':
+        subject = 'Order Confirmation';
+        body = `Hi ${customerName}, your order ${reference} at ${order.branch.name} is confirmed. We'll notify you when it's ready.`;
+        parameters = [customerName, reference, order.branch.name];
+        break;
+      case 'ORDER_READY':
+        subject = 'Order Ready';
+        body =
+          order.type === 'DELIVERY'
+            ? `Hi ${customerName}, your order ${reference} from ${order.branch.name} is ready and on its way.`
+            : `Hi ${customerName}, your order ${reference} is ready for pickup at ${order.branch.name}!`;
+        parameters = [customerName, reference, order.branch.name];
+        break;
+      case 'RECEIPT':
+        subject = 'Order Receipt';
+        body = `Thank you for your order, ${customerName}! Order ${reference} at ${order.branch.name}, total ${total}.`;
+        parameters = [customerName, reference, order.branch.name, total];
+        break;
+    }
+
+    const content = {
+      subject,
+      body,
+      whatsappTemplate: WHATSAPP_TEMPLATES[type],
+      parameters,
+      metadata: { orderId, reference, total },
+    };
+
     if (
       customer.email &&
       (await this.checkConsent(customerId, organizationId, 'EMAIL'))
     ) {
-      await this.queueService.addJob(ORDARO_JOB_TYPES.SEND_EMAIL, {
-        to: customer.email,
-        subject: 'Order Confirmation',
-        template: 'order-confirmation',
-        variables: {
-          customerName: customer.firstName ?? customer.fullName ?? 'Customer',
-          orderId,
-        },
-      });
+      await this.queueMessage(customer, organizationId, 'EMAIL', type, content);
     }
 
-    // Send via SMS if consented
     if (
+      customer.phone &&
+      (await this.checkConsent(customerId, organizationId, 'WHATSAPP'))
+    ) {
+      await this.queueMessage(
+        customer,
+        organizationId,
+        'WHATSAPP',
+        type,
+        content,
+      );
+    } else if (
       customer.phone &&
       (await this.checkConsent(customerId, organizationId, 'SMS'))
     ) {
-      await this.queueService.addJob(ORDARO_JOB_TYPES.SEND_SMS, {
-        to: customer.phone,
-        message: `Order confirmed! Order ID: ${orderId}. We'll notify you when it's ready.`,
-      });
+      await this.queueMessage(customer, organizationId, 'SMS', type, content);
     }
   }
 
   /**
-   * Send order ready notification
+   * Record a notification and queue it for delivery on the notifications
+   * queue; the worker marks it sent or failed
    */
-  async sendOrderReady(
-    orderId: string,
-    customerId: string,
+  private async queueMessage(
+    customer: { id: string; email: string | null; phone: string | null },
     organizationId: string,
+    channel: 'EMAIL' | 'SMS' | 'WHATSAPP',
+    type: NotificationType,
+    content: {
+      subject: string;
+      body: string;
+      whatsappTemplate?: string;
+      parameters?: string[];
+      metadata: Prisma.InputJsonObject;
+    },
   ): Promise<void> {
-    const customer = await this.prismaService.transactionCustomer.findUnique({
-      where: { id: customerId },
+    const notification = await this.prismaService.customerNotification.create({
+      data: {
+        customerId: customer.id,
+        organizationId,
+        channel,
+        type,
+        subject: channel === 'EMAIL' ? content.subject : null,
+        body: content.body,
+        metadata: {
+          ...content.metadata,
+          ...(channel === 'WHATSAPP' && {
+            template: content.whatsappTemplate ?? null,
+            parameters: content.parameters ?? [],
+          }),
+        },
+      },
     });
 
-    if (!customer) {
-      return;
-    }
-
-    // Send via SMS (most common for order ready)
-    if (
-      customer.phone &&
-      (await this.checkConsent(customerId, organizationId, 'SMS'))
-    ) {
-      await this.queueService.addJob(ORDARO_JOB_TYPES.SEND_SMS, {
-        to: customer.phone,
-        message: `Your order ${orderId} is ready for pickup!`,
-      });
-    }
-
-    // Send via email if consented
-    if (
-      customer.email &&
-      (await this.checkConsent(customerId, organizationId, 'EMAIL'))
-    ) {
-      await this.queueService.addJob(ORDARO_JOB_TYPES.SEND_EMAIL, {
-        to: customer.email,
-        subject: 'Order Ready',
-        template: 'order-ready',
-        variables: {
-          customerName: customer.firstName ?? customer.fullName ?? 'Customer',
-          orderId,
-        },
-      });
+    switch (channel) {
+      case 'EMAIL':
+        await this.queueService.addJob(ORDARO_JOB_TYPES.SEND_EMAIL, {
+          to: customer.email,
+          subject: content.subject,
+          text: content.body,
+          notificationId: notification.id,
+        });
+        break;
+      case 'SMS':
+        await this.queueService.addJob(ORDARO_JOB_TYPES.SEND_SMS, {
+          phoneNumber: customer.phone,
+          message: content.body,
+          notificationId: notification.id,
+        });
+        break;
+      case 'WHATSAPP':
+        await this.queueService.addJob(ORDARO_JOB_TYPES.SEND_WHATSAPP, {
+          phoneNumber: customer.phone,
+          template: content.whatsappTemplate,
+          parameters: content.parameters ?? [],
+          notificationId: notification.id,
+        });
+        break;
     }
   }
 }
@@ -0,0 +1,76 @@
+import { Prisma } from '../../../generated/prisma';
+
+/**
+ * Recompute a customer's order stats in an organization from their orders
+ *
+ * Voided orders don't count. The customer is linked to the organization if
+ * they weren't already, and their branch is set to the one they order from
+ * most (the latest order breaks ties).
+ */
+export async function refreshCustomerOrderStats(
+  client: Prisma.TransactionClient,
+  customerId: string,
+  organizationId: string,
+): Promise<void> {
+  const where: Prisma.OrderWhereInput = {
+    customerId,
+    companyId: organizationId,
+    status: { not: 'VOIDED' },
+  };
+
+  const [totals, byBranch] = await Promise.all([
+    client.order.aggregate({
+      where,
+      _count: { _all: true },
+      _sum: { total: true },
+      _min: { createdAt: true },
+      _max: { createdAt: true },
+    }),
+    client.order.groupBy({
+      by: ['branchId'],
+      where,
+      _count: { _all: true },
+      _max: { createdAt: true },
+    }),
+  ]);
+
+  const totalOrders = totals._count._all;
+  const totalSpent = totals._sum.total ?? new Prisma.Decimal(0);
+  const preferredBranch = byBranch.reduce<(typeof byBranch)[number] | null>(
+    (best, group) =>
+      !best ||
+      group._count._all > best._count._all ||
+      (group._count._all === best._count._all &&
+        (group._max.createdAt ?? 0) > (best._max.createdAt ?? 0))
+        ? group
+        : best,
+    null,
+  );
+
+  const stats = {
+    totalOrders,
+    totalSpent,
+    averageOrderValue:
+      totalOrders > 0
+        ? totalSpent.div(totalOrders).toDecimalPlaces(2)
+        : new Prisma.Decimal(0),
+    firstOrderAt: totals._min.createdAt,
+    lastOrderAt: totals._max.createdAt,
+    ...(preferredBranch && { branchId: preferredBranch.branchId }),
+  };
+
+  await client.organizationCustomer.upsert({
+    where: {
+      customerId_organizationId: {
+        customerId,
+        organizationId,
+      },
+    },
+    update: stats,
+    create: {
+      ...stats,
+      customerId,
+      organizationId,
+    },
+  });
+}
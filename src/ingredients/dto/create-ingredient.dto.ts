@@ -6,9 +6,36 @@ import {
   MaxLength,
   IsOptional,
   IsNumber,
+  IsInt,
   Min,
+  IsArray,
+  IsEnum,
 } from 'class-validator';
 
+export enum Allergen {
+  GLUTEN = 'GLUTEN',
+  CRUSTACEANS = 'CRUSTACEANS',
+  EGGS = 'EGGS',
+  FISH = 'FISH',
+  PEANUTS = 'PEANUTS',
+  TREE_NUTS = 'TREE_NUTS',
+  SOY = 'SOY',
+  DAIRY = 'DAIRY',
+  CELERY = 'CELERY',
+  MUSTARD = 'MUSTARD',
+  SESAME = 'SESAME',
+  SULPHITES = 'SULPHITES',
+  LUPIN = 'LUPIN',
+  MOLLUSCS = 'MOLLUSCS',
+}
+
+export enum DietaryFlag {
+  VEGETARIAN = 'VEGETARIAN',
+  VEGAN = 'VEGAN',
+  HALAL = 'HALAL',
+  KOSHER = 'KOSHER',
+}
+
 export class CreateIngredientDto {
   @ApiProperty({ description: 'Ingredient name', maxLength: 100 })
   @IsString()
@@ -17,7 +44,8 @@ export class CreateIngredientDto {
   name!: string;
 
   @ApiProperty({
-    description: 'Unit of measurement (e.g., kg, liters, pieces)',
+    description:
+      'Unit of measure code or alias from GET /units (e.g., kg, l, pc)',
   })
   @IsString()
   @IsNotEmpty()
@@ -50,4 +78,70 @@ export class CreateIngredientDto {
   @Type(() => Number)
   @Min(0)
   initialCost?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Recipe this ingredient is produced from, making it a prep item (e.g., a stock or sauce)',
+  })
+  @IsOptional()
+  @IsString()
+  prepRecipeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Shelf life in hours, used to date produced prep item batches',
+  })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  shelfLifeHours?: number;
+
+  @ApiPropertyOptional({
+    description: 'Allergens the ingredient contains',
+    enum: Allergen,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(Allergen, { each: true })
+  allergens?: Allergen[];
+
+  @ApiPropertyOptional({
+    description:
+      'Dietary properties; a dish only has one when all its ingredients do',
+    enum: DietaryFlag,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(DietaryFlag, { each: true })
+  dietaryFlags?: DietaryFlag[];
+
+  @ApiPropertyOptional({ description: 'Calories (kcal) per unit' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  caloriesPerUnit?: number;
+
+  @ApiPropertyOptional({ description: 'Protein (g) per unit' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  proteinPerUnit?: number;
+
+  @ApiPropertyOptional({ description: 'Carbohydrates (g) per unit' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  carbsPerUnit?: number;
+
+  @ApiPropertyOptional({ description: 'Fat (g) per unit' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  fatPerUnit?: number;
 }
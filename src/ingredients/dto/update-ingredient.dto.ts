@@ -5,9 +5,14 @@ import {
   IsOptional,
   MaxLength,
   IsNumber,
+  IsInt,
   Min,
+  IsArray,
+  IsEnum,
 } from 'class-validator';
 
+import { Allergen, DietaryFlag } from './create-ingredient.dto';
+
 export class UpdateIngredientDto {
   @ApiPropertyOptional({ description: 'Ingredient name', maxLength: 100 })
   @IsOptional()
@@ -16,7 +21,8 @@ export class UpdateIngredientDto {
   name?: string;
 
   @ApiPropertyOptional({
-    description: 'Unit of measurement (e.g., kg, liters, pieces)',
+    description:
+      'Unit of measure code or alias from GET /units (e.g., kg, l, pc)',
   })
   @IsOptional()
   @IsString()
@@ -36,8 +42,87 @@ export class UpdateIngredientDto {
     description: 'Unit cost - updating this will trigger cost recalculation',
   })
   @IsOptional()
-  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsNumber({ maxDecimalPlaces: 4 })
   @Type(() => Number)
   @Min(0)
   unitCost?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Recipe this ingredient is produced from (null to stop treating it as a prep item)',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  prepRecipeId?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Shelf life in hours, used to date produced prep item batches',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  shelfLifeHours?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Replaces the allergens the ingredient contains',
+    enum: Allergen,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(Allergen, { each: true })
+  allergens?: Allergen[];
+
+  @ApiPropertyOptional({
+    description: 'Replaces the dietary properties',
+    enum: DietaryFlag,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(DietaryFlag, { each: true })
+  dietaryFlags?: DietaryFlag[];
+
+  @ApiPropertyOptional({
+    description: 'Calories (kcal) per unit (null to clear)',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  caloriesPerUnit?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Protein (g) per unit (null to clear)',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  proteinPerUnit?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Carbohydrates (g) per unit (null to clear)',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  carbsPerUnit?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Fat (g) per unit (null to clear)',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  fatPerUnit?: number | null;
 }
@@ -13,6 +13,7 @@ import { PrismaService } from '../database/prisma.service';
 import { CacheService } from '../services/cache';
 import { ORDARO_JOB_TYPES } from '../services/queue/job-types.enum';
 import { QueueService } from '../services/queue/queue.service';
+import { findUnit } from '../units/unit-registry';
 
 import { CreateIngredientDto, UpdateIngredientDto } from './dto';
 
@@ -56,6 +57,15 @@ export class IngredientsService {
       );
     }
 
+    const unit = findUnit(dto.unit);
+    if (!unit) {
+      throw new BadRequestException(`Unknown unit of measure: ${dto.unit}`);
+    }
+
+    if (dto.prepRecipeId) {
+      await this.assertPrepRecipe(dto.prepRecipeId, organization.id);
+    }
+
     // Validate initial stock and cost
     if (
       (dto.initialStock !== undefined && dto.initialCost === undefined) ||
@@ -70,7 +80,7 @@ export class IngredientsService {
     const ingredient = await this.prismaService.ingredient.create({
       data: {
         name: dto.name,
-        unit: dto.unit,
+        unit: unit.code,
         reorderThreshold: dto.reorderThreshold
           ? new Prisma.Decimal(dto.reorderThreshold)
           : null,
@@ -84,6 +94,14 @@ export class IngredientsService {
         fifoUnitCost: dto.initialCost
           ? new Prisma.Decimal(dto.initialCost)
           : null,
+        prepRecipeId: dto.prepRecipeId ?? null,
+        shelfLifeHours: dto.shelfLifeHours ?? null,
+        allergens: dto.allergens ?? [],
+        dietaryFlags: dto.dietaryFlags ?? [],
+        caloriesPerUnit: dto.caloriesPerUnit ?? null,
+        proteinPerUnit: dto.proteinPerUnit ?? null,
+        carbsPerUnit: dto.carbsPerUnit ?? null,
+        fatPerUnit: dto.fatPerUnit ?? null,
       },
     });
 
@@ -152,6 +170,26 @@ export class IngredientsService {
       }
     }
 
+    let unit: string | undefined;
+    if (dto.unit) {
+      const definition = findUnit(dto.unit);
+      if (!definition) {
+        throw new BadRequestException(`Unknown unit of measure: ${dto.unit}`);
+      }
+      unit = definition.code;
+
+      // Stock and batch quantities are stored in the ingredient's unit
+      if (unit !== ingredient.unit && ingredient.totalStock.gt(0)) {
+        throw new BadRequestException(
+          'Cannot change the unit of an ingredient that has stock',
+        );
+      }
+    }
+
+    if (dto.prepRecipeId && dto.prepRecipeId !== ingredient.prepRecipeId) {
+      await this.assertPrepRecipe(dto.prepRecipeId, organization.id);
+    }
+
     // Track if unit cost changed
     const oldUnitCost = ingredient.averageUnitCost;
     const newUnitCost = dto.unitCost
@@ -169,7 +207,7 @@ export class IngredientsService {
       where: { id },
       data: {
         ...(dto.name && { name: dto.name }),
-        ...(dto.unit && { unit: dto.unit }),
+        ...(unit && { unit }),
         ...(dto.reorderThreshold !== undefined && {
           reorderThreshold: new Prisma.Decimal(dto.reorderThreshold),
         }),
@@ -177,6 +215,24 @@ export class IngredientsService {
           averageUnitCost: newUnitCost,
           fifoUnitCost: newUnitCost,
         }),
+        ...(dto.prepRecipeId !== undefined && {
+          prepRecipeId: dto.prepRecipeId,
+        }),
+        ...(dto.shelfLifeHours !== undefined && {
+          shelfLifeHours: dto.shelfLifeHours,
+        }),
+        ...(dto.allergens && { allergens: dto.allergens }),
+        ...(dto.dietaryFlags && { dietaryFlags: dto.dietaryFlags }),
+        ...(dto.caloriesPerUnit !== undefined && {
+          caloriesPerUnit: dto.caloriesPerUnit,
+        }),
+        ...(dto.proteinPerUnit !== undefined && {
+          proteinPerUnit: dto.proteinPerUnit,
+        }),
+        ...(dto.carbsPerUnit !== undefined && {
+          carbsPerUnit: dto.carbsPerUnit,
+        }),
+        ...(dto.fatPerUnit !== undefined && { fatPerUnit: dto.fatPerUnit }),
       },
     });
 
@@ -342,4 +398,31 @@ export class IngredientsService {
 
     return result;
   }
+
+  /**
+   * Check a recipe can be produced as this organization's prep item
+   */
+  private async assertPrepRecipe(
+    recipeId: string,
+    organizationId: string,
+  ): Promise<void> {
+    const recipe = await this.prismaService.recipe.findFirst({
+      where: {
+        id: recipeId,
+        companyId: organizationId,
+        isActive: true,
+      },
+      include: { prepItem: true },
+    });
+
+    if (!recipe) {
+      throw new NotFoundException('Recipe not found');
+    }
+
+    if (recipe.prepItem) {
+      throw new ConflictException(
+        `Recipe is already produced as ${recipe.prepItem.name}`,
+      );
+    }
+  }
 }
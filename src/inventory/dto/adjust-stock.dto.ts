@@ -15,11 +15,25 @@ export class AdjustStockDto {
   @Type(() => Number)
   quantity!: number;
 
+  @ApiPropertyOptional({
+    description: "Unit of the quantity (defaults to the ingredient's unit)",
+  })
+  @IsOptional()
+  @IsString()
+  unit?: string;
+
   @ApiProperty({ description: 'Reason for adjustment' })
   @IsString()
   @IsNotEmpty()
   reason!: string;
 
+  @ApiPropertyOptional({
+    description: 'Branch ID (adjusts the branch stock level as well)',
+  })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
   @ApiPropertyOptional({ description: 'Additional metadata' })
   @IsOptional()
   metadata?: Record<string, unknown>;
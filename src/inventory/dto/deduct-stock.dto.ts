@@ -20,6 +20,13 @@ export class DeductStockDto {
   @Min(0.01)
   qty!: number;
 
+  @ApiPropertyOptional({
+    description: "Unit of the quantity (defaults to the ingredient's unit)",
+  })
+  @IsOptional()
+  @IsString()
+  unit?: string;
+
   @ApiPropertyOptional({ description: 'Order ID (if deducted for order)' })
   @IsOptional()
   @IsString()
@@ -34,4 +41,11 @@ export class DeductStockDto {
   @IsOptional()
   @IsString()
   reason?: string;
+
+  @ApiPropertyOptional({
+    description: "Branch ID (deducts FIFO from that branch's batches only)",
+  })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
 }
@@ -2,3 +2,7 @@ export * from './stock-entry.dto';
 export * from './adjust-stock.dto';
 export * from './deduct-stock.dto';
 export * from './inventory-response.dto';
+export * from './record-waste.dto';
+export * from './review-waste.dto';
+export * from './list-waste-query.dto';
+export * from './expiring-batches-query.dto';
@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+
+export enum WasteApprovalStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+}
+
+export class ListWasteQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by approval status',
+    enum: WasteApprovalStatus,
+  })
+  @IsOptional()
+  @IsEnum(WasteApprovalStatus)
+  status?: WasteApprovalStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by branch ID' })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+}
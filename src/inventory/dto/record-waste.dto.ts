@@ -0,0 +1,62 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  ArrayMinSize,
+  ValidateNested,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export enum WasteReason {
+  SPOILAGE = 'SPOILAGE',
+  OVER_PREPARATION = 'OVER_PREPARATION',
+  DAMAGED = 'DAMAGED',
+  EXPIRED = 'EXPIRED',
+  OTHER = 'OTHER',
+}
+
+export class WasteItemDto {
+  @ApiProperty({ description: 'Batch the wasted stock came from' })
+  @IsString()
+  @IsNotEmpty()
+  batchId!: string;
+
+  @ApiProperty({ description: 'Quantity wasted', minimum: 0.01 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0.01)
+  quantity!: number;
+
+  @ApiProperty({ description: 'Waste reason', enum: WasteReason })
+  @IsEnum(WasteReason)
+  reason!: WasteReason;
+
+  @ApiPropertyOptional({ description: 'Notes', maxLength: 500 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class RecordWasteDto {
+  @ApiPropertyOptional({
+    description:
+      'Branch the waste is logged at; every batch must be held there',
+  })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @ApiProperty({ description: 'Wasted batch lines', type: [WasteItemDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => WasteItemDto)
+  items!: WasteItemDto[];
+}
@@ -21,6 +21,13 @@ export class StockEntryDto {
   @Min(0.01)
   quantity!: number;
 
+  @ApiPropertyOptional({
+    description: "Unit of the quantity (defaults to the ingredient's unit)",
+  })
+  @IsOptional()
+  @IsString()
+  unit?: string;
+
   @ApiProperty({ description: 'Total cost' })
   @IsNumber({ maxDecimalPlaces: 2 })
   @Type(() => Number)
@@ -4,3 +4,5 @@ export * from './inventory.service';
 export * from './inventory.module';
 export * from './services/batch.service';
 export * from './services/cogs.service';
+export * from './services/expiry.service';
+export * from './services/waste.service';
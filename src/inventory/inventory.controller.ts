@@ -4,6 +4,7 @@ import {
   Post,
   Body,
   Param,
+  Query,
   UseGuards,
   NotFoundException,
 } from '@nestjs/common';
@@ -13,6 +14,7 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiQuery,
 } from '@nestjs/swagger';
 
 import { Prisma } from '../../generated/prisma';
@@ -22,8 +24,19 @@ import { Auth0Guard, RolesGuard } from '../auth/guards';
 import type { UserPayload } from '../auth/interfaces';
 import { PrismaService } from '../database/prisma.service';
 
-import { StockEntryDto, AdjustStockDto, DeductStockDto } from './dto';
+import {
+  StockEntryDto,
+  AdjustStockDto,
+  DeductStockDto,
+  RecordWasteDto,
+  ApproveWasteDto,
+  RejectWasteDto,
+  ListWasteQueryDto,
+  ExpiringBatchesQueryDto,
+} from './dto';
 import { InventoryService } from './inventory.service';
+import { ExpiryService } from './services/expiry.service';
+import { WasteService } from './services/waste.service';
 
 @ApiTags('Inventory')
 @ApiBearerAuth('Auth0')
@@ -32,6 +45,8 @@ import { InventoryService } from './inventory.service';
 export class InventoryController {
   constructor(
     private readonly inventoryService: InventoryService,
+    private readonly wasteService: WasteService,
+    private readonly expiryService: ExpiryService,
     private readonly prismaService: PrismaService,
   ) {}
 
@@ -76,6 +91,20 @@ export class InventoryController {
     );
   }
 
+  @Post('branch-stock/rebuild')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER)
+  @ApiOperation({
+    summary: 'Rebuild branch stock levels',
+    description:
+      "Recomputes each branch's cached stock levels from the stock left in its batches. Use once to repair levels that drifted before every deduction updated them.",
+  })
+  @ApiResponse({ status: 200, description: 'Branch stock levels rebuilt' })
+  rebuildBranchStock(@CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.inventoryService.rebuildBranchStock(user.organizationId);
+  }
+
   @Post('deduct')
   @UseGuards(RolesGuard)
   @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.CHEF)
@@ -94,6 +123,8 @@ export class InventoryController {
       orderId?: string;
       recipeId?: string;
       reason?: string;
+      branchId?: string;
+      unit?: string;
     } = {};
     if (deductStockDto.orderId) {
       options.orderId = deductStockDto.orderId;
@@ -104,6 +135,12 @@ export class InventoryController {
     if (deductStockDto.reason) {
       options.reason = deductStockDto.reason;
     }
+    if (deductStockDto.branchId) {
+      options.branchId = deductStockDto.branchId;
+    }
+    if (deductStockDto.unit) {
+      options.unit = deductStockDto.unit;
+    }
     return this.inventoryService.deductStock(
       deductStockDto.ingredientId,
       new Prisma.Decimal(deductStockDto.qty),
@@ -112,33 +149,149 @@ export class InventoryController {
     );
   }
 
+  @Post('waste')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.CHEF)
+  @ApiOperation({
+    summary: 'Record waste',
+    description:
+      'Logs wasted stock against specific batches. Stock is only deducted once a manager approves the entry.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Waste recorded, pending approval',
+  })
+  recordWaste(
+    @Body() recordWasteDto: RecordWasteDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.wasteService.recordWaste(
+      recordWasteDto,
+      user.auth0Id,
+      user.organizationId,
+    );
+  }
+
+  @Get('waste')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.CHEF)
+  @ApiOperation({
+    summary: 'List waste entries',
+    description: 'Returns paginated waste entries, filterable by status',
+  })
+  @ApiResponse({ status: 200, description: 'Paginated list of waste entries' })
+  listWaste(
+    @CurrentUser() user: UserPayload,
+    @Query() query: ListWasteQueryDto,
+  ) {
+    requiresOrganization(user);
+    return this.wasteService.listWaste(user.organizationId, query);
+  }
+
+  @Post('waste/:id/approve')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Approve waste',
+    description:
+      'Approves a waste entry and deducts the wasted quantity from its batch',
+  })
+  @ApiParam({ name: 'id', description: 'Waste entry UUID' })
+  @ApiResponse({ status: 200, description: 'Waste approved successfully' })
+  approveWaste(
+    @Param('id') id: string,
+    @Body() approveWasteDto: ApproveWasteDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.wasteService.approveWaste(
+      id,
+      user.auth0Id,
+      user.organizationId,
+      approveWasteDto,
+    );
+  }
+
+  @Post('waste/:id/reject')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Reject waste',
+    description: 'Rejects a waste entry with a reason. Stock is not changed.',
+  })
+  @ApiParam({ name: 'id', description: 'Waste entry UUID' })
+  @ApiResponse({ status: 200, description: 'Waste rejected successfully' })
+  rejectWaste(
+    @Param('id') id: string,
+    @Body() rejectWasteDto: RejectWasteDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.wasteService.rejectWaste(
+      id,
+      user.auth0Id,
+      rejectWasteDto,
+      user.organizationId,
+    );
+  }
+
   @Get('ingredient/:ingredientId')
   @ApiOperation({
     summary: 'Get ingredient stock status',
-    description: 'Returns stock information with active batches',
+    description:
+      'Returns company-wide stock with per-branch levels and active batches, optionally narrowed to a branch',
   })
   @ApiParam({ name: 'ingredientId', description: 'Ingredient UUID' })
+  @ApiQuery({ name: 'branchId', required: false, type: String })
   @ApiResponse({ status: 200, description: 'Ingredient stock status' })
   getIngredientStock(
     @Param('ingredientId') ingredientId: string,
     @CurrentUser() user: UserPayload,
+    @Query('branchId') branchId?: string,
   ) {
     requiresOrganization(user);
     return this.inventoryService.getIngredientStock(
       ingredientId,
       user.organizationId,
+      branchId,
     );
   }
 
   @Get('alerts')
   @ApiOperation({
     summary: 'Get low stock alerts',
-    description: 'Returns ingredients below reorder threshold',
+    description:
+      'Returns ingredients below reorder threshold, company-wide or for a branch',
   })
+  @ApiQuery({ name: 'branchId', required: false, type: String })
   @ApiResponse({ status: 200, description: 'Low stock alerts' })
-  getLowStockAlerts(@CurrentUser() user: UserPayload) {
+  getLowStockAlerts(
+    @CurrentUser() user: UserPayload,
+    @Query('branchId') branchId?: string,
+  ) {
+    requiresOrganization(user);
+    return this.inventoryService.getLowStockAlerts(
+      user.organizationId,
+      branchId,
+    );
+  }
+
+  @Get('expiring')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.CHEF)
+  @ApiOperation({
+    summary: 'Get expiring batches',
+    description:
+      'Returns open batches expiring within the company expiresSoonWarningDays window (or the given days), with quantity and value at risk',
+  })
+  @ApiResponse({ status: 200, description: 'Expiring batches' })
+  getExpiringBatches(
+    @CurrentUser() user: UserPayload,
+    @Query() query: ExpiringBatchesQueryDto,
+  ) {
     requiresOrganization(user);
-    return this.inventoryService.getLowStockAlerts(user.organizationId);
+    return this.expiryService.getExpiringBatches(user.organizationId, query);
   }
 
   @Get('batches/:ingredientId')
@@ -1,5 +1,6 @@
 import { Module, forwardRef } from '@nestjs/common';
 
+import { CommonModule } from '../common/common.module';
 import { PrismaModule } from '../database';
 import { RecipesModule } from '../recipes';
 import { CacheModule } from '../services/cache';
@@ -9,16 +10,31 @@ import { InventoryController } from './inventory.controller';
 import { InventoryService } from './inventory.service';
 import { BatchService } from './services/batch.service';
 import { CogsService } from './services/cogs.service';
+import { ExpiryService } from './services/expiry.service';
+import { WasteService } from './services/waste.service';
 
 @Module({
   imports: [
     PrismaModule,
     QueueModule,
     CacheModule,
+    CommonModule,
     forwardRef(() => RecipesModule),
   ],
   controllers: [InventoryController],
-  providers: [InventoryService, BatchService, CogsService],
-  exports: [InventoryService, BatchService, CogsService],
+  providers: [
+    InventoryService,
+    BatchService,
+    CogsService,
+    WasteService,
+    ExpiryService,
+  ],
+  exports: [
+    InventoryService,
+    BatchService,
+    CogsService,
+    WasteService,
+    ExpiryService,
+  ],
 })
 export class InventoryModule {}
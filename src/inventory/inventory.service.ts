@@ -2,17 +2,25 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ConflictException,
   Logger,
 } from '@nestjs/common';
 
-import { Prisma } from '../../generated/prisma';
+import {
+  Prisma,
+  type IngredientBatch,
+  type StockEntry,
+  type StockEntryType,
+} from '../../generated/prisma';
 import { PrismaService } from '../database/prisma.service';
 import { CacheService } from '../services/cache';
 import { ORDARO_JOB_TYPES } from '../services/queue/job-types.enum';
 import { QueueService } from '../services/queue/queue.service';
+import { convertToIngredientUnit } from '../units/unit-conversion';
 
 import { StockEntryDto, AdjustStockDto } from './dto';
 import { BatchService } from './services/batch.service';
+import { CogsService } from './services/cogs.service';
 
 @Injectable()
 export class InventoryService {
@@ -23,15 +31,33 @@ export class InventoryService {
     private readonly cacheService: CacheService,
     private readonly queueService: QueueService,
     private readonly batchService: BatchService,
+    private readonly cogsService: CogsService,
   ) {}
 
   /**
    * Record stock entry (purchase)
+   *
+   * `options.costHistoryReason` also writes an IngredientCostHistory entry at
+   * the purchase unit cost. `options.type` records other inbound stock, such
+   * as produced prep items, as a different entry type. `options.onRecord`
+   * runs in the same transaction as the entry; if it throws, nothing is
+   * recorded. `options.tx` records the entry as part of the caller's
+   * transaction.
    */
   async recordStockEntry(
     dto: StockEntryDto,
     companyId: string,
-  ): Promise<unknown> {
+    options: {
+      purchaseOrderId?: string;
+      costHistoryReason?: string;
+      type?: StockEntryType;
+      onRecord?: (tx: Prisma.TransactionClient) => Promise<void>;
+      tx?: Prisma.TransactionClient;
+    } = {},
+  ): Promise<{
+    batch: IngredientBatch;
+    stockEntry: StockEntry;
+  }> {
     const organization = await this.prismaService.organization.findUnique({
       where: { auth0OrgId: companyId },
     });
@@ -45,18 +71,30 @@ export class InventoryService {
         id: dto.ingredientId,
         companyId: organization.id,
       },
+      include: { unitConversions: true },
     });
 
     if (!ingredient) {
       throw new NotFoundException('Ingredient not found');
     }
 
-    const quantity = new Prisma.Decimal(dto.quantity);
+    if (dto.branchId) {
+      await this.assertBranch(dto.branchId, organization.id);
+    }
+
+    // Stock is held in the ingredient's unit
+    const quantity = convertToIngredientUnit(
+      new Prisma.Decimal(dto.quantity),
+      dto.unit,
+      ingredient,
+    );
     const totalCost = new Prisma.Decimal(dto.totalCost);
     const unitCost = totalCost.div(quantity);
 
     // Create batch and stock entry in transaction
-    const result = await this.prismaService.$transaction(async (tx) => {
+    const record = async (tx: Prisma.TransactionClient) => {
+      await options.onRecord?.(tx);
+
       // Create batch
       const batch = await tx.ingredientBatch.create({
         data: {
@@ -73,7 +111,7 @@ export class InventoryService {
       // Create stock entry
       const stockEntry = await tx.stockEntry.create({
         data: {
-          type: 'PURCHASE',
+          type: options.type ?? 'PURCHASE',
           ingredientId: dto.ingredientId,
           batchId: batch.id,
           quantity,
@@ -81,6 +119,7 @@ export class InventoryService {
           totalCost,
           reference: dto.receiptRef ?? null,
           branchId: dto.branchId ?? null,
+          purchaseOrderId: options.purchaseOrderId ?? null,
         },
       });
 
@@ -111,8 +150,30 @@ export class InventoryService {
         },
       });
 
+      if (dto.branchId) {
+        await this.batchService.adjustBranchStock(
+          tx,
+          dto.branchId,
+          dto.ingredientId,
+          quantity,
+        );
+      }
+
+      if (options.costHistoryReason) {
+        await tx.ingredientCostHistory.create({
+          data: {
+            ingredientId: dto.ingredientId,
+            unitCost,
+            reason: options.costHistoryReason,
+          },
+        });
+      }
+
       return { batch, stockEntry };
-    });
+    };
+    const result = options.tx
+      ? await record(options.tx)
+      : await this.prismaService.$transaction(record);
 
     // Enqueue inventory batch change job
     await this.queueService.addJob(ORDARO_JOB_TYPES.INVENTORY_BATCH_CHANGE, {
@@ -146,19 +207,38 @@ export class InventoryService {
         id: dto.ingredientId,
         companyId: organization.id,
       },
+      include: { unitConversions: true },
     });
 
     if (!ingredient) {
       throw new NotFoundException('Ingredient not found');
     }
 
-    const quantity = new Prisma.Decimal(dto.quantity);
+    const quantity = convertToIngredientUnit(
+      new Prisma.Decimal(dto.quantity),
+      dto.unit,
+      ingredient,
+    );
     const newTotalStock = ingredient.totalStock.add(quantity);
 
     if (newTotalStock.lt(0)) {
       throw new BadRequestException('Insufficient stock for adjustment');
     }
 
+    if (dto.branchId) {
+      await this.assertBranch(dto.branchId, organization.id);
+
+      const branchStock = await this.batchService.getBranchStock(
+        dto.branchId,
+        dto.ingredientId,
+      );
+      if (branchStock.add(quantity).lt(0)) {
+        throw new BadRequestException(
+          `Insufficient branch stock for adjustment. Available: ${branchStock.toString()}`,
+        );
+      }
+    }
+
     // Get current unit cost for adjustment entry
     const unitCost =
       ingredient.fifoUnitCost ??
@@ -166,30 +246,44 @@ export class InventoryService {
       new Prisma.Decimal(0);
     const totalCost = unitCost.mul(quantity.abs());
 
-    const stockEntry = await this.prismaService.stockEntry.create({
-      data: {
-        type: 'ADJUSTMENT',
-        ingredientId: dto.ingredientId,
-        quantity: quantity.abs(),
-        unitCost,
-        totalCost,
-        reason: dto.reason,
-        metadata: dto.metadata
-          ? (dto.metadata as Prisma.InputJsonValue)
-          : Prisma.JsonNull,
-      },
-    });
+    const stockEntry = await this.prismaService.$transaction(async (tx) => {
+      const entry = await tx.stockEntry.create({
+        data: {
+          type: 'ADJUSTMENT',
+          ingredientId: dto.ingredientId,
+          branchId: dto.branchId ?? null,
+          quantity: quantity.abs(),
+          unitCost,
+          totalCost,
+          reason: dto.reason,
+          metadata: dto.metadata
+            ? (dto.metadata as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
+        },
+      });
 
-    // Update ingredient total stock
-    await this.prismaService.ingredient.update({
-      where: { id: dto.ingredientId },
-      data: {
-        totalStock: newTotalStock,
-      },
+      // Update ingredient total stock
+      await tx.ingredient.update({
+        where: { id: dto.ingredientId },
+        data: {
+          totalStock: newTotalStock,
+        },
+      });
+
+      if (dto.branchId) {
+        await this.batchService.adjustBranchStock(
+          tx,
+          dto.branchId,
+          dto.ingredientId,
+          quantity,
+        );
+      }
+
+      return entry;
     });
 
     this.logger.log(
-      `Stock adjusted: ${stockEntry.id} for ingredient ${dto.ingredientId}, qty: ${dto.quantity}`,
+      `Stock adjusted: ${stockEntry.id} for ingredient ${dto.ingredientId}, qty: ${quantity.toString()}`,
     );
 
     // Invalidate cache
@@ -200,14 +294,23 @@ export class InventoryService {
 
   /**
    * Deduct stock using FIFO algorithm
+   *
+   * With `branchId`, only that branch's batches are consumed and the branch's
+   * stock level is checked first. Either way, each batch's branch stock level
+   * is reduced by what is taken from it, alongside the company total. `unit`
+   * gives the unit of `quantity` when it differs from the ingredient's.
+   * `tx` deducts as part of the caller's transaction.
    */
   async deductStock(
     ingredientId: string,
-    qty: Prisma.Decimal,
+    quantity: Prisma.Decimal,
     options: {
       orderId?: string;
       recipeId?: string;
       reason?: string;
+      branchId?: string;
+      unit?: string;
+      tx?: Prisma.TransactionClient;
     },
     companyId: string,
   ): Promise<{
@@ -227,149 +330,209 @@ export class InventoryService {
       throw new NotFoundException('Organization not found');
     }
 
-    const ingredient = await this.prismaService.ingredient.findFirst({
-      where: {
-        id: ingredientId,
-        companyId: organization.id,
-      },
-    });
-
-    if (!ingredient) {
-      throw new NotFoundException('Ingredient not found');
-    }
-
-    // Check if sufficient stock
-    if (ingredient.totalStock.lt(qty)) {
-      throw new BadRequestException(
-        `Insufficient stock. Available: ${ingredient.totalStock.toString()}, Required: ${qty.toString()}`,
-      );
+    const branchId = options.branchId;
+    if (branchId) {
+      await this.assertBranch(branchId, organization.id);
     }
 
-    // FIFO Algorithm with transaction
-    const result = await this.prismaService.$transaction(
-      async (tx) => {
-        // Get batches ordered by creation date (oldest first), not closed, with remaining stock
-        // Note: For production, consider using raw SQL with FOR UPDATE SKIP LOCKED for better concurrency
-        const batches = await tx.ingredientBatch.findMany({
-          where: {
-            ingredientId,
-            isClosed: false,
-            remainingQty: { gt: 0 },
-          },
-          orderBy: { createdAt: 'asc' },
-        });
+    // FIFO Algorithm with transaction; stock is read and written through the
+    // transaction so concurrent deductions can't overwrite each other
+    let qty = quantity;
+    const deduct = async (tx: Prisma.TransactionClient) => {
+      const ingredient = await tx.ingredient.findFirst({
+        where: {
+          id: ingredientId,
+          companyId: organization.id,
+        },
+        include: { unitConversions: true },
+      });
 
-        if (batches.length === 0) {
-          throw new BadRequestException('No available batches for deduction');
-        }
+      if (!ingredient) {
+        throw new NotFoundException('Ingredient not found');
+      }
 
-        let remainingQty = qty;
-        const deductions: Array<{
-          batchId: string;
-          qtyDeducted: Prisma.Decimal;
-          costPerUnit: Prisma.Decimal;
-          totalCost: Prisma.Decimal;
-        }> = [];
-        let totalCost = new Prisma.Decimal(0);
-
-        // Deduct from batches in FIFO order
-        for (const batch of batches) {
-          if (remainingQty.lte(0)) {
-            break;
-          }
+      qty = convertToIngredientUnit(quantity, options.unit, ingredient);
 
-          const batchRemainingQty = batch.remainingQty;
-          const batchUnitCost = batch.unitCost;
+      // Check if sufficient stock
+      if (ingredient.totalStock.lt(qty)) {
+        throw new BadRequestException(
+          `Insufficient stock. Available: ${ingredient.totalStock.toString()}, Required: ${qty.toString()}`,
+        );
+      }
 
-          const qtyToDeduct = Prisma.Decimal.min(
-            remainingQty,
-            batchRemainingQty,
+      if (branchId) {
+        const branchStock = await this.batchService.getBranchStock(
+          branchId,
+          ingredientId,
+          tx,
+        );
+        if (branchStock.lt(qty)) {
+          throw new BadRequestException(
+            `Insufficient branch stock. Available: ${branchStock.toString()}, Required: ${qty.toString()}`,
           );
-          const deductionCost = batchUnitCost.mul(qtyToDeduct);
-
-          // Update batch
-          const newBatchQty = batchRemainingQty.sub(qtyToDeduct);
-          await tx.ingredientBatch.update({
-            where: { id: batch.id },
-            data: {
-              remainingQty: newBatchQty,
-              isClosed: newBatchQty.lte(0),
-            },
-          });
+        }
+      }
 
-          // Create stock deduction entry
-          await tx.stockDeduction.create({
-            data: {
-              ingredientId,
-              batchId: batch.id,
-              quantityDeducted: qtyToDeduct,
-              costPerUnit: batchUnitCost,
-              totalCost: deductionCost,
-              orderId: options.orderId ?? null,
-              recipeId: options.recipeId ?? null,
-              reason: options.reason ?? 'order',
-            },
-          });
+      // Get batches ordered by creation date (oldest first), not closed, with remaining stock
+      // Note: For production, consider using raw SQL with FOR UPDATE SKIP LOCKED for better concurrency
+      const batches = await tx.ingredientBatch.findMany({
+        where: {
+          ingredientId,
+          isClosed: false,
+          remainingQty: { gt: 0 },
+          ...(branchId && { branchId }),
+        },
+        orderBy: { createdAt: 'asc' },
+      });
 
-          deductions.push({
-            batchId: batch.id,
-            qtyDeducted: qtyToDeduct,
-            costPerUnit: batchUnitCost,
-            totalCost: deductionCost,
-          });
+      if (batches.length === 0) {
+        throw new BadRequestException('No available batches for deduction');
+      }
 
-          totalCost = totalCost.add(deductionCost);
-          remainingQty = remainingQty.sub(qtyToDeduct);
+      let remainingQty = qty;
+      const deductions: Array<{
+        batchId: string;
+        qtyDeducted: Prisma.Decimal;
+        costPerUnit: Prisma.Decimal;
+        totalCost: Prisma.Decimal;
+      }> = [];
+      let totalCost = new Prisma.Decimal(0);
+      // Stock taken per branch, to keep branch stock levels in step
+      const branchDeductions = new Map<string, Prisma.Decimal>();
+
+      // Deduct from batches in FIFO order
+      for (const batch of batches) {
+        if (remainingQty.lte(0)) {
+          break;
         }
 
-        if (remainingQty.gt(0)) {
-          throw new BadRequestException(
-            `Insufficient stock in batches. Remaining: ${remainingQty.toString()}`,
+        const batchRemainingQty = batch.remainingQty;
+        const batchUnitCost = batch.unitCost;
+
+        const qtyToDeduct = Prisma.Decimal.min(remainingQty, batchRemainingQty);
+        const deductionCost = batchUnitCost.mul(qtyToDeduct);
+
+        // Take from the batch only if another deduction hasn't already
+        const taken = await tx.ingredientBatch.updateMany({
+          where: { id: batch.id, remainingQty: { gte: qtyToDeduct } },
+          data: { remainingQty: { decrement: qtyToDeduct } },
+        });
+        if (taken.count === 0) {
+          throw new ConflictException(
+            'Stock changed during the deduction, please retry',
           );
         }
 
-        // Update ingredient total stock
-        const newTotalStock = ingredient.totalStock.sub(qty);
-        await tx.ingredient.update({
-          where: { id: ingredientId },
+        // Create stock deduction entry
+        await tx.stockDeduction.create({
           data: {
-            totalStock: newTotalStock,
+            ingredientId,
+            batchId: batch.id,
+            quantityDeducted: qtyToDeduct,
+            costPerUnit: batchUnitCost,
+            totalCost: deductionCost,
+            orderId: options.orderId ?? null,
+            recipeId: options.recipeId ?? null,
+            reason: options.reason ?? 'order',
           },
         });
 
-        // Recalculate FIFO cost (cost of next available batch)
-        const nextBatch = await tx.ingredientBatch.findFirst({
-          where: {
-            ingredientId,
-            isClosed: false,
-            remainingQty: { gt: 0 },
-          },
-          orderBy: { createdAt: 'asc' },
+        deductions.push({
+          batchId: batch.id,
+          qtyDeducted: qtyToDeduct,
+          costPerUnit: batchUnitCost,
+          totalCost: deductionCost,
         });
 
-        const newFifoCost = nextBatch?.unitCost ?? null;
+        if (batch.branchId) {
+          branchDeductions.set(
+            batch.branchId,
+            (branchDeductions.get(batch.branchId) ?? new Prisma.Decimal(0)).add(
+              qtyToDeduct,
+            ),
+          );
+        }
+
+        totalCost = totalCost.add(deductionCost);
+        remainingQty = remainingQty.sub(qtyToDeduct);
+      }
 
-        await tx.ingredient.update({
-          where: { id: ingredientId },
-          data: {
-            fifoUnitCost: newFifoCost,
-          },
-        });
+      if (remainingQty.gt(0)) {
+        throw new BadRequestException(
+          `Insufficient stock in batches. Remaining: ${remainingQty.toString()}`,
+        );
+      }
 
-        return { totalCost, deductions };
-      },
-      {
-        maxWait: 5000, // Max wait time for transaction
-        timeout: 10000, // Transaction timeout
-      },
-    );
+      // Update ingredient total stock
+      await tx.ingredient.update({
+        where: { id: ingredientId },
+        data: {
+          totalStock: { decrement: qty },
+        },
+      });
+
+      for (const [batchBranchId, deducted] of branchDeductions) {
+        await this.batchService.adjustBranchStock(
+          tx,
+          batchBranchId,
+          ingredientId,
+          deducted.neg(),
+        );
+      }
+
+      await this.batchService.closeEmptyBatches(ingredientId, tx);
+
+      // Recalculate FIFO cost (cost of next available batch)
+      const nextBatch = await tx.ingredientBatch.findFirst({
+        where: {
+          ingredientId,
+          isClosed: false,
+          remainingQty: { gt: 0 },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      const newFifoCost = nextBatch?.unitCost ?? null;
+
+      await tx.ingredient.update({
+        where: { id: ingredientId },
+        data: {
+          fifoUnitCost: newFifoCost,
+        },
+      });
+
+      return { totalCost, deductions };
+    };
+    const result = options.tx
+      ? await deduct(options.tx)
+      : await this.prismaService.$transaction(deduct, {
+          maxWait: 5000, // Max wait time for transaction
+          timeout: 10000, // Transaction timeout
+        });
 
     this.logger.log(
       `Stock deducted via FIFO: ${qty.toString()} from ingredient ${ingredientId}, total cost: ${result.totalCost.toString()}`,
     );
 
-    // Close empty batches
-    await this.batchService.closeEmptyBatches(ingredientId);
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return result;
+  }
+
+  /**
+   * Recompute the organization's branch stock levels from its batches
+   */
+  async rebuildBranchStock(companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const result = await this.batchService.rebuildBranchStock(organization.id);
 
     // Invalidate cache
     await this.cacheService.invalidateOrganization(companyId);
@@ -379,31 +542,371 @@ export class InventoryService {
 
   /**
    * Consume recipe ingredients for an order
+   *
+   * Expands each order line to its recipe ingredients (through any
+   * sub-recipes), applies its modifiers' ingredient additions and removals,
+   * deducts them via FIFO and records the order's COGS. Safe to re-run:
+   * ingredients already deducted for the order are skipped, and orders with a
+   * COGS entry are left untouched. Voided orders consume nothing, so a retry
+   * that runs after the void is a no-op.
    */
-  consumeRecipeForOrder(orderId: string, _companyId: string) {
-    // TODO: This will be called from OrderService
-    // For now, this is a placeholder that will be implemented when OrderService is created
-    // The logic should:
-    // 1. Get order with order lines
-    // 2. For each order line, get menu item and recipe
-    // 3. Expand recipe to ingredients with quantities
-    // 4. Aggregate ingredient quantities across all order lines
-    // 5. For each ingredient, call deductStock
-    // 6. Sum all costs and create COGS ledger entry
+  async consumeRecipeForOrder(
+    orderId: string,
+    companyId: string,
+  ): Promise<{
+    orderId: string;
+    totalCost: Prisma.Decimal;
+    alreadyConsumed: boolean;
+  }> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const order = await this.prismaService.order.findFirst({
+      where: {
+        id: orderId,
+        companyId: organization.id,
+      },
+      include: {
+        lines: {
+          include: {
+            menuItem: {
+              include: { recipe: true },
+            },
+            menuVariant: {
+              include: { recipe: true },
+            },
+            modifiers: {
+              include: {
+                modifier: {
+                  include: {
+                    ingredients: {
+                      include: {
+                        ingredient: { include: { unitConversions: true } },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            components: {
+              include: {
+                menuItem: {
+                  include: { recipe: true },
+                },
+                menuVariant: {
+                  include: { recipe: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (order.status === 'VOIDED') {
+      this.logger.log(`Order ${orderId} is voided, recipe consumption skipped`);
+      return {
+        orderId,
+        totalCost: new Prisma.Decimal(0),
+        alreadyConsumed: false,
+      };
+    }
+
+    const existingCogs = await this.prismaService.cogsLedger.findFirst({
+      where: { orderId },
+    });
+
+    if (existingCogs) {
+      return {
+        orderId,
+        totalCost: existingCogs.totalCost,
+        alreadyConsumed: true,
+      };
+    }
+
+    // Aggregate ingredient quantities across all order lines
+    const requirements = new Map<
+      string,
+      { qty: Prisma.Decimal; recipeId: string | undefined }
+    >();
+    // Per-line ingredient usage, so the order's cost can be split by line
+    const lineUsage = new Map<string, Map<string, Prisma.Decimal>>();
+
+    for (const line of order.lines) {
+      // A combo consumes the recipes of its chosen components, not its own
+      const sources =
+        line.components.length > 0
+          ? line.components.map((component) => ({
+              menuItem: component.menuItem,
+              menuVariant: component.menuVariant,
+              quantity: component.quantity * line.quantity,
+            }))
+          : [line];
+      const recipes = sources.flatMap((source) => {
+        const recipe = source.menuVariant?.recipe ?? source.menuItem.recipe;
+        return recipe ? [{ ...source, recipe }] : [];
+      });
+      if (recipes.length === 0 && line.modifiers.length === 0) {
+        continue;
+      }
+
+      const usage = new Map<string, Prisma.Decimal>();
+      const recipeIds = new Map<string, string>();
+      lineUsage.set(line.id, usage);
+
+      for (const { recipe, menuItem, menuVariant, quantity } of recipes) {
+        // A recipe yields `yieldQuantity` portions; each sold unit uses
+        // portionMultiplier portions (matching how menu cost is computed)
+        const portionMultiplier =
+          menuVariant?.portionMultiplier ?? menuItem.portionMultiplier;
+        const portions = portionMultiplier
+          .mul(quantity)
+          .div(recipe.yieldQuantity);
+
+        for (const item of await this.expandRecipe(recipe.id, portions)) {
+          usage.set(
+            item.ingredientId,
+            (usage.get(item.ingredientId) ?? new Prisma.Decimal(0)).add(
+              item.qty,
+            ),
+          );
+          if (!recipeIds.has(item.ingredientId)) {
+            recipeIds.set(item.ingredientId, item.recipeId);
+          }
+        }
+      }
+
+      // Modifier quantities are per item sold; removals never go below zero
+      for (const { modifier } of line.modifiers) {
+        for (const mi of modifier.ingredients) {
+          const qty = convertToIngredientUnit(
+            mi.quantity,
+            mi.unit,
+            mi.ingredient,
+          ).mul(line.quantity);
+          const current = usage.get(mi.ingredientId) ?? new Prisma.Decimal(0);
+          usage.set(
+            mi.ingredientId,
+            mi.action === 'ADD'
+              ? current.add(qty)
+              : Prisma.Decimal.max(current.sub(qty), 0),
+          );
+        }
+      }
+
+      for (const [ingredientId, qty] of usage) {
+        if (qty.lte(0)) {
+          usage.delete(ingredientId);
+          continue;
+        }
+        const existing = requirements.get(ingredientId);
+        requirements.set(ingredientId, {
+          qty: existing ? existing.qty.add(qty) : qty,
+          recipeId: existing?.recipeId ?? recipeIds.get(ingredientId),
+        });
+      }
+    }
+
+    // Skip what a previous (partially failed) run already deducted
+    const previousDeductions = await this.prismaService.stockDeduction.groupBy({
+      by: ['ingredientId'],
+      where: { orderId },
+      _sum: { quantityDeducted: true, totalCost: true },
+    });
+
+    let totalCost = new Prisma.Decimal(0);
+    const breakdown: Array<{
+      ingredientId: string;
+      quantity: string;
+      cost: string;
+    }> = [];
+
+    for (const [ingredientId, requirement] of requirements) {
+      const previous = previousDeductions.find(
+        (d) => d.ingredientId === ingredientId,
+      );
+      const alreadyDeducted =
+        previous?._sum.quantityDeducted ?? new Prisma.Decimal(0);
+      let ingredientCost = previous?._sum.totalCost ?? new Prisma.Decimal(0);
+
+      const outstanding = requirement.qty
+        .toDecimalPlaces(4)
+        .sub(alreadyDeducted);
+
+      if (outstanding.gt(0)) {
+        const result = await this.deductStock(
+          ingredientId,
+          outstanding,
+          {
+            orderId,
+            ...(requirement.recipeId && { recipeId: requirement.recipeId }),
+            reason: 'order',
+            branchId: order.branchId,
+          },
+          companyId,
+        );
+        ingredientCost = ingredientCost.add(result.totalCost);
+      }
+
+      totalCost = totalCost.add(ingredientCost);
+      breakdown.push({
+        ingredientId,
+        quantity: requirement.qty.toDecimalPlaces(4).toString(),
+        cost: ingredientCost.toString(),
+      });
+    }
+
+    // Cost each line at the order's effective unit cost per ingredient
+    const lineCosts = order.lines.map((line) => {
+      let cost = new Prisma.Decimal(0);
+      for (const [ingredientId, qty] of lineUsage.get(line.id) ?? []) {
+        const requirement = requirements.get(ingredientId);
+        const ingredient = breakdown.find(
+          (b) => b.ingredientId === ingredientId,
+        );
+        if (requirement && ingredient && requirement.qty.gt(0)) {
+          cost = cost.add(
+            new Prisma.Decimal(ingredient.cost).mul(qty).div(requirement.qty),
+          );
+        }
+      }
+      return {
+        orderLineId: line.id,
+        menuItemId: line.menuItemId,
+        cost: cost.toDecimalPlaces(2).toString(),
+      };
+    });
+
+    await this.cogsService.recordOrderCogs(
+      orderId,
+      totalCost,
+      { ingredients: breakdown, lines: lineCosts },
+      organization.id,
+    );
 
     this.logger.log(
-      `Recipe consumption for order ${orderId} - to be implemented with OrderService`,
+      `Recipe consumption for order ${orderId} complete, COGS: ${totalCost.toString()}`,
     );
 
-    return { message: 'To be implemented with OrderService integration' };
+    return { orderId, totalCost, alreadyConsumed: false };
+  }
+
+  /**
+   * Give back the stock an order consumed and remove its COGS, e.g. when it
+   * is voided
+   *
+   * Each deduction goes back to the batch it came from, reopening the batch if
+   * it was closed, so the stock is used again at its original cost. Reversing
+   * an order twice does nothing.
+   */
+  async reverseRecipeConsumption(
+    orderId: string,
+    companyId: string,
+  ): Promise<{ orderId: string; restoredDeductions: number }> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const order = await this.prismaService.order.findFirst({
+      where: {
+        id: orderId,
+        companyId: organization.id,
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const restoredDeductions = await this.prismaService.$transaction(
+      async (tx) => {
+        const deductions = await tx.stockDeduction.findMany({
+          where: { orderId },
+          include: { batch: { select: { branchId: true } } },
+        });
+
+        for (const deduction of deductions) {
+          await tx.ingredientBatch.update({
+            where: { id: deduction.batchId },
+            data: {
+              remainingQty: { increment: deduction.quantityDeducted },
+              isClosed: false,
+            },
+          });
+
+          await tx.ingredient.update({
+            where: { id: deduction.ingredientId },
+            data: { totalStock: { increment: deduction.quantityDeducted } },
+          });
+
+          if (deduction.batch.branchId) {
+            await this.batchService.adjustBranchStock(
+              tx,
+              deduction.batch.branchId,
+              deduction.ingredientId,
+              deduction.quantityDeducted,
+            );
+          }
+        }
+
+        await tx.stockDeduction.deleteMany({ where: { orderId } });
+        await tx.cogsLedger.deleteMany({ where: { orderId } });
+
+        // The restored batches may now be the oldest, so FIFO cost moves back
+        const affected = [...new Set(deductions.map((d) => d.ingredientId))];
+        for (const ingredientId of affected) {
+          const nextBatch = await tx.ingredientBatch.findFirst({
+            where: {
+              ingredientId,
+              isClosed: false,
+              remainingQty: { gt: 0 },
+            },
+            orderBy: { createdAt: 'asc' },
+          });
+
+          await tx.ingredient.update({
+            where: { id: ingredientId },
+            data: { fifoUnitCost: nextBatch?.unitCost ?? null },
+          });
+        }
+
+        return deductions.length;
+      },
+    );
+
+    this.logger.log(
+      `Recipe consumption reversed for order ${orderId}: ${restoredDeductions} deductions restored`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return { orderId, restoredDeductions };
   }
 
   /**
    * Get ingredient stock status
+   *
+   * Company-wide totals are always returned; `branchId` narrows batches and
+   * adds that branch's stock level.
    */
   async getIngredientStock(
     ingredientId: string,
     companyId: string,
+    branchId?: string,
   ): Promise<unknown> {
     const organization = await this.prismaService.organization.findUnique({
       where: { auth0OrgId: companyId },
@@ -413,6 +916,10 @@ export class InventoryService {
       throw new NotFoundException('Organization not found');
     }
 
+    if (branchId) {
+      await this.assertBranch(branchId, organization.id);
+    }
+
     const ingredient = await this.prismaService.ingredient.findFirst({
       where: {
         id: ingredientId,
@@ -420,9 +927,22 @@ export class InventoryService {
       },
       include: {
         batches: {
-          where: { isClosed: false },
+          where: {
+            isClosed: false,
+            ...(branchId && { branchId }),
+          },
           orderBy: { createdAt: 'asc' },
         },
+        branchStocks: {
+          include: {
+            branch: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        },
       },
     });
 
@@ -430,20 +950,39 @@ export class InventoryService {
       throw new NotFoundException('Ingredient not found');
     }
 
+    const branchStocks = ingredient.branchStocks.map((bs) => ({
+      branchId: bs.branchId,
+      branchName: bs.branch.name,
+      quantity: bs.quantity,
+    }));
+
     return {
       ingredientId: ingredient.id,
       ingredientName: ingredient.name,
       totalStock: ingredient.totalStock,
       averageUnitCost: ingredient.averageUnitCost,
       fifoUnitCost: ingredient.fifoUnitCost,
+      ...(branchId && {
+        branchId,
+        branchStock:
+          branchStocks.find((bs) => bs.branchId === branchId)?.quantity ??
+          new Prisma.Decimal(0),
+      }),
+      branchStocks,
       batches: ingredient.batches,
     };
   }
 
   /**
    * Get low stock alerts
+   *
+   * With `branchId`, the branch's own stock level is compared against the
+   * reorder threshold instead of the company total.
    */
-  async getLowStockAlerts(companyId: string): Promise<unknown> {
+  async getLowStockAlerts(
+    companyId: string,
+    branchId?: string,
+  ): Promise<unknown> {
     const organization = await this.prismaService.organization.findUnique({
       where: { auth0OrgId: companyId },
     });
@@ -452,6 +991,10 @@ export class InventoryService {
       throw new NotFoundException('Organization not found');
     }
 
+    if (branchId) {
+      await this.assertBranch(branchId, organization.id);
+    }
+
     const ingredients = await this.prismaService.ingredient.findMany({
       where: {
         companyId: organization.id,
@@ -460,21 +1003,116 @@ export class InventoryService {
       },
     });
 
+    const branchStocks = branchId
+      ? await this.prismaService.branchStock.findMany({
+          where: {
+            branchId,
+            ingredientId: { in: ingredients.map((ing) => ing.id) },
+          },
+        })
+      : [];
+
     const alerts = ingredients
-      .filter((ing) => {
-        if (!ing.reorderThreshold) {
+      .map((ing) => ({
+        ingredient: ing,
+        stock: branchId
+          ? (branchStocks.find((bs) => bs.ingredientId === ing.id)?.quantity ??
+            new Prisma.Decimal(0))
+          : ing.totalStock,
+      }))
+      .filter(({ ingredient, stock }) => {
+        if (!ingredient.reorderThreshold) {
           return false;
         }
-        return ing.totalStock.lte(ing.reorderThreshold);
+        return stock.lte(ingredient.reorderThreshold);
       })
-      .map((ing) => ({
-        ingredientId: ing.id,
-        name: ing.name,
-        totalStock: ing.totalStock,
-        reorderThreshold: ing.reorderThreshold,
-        unit: ing.unit,
+      .map(({ ingredient, stock }) => ({
+        ingredientId: ingredient.id,
+        name: ingredient.name,
+        ...(branchId && { branchId, branchStock: stock }),
+        totalStock: ingredient.totalStock,
+        reorderThreshold: ingredient.reorderThreshold,
+        unit: ingredient.unit,
       }));
 
     return alerts;
   }
+
+  /**
+   * Expand a recipe into ingredient quantities (in each ingredient's unit),
+   * following sub-recipes down to their raw ingredients
+   *
+   * Sub-recipes stocked as prep items are taken from the prep item instead of
+   * being expanded. `batches` is how many times the recipe's full yield is made.
+   */
+  async expandRecipe(
+    recipeId: string,
+    batches: Prisma.Decimal,
+  ): Promise<
+    Array<{ ingredientId: string; recipeId: string; qty: Prisma.Decimal }>
+  > {
+    const recipe = await this.prismaService.recipe.findUnique({
+      where: { id: recipeId },
+      include: {
+        recipeIngredients: {
+          include: {
+            ingredient: { include: { unitConversions: true } },
+          },
+        },
+        components: {
+          include: { subRecipe: { include: { prepItem: true } } },
+        },
+      },
+    });
+
+    if (!recipe) {
+      throw new NotFoundException(`Recipe ${recipeId} not found`);
+    }
+
+    const items = recipe.recipeIngredients.map((ri) => ({
+      ingredientId: ri.ingredientId,
+      recipeId,
+      qty: convertToIngredientUnit(ri.quantityUsed, ri.unit, ri.ingredient).mul(
+        batches,
+      ),
+    }));
+
+    for (const component of recipe.components) {
+      // Prep items are stocked in the sub-recipe's yield units
+      const prepItem = component.subRecipe.prepItem;
+      if (prepItem?.isActive) {
+        items.push({
+          ingredientId: prepItem.id,
+          recipeId,
+          qty: component.quantity.mul(batches),
+        });
+        continue;
+      }
+
+      const subBatches = component.quantity
+        .mul(batches)
+        .div(component.subRecipe.yieldQuantity);
+      items.push(
+        ...(await this.expandRecipe(component.subRecipeId, subBatches)),
+      );
+    }
+
+    return items;
+  }
+
+  private async assertBranch(
+    branchId: string,
+    organizationId: string,
+  ): Promise<void> {
+    const branch = await this.prismaService.branch.findFirst({
+      where: {
+        id: branchId,
+        organizationId,
+      },
+    });
+
+    if (!branch) {
+      throw new NotFoundException('Branch not found');
+    }
+  }
 }
@@ -40,11 +40,133 @@ export class BatchService {
     return batch;
   }
 
+  /**
+   * Apply a stock change to a branch's cached stock level
+   */
+  async adjustBranchStock(
+    tx: Prisma.TransactionClient,
+    branchId: string,
+    ingredientId: string,
+    delta: Prisma.Decimal,
+  ): Promise<void> {
+    await tx.branchStock.upsert({
+      where: {
+        branchId_ingredientId: { branchId, ingredientId },
+      },
+      update: {
+        quantity: { increment: delta },
+      },
+      create: {
+        branchId,
+        ingredientId,
+        quantity: delta,
+      },
+    });
+  }
+
+  /**
+   * Get a branch's stock level for an ingredient
+   */
+  async getBranchStock(
+    branchId: string,
+    ingredientId: string,
+    client: Prisma.TransactionClient = this.prismaService,
+  ): Promise<Prisma.Decimal> {
+    const branchStock = await client.branchStock.findUnique({
+      where: {
+        branchId_ingredientId: { branchId, ingredientId },
+      },
+    });
+
+    return branchStock?.quantity ?? new Prisma.Decimal(0);
+  }
+
+  /**
+   * Get the stock left in an ingredient's open batches, optionally at one
+   * branch; this is what a FIFO deduction can draw on
+   */
+  async getBatchStock(
+    ingredientId: string,
+    branchId?: string,
+  ): Promise<Prisma.Decimal> {
+    const total = await this.prismaService.ingredientBatch.aggregate({
+      where: {
+        ingredientId,
+        isClosed: false,
+        ...(branchId && { branchId }),
+      },
+      _sum: { remainingQty: true },
+    });
+
+    return total._sum.remainingQty ?? new Prisma.Decimal(0);
+  }
+
+  /**
+   * Recompute cached branch stock levels from the stock left in each
+   * branch's batches
+   *
+   * Repairs levels that drifted before every deduction updated them; safe to
+   * run at any time.
+   */
+  async rebuildBranchStock(organizationId: string): Promise<{
+    updated: number;
+  }> {
+    return this.prismaService.$transaction(async (tx) => {
+      const totals = await tx.ingredientBatch.groupBy({
+        by: ['branchId', 'ingredientId'],
+        where: {
+          branchId: { not: null },
+          ingredient: { companyId: organizationId },
+        },
+        _sum: { remainingQty: true },
+      });
+
+      // Levels with no batches left behind them drop to zero
+      await tx.branchStock.updateMany({
+        where: { ingredient: { companyId: organizationId } },
+        data: { quantity: 0 },
+      });
+
+      let updated = 0;
+      for (const total of totals) {
+        if (!total.branchId) {
+          continue;
+        }
+
+        const quantity = total._sum.remainingQty ?? new Prisma.Decimal(0);
+        await tx.branchStock.upsert({
+          where: {
+            branchId_ingredientId: {
+              branchId: total.branchId,
+              ingredientId: total.ingredientId,
+            },
+          },
+          update: { quantity },
+          create: {
+            branchId: total.branchId,
+            ingredientId: total.ingredientId,
+            quantity,
+          },
+        });
+        updated++;
+      }
+
+      this.logger.log(
+        `Branch stock rebuilt for organization ${organizationId}: ${updated} levels`,
+      );
+
+      return { updated };
+    });
+  }
+
   /**
    * Close empty batches
    */
-  async closeEmptyBatches(ingredientId: string): Promise<void> {
-    await this.prismaService.ingredientBatch.updateMany({
+  async closeEmptyBatches(
+    ingredientId: string,
+    client: Prisma.TransactionClient = this.prismaService,
+  ): Promise<void> {
+    await client.ingredientBatch.updateMany({
       where: {
         ingredientId,
         remainingQty: { lte: 0 },
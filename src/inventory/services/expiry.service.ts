@@ -0,0 +1,301 @@
+import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+
+import { Prisma } from '../../../generated/prisma';
+import { escapeHtml } from '../../common/utils/html.util';
+import { PrismaService } from '../../database/prisma.service';
+import { ORDARO_JOB_TYPES } from '../../services/queue/job-types.enum';
+import { QueueService } from '../../services/queue/queue.service';
+import { ExpiringBatchesQueryDto } from '../dto';
+
+const DEFAULT_WARNING_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ExpiringBatch = Prisma.IngredientBatchGetPayload<{
+  include: {
+    ingredient: { select: { id: true; name: true; unit: true } };
+    branch: { select: { id: true; name: true } };
+  };
+}>;
+
+@Injectable()
+export class ExpiryService {
+  private readonly logger = new Logger(ExpiryService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly queueService: QueueService,
+  ) {}
+
+  /**
+   * List open batches expiring within the warning window
+   */
+  async getExpiringBatches(
+    companyId: string,
+    query: ExpiringBatchesQueryDto,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+      include: { settings: true },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const warningDays =
+      query.days ??
+      organization.settings?.expiresSoonWarningDays ??
+      DEFAULT_WARNING_DAYS;
+
+    const batches = await this.findExpiringBatches(
+      organization.id,
+      warningDays,
+      query.branchId,
+    );
+
+    const now = new Date();
+    const items = batches.map((batch) => this.formatBatch(batch, now));
+
+    return {
+      warningDays,
+      totalBatches: items.length,
+      totalValueAtRisk: batches
+        .reduce(
+          (sum, b) => sum.add(b.unitCost.mul(b.remainingQty)),
+          new Prisma.Decimal(0),
+        )
+        .toDecimalPlaces(2),
+      batches: items,
+    };
+  }
+
+  /**
+   * Warn branch managers about batches entering the expiry window.
+   * Each batch is only warned about once (expirationWarningSent), flagged
+   * once its warning is queued; batches nobody could be told about are
+   * picked up again on the next run.
+   */
+  async sendExpiryWarnings(): Promise<{
+    organizations: number;
+    batches: number;
+    notifications: number;
+  }> {
+    const organizations = await this.prismaService.organization.findMany({
+      include: { settings: true },
+    });
+
+    const now = new Date();
+    let batchCount = 0;
+    let notificationCount = 0;
+
+    for (const organization of organizations) {
+      const warningDays =
+        organization.settings?.expiresSoonWarningDays ?? DEFAULT_WARNING_DAYS;
+
+      const batches = await this.findExpiringBatches(
+        organization.id,
+        warningDays,
+        undefined,
+        true,
+      );
+
+      if (batches.length === 0) {
+        continue;
+      }
+
+      // Group by branch so each manager only hears about their own stock
+      const byBranch = new Map<string | null, ExpiringBatch[]>();
+      for (const batch of batches) {
+        const list = byBranch.get(batch.branchId) ?? [];
+        list.push(batch);
+        byBranch.set(batch.branchId, list);
+      }
+
+      for (const [branchId, branchBatches] of byBranch) {
+        const recipients = await this.getRecipients(organization.id, branchId);
+        if (recipients.length === 0) {
+          // Left unflagged so the warning goes out once someone can receive it
+          this.logger.warn(
+            `No recipients for expiry warning in organization ${organization.id}, branch ${branchId ?? 'none'}`,
+          );
+          continue;
+        }
+
+        const branchName = branchBatches[0]?.branch?.name ?? null;
+        try {
+          notificationCount += await this.notifyRecipients(
+            recipients,
+            organization.name,
+            branchName,
+            branchBatches.map((batch) => this.formatBatch(batch, now)),
+          );
+        } catch (error) {
+          this.logger.error(
+            `Failed to send expiry warning in organization ${organization.id}, branch ${branchId ?? 'none'}`,
+            error instanceof Error ? error.stack : String(error),
+          );
+          continue;
+        }
+
+        await this.prismaService.ingredientBatch.updateMany({
+          where: { id: { in: branchBatches.map((b) => b.id) } },
+          data: { expirationWarningSent: true },
+        });
+
+        batchCount += branchBatches.length;
+      }
+    }
+
+    this.logger.log(
+      `Expiry warnings sent: ${batchCount} batches, ${notificationCount} notifications`,
+    );
+
+    return {
+      organizations: organizations.length,
+      batches: batchCount,
+      notifications: notificationCount,
+    };
+  }
+
+  private async findExpiringBatches(
+    organizationId: string,
+    warningDays: number,
+    branchId?: string,
+    unwarnedOnly = false,
+  ): Promise<ExpiringBatch[]> {
+    const cutoff = new Date(Date.now() + warningDays * DAY_MS);
+
+    return this.prismaService.ingredientBatch.findMany({
+      where: {
+        ingredient: { companyId: organizationId },
+        isClosed: false,
+        remainingQty: { gt: 0 },
+        expiresAt: { not: null, lte: cutoff },
+        ...(branchId && { branchId }),
+        ...(unwarnedOnly && { expirationWarningSent: false }),
+      },
+      include: {
+        ingredient: {
+          select: {
+            id: true,
+            name: true,
+            unit: true,
+          },
+        },
+        branch: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { expiresAt: 'asc' },
+    });
+  }
+
+  /**
+   * Managers assigned to the branch, falling back to owners for
+   * company-level batches or branches without a manager
+   */
+  private async getRecipients(
+    organizationId: string,
+    branchId: string | null,
+  ): Promise<Array<{ email: string; phone: string | null }>> {
+    if (branchId) {
+      const managers = await this.prismaService.user.findMany({
+        where: {
+          organizationId,
+          role: 'MANAGER',
+          branches: { some: { branchId } },
+        },
+        select: { email: true, phone: true },
+      });
+
+      if (managers.length > 0) {
+        return managers;
+      }
+    }
+
+    return this.prismaService.user.findMany({
+      where: {
+        organizationId,
+        role: 'OWNER',
+      },
+      select: { email: true, phone: true },
+    });
+  }
+
+  private async notifyRecipients(
+    recipients: Array<{ email: string; phone: string | null }>,
+    organizationName: string,
+    branchName: string | null,
+    batches: Array<ReturnType<ExpiryService['formatBatch']>>,
+  ): Promise<number> {
+    const location = branchName ?? organizationName;
+    const totalValue = batches
+      .reduce((sum, b) => sum.add(b.valueAtRisk), new Prisma.Decimal(0))
+      .toDecimalPlaces(2);
+
+    const lines = batches.map(
+      (b) =>
+        `${b.ingredient.name}: ${b.remainingQty.toString()} ${b.ingredient.unit}, value ${b.valueAtRisk.toString()}, ${
+          b.daysUntilExpiry < 0
+            ? `expired ${Math.abs(b.daysUntilExpiry)} day(s) ago`
+            : `expires in ${b.daysUntilExpiry} day(s)`
+        }`,
+    );
+
+    const subject = `${batches.length} batch(es) expiring soon at ${location}`;
+    const text = [
+      `The following stock at ${location} is expiring soon.`,
+      '',
+      ...lines,
+      '',
+      `Total value at risk: ${totalValue.toString()}`,
+    ].join('\n');
+    const html = `<p>The following stock at <strong>${escapeHtml(location)}</strong> is expiring soon.</p><ul>${lines
+      .map((line) => `<li>${escapeHtml(line)}</li>`)
+      .join(
+        '',
+      )}</ul><p>Total value at risk: <strong>${totalValue.toString()}</strong></p>`;
+
+    let sent = 0;
+    for (const recipient of recipients) {
+      await this.queueService.addJob(ORDARO_JOB_TYPES.SEND_EMAIL, {
+        to: recipient.email,
+        subject,
+        html,
+        text,
+      });
+      sent++;
+
+      if (recipient.phone) {
+        await this.queueService.addJob(ORDARO_JOB_TYPES.SEND_SMS, {
+          phoneNumber: recipient.phone,
+          message: `${subject}. Value at risk: ${totalValue.toString()}. Check /inventory/expiring for details.`,
+        });
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+
+  private formatBatch(batch: ExpiringBatch, now: Date) {
+    const expiresAt = batch.expiresAt ?? now;
+
+    return {
+      batchId: batch.id,
+      ingredient: batch.ingredient,
+      branch: batch.branch,
+      remainingQty: batch.remainingQty,
+      unitCost: batch.unitCost,
+      valueAtRisk: batch.unitCost.mul(batch.remainingQty).toDecimalPlaces(2),
+      expiresAt: batch.expiresAt,
+      daysUntilExpiry: Math.ceil(
+        (expiresAt.getTime() - now.getTime()) / DAY_MS,
+      ),
+      expirationWarningSent: batch.expirationWarningSent,
+    };
+  }
+}
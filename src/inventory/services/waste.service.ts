@@ -0,0 +1,388 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../../generated/prisma';
+import { PaginationService } from '../../common/services/pagination.service';
+import { PrismaService } from '../../database/prisma.service';
+import { CacheService } from '../../services/cache';
+import { ORDARO_JOB_TYPES } from '../../services/queue/job-types.enum';
+import { QueueService } from '../../services/queue/queue.service';
+import {
+  RecordWasteDto,
+  ApproveWasteDto,
+  RejectWasteDto,
+  ListWasteQueryDto,
+} from '../dto';
+
+import { BatchService } from './batch.service';
+
+@Injectable()
+export class WasteService {
+  private readonly logger = new Logger(WasteService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly cacheService: CacheService,
+    private readonly queueService: QueueService,
+    private readonly batchService: BatchService,
+  ) {}
+
+  /**
+   * Record waste against batches (pending approval, stock untouched)
+   *
+   * With `branchId`, every batch must be held at that branch.
+   */
+  async recordWaste(
+    dto: RecordWasteDto,
+    recorderId: string,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    if (dto.branchId) {
+      const branch = await this.prismaService.branch.findFirst({
+        where: {
+          id: dto.branchId,
+          organizationId: organization.id,
+        },
+      });
+
+      if (!branch) {
+        throw new NotFoundException('Branch not found');
+      }
+    }
+
+    const batchIds = [...new Set(dto.items.map((item) => item.batchId))];
+    const batches = await this.prismaService.ingredientBatch.findMany({
+      where: {
+        id: { in: batchIds },
+        ingredient: { companyId: organization.id },
+      },
+    });
+
+    const lines = dto.items.map((item) => {
+      const batch = batches.find((b) => b.id === item.batchId);
+      if (!batch) {
+        throw new NotFoundException(`Batch ${item.batchId} not found`);
+      }
+
+      // Waste logged at a branch can only come from that branch's stock
+      if (dto.branchId && batch.branchId !== dto.branchId) {
+        throw new BadRequestException(
+          `Batch ${batch.id} is not held at this branch`,
+        );
+      }
+
+      const quantity = new Prisma.Decimal(item.quantity);
+      if (batch.isClosed || batch.remainingQty.lt(quantity)) {
+        throw new BadRequestException(
+          `Insufficient stock in batch ${batch.id}. Available: ${batch.remainingQty.toString()}, Wasted: ${quantity.toString()}`,
+        );
+      }
+
+      return { item, batch, quantity };
+    });
+
+    const recorder = await this.prismaService.user.findUnique({
+      where: { auth0UserId: recorderId },
+    });
+
+    const entries = await this.prismaService.$transaction(
+      lines.map(({ item, batch, quantity }) =>
+        this.prismaService.stockEntry.create({
+          data: {
+            type: 'WASTAGE',
+            ingredientId: batch.ingredientId,
+            batchId: batch.id,
+            branchId: batch.branchId,
+            quantity,
+            unitCost: batch.unitCost,
+            totalCost: batch.unitCost.mul(quantity),
+            wasteReason: item.reason,
+            wasteNotes: item.notes ?? null,
+            wasteApprovalStatus: 'PENDING',
+            recordedById: recorder?.id ?? null,
+          },
+        }),
+      ),
+    );
+
+    this.logger.log(
+      `Waste recorded: ${entries.length} entries pending approval`,
+    );
+
+    return entries;
+  }
+
+  /**
+   * Approve waste entry and deduct the wasted quantity from its batch
+   */
+  async approveWaste(
+    entryId: string,
+    approverId: string,
+    companyId: string,
+    dto?: ApproveWasteDto,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const entry = await this.findPendingEntry(entryId, organization.id);
+
+    if (!entry.batchId) {
+      throw new BadRequestException('Waste entry has no batch');
+    }
+    const batchId = entry.batchId;
+
+    const approver = await this.prismaService.user.findUnique({
+      where: { auth0UserId: approverId },
+    });
+
+    if (!approver) {
+      throw new NotFoundException('Approver not found');
+    }
+
+    const updated = await this.prismaService.$transaction(async (tx) => {
+      // Claim the entry, so a concurrent approval or rejection can't also
+      // act on it
+      const claimed = await tx.stockEntry.updateMany({
+        where: { id: entryId, wasteApprovalStatus: 'PENDING' },
+        data: {
+          wasteApprovalStatus: 'APPROVED',
+          wasteApproverId: approver.id,
+          wasteReviewNotes: dto?.notes ?? null,
+          wasteReviewedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new NotFoundException(
+          'Waste entry not found or already processed',
+        );
+      }
+
+      const batch = await tx.ingredientBatch.findUnique({
+        where: { id: batchId },
+      });
+
+      // Stock may have been consumed since the waste was logged
+      if (!batch || batch.remainingQty.lt(entry.quantity)) {
+        throw new BadRequestException(
+          `Insufficient stock in batch. Available: ${batch?.remainingQty.toString() ?? '0'}, Wasted: ${entry.quantity.toString()}`,
+        );
+      }
+
+      const newBatchQty = batch.remainingQty.sub(entry.quantity);
+      await tx.ingredientBatch.update({
+        where: { id: batch.id },
+        data: {
+          remainingQty: newBatchQty,
+          isClosed: newBatchQty.lte(0),
+        },
+      });
+
+      await tx.stockDeduction.create({
+        data: {
+          ingredientId: entry.ingredientId,
+          batchId: batch.id,
+          quantityDeducted: entry.quantity,
+          costPerUnit: batch.unitCost,
+          totalCost: batch.unitCost.mul(entry.quantity),
+          reason: 'waste',
+        },
+      });
+
+      // Recalculate FIFO cost (cost of next available batch)
+      const nextBatch = await tx.ingredientBatch.findFirst({
+        where: {
+          ingredientId: entry.ingredientId,
+          isClosed: false,
+          remainingQty: { gt: 0 },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      await tx.ingredient.update({
+        where: { id: entry.ingredientId },
+        data: {
+          totalStock: { decrement: entry.quantity },
+          fifoUnitCost: nextBatch?.unitCost ?? null,
+        },
+      });
+
+      if (batch.branchId) {
+        await this.batchService.adjustBranchStock(
+          tx,
+          batch.branchId,
+          entry.ingredientId,
+          entry.quantity.neg(),
+        );
+      }
+
+      return tx.stockEntry.findUniqueOrThrow({ where: { id: entryId } });
+    });
+
+    await this.batchService.closeEmptyBatches(entry.ingredientId);
+
+    // Enqueue inventory batch change job
+    await this.queueService.addJob(ORDARO_JOB_TYPES.INVENTORY_BATCH_CHANGE, {
+      ingredientId: entry.ingredientId,
+    });
+
+    this.logger.log(
+      `Waste ${entryId} approved, ${entry.quantity.toString()} deducted from batch ${batchId}`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return updated;
+  }
+
+  /**
+   * Reject waste entry
+   */
+  async rejectWaste(
+    entryId: string,
+    approverId: string,
+    dto: RejectWasteDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.findPendingEntry(entryId, organization.id);
+
+    const approver = await this.prismaService.user.findUnique({
+      where: { auth0UserId: approverId },
+    });
+
+    if (!approver) {
+      throw new NotFoundException('Approver not found');
+    }
+
+    // Only a still-pending entry can be rejected
+    const claimed = await this.prismaService.stockEntry.updateMany({
+      where: { id: entryId, wasteApprovalStatus: 'PENDING' },
+      data: {
+        wasteApprovalStatus: 'REJECTED',
+        wasteApproverId: approver.id,
+        wasteReviewNotes: dto.reason,
+        wasteReviewedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new NotFoundException('Waste entry not found or already processed');
+    }
+
+    const updated = await this.prismaService.stockEntry.findUniqueOrThrow({
+      where: { id: entryId },
+    });
+
+    this.logger.log(`Waste ${entryId} rejected`);
+
+    return updated;
+  }
+
+  /**
+   * List waste entries
+   */
+  async listWaste(
+    companyId: string,
+    query: ListWasteQueryDto,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const { limit = 20, cursor, orderDir = 'desc', status, branchId } = query;
+
+    let cursorCondition = {};
+    if (cursor) {
+      const decodedCursor = this.paginationService.decodeCursor(cursor);
+      if (decodedCursor && typeof decodedCursor.tieBreakerValue === 'string') {
+        cursorCondition = {
+          id:
+            orderDir === 'desc'
+              ? { lt: decodedCursor.tieBreakerValue }
+              : { gt: decodedCursor.tieBreakerValue },
+        };
+      }
+    }
+
+    const entries = await this.prismaService.stockEntry.findMany({
+      where: {
+        type: 'WASTAGE',
+        ingredient: { companyId: organization.id },
+        ...(status && { wasteApprovalStatus: status }),
+        ...(branchId && { branchId }),
+        ...cursorCondition,
+      },
+      include: {
+        ingredient: {
+          select: {
+            id: true,
+            name: true,
+            unit: true,
+          },
+        },
+        recordedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: { createdAt: orderDir },
+      take: limit + 1,
+    });
+
+    return this.paginationService.buildPaginatedResponse(entries, limit, {
+      cursorField: 'id',
+      additionalCursorFields: ['createdAt'],
+    });
+  }
+
+  private async findPendingEntry(entryId: string, organizationId: string) {
+    const entry = await this.prismaService.stockEntry.findFirst({
+      where: {
+        id: entryId,
+        type: 'WASTAGE',
+        wasteApprovalStatus: 'PENDING',
+        ingredient: { companyId: organizationId },
+      },
+    });
+
+    if (!entry) {
+      throw new NotFoundException('Waste entry not found or already processed');
+    }
+
+    return entry;
+  }
+}
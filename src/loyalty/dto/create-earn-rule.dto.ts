@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
+  IsArray,
+  ArrayUnique,
+  IsOptional,
+} from 'class-validator';
+
+export class CreateEarnRuleDto {
+  @ApiProperty({
+    description: 'Rule name (e.g., Double points on desserts)',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiProperty({ description: 'Points multiplier', example: 2 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0)
+  multiplier!: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Days the rule applies (0 = Sunday ... 6 = Saturday); omit for every day',
+    type: [Number],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek?: number[];
+
+  @ApiPropertyOptional({
+    description:
+      'Menu category the rule applies to, including subcategories; omit for every item',
+  })
+  @IsOptional()
+  @IsString()
+  categoryId?: string;
+}
@@ -0,0 +1,5 @@
+export * from './update-loyalty-program.dto';
+export * from './create-earn-rule.dto';
+export * from './update-earn-rule.dto';
+export * from './set-loyalty-tiers.dto';
+export * from './loyalty-points.dto';
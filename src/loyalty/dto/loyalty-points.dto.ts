@@ -0,0 +1,50 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  Min,
+  MaxLength,
+  NotEquals,
+} from 'class-validator';
+
+export class EarnPointsDto {
+  @ApiProperty({ description: 'Order the customer paid for' })
+  @IsString()
+  @IsNotEmpty()
+  orderId!: string;
+}
+
+export class RedeemPointsDto {
+  @ApiProperty({ description: 'Points to redeem', minimum: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  points!: number;
+
+  @ApiPropertyOptional({
+    description: 'Order the points pay towards (checks the redemption cap)',
+  })
+  @IsOptional()
+  @IsString()
+  orderId?: string;
+}
+
+export class AdjustPointsDto {
+  @ApiProperty({
+    description: 'Points to add (positive) or remove (negative)',
+    example: 50,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @NotEquals(0)
+  points!: number;
+
+  @ApiProperty({ description: 'Reason for the adjustment', maxLength: 500 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason!: string;
+}
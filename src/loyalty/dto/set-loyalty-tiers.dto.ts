@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsNumber,
+  Min,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  ValidateNested,
+} from 'class-validator';
+
+export class LoyaltyTierDto {
+  @ApiProperty({ description: 'Tier name (e.g., Gold)', maxLength: 50 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name!: string;
+
+  @ApiProperty({ description: 'Lifetime points needed', example: 1000 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0)
+  minPoints!: number;
+
+  @ApiPropertyOptional({
+    description: 'Points multiplier for members (defaults to 1)',
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0)
+  earnMultiplier?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether members are flagged VIP (defaults to false)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isVIP?: boolean;
+}
+
+export class SetLoyaltyTiersDto {
+  @ApiProperty({
+    description: 'All tiers; an empty list removes tiers',
+    type: [LoyaltyTierDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => LoyaltyTierDto)
+  tiers!: LoyaltyTierDto[];
+}
@@ -0,0 +1,54 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  MaxLength,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
+  IsArray,
+  ArrayUnique,
+  IsOptional,
+  IsBoolean,
+} from 'class-validator';
+
+export class UpdateEarnRuleDto {
+  @ApiPropertyOptional({ description: 'Rule name', maxLength: 100 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Points multiplier' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0)
+  multiplier?: number;
+
+  @ApiPropertyOptional({
+    description: 'Days the rule applies; empty for every day',
+    type: [Number],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek?: number[];
+
+  @ApiPropertyOptional({
+    description: 'Menu category (null for every item)',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  categoryId?: string | null;
+
+  @ApiPropertyOptional({ description: 'Whether the rule applies' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
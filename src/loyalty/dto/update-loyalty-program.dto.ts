@@ -0,0 +1,65 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsNumber,
+  IsInt,
+  IsOptional,
+  Min,
+  Max,
+} from 'class-validator';
+
+export class UpdateLoyaltyProgramDto {
+  @ApiPropertyOptional({ description: 'Whether customers earn and redeem' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Points earned per cedi spent',
+    example: 1,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  pointsPerCurrencyUnit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Cedis off per point redeemed',
+    example: 0.01,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  redemptionValue?: number;
+
+  @ApiPropertyOptional({ description: 'Smallest redemption allowed' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minRedeemPoints?: number;
+
+  @ApiPropertyOptional({
+    description: 'Share of an order payable with points (0-1, null for no cap)',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0)
+  @Max(1)
+  maxRedeemPercent?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Days until earned points expire (null for never)',
+    nullable: true,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  pointsExpiryDays?: number | null;
+}
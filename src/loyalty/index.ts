@@ -0,0 +1,5 @@
+export * from './dto';
+export * from './loyalty.controller';
+export * from './loyalty.module';
+export * from './loyalty-points.service';
+export * from './loyalty-program.service';
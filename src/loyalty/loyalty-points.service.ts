@@ -0,0 +1,828 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PaginationQueryDto } from '../common/dto/pagination.dto';
+import { PaginationService } from '../common/services/pagination.service';
+import { NotificationService } from '../customers/services/notification.service';
+import { refreshCustomerOrderStats } from '../customers/utils/customer-stats';
+import { PrismaService } from '../database/prisma.service';
+import { getLocalTime } from '../menu-categories/category-schedule';
+import { getCategoryPath } from '../pricing/price-resolver';
+import { CacheService } from '../services/cache';
+
+import { EarnPointsDto, RedeemPointsDto, AdjustPointsDto } from './dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPIRY_NOTICE_DAYS = 30;
+
+type LoyaltyEntryType = 'EARN' | 'REDEEM' | 'EXPIRE' | 'ADJUST' | 'REVERSAL';
+
+interface LedgerChange {
+  type: LoyaltyEntryType;
+  points: Prisma.Decimal; // Signed
+  lifetimePoints?: Prisma.Decimal; // Signed change to lifetime points
+  reason: string;
+  orderId?: string | null;
+  createdById?: string | null;
+  expiresAt?: Date | null;
+}
+
+@Injectable()
+export class LoyaltyPointsService {
+  private readonly logger = new Logger(LoyaltyPointsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly cacheService: CacheService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * A customer's points balance, tier and progress to the next tier
+   */
+  async getCustomerLoyalty(
+    customerId: string,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const orgCustomer = await this.findOrgCustomer(customerId, organization.id);
+
+    const [tiers, expiring] = await Promise.all([
+      this.prismaService.loyaltyTier.findMany({
+        where: { program: { companyId: organization.id } },
+        orderBy: { minPoints: 'asc' },
+      }),
+      this.prismaService.loyaltyLedgerEntry.aggregate({
+        where: {
+          organizationCustomerId: orgCustomer.id,
+          remainingPoints: { gt: 0 },
+          expiresAt: {
+            lte: new Date(Date.now() + EXPIRY_NOTICE_DAYS * DAY_MS),
+          },
+        },
+        _sum: { remainingPoints: true },
+        _min: { expiresAt: true },
+      }),
+    ]);
+
+    const nextTier = tiers.find((t) =>
+      t.minPoints.gt(orgCustomer.lifetimePoints),
+    );
+
+    return {
+      customerId,
+      loyaltyPoints: orgCustomer.loyaltyPoints,
+      lifetimePoints: orgCustomer.lifetimePoints,
+      tier: tiers.find((t) => t.id === orgCustomer.loyaltyTierId) ?? null,
+      isVIP: orgCustomer.isVIP,
+      nextTier: nextTier
+        ? {
+            id: nextTier.id,
+            name: nextTier.name,
+            pointsNeeded: nextTier.minPoints.sub(orgCustomer.lifetimePoints),
+          }
+        : null,
+      expiringSoon: {
+        points: expiring._sum.remainingPoints ?? new Prisma.Decimal(0),
+        nextExpiry: expiring._min.expiresAt,
+      },
+    };
+  }
+
+  /**
+   * A customer's points ledger, newest first
+   */
+  async listLedger(
+    customerId: string,
+    companyId: string,
+    query: PaginationQueryDto,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const orgCustomer = await this.findOrgCustomer(customerId, organization.id);
+
+    const { limit = 20, cursor } = query;
+
+    let cursorCondition = {};
+    if (cursor) {
+      const decodedCursor = this.paginationService.decodeCursor(cursor);
+      if (decodedCursor && typeof decodedCursor.tieBreakerValue === 'string') {
+        cursorCondition = {
+          id: { lt: decodedCursor.tieBreakerValue },
+        };
+      }
+    }
+
+    const entries = await this.prismaService.loyaltyLedgerEntry.findMany({
+      where: {
+        organizationCustomerId: orgCustomer.id,
+        ...cursorCondition,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit + 1,
+    });
+
+    return this.paginationService.buildPaginatedResponse(entries, limit, {
+      cursorField: 'id',
+      additionalCursorFields: ['createdAt'],
+    });
+  }
+
+  /**
+   * Award a customer points for an order
+   *
+   * Each line earns the programme's points per cedi, times the highest
+   * earn rule matching its category and the order's day (rules don't
+   * stack), times the customer's tier multiplier. Discounts on the order,
+   * including points redeemed on it, reduce the points in proportion. An
+   * order earns points only once, and only for the customer it was placed
+   * for.
+   */
+  async earnPointsForOrder(
+    customerId: string,
+    dto: EarnPointsDto,
+    companyId: string,
+    creatorId?: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const program = await this.findActiveProgram(organization.id);
+    const orgCustomer = await this.findOrgCustomer(customerId, organization.id);
+
+    const order = await this.prismaService.order.findFirst({
+      where: {
+        id: dto.orderId,
+        companyId: organization.id,
+      },
+      include: {
+        branch: { select: { timezone: true } },
+        lines: {
+          include: {
+            menuItem: { select: { categoryId: true } },
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (order.customerId !== customerId) {
+      throw new BadRequestException('Order was not placed for this customer');
+    }
+
+    if (order.status === 'VOIDED') {
+      throw new BadRequestException('Cannot earn points on a voided order');
+    }
+
+    const categories = await this.prismaService.menuCategory.findMany({
+      where: { companyId: organization.id },
+      select: { id: true, parentId: true },
+    });
+    const parentOf = new Map(categories.map((c) => [c.id, c.parentId]));
+    const { dayOfWeek } = getLocalTime(order.createdAt, order.branch.timezone);
+    const rules = program.earnRules.filter(
+      (rule) =>
+        rule.daysOfWeek.length === 0 || rule.daysOfWeek.includes(dayOfWeek),
+    );
+
+    const tier = program.tiers.find((t) => t.id === orgCustomer.loyaltyTierId);
+    const paidShare = order.subtotal.gt(0)
+      ? Prisma.Decimal.min(order.total.div(order.subtotal), 1)
+      : new Prisma.Decimal(0);
+
+    const basePoints = order.lines.reduce((sum, line) => {
+      const path = getCategoryPath(line.menuItem.categoryId, parentOf);
+      const multipliers = rules
+        .filter((rule) => !rule.categoryId || path.has(rule.categoryId))
+        .map((rule) => rule.multiplier);
+      const multiplier = multipliers.length
+        ? Prisma.Decimal.max(...multipliers)
+        : new Prisma.Decimal(1);
+      return sum.add(line.lineTotal.mul(multiplier));
+    }, new Prisma.Decimal(0));
+
+    const points = basePoints
+      .mul(paidShare)
+      .mul(program.pointsPerCurrencyUnit)
+      .mul(tier?.earnMultiplier ?? 1)
+      .toDecimalPlaces(0, Prisma.Decimal.ROUND_DOWN);
+
+    if (points.lte(0)) {
+      return { points, entry: null, balance: orgCustomer.loyaltyPoints };
+    }
+
+    const creator = creatorId
+      ? await this.prismaService.user.findUnique({
+          where: { auth0UserId: creatorId },
+        })
+      : null;
+
+    return this.applyChange(
+      orgCustomer.id,
+      organization.id,
+      {
+        type: 'EARN',
+        points,
+        lifetimePoints: points,
+        reason: 'earned',
+        orderId: order.id,
+        createdById: creator?.id ?? null,
+        expiresAt: program.pointsExpiryDays
+          ? new Date(Date.now() + program.pointsExpiryDays * DAY_MS)
+          : null,
+      },
+      {
+        // Checked under the order's lock so concurrent earns award once
+        prepare: async (tx) => {
+          const locked = await this.lockOrder(tx, order.id);
+          if (locked.status === 'VOIDED') {
+            throw new BadRequestException(
+              'Cannot earn points on a voided order',
+            );
+          }
+
+          const alreadyEarned = await tx.loyaltyLedgerEntry.findFirst({
+            where: { orderId: order.id, type: 'EARN' },
+          });
+          if (alreadyEarned) {
+            throw new ConflictException(
+              'Points were already earned for this order',
+            );
+          }
+        },
+      },
+    );
+  }
+
+  /**
+   * Spend a customer's points for a discount
+   *
+   * Returns the discount the points are worth. Points are taken from the
+   * earliest-expiring earnings first. Against an order, the order must be the
+   * customer's, everything redeemed on it together stays within the
+   * programme's cap, and the discount is taken off the order's total.
+   */
+  async redeemPoints(
+    customerId: string,
+    dto: RedeemPointsDto,
+    companyId: string,
+    creatorId?: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const program = await this.findActiveProgram(organization.id);
+    const orgCustomer = await this.findOrgCustomer(customerId, organization.id);
+
+    if (dto.points < program.minRedeemPoints) {
+      throw new BadRequestException(
+        `At least ${String(program.minRedeemPoints)} points must be redeemed at once`,
+      );
+    }
+
+    const value = program.redemptionValue
+      .mul(dto.points)
+      .toDecimalPlaces(2, Prisma.Decimal.ROUND_DOWN);
+
+    if (dto.orderId) {
+      const order = await this.prismaService.order.findFirst({
+        where: {
+          id: dto.orderId,
+          companyId: organization.id,
+        },
+      });
+
+      if (!order) {
+        throw new NotFoundException('Order not found');
+      }
+
+      if (order.customerId !== customerId) {
+        throw new BadRequestException('Order was not placed for this customer');
+      }
+
+      if (order.status === 'VOIDED') {
+        throw new BadRequestException('Cannot redeem points on a voided order');
+      }
+    }
+
+    const creator = creatorId
+      ? await this.prismaService.user.findUnique({
+          where: { auth0UserId: creatorId },
+        })
+      : null;
+
+    const { orderId } = dto;
+    const result = await this.applyChange(
+      orgCustomer.id,
+      organization.id,
+      {
+        type: 'REDEEM',
+        points: new Prisma.Decimal(-dto.points),
+        reason: 'redeemed',
+        orderId: orderId ?? null,
+        createdById: creator?.id ?? null,
+      },
+      {
+        // Checked under the order's lock so concurrent redemptions can't
+        // together exceed the cap
+        ...(orderId && {
+          prepare: async (tx: Prisma.TransactionClient) => {
+            const order = await this.lockOrder(tx, orderId);
+            if (order.status === 'VOIDED') {
+              throw new BadRequestException(
+                'Cannot redeem points on a voided order',
+              );
+            }
+
+            // Earlier redemptions on the order count towards the cap,
+            // which applies to the order's total before any points
+            const redeemedValue = order.loyaltyDiscount.add(value);
+            if (
+              program.maxRedeemPercent &&
+              redeemedValue.gt(
+                order.total
+                  .add(order.loyaltyDiscount)
+                  .mul(program.maxRedeemPercent),
+              )
+            ) {
+              throw new BadRequestException(
+                `Points can pay for at most ${program.maxRedeemPercent.mul(100).toString()}% of an order`,
+              );
+            }
+
+            if (value.gt(order.total)) {
+              throw new BadRequestException(
+                'Points are worth more than is left to pay on the order',
+              );
+            }
+
+            // The discount comes off what the customer is charged
+            await tx.order.update({
+              where: { id: orderId },
+              data: {
+                total: { decrement: value },
+                loyaltyDiscount: { increment: value },
+              },
+            });
+
+            if (order.customerId) {
+              await refreshCustomerOrderStats(
+                tx,
+                order.customerId,
+                organization.id,
+              );
+            }
+          },
+        }),
+      },
+    );
+
+    return { ...result, value };
+  }
+
+  /**
+   * Manually add or remove points, with a reason
+   */
+  async adjustPoints(
+    customerId: string,
+    dto: AdjustPointsDto,
+    companyId: string,
+    creatorId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const program = await this.findActiveProgram(organization.id);
+    const orgCustomer = await this.findOrgCustomer(customerId, organization.id);
+
+    const creator = await this.prismaService.user.findUnique({
+      where: { auth0UserId: creatorId },
+    });
+
+    return this.applyChange(orgCustomer.id, organization.id, {
+      type: 'ADJUST',
+      points: new Prisma.Decimal(dto.points),
+      reason: dto.reason,
+      createdById: creator?.id ?? null,
+      expiresAt:
+        dto.points > 0 && program.pointsExpiryDays
+          ? new Date(Date.now() + program.pointsExpiryDays * DAY_MS)
+          : null,
+    });
+  }
+
+  /**
+   * Give back the points earned and spent on an order, e.g. when it is voided
+   *
+   * Earned points that were already spent stay spent, but still come off the
+   * customer's lifetime points. Reversing an order twice does nothing.
+   */
+  async reverseOrderPoints(orderId: string): Promise<{ reversed: number }> {
+    // All-or-nothing under the order's lock, so a reversal is never partial
+    // and never applied twice
+    const changes = await this.prismaService.$transaction(async (tx) => {
+      const order = await this.lockOrder(tx, orderId);
+
+      const entries = await tx.loyaltyLedgerEntry.findMany({
+        where: {
+          orderId,
+          type: { in: ['EARN', 'REDEEM', 'REVERSAL'] },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      if (entries.some((entry) => entry.type === 'REVERSAL')) {
+        return [];
+      }
+
+      // Points spent on the order no longer pay for it
+      await tx.order.updateMany({
+        where: { id: orderId, loyaltyDiscount: { gt: 0 } },
+        data: {
+          total: { increment: order.loyaltyDiscount },
+          loyaltyDiscount: 0,
+        },
+      });
+
+      const applied = [];
+      for (const entry of entries) {
+        const earned = entry.type === 'EARN';
+        if (earned) {
+          await tx.loyaltyLedgerEntry.update({
+            where: { id: entry.id },
+            data: { remainingPoints: 0 },
+          });
+        }
+
+        // Earned points that were already spent stay spent
+        const change: LedgerChange = earned
+          ? {
+              type: 'REVERSAL',
+              points: (entry.remainingPoints ?? new Prisma.Decimal(0)).neg(),
+              lifetimePoints: entry.points.neg(),
+              reason: 'reversed',
+              orderId,
+            }
+          : {
+              type: 'REVERSAL',
+              points: entry.points.neg(),
+              reason: 'refunded',
+              orderId,
+            };
+
+        applied.push({
+          entry,
+          change,
+          result: await this.writeChange(
+            tx,
+            entry.organizationCustomerId,
+            entry.companyId,
+            change,
+            !earned,
+          ),
+        });
+      }
+
+      return applied;
+    });
+
+    for (const { entry, change, result } of changes) {
+      await this.afterChange(
+        entry.organizationCustomerId,
+        entry.companyId,
+        change,
+        result,
+      );
+    }
+
+    return { reversed: changes.length };
+  }
+
+  /**
+   * Expire earned points that have passed their expiry date
+   *
+   * Run daily by the loyalty worker.
+   */
+  async expireDuePoints(now: Date = new Date()): Promise<{ expired: number }> {
+    const due = await this.prismaService.loyaltyLedgerEntry.findMany({
+      where: {
+        remainingPoints: { gt: 0 },
+        expiresAt: { lte: now },
+      },
+      orderBy: { expiresAt: 'asc' },
+    });
+
+    let expired = 0;
+    for (const entry of due) {
+      if (!entry.remainingPoints) {
+        continue;
+      }
+
+      try {
+        // Claim the points first so overlapping runs expire them only once
+        const { count } =
+          await this.prismaService.loyaltyLedgerEntry.updateMany({
+            where: { id: entry.id, remainingPoints: entry.remainingPoints },
+            data: { remainingPoints: 0 },
+          });
+
+        if (count === 0) {
+          continue;
+        }
+
+        await this.applyChange(
+          entry.organizationCustomerId,
+          entry.companyId,
+          {
+            type: 'EXPIRE',
+            points: entry.remainingPoints.neg(),
+            reason: 'expired',
+          },
+          { consumeEarnings: false },
+        );
+        expired++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to expire loyalty points from entry ${entry.id}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    return { expired };
+  }
+
+  /**
+   * Record a ledger entry and move the customer's balance, tier and VIP flag
+   *
+   * `prepare` runs first in the same transaction, for checks that must hold
+   * when the entry is written.
+   */
+  private async applyChange(
+    organizationCustomerId: string,
+    organizationId: string,
+    change: LedgerChange,
+    options: {
+      consumeEarnings?: boolean;
+      prepare?: (tx: Prisma.TransactionClient) => Promise<void>;
+    } = {},
+  ) {
+    const { consumeEarnings = true, prepare } = options;
+
+    const result = await this.prismaService.$transaction(async (tx) => {
+      if (prepare) {
+        await prepare(tx);
+      }
+
+      return this.writeChange(
+        tx,
+        organizationCustomerId,
+        organizationId,
+        change,
+        consumeEarnings,
+      );
+    });
+
+    return this.afterChange(
+      organizationCustomerId,
+      organizationId,
+      change,
+      result,
+    );
+  }
+
+  /**
+   * Write a ledger entry and the customer's new balance, tier and VIP flag
+   *
+   * Spending takes points from the earliest-expiring earnings first, so that
+   * expiry only removes points that are still unspent.
+   */
+  private async writeChange(
+    tx: Prisma.TransactionClient,
+    organizationCustomerId: string,
+    organizationId: string,
+    change: LedgerChange,
+    consumeEarnings: boolean,
+  ) {
+    const earning = change.points.gt(0);
+
+    const updated = await tx.organizationCustomer.update({
+      where: { id: organizationCustomerId },
+      data: {
+        loyaltyPoints: { increment: change.points },
+        ...(change.lifetimePoints && {
+          lifetimePoints: { increment: change.lifetimePoints },
+        }),
+      },
+    });
+
+    if (updated.loyaltyPoints.lt(0)) {
+      throw new BadRequestException(
+        `Insufficient points: balance is ${updated.loyaltyPoints.add(change.points.neg()).toString()}`,
+      );
+    }
+
+    if (!earning && consumeEarnings) {
+      await this.consumeEarnings(
+        tx,
+        organizationCustomerId,
+        change.points.neg(),
+      );
+    }
+
+    // Tiers follow lifetime points and decide the VIP flag
+    const tiers = await tx.loyaltyTier.findMany({
+      where: { program: { companyId: organizationId } },
+      orderBy: { minPoints: 'desc' },
+    });
+    const tier = tiers.find((t) => updated.lifetimePoints.gte(t.minPoints));
+
+    const orgCustomer =
+      tiers.length > 0 && tier?.id !== updated.loyaltyTierId
+        ? await tx.organizationCustomer.update({
+            where: { id: organizationCustomerId },
+            data: {
+              loyaltyTierId: tier?.id ?? null,
+              isVIP: tier?.isVIP ?? false,
+            },
+          })
+        : updated;
+
+    const entry = await tx.loyaltyLedgerEntry.create({
+      data: {
+        type: change.type,
+        points: change.points,
+        balanceAfter: updated.loyaltyPoints,
+        remainingPoints: earning ? change.points : null,
+        expiresAt: earning ? (change.expiresAt ?? null) : null,
+        reason: change.reason,
+        companyId: organizationId,
+        organizationCustomerId,
+        orderId: change.orderId ?? null,
+        createdById: change.createdById ?? null,
+      },
+    });
+
+    return { entry, orgCustomer, tierName: tier?.name ?? null };
+  }
+
+  /**
+   * Log, notify the customer and invalidate the cache once a change is
+   * committed
+   */
+  private async afterChange(
+    organizationCustomerId: string,
+    organizationId: string,
+    change: LedgerChange,
+    {
+      entry,
+      orgCustomer,
+      tierName,
+    }: Awaited<ReturnType<LoyaltyPointsService['writeChange']>>,
+  ) {
+    this.logger.log(
+      `Loyalty ${change.type.toLowerCase()}: ${change.points.toString()} points for organization customer ${organizationCustomerId}, balance ${orgCustomer.loyaltyPoints.toString()}`,
+    );
+
+    if (!change.points.isZero()) {
+      await this.notificationService.sendLoyaltyUpdate(
+        orgCustomer.customerId,
+        organizationId,
+        {
+          points: change.points.toNumber(),
+          balance: orgCustomer.loyaltyPoints.toNumber(),
+          reason: change.reason,
+          tierName,
+        },
+      );
+    }
+
+    // Invalidate cache
+    const organization = await this.prismaService.organization.findUnique({
+      where: { id: organizationId },
+      select: { auth0OrgId: true },
+    });
+    if (organization?.auth0OrgId) {
+      await this.cacheService.invalidateOrganization(organization.auth0OrgId);
+    }
+
+    return {
+      entry,
+      balance: orgCustomer.loyaltyPoints,
+      lifetimePoints: orgCustomer.lifetimePoints,
+      tierName,
+      isVIP: orgCustomer.isVIP,
+    };
+  }
+
+  /**
+   * Lock an order's row for the rest of the transaction
+   */
+  private async lockOrder(tx: Prisma.TransactionClient, orderId: string) {
+    await tx.$queryRaw`SELECT id FROM "orders" WHERE id = ${orderId} FOR UPDATE`;
+
+    return tx.order.findUniqueOrThrow({ where: { id: orderId } });
+  }
+
+  private async consumeEarnings(
+    tx: Prisma.TransactionClient,
+    organizationCustomerId: string,
+    points: Prisma.Decimal,
+  ): Promise<void> {
+    const earnings = await tx.loyaltyLedgerEntry.findMany({
+      where: {
+        organizationCustomerId,
+        remainingPoints: { gt: 0 },
+      },
+      orderBy: [
+        { expiresAt: { sort: 'asc', nulls: 'last' } },
+        { createdAt: 'asc' },
+      ],
+    });
+
+    let outstanding = points;
+    for (const earning of earnings) {
+      if (outstanding.lte(0) || !earning.remainingPoints) {
+        break;
+      }
+
+      const taken = Prisma.Decimal.min(earning.remainingPoints, outstanding);
+      await tx.loyaltyLedgerEntry.update({
+        where: { id: earning.id },
+        data: { remainingPoints: earning.remainingPoints.sub(taken) },
+      });
+      outstanding = outstanding.sub(taken);
+    }
+  }
+
+  private async findActiveProgram(organizationId: string) {
+    const program = await this.prismaService.loyaltyProgram.findUnique({
+      where: { companyId: organizationId },
+      include: {
+        earnRules: { where: { isActive: true } },
+        tiers: true,
+      },
+    });
+
+    if (!program?.isActive) {
+      throw new BadRequestException('Loyalty programme is not active');
+    }
+
+    return program;
+  }
+
+  private async findOrgCustomer(customerId: string, organizationId: string) {
+    const orgCustomer =
+      await this.prismaService.organizationCustomer.findUnique({
+        where: {
+          customerId_organizationId: {
+            customerId,
+            organizationId,
+          },
+        },
+      });
+
+    if (!orgCustomer) {
+      throw new NotFoundException('Customer not found in this organization');
+    }
+
+    return orgCustomer;
+  }
+}
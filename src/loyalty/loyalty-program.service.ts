@@ -0,0 +1,343 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PrismaService } from '../database/prisma.service';
+import { CacheService } from '../services/cache';
+
+import {
+  UpdateLoyaltyProgramDto,
+  CreateEarnRuleDto,
+  UpdateEarnRuleDto,
+  SetLoyaltyTiersDto,
+} from './dto';
+
+@Injectable()
+export class LoyaltyProgramService {
+  private readonly logger = new Logger(LoyaltyProgramService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * Get the organization's loyalty programme with its earn rules and tiers
+   */
+  async getProgram(companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const program = await this.prismaService.loyaltyProgram.findUnique({
+      where: { companyId: organization.id },
+      include: {
+        earnRules: {
+          include: { category: { select: { id: true, name: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+        tiers: { orderBy: { minPoints: 'asc' } },
+      },
+    });
+
+    if (!program) {
+      throw new NotFoundException('Loyalty programme not set up');
+    }
+
+    return program;
+  }
+
+  /**
+   * Create or update the organization's loyalty programme
+   */
+  async upsertProgram(
+    dto: UpdateLoyaltyProgramDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const data = {
+      ...(dto.isActive !== undefined && { isActive: dto.isActive }),
+      ...(dto.pointsPerCurrencyUnit !== undefined && {
+        pointsPerCurrencyUnit: new Prisma.Decimal(dto.pointsPerCurrencyUnit),
+      }),
+      ...(dto.redemptionValue !== undefined && {
+        redemptionValue: new Prisma.Decimal(dto.redemptionValue),
+      }),
+      ...(dto.minRedeemPoints !== undefined && {
+        minRedeemPoints: dto.minRedeemPoints,
+      }),
+      ...(dto.maxRedeemPercent !== undefined && {
+        maxRedeemPercent:
+          dto.maxRedeemPercent === null
+            ? null
+            : new Prisma.Decimal(dto.maxRedeemPercent),
+      }),
+      ...(dto.pointsExpiryDays !== undefined && {
+        pointsExpiryDays: dto.pointsExpiryDays,
+      }),
+    };
+
+    const program = await this.prismaService.loyaltyProgram.upsert({
+      where: { companyId: organization.id },
+      update: data,
+      create: { ...data, companyId: organization.id },
+    });
+
+    this.logger.log(`Loyalty programme saved for ${organization.id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return program;
+  }
+
+  /**
+   * Add a bonus earn rule (e.g. double points on desserts)
+   */
+  async createEarnRule(
+    dto: CreateEarnRuleDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const program = await this.findProgram(organization.id);
+
+    if (dto.categoryId) {
+      await this.assertCategory(dto.categoryId, organization.id);
+    }
+
+    const rule = await this.prismaService.loyaltyEarnRule.create({
+      data: {
+        name: dto.name,
+        multiplier: new Prisma.Decimal(dto.multiplier),
+        daysOfWeek: dto.daysOfWeek ?? [],
+        categoryId: dto.categoryId ?? null,
+        programId: program.id,
+      },
+    });
+
+    this.logger.log(`Loyalty earn rule created: ${rule.id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return rule;
+  }
+
+  /**
+   * Update an earn rule
+   */
+  async updateEarnRule(
+    id: string,
+    dto: UpdateEarnRuleDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.findEarnRule(id, organization.id);
+
+    if (dto.categoryId) {
+      await this.assertCategory(dto.categoryId, organization.id);
+    }
+
+    const rule = await this.prismaService.loyaltyEarnRule.update({
+      where: { id },
+      data: {
+        ...(dto.name && { name: dto.name }),
+        ...(dto.multiplier !== undefined && {
+          multiplier: new Prisma.Decimal(dto.multiplier),
+        }),
+        ...(dto.daysOfWeek && { daysOfWeek: dto.daysOfWeek }),
+        ...(dto.categoryId !== undefined && { categoryId: dto.categoryId }),
+        ...(dto.isActive !== undefined && { isActive: dto.isActive }),
+      },
+    });
+
+    this.logger.log(`Loyalty earn rule updated: ${id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return rule;
+  }
+
+  /**
+   * Delete an earn rule
+   */
+  async deleteEarnRule(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.findEarnRule(id, organization.id);
+
+    const result = await this.prismaService.loyaltyEarnRule.delete({
+      where: { id },
+    });
+
+    this.logger.log(`Loyalty earn rule deleted: ${id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return result;
+  }
+
+  /**
+   * Replace the programme's tiers and re-tier every customer
+   *
+   * Customers are placed in the highest tier their lifetime points reach,
+   * and flagged VIP exactly when that tier is a VIP tier.
+   */
+  async setTiers(dto: SetLoyaltyTiersDto, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const program = await this.findProgram(organization.id);
+
+    const names = dto.tiers.map((t) => t.name);
+    if (new Set(names).size !== names.length) {
+      throw new BadRequestException('Tier names must be unique');
+    }
+
+    const thresholds = dto.tiers.map((t) => t.minPoints);
+    if (new Set(thresholds).size !== thresholds.length) {
+      throw new BadRequestException('Tiers must need different points');
+    }
+
+    const sorted = [...dto.tiers].sort((a, b) => a.minPoints - b.minPoints);
+
+    const tiers = await this.prismaService.$transaction(async (tx) => {
+      await tx.loyaltyTier.deleteMany({ where: { programId: program.id } });
+
+      const created = [];
+      for (const tier of sorted) {
+        created.push(
+          await tx.loyaltyTier.create({
+            data: {
+              name: tier.name,
+              minPoints: new Prisma.Decimal(tier.minPoints),
+              earnMultiplier: new Prisma.Decimal(tier.earnMultiplier ?? 1),
+              isVIP: tier.isVIP ?? false,
+              programId: program.id,
+            },
+          }),
+        );
+      }
+
+      const [lowest] = created;
+      if (lowest) {
+        // Below the lowest tier
+        await tx.organizationCustomer.updateMany({
+          where: {
+            organizationId: organization.id,
+            lifetimePoints: { lt: lowest.minPoints },
+          },
+          data: { loyaltyTierId: null, isVIP: false },
+        });
+
+        // Lowest first, so each customer ends up in the highest tier reached
+        for (const tier of created) {
+          await tx.organizationCustomer.updateMany({
+            where: {
+              organizationId: organization.id,
+              lifetimePoints: { gte: tier.minPoints },
+            },
+            data: { loyaltyTierId: tier.id, isVIP: tier.isVIP },
+          });
+        }
+      }
+
+      return created;
+    });
+
+    this.logger.log(
+      `Loyalty tiers set for ${organization.id}: ${tiers.map((t) => t.name).join(', ') || 'none'}`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return tiers;
+  }
+
+  private async findProgram(organizationId: string) {
+    const program = await this.prismaService.loyaltyProgram.findUnique({
+      where: { companyId: organizationId },
+    });
+
+    if (!program) {
+      throw new NotFoundException('Loyalty programme not set up');
+    }
+
+    return program;
+  }
+
+  private async findEarnRule(id: string, organizationId: string) {
+    const rule = await this.prismaService.loyaltyEarnRule.findFirst({
+      where: {
+        id,
+        program: { companyId: organizationId },
+      },
+    });
+
+    if (!rule) {
+      throw new NotFoundException('Earn rule not found');
+    }
+
+    return rule;
+  }
+
+  private async assertCategory(
+    categoryId: string,
+    organizationId: string,
+  ): Promise<void> {
+    const category = await this.prismaService.menuCategory.findFirst({
+      where: {
+        id: categoryId,
+        companyId: organizationId,
+        isActive: true,
+      },
+    });
+
+    if (!category) {
+      throw new NotFoundException('Menu category not found');
+    }
+  }
+}
@@ -0,0 +1,282 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+
+import { CurrentUser, Roles, requiresOrganization } from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+import { PaginationQueryDto } from '../common/dto/pagination.dto';
+
+import {
+  UpdateLoyaltyProgramDto,
+  CreateEarnRuleDto,
+  UpdateEarnRuleDto,
+  SetLoyaltyTiersDto,
+  EarnPointsDto,
+  RedeemPointsDto,
+  AdjustPointsDto,
+} from './dto';
+import { LoyaltyPointsService } from './loyalty-points.service';
+import { LoyaltyProgramService } from './loyalty-program.service';
+
+@ApiTags('Loyalty')
+@ApiBearerAuth('Auth0')
+@Controller('loyalty')
+@UseGuards(Auth0Guard)
+export class LoyaltyController {
+  constructor(
+    private readonly loyaltyProgramService: LoyaltyProgramService,
+    private readonly loyaltyPointsService: LoyaltyPointsService,
+  ) {}
+
+  @Get('program')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Get loyalty programme',
+    description: 'Returns the loyalty programme with its earn rules and tiers',
+  })
+  @ApiResponse({ status: 200, description: 'Loyalty programme' })
+  @ApiResponse({ status: 404, description: 'Loyalty programme not set up' })
+  getProgram(@CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.loyaltyProgramService.getProgram(user.organizationId);
+  }
+
+  @Put('program')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER)
+  @ApiOperation({
+    summary: 'Set up loyalty programme',
+    description:
+      'Creates or updates the points earn rate, redemption value and expiry',
+  })
+  @ApiResponse({ status: 200, description: 'Loyalty programme saved' })
+  upsertProgram(
+    @Body() updateLoyaltyProgramDto: UpdateLoyaltyProgramDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.loyaltyProgramService.upsertProgram(
+      updateLoyaltyProgramDto,
+      user.organizationId,
+    );
+  }
+
+  @Post('earn-rules')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER)
+  @ApiOperation({
+    summary: 'Create earn rule',
+    description:
+      'Adds a points multiplier for a menu category and/or days of the week',
+  })
+  @ApiResponse({ status: 201, description: 'Earn rule created' })
+  @ApiResponse({ status: 404, description: 'Loyalty programme not set up' })
+  createEarnRule(
+    @Body() createEarnRuleDto: CreateEarnRuleDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.loyaltyProgramService.createEarnRule(
+      createEarnRuleDto,
+      user.organizationId,
+    );
+  }
+
+  @Patch('earn-rules/:id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER)
+  @ApiOperation({
+    summary: 'Update earn rule',
+    description: 'Updates an earn rule',
+  })
+  @ApiParam({ name: 'id', description: 'Earn rule UUID' })
+  @ApiResponse({ status: 200, description: 'Earn rule updated' })
+  updateEarnRule(
+    @Param('id') id: string,
+    @Body() updateEarnRuleDto: UpdateEarnRuleDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.loyaltyProgramService.updateEarnRule(
+      id,
+      updateEarnRuleDto,
+      user.organizationId,
+    );
+  }
+
+  @Delete('earn-rules/:id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER)
+  @ApiOperation({
+    summary: 'Delete earn rule',
+    description: 'Deletes an earn rule',
+  })
+  @ApiParam({ name: 'id', description: 'Earn rule UUID' })
+  @ApiResponse({ status: 200, description: 'Earn rule deleted' })
+  removeEarnRule(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.loyaltyProgramService.deleteEarnRule(id, user.organizationId);
+  }
+
+  @Put('tiers')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER)
+  @ApiOperation({
+    summary: 'Set loyalty tiers',
+    description:
+      'Replaces the tiers and re-tiers every customer by lifetime points',
+  })
+  @ApiResponse({ status: 200, description: 'Tiers set' })
+  setTiers(
+    @Body() setLoyaltyTiersDto: SetLoyaltyTiersDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.loyaltyProgramService.setTiers(
+      setLoyaltyTiersDto,
+      user.organizationId,
+    );
+  }
+
+  @Get('customers/:customerId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.WAITER)
+  @ApiOperation({
+    summary: 'Get customer loyalty',
+    description:
+      'Returns the points balance, tier, next tier and points expiring soon',
+  })
+  @ApiParam({ name: 'customerId', description: 'Customer UUID' })
+  @ApiResponse({ status: 200, description: 'Customer loyalty' })
+  @ApiResponse({
+    status: 404,
+    description: 'Customer not found in this organization',
+  })
+  getCustomerLoyalty(
+    @Param('customerId') customerId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.loyaltyPointsService.getCustomerLoyalty(
+      customerId,
+      user.organizationId,
+    );
+  }
+
+  @Get('customers/:customerId/ledger')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.WAITER)
+  @ApiOperation({
+    summary: 'Get customer points ledger',
+    description: 'Returns every points change for the customer, newest first',
+  })
+  @ApiParam({ name: 'customerId', description: 'Customer UUID' })
+  @ApiResponse({ status: 200, description: 'Paginated points ledger' })
+  listLedger(
+    @Param('customerId') customerId: string,
+    @Query() query: PaginationQueryDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.loyaltyPointsService.listLedger(
+      customerId,
+      user.organizationId,
+      query,
+    );
+  }
+
+  @Post('customers/:customerId/earn')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.WAITER)
+  @ApiOperation({
+    summary: 'Earn points for an order',
+    description:
+      "Awards points for an order using the earn rules and tier multiplier. Waiters may call it at the till: the order must be the customer's and earns only once.",
+  })
+  @ApiParam({ name: 'customerId', description: 'Customer UUID' })
+  @ApiResponse({ status: 201, description: 'Points earned' })
+  @ApiResponse({
+    status: 409,
+    description: 'Points were already earned for this order',
+  })
+  earnPoints(
+    @Param('customerId') customerId: string,
+    @Body() earnPointsDto: EarnPointsDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.loyaltyPointsService.earnPointsForOrder(
+      customerId,
+      earnPointsDto,
+      user.organizationId,
+      user.auth0Id,
+    );
+  }
+
+  @Post('customers/:customerId/redeem')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Redeem points',
+    description:
+      "Spends points and returns the discount they are worth. Against an order, the order must be the customer's and all redemptions on it stay within the programme's cap.",
+  })
+  @ApiParam({ name: 'customerId', description: 'Customer UUID' })
+  @ApiResponse({ status: 201, description: 'Points redeemed' })
+  @ApiResponse({ status: 400, description: 'Insufficient points' })
+  redeemPoints(
+    @Param('customerId') customerId: string,
+    @Body() redeemPointsDto: RedeemPointsDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.loyaltyPointsService.redeemPoints(
+      customerId,
+      redeemPointsDto,
+      user.organizationId,
+      user.auth0Id,
+    );
+  }
+
+  @Post('customers/:customerId/adjust')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Adjust points',
+    description: 'Manually adds or removes points with a reason',
+  })
+  @ApiParam({ name: 'customerId', description: 'Customer UUID' })
+  @ApiResponse({ status: 201, description: 'Points adjusted' })
+  adjustPoints(
+    @Param('customerId') customerId: string,
+    @Body() adjustPointsDto: AdjustPointsDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.loyaltyPointsService.adjustPoints(
+      customerId,
+      adjustPointsDto,
+      user.organizationId,
+      user.auth0Id,
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+
+import { CommonModule } from '../common/common.module';
+import { CustomersModule } from '../customers';
+import { PrismaModule } from '../database';
+import { CacheModule } from '../services/cache';
+
+import { LoyaltyPointsService } from './loyalty-points.service';
+import { LoyaltyProgramService } from './loyalty-program.service';
+import { LoyaltyController } from './loyalty.controller';
+
+@Module({
+  imports: [PrismaModule, CacheModule, CommonModule, CustomersModule],
+  controllers: [LoyaltyController],
+  providers: [LoyaltyProgramService, LoyaltyPointsService],
+  exports: [LoyaltyProgramService, LoyaltyPointsService],
+})
+export class LoyaltyModule {}
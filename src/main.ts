@@ -10,7 +10,9 @@ import { CacheInterceptor } from './services/cache';
 
 async function bootstrap() {
   const logger = createLogger();
-  const app = await NestFactory.create(AppModule);
+
+  // Raw body is kept for webhook signature verification
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Get configuration service
   const configService = app.get(ConfigService);
@@ -0,0 +1,122 @@
+import {
+  getAvailableCategoryIds,
+  getLocalDate,
+  getLocalTime,
+  isWithinSchedules,
+} from './category-schedule';
+
+describe('category schedules', () => {
+  // Friday, 22:00 and 01:30 on the following Saturday
+  const fridayNight = { dayOfWeek: 5, minutes: 22 * 60 };
+  const saturdayEarly = { dayOfWeek: 6, minutes: 90 };
+
+  describe('isWithinSchedules', () => {
+    it('treats no windows as always available', () => {
+      expect(isWithinSchedules([], fridayNight)).toBe(true);
+    });
+
+    it('includes the start and excludes the end of a same-day window', () => {
+      const lunch = [{ daysOfWeek: [5], startTime: '11:00', endTime: '15:00' }];
+
+      expect(isWithinSchedules(lunch, { dayOfWeek: 5, minutes: 660 })).toBe(
+        true,
+      );
+      expect(isWithinSchedules(lunch, { dayOfWeek: 5, minutes: 900 })).toBe(
+        false,
+      );
+      expect(isWithinSchedules(lunch, { dayOfWeek: 4, minutes: 720 })).toBe(
+        false,
+      );
+    });
+
+    it('runs a window past midnight into the next day', () => {
+      const lateNight = [
+        { daysOfWeek: [5], startTime: '21:00', endTime: '02:00' },
+      ];
+
+      expect(isWithinSchedules(lateNight, fridayNight)).toBe(true);
+      expect(isWithinSchedules(lateNight, saturdayEarly)).toBe(true);
+      expect(
+        isWithinSchedules(lateNight, { dayOfWeek: 6, minutes: 2 * 60 }),
+      ).toBe(false);
+      // Starts on Friday, so Thursday night's tail into Friday is not covered
+      expect(isWithinSchedules(lateNight, { dayOfWeek: 5, minutes: 90 })).toBe(
+        false,
+      );
+    });
+
+    it('treats an equal start and end as the whole day', () => {
+      const allDay = [
+        { daysOfWeek: [6], startTime: '00:00', endTime: '00:00' },
+      ];
+
+      expect(isWithinSchedules(allDay, saturdayEarly)).toBe(true);
+      expect(isWithinSchedules(allDay, fridayNight)).toBe(false);
+    });
+  });
+
+  describe('getLocalTime', () => {
+    it('reads the day and time in the given timezone', () => {
+      // Saturday 00:30 UTC is still Friday evening in New York (UTC-4)
+      const date = new Date('2026-10-17T00:30:00Z');
+
+      expect(getLocalTime(date, 'UTC')).toEqual({ dayOfWeek: 6, minutes: 30 });
+      expect(getLocalTime(date, 'America/New_York')).toEqual({
+        dayOfWeek: 5,
+        minutes: 20 * 60 + 30,
+      });
+    });
+  });
+
+  describe('getLocalDate', () => {
+    it('reads the calendar date in the given timezone', () => {
+      const date = new Date('2026-10-17T00:30:00Z');
+
+      expect(getLocalDate(date, 'UTC')).toBe('2026-10-17');
+      expect(getLocalDate(date, 'America/New_York')).toBe('2026-10-16');
+    });
+  });
+
+  describe('getAvailableCategoryIds', () => {
+    it('hides subcategories while their parent is unavailable', () => {
+      const breakfast = [
+        {
+          daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+          startTime: '06:00',
+          endTime: '11:00',
+        },
+      ];
+      const categories = [
+        {
+          id: 'breakfast',
+          parentId: null,
+          isActive: true,
+          schedules: breakfast,
+        },
+        {
+          id: 'pastries',
+          parentId: 'breakfast',
+          isActive: true,
+          schedules: [],
+        },
+        { id: 'drinks', parentId: null, isActive: true, schedules: [] },
+        { id: 'retired', parentId: null, isActive: false, schedules: [] },
+      ];
+
+      expect(
+        getAvailableCategoryIds(
+          categories,
+          new Date('2026-10-19T08:00:00Z'),
+          'UTC',
+        ),
+      ).toEqual(new Set(['breakfast', 'pastries', 'drinks']));
+      expect(
+        getAvailableCategoryIds(
+          categories,
+          new Date('2026-10-19T12:00:00Z'),
+          'UTC',
+        ),
+      ).toEqual(new Set(['drinks']));
+    });
+  });
+});
@@ -0,0 +1,129 @@
+interface CategorySchedule {
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+}
+
+interface ScheduledCategory {
+  id: string;
+  parentId: string | null;
+  isActive: boolean;
+  schedules: CategorySchedule[];
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Day of week (0 = Sunday) and minutes since midnight at `date` in `timeZone`
+ */
+export function getLocalTime(
+  date: Date,
+  timeZone: string,
+): { dayOfWeek: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) =>
+    parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    dayOfWeek: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of `date` in `timeZone`
+ */
+export function getLocalDate(date: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+function toMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a local time falls in any of the windows; no windows means always.
+ * A window ending before it starts runs past midnight into the next day.
+ */
+export function isWithinSchedules(
+  schedules: CategorySchedule[],
+  local: { dayOfWeek: number; minutes: number },
+): boolean {
+  if (schedules.length === 0) {
+    return true;
+  }
+
+  const previousDay = (local.dayOfWeek + 6) % 7;
+
+  return schedules.some((schedule) => {
+    const start = toMinutes(schedule.startTime);
+    const end = toMinutes(schedule.endTime);
+
+    if (start === end) {
+      return schedule.daysOfWeek.includes(local.dayOfWeek);
+    }
+
+    if (start < end) {
+      return (
+        schedule.daysOfWeek.includes(local.dayOfWeek) &&
+        local.minutes >= start &&
+        local.minutes < end
+      );
+    }
+
+    return (
+      (schedule.daysOfWeek.includes(local.dayOfWeek) &&
+        local.minutes >= start) ||
+      (schedule.daysOfWeek.includes(previousDay) && local.minutes < end)
+    );
+  });
+}
+
+/**
+ * IDs of the categories on the menu at `date` in `timeZone`
+ *
+ * A subcategory is only available while its parent is, so breakfast
+ * subcategories disappear with breakfast.
+ */
+export function getAvailableCategoryIds(
+  categories: ScheduledCategory[],
+  date: Date,
+  timeZone: string,
+): Set<string> {
+  const local = getLocalTime(date, timeZone);
+  const byId = new Map(categories.map((c) => [c.id, c]));
+  const resolved = new Map<string, boolean>();
+
+  const isAvailable = (category: ScheduledCategory): boolean => {
+    const cached = resolved.get(category.id);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    // Mark before recursing so a malformed parent loop terminates
+    resolved.set(category.id, false);
+    const parent = category.parentId ? byId.get(category.parentId) : undefined;
+    const available =
+      category.isActive &&
+      isWithinSchedules(category.schedules, local) &&
+      (!parent || isAvailable(parent));
+    resolved.set(category.id, available);
+
+    return available;
+  };
+
+  return new Set(categories.filter(isAvailable).map((c) => c.id));
+}
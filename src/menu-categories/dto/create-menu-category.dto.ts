@@ -0,0 +1,90 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsInt,
+  Min,
+  Max,
+  IsArray,
+  ArrayMinSize,
+  ArrayUnique,
+  IsMilitaryTime,
+  ValidateNested,
+  IsOptional,
+  IsUrl,
+} from 'class-validator';
+
+export class CategoryScheduleDto {
+  @ApiProperty({
+    description: 'Days the window applies to (0 = Sunday ... 6 = Saturday)',
+    type: [Number],
+    example: [1, 2, 3, 4, 5],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek!: number[];
+
+  @ApiProperty({
+    description: "Start time (HH:mm) in the branch's timezone",
+    example: '06:00',
+  })
+  @IsMilitaryTime()
+  startTime!: string;
+
+  @ApiProperty({
+    description:
+      'End time (HH:mm), exclusive. Earlier than the start time for windows past midnight; equal for all day',
+    example: '11:00',
+  })
+  @IsMilitaryTime()
+  endTime!: string;
+}
+
+export class CreateMenuCategoryDto {
+  @ApiProperty({
+    description: 'Category name (e.g., Breakfast)',
+    maxLength: 50,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name!: string;
+
+  @ApiPropertyOptional({ description: 'Category description' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Image URL' })
+  @IsOptional()
+  @IsUrl()
+  imageUrl?: string;
+
+  @ApiPropertyOptional({ description: 'Display order', default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  sortOrder?: number;
+
+  @ApiPropertyOptional({ description: 'Parent category ID' })
+  @IsOptional()
+  @IsString()
+  parentId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Availability windows. Omit for an always-available category',
+    type: [CategoryScheduleDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CategoryScheduleDto)
+  schedules?: CategoryScheduleDto[];
+}
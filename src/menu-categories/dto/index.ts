@@ -0,0 +1,2 @@
+export * from './create-menu-category.dto';
+export * from './update-menu-category.dto';
@@ -0,0 +1,57 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  MaxLength,
+  IsInt,
+  IsArray,
+  ValidateNested,
+  IsOptional,
+  IsUrl,
+} from 'class-validator';
+
+import { CategoryScheduleDto } from './create-menu-category.dto';
+
+export class UpdateMenuCategoryDto {
+  @ApiPropertyOptional({ description: 'Category name', maxLength: 50 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Category description' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Image URL' })
+  @IsOptional()
+  @IsUrl()
+  imageUrl?: string;
+
+  @ApiPropertyOptional({ description: 'Display order' })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  sortOrder?: number;
+
+  @ApiPropertyOptional({
+    description: 'Parent category ID (null to make it top-level)',
+    nullable: true,
+    type: String,
+  })
+  @IsOptional()
+  @IsString()
+  parentId?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Replaces the availability windows when provided',
+    type: [CategoryScheduleDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CategoryScheduleDto)
+  schedules?: CategoryScheduleDto[];
+}
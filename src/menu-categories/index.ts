@@ -0,0 +1,5 @@
+export * from './dto';
+export * from './category-schedule';
+export * from './menu-categories.controller';
+export * from './menu-categories.service';
+export * from './menu-categories.module';
@@ -0,0 +1,119 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+
+import { CurrentUser, Roles, requiresOrganization } from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+
+import { CreateMenuCategoryDto, UpdateMenuCategoryDto } from './dto';
+import { MenuCategoriesService } from './menu-categories.service';
+
+@ApiTags('Menu Categories')
+@ApiBearerAuth('Auth0')
+@Controller('menu-categories')
+@UseGuards(Auth0Guard)
+export class MenuCategoriesController {
+  constructor(private readonly menuCategoriesService: MenuCategoriesService) {}
+
+  @Post()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Create menu category',
+    description:
+      'Creates a category, optionally nested under a parent and limited to time-of-day and day-of-week windows',
+  })
+  @ApiResponse({ status: 201, description: 'Menu category created' })
+  @ApiResponse({ status: 409, description: 'Category name already in use' })
+  create(
+    @Body() createMenuCategoryDto: CreateMenuCategoryDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.menuCategoriesService.createCategory(
+      createMenuCategoryDto,
+      user.organizationId,
+    );
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List menu categories',
+    description:
+      'Returns categories as a tree in display order, with schedules and item counts',
+  })
+  @ApiResponse({ status: 200, description: 'Menu category tree' })
+  findAll(@CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.menuCategoriesService.listCategories(user.organizationId);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get menu category details',
+    description:
+      'Returns a category with its schedules, subcategories and items',
+  })
+  @ApiParam({ name: 'id', description: 'Menu Category UUID' })
+  @ApiResponse({ status: 200, description: 'Menu category details' })
+  @ApiResponse({ status: 404, description: 'Menu category not found' })
+  findOne(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.menuCategoriesService.getCategoryById(id, user.organizationId);
+  }
+
+  @Patch(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Update menu category',
+    description:
+      'Renames, reorders or moves a category. Schedules are replaced when provided.',
+  })
+  @ApiParam({ name: 'id', description: 'Menu Category UUID' })
+  @ApiResponse({ status: 200, description: 'Menu category updated' })
+  update(
+    @Param('id') id: string,
+    @Body() updateMenuCategoryDto: UpdateMenuCategoryDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.menuCategoriesService.updateCategory(
+      id,
+      updateMenuCategoryDto,
+      user.organizationId,
+    );
+  }
+
+  @Delete(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER)
+  @ApiOperation({
+    summary: 'Delete menu category (soft delete)',
+    description:
+      'Marks the category inactive and leaves its menu items uncategorized',
+  })
+  @ApiParam({ name: 'id', description: 'Menu Category UUID' })
+  @ApiResponse({ status: 200, description: 'Menu category deleted' })
+  @ApiResponse({ status: 400, description: 'Category has subcategories' })
+  remove(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.menuCategoriesService.deleteCategory(id, user.organizationId);
+  }
+}
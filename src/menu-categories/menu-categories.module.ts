@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+
+import { PrismaModule } from '../database';
+import { CacheModule } from '../services/cache';
+
+import { MenuCategoriesController } from './menu-categories.controller';
+import { MenuCategoriesService } from './menu-categories.service';
+
+@Module({
+  imports: [PrismaModule, CacheModule],
+  controllers: [MenuCategoriesController],
+  providers: [MenuCategoriesService],
+  exports: [MenuCategoriesService],
+})
+export class MenuCategoriesModule {}
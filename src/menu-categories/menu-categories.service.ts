@@ -0,0 +1,341 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+
+import { PrismaService } from '../database/prisma.service';
+import { CacheService } from '../services/cache';
+
+import { CreateMenuCategoryDto, UpdateMenuCategoryDto } from './dto';
+
+interface CategoryTreeNode {
+  id: string;
+  parentId: string | null;
+  sortOrder: number;
+  name: string;
+  children: CategoryTreeNode[];
+}
+
+@Injectable()
+export class MenuCategoriesService {
+  private readonly logger = new Logger(MenuCategoriesService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * Create menu category
+   */
+  async createCategory(
+    dto: CreateMenuCategoryDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    if (dto.parentId) {
+      await this.findCategory(dto.parentId, organization.id);
+    }
+
+    await this.assertUniqueName(
+      organization.id,
+      dto.parentId ?? null,
+      dto.name,
+    );
+
+    const category = await this.prismaService.menuCategory.create({
+      data: {
+        name: dto.name,
+        description: dto.description ?? null,
+        imageUrl: dto.imageUrl ?? null,
+        sortOrder: dto.sortOrder ?? 0,
+        parentId: dto.parentId ?? null,
+        companyId: organization.id,
+        schedules: {
+          create: dto.schedules ?? [],
+        },
+      },
+      include: {
+        schedules: true,
+      },
+    });
+
+    this.logger.log(`Menu category created: ${category.id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return category;
+  }
+
+  /**
+   * List menu categories as a tree, in display order
+   */
+  async listCategories(companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const categories = await this.prismaService.menuCategory.findMany({
+      where: {
+        companyId: organization.id,
+        isActive: true,
+      },
+      include: {
+        schedules: true,
+        _count: {
+          select: { menuItems: { where: { isActive: true } } },
+        },
+      },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    });
+
+    const nodes = new Map<
+      string,
+      (typeof categories)[number] & CategoryTreeNode
+    >(categories.map((c) => [c.id, { ...c, children: [] }]));
+    const roots: CategoryTreeNode[] = [];
+
+    for (const node of nodes.values()) {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return roots;
+  }
+
+  /**
+   * Get menu category by ID
+   */
+  async getCategoryById(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const category = await this.prismaService.menuCategory.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+        isActive: true,
+      },
+      include: {
+        schedules: true,
+        parent: {
+          select: { id: true, name: true },
+        },
+        children: {
+          where: { isActive: true },
+          orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+        },
+        menuItems: {
+          where: { isActive: true },
+          orderBy: { name: 'asc' },
+          select: {
+            id: true,
+            name: true,
+            basePrice: true,
+            imageUrl: true,
+          },
+        },
+      },
+    });
+
+    if (!category) {
+      throw new NotFoundException('Menu category not found');
+    }
+
+    return category;
+  }
+
+  /**
+   * Update menu category; schedules are replaced when provided
+   */
+  async updateCategory(
+    id: string,
+    dto: UpdateMenuCategoryDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const category = await this.findCategory(id, organization.id);
+
+    if (dto.parentId) {
+      await this.assertNotDescendant(id, dto.parentId, organization.id);
+    }
+
+    const parentId =
+      dto.parentId !== undefined ? dto.parentId : category.parentId;
+    const name = dto.name ?? category.name;
+    if (name !== category.name || parentId !== category.parentId) {
+      await this.assertUniqueName(organization.id, parentId, name, id);
+    }
+
+    const updated = await this.prismaService.$transaction(async (tx) => {
+      if (dto.schedules) {
+        await tx.menuCategorySchedule.deleteMany({
+          where: { categoryId: id },
+        });
+      }
+
+      return tx.menuCategory.update({
+        where: { id },
+        data: {
+          ...(dto.name && { name: dto.name }),
+          ...(dto.description !== undefined && {
+            description: dto.description,
+          }),
+          ...(dto.imageUrl !== undefined && { imageUrl: dto.imageUrl }),
+          ...(dto.sortOrder !== undefined && { sortOrder: dto.sortOrder }),
+          ...(dto.parentId !== undefined && { parentId: dto.parentId }),
+          ...(dto.schedules && {
+            schedules: { create: dto.schedules },
+          }),
+        },
+        include: {
+          schedules: true,
+        },
+      });
+    });
+
+    this.logger.log(`Menu category updated: ${id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return updated;
+  }
+
+  /**
+   * Delete menu category (soft delete); its menu items become uncategorized
+   */
+  async deleteCategory(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.findCategory(id, organization.id);
+
+    const children = await this.prismaService.menuCategory.count({
+      where: { parentId: id, isActive: true },
+    });
+
+    if (children > 0) {
+      throw new BadRequestException(
+        'Move or delete the subcategories before deleting this category',
+      );
+    }
+
+    // Soft delete
+    const result = await this.prismaService.$transaction(async (tx) => {
+      await tx.menuItem.updateMany({
+        where: { categoryId: id },
+        data: { categoryId: null },
+      });
+
+      return tx.menuCategory.update({
+        where: { id },
+        data: { isActive: false },
+      });
+    });
+
+    this.logger.log(`Menu category deleted: ${id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return result;
+  }
+
+  private async findCategory(id: string, organizationId: string) {
+    const category = await this.prismaService.menuCategory.findFirst({
+      where: {
+        id,
+        companyId: organizationId,
+        isActive: true,
+      },
+    });
+
+    if (!category) {
+      throw new NotFoundException('Menu category not found');
+    }
+
+    return category;
+  }
+
+  private async assertUniqueName(
+    organizationId: string,
+    parentId: string | null,
+    name: string,
+    excludeId?: string,
+  ): Promise<void> {
+    const existing = await this.prismaService.menuCategory.findFirst({
+      where: {
+        companyId: organizationId,
+        parentId,
+        name,
+        isActive: true,
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        'A menu category with this name already exists here',
+      );
+    }
+  }
+
+  /**
+   * Reject moving a category under itself or one of its subcategories
+   */
+  private async assertNotDescendant(
+    id: string,
+    parentId: string,
+    organizationId: string,
+  ): Promise<void> {
+    let current: string | null = parentId;
+
+    while (current) {
+      if (current === id) {
+        throw new BadRequestException(
+          'A category cannot be nested under itself or its subcategories',
+        );
+      }
+
+      const ancestor = await this.findCategory(current, organizationId);
+      current = ancestor.parentId;
+    }
+  }
+}
@@ -0,0 +1,398 @@
+import { Allergen, DietaryFlag, Prisma } from '../../generated/prisma';
+import { convertToIngredientUnit } from '../units/unit-conversion';
+
+export interface NutritionFacts {
+  calories: Prisma.Decimal; // kcal
+  protein: Prisma.Decimal; // g
+  carbs: Prisma.Decimal; // g
+  fat: Prisma.Decimal; // g
+}
+
+export interface DietaryProfile {
+  allergens: Allergen[];
+  dietaryFlags: DietaryFlag[];
+  nutrition: NutritionFacts | null; // Per portion; null unless every ingredient has nutrition
+  isComplete: boolean; // False when part of the item has no recipe to go by
+}
+
+export interface CustomerRestrictions {
+  allergens: Allergen[];
+  dietaryFlags: DietaryFlag[];
+  unrecognized: string[];
+}
+
+const ALL_DIETARY_FLAGS = Object.values(DietaryFlag);
+
+// Common ways staff and customers write restrictions down
+const RESTRICTION_ALIASES: Record<string, Array<Allergen | DietaryFlag>> = {
+  NUTS: [Allergen.PEANUTS, Allergen.TREE_NUTS],
+  NUT: [Allergen.PEANUTS, Allergen.TREE_NUTS],
+  PEANUT: [Allergen.PEANUTS],
+  TREE_NUT: [Allergen.TREE_NUTS],
+  WHEAT: [Allergen.GLUTEN],
+  EGG: [Allergen.EGGS],
+  MILK: [Allergen.DAIRY],
+  LACTOSE: [Allergen.DAIRY],
+  SHELLFISH: [Allergen.CRUSTACEANS, Allergen.MOLLUSCS],
+  SOYA: [Allergen.SOY],
+  SULFITES: [Allergen.SULPHITES],
+  SULPHITE: [Allergen.SULPHITES],
+  SULFITE: [Allergen.SULPHITES],
+  MOLLUSC: [Allergen.MOLLUSCS],
+  CRUSTACEAN: [Allergen.CRUSTACEANS],
+};
+
+interface Tags {
+  allergens: Set<Allergen>;
+  dietaryFlags: Set<DietaryFlag>;
+  nutrition: NutritionFacts | null;
+  isComplete: boolean;
+}
+
+/** Tags of something with no ingredients: every flag holds, no allergens */
+function neutralTags(): Tags {
+  const zero = new Prisma.Decimal(0);
+  return {
+    allergens: new Set(),
+    dietaryFlags: new Set(ALL_DIETARY_FLAGS),
+    nutrition: { calories: zero, protein: zero, carbs: zero, fat: zero },
+    isComplete: true,
+  };
+}
+
+function unknownTags(): Tags {
+  return {
+    allergens: new Set(),
+    dietaryFlags: new Set(),
+    nutrition: null,
+    isComplete: false,
+  };
+}
+
+/**
+ * Combine the tags of two parts of a dish: allergens add up, and a dish only
+ * keeps a dietary flag both parts have
+ */
+function combine(a: Tags, b: Tags): Tags {
+  return {
+    allergens: new Set([...a.allergens, ...b.allergens]),
+    dietaryFlags: new Set(
+      [...a.dietaryFlags].filter((flag) => b.dietaryFlags.has(flag)),
+    ),
+    nutrition:
+      a.nutrition && b.nutrition
+        ? {
+            calories: a.nutrition.calories.add(b.nutrition.calories),
+            protein: a.nutrition.protein.add(b.nutrition.protein),
+            carbs: a.nutrition.carbs.add(b.nutrition.carbs),
+            fat: a.nutrition.fat.add(b.nutrition.fat),
+          }
+        : null,
+    isComplete: a.isComplete && b.isComplete,
+  };
+}
+
+function scale(tags: Tags, factor: Prisma.Decimal.Value): Tags {
+  const { nutrition } = tags;
+  return {
+    ...tags,
+    nutrition: nutrition && {
+      calories: nutrition.calories.mul(factor),
+      protein: nutrition.protein.mul(factor),
+      carbs: nutrition.carbs.mul(factor),
+      fat: nutrition.fat.mul(factor),
+    },
+  };
+}
+
+function toProfile(tags: Tags): DietaryProfile {
+  const { nutrition } = tags;
+  return {
+    allergens: Object.values(Allergen).filter((a) => tags.allergens.has(a)),
+    dietaryFlags: tags.isComplete
+      ? ALL_DIETARY_FLAGS.filter((f) => tags.dietaryFlags.has(f))
+      : [],
+    nutrition: nutrition && {
+      calories: nutrition.calories.toDecimalPlaces(2),
+      protein: nutrition.protein.toDecimalPlaces(2),
+      carbs: nutrition.carbs.toDecimalPlaces(2),
+      fat: nutrition.fat.toDecimalPlaces(2),
+    },
+    isComplete: tags.isComplete,
+  };
+}
+
+/**
+ * Load an organization's ingredients, recipes and menu items once and return
+ * a function giving the dietary profile of a menu item or one of its variants
+ *
+ * Allergens and dietary flags are rolled up from ingredients through
+ * sub-recipes and prep items. Default modifiers that add ingredients count
+ * towards the item; removals are ignored so allergens are never understated.
+ * A combo is profiled from each slot's default option, or from all of its
+ * options when there is no default.
+ */
+export async function createDietaryProfiler(
+  client: Prisma.TransactionClient,
+  organizationId: string,
+): Promise<
+  (menuItemId: string, menuVariantId?: string | null) => DietaryProfile
+> {
+  const [ingredients, recipes, menuItems] = await Promise.all([
+    client.ingredient.findMany({
+      where: { companyId: organizationId },
+      include: { unitConversions: true },
+    }),
+    client.recipe.findMany({
+      where: { companyId: organizationId },
+      include: { recipeIngredients: true, components: true },
+    }),
+    client.menuItem.findMany({
+      where: { companyId: organizationId },
+      include: {
+        variants: true,
+        modifierGroups: {
+          where: { isActive: true },
+          include: {
+            modifiers: {
+              where: { isActive: true, isDefault: true },
+              include: { ingredients: true },
+            },
+          },
+        },
+        comboSlots: { include: { options: true } },
+      },
+    }),
+  ]);
+
+  const ingredientMap = new Map(ingredients.map((i) => [i.id, i]));
+  const recipeMap = new Map(recipes.map((r) => [r.id, r]));
+  const menuItemMap = new Map(menuItems.map((m) => [m.id, m]));
+  const ingredientTags = new Map<string, Tags>();
+  const recipeTags = new Map<string, Tags>();
+
+  const amountOf = (
+    ingredientId: string,
+    quantity: Prisma.Decimal,
+    unit: string | null,
+  ): Tags => {
+    const ingredient = ingredientMap.get(ingredientId);
+    if (!ingredient) {
+      return unknownTags();
+    }
+
+    let amount: Prisma.Decimal;
+    try {
+      amount = convertToIngredientUnit(quantity, unit, ingredient);
+    } catch {
+      // Allergens still count when the quantity can't be converted
+      return { ...profileIngredient(ingredientId), nutrition: null };
+    }
+    return scale(profileIngredient(ingredientId), amount);
+  };
+
+  // Tags per one unit of the ingredient
+  const profileIngredient = (id: string): Tags => {
+    const cached = ingredientTags.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const ingredient = ingredientMap.get(id);
+    if (!ingredient) {
+      return unknownTags();
+    }
+
+    // Mark before recursing so a malformed prep loop terminates
+    ingredientTags.set(id, unknownTags());
+
+    const {
+      caloriesPerUnit: calories,
+      proteinPerUnit: protein,
+      carbsPerUnit: carbs,
+      fatPerUnit: fat,
+    } = ingredient;
+    let tags: Tags = {
+      allergens: new Set(ingredient.allergens),
+      dietaryFlags: new Set(ingredient.dietaryFlags),
+      nutrition:
+        calories && protein && carbs && fat
+          ? { calories, protein, carbs, fat }
+          : null,
+      isComplete: true,
+    };
+
+    // Prep items carry what went into them; their own tags take precedence
+    if (ingredient.prepRecipeId) {
+      const prep = profileRecipe(ingredient.prepRecipeId);
+      tags = {
+        allergens: new Set([...tags.allergens, ...prep.allergens]),
+        dietaryFlags:
+          tags.dietaryFlags.size > 0 ? tags.dietaryFlags : prep.dietaryFlags,
+        nutrition: tags.nutrition ?? prep.nutrition,
+        isComplete: prep.isComplete,
+      };
+    }
+
+    ingredientTags.set(id, tags);
+    return tags;
+  };
+
+  // Tags per portion (yield unit) of the recipe
+  const profileRecipe = (id: string): Tags => {
+    const cached = recipeTags.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const recipe = recipeMap.get(id);
+    if (!recipe) {
+      return unknownTags();
+    }
+
+    recipeTags.set(id, unknownTags());
+
+    let tags = neutralTags();
+    for (const ri of recipe.recipeIngredients) {
+      tags = combine(tags, amountOf(ri.ingredientId, ri.quantityUsed, ri.unit));
+    }
+    for (const component of recipe.components) {
+      tags = combine(
+        tags,
+        scale(profileRecipe(component.subRecipeId), component.quantity),
+      );
+    }
+
+    tags = scale(tags, new Prisma.Decimal(1).div(recipe.yieldQuantity));
+    recipeTags.set(id, tags);
+    return tags;
+  };
+
+  const profileMenuItem = (
+    menuItemId: string,
+    menuVariantId?: string | null,
+  ): Tags => {
+    const item = menuItemMap.get(menuItemId);
+    if (!item) {
+      return unknownTags();
+    }
+
+    if (item.type === 'COMBO') {
+      if (item.comboSlots.length === 0) {
+        return unknownTags();
+      }
+
+      return item.comboSlots.reduce((tags, slot) => {
+        const defaultOption = slot.options.find((o) => o.isDefault);
+        const candidates = (defaultOption ? [defaultOption] : slot.options).map(
+          (option) => profileMenuItem(option.menuItemId, option.menuVariantId),
+        );
+        if (candidates.length === 0) {
+          return combine(tags, unknownTags());
+        }
+
+        // Any option may be chosen, so take every allergen and only the
+        // flags they all share; nutrition needs a default to go by
+        const slotTags = candidates.reduce(combine);
+        return combine(
+          tags,
+          scale(
+            defaultOption ? slotTags : { ...slotTags, nutrition: null },
+            slot.quantity,
+          ),
+        );
+      }, neutralTags());
+    }
+
+    const variant = menuVariantId
+      ? item.variants.find((v) => v.id === menuVariantId)
+      : undefined;
+    const recipeId = variant?.recipeId ?? item.recipeId;
+    let tags = recipeId
+      ? scale(
+          profileRecipe(recipeId),
+          variant?.portionMultiplier ?? item.portionMultiplier,
+        )
+      : unknownTags();
+
+    for (const group of item.modifierGroups) {
+      for (const modifier of group.modifiers) {
+        for (const mi of modifier.ingredients) {
+          if (mi.action === 'ADD') {
+            tags = combine(
+              tags,
+              amountOf(mi.ingredientId, mi.quantity, mi.unit),
+            );
+          }
+        }
+      }
+    }
+
+    return tags;
+  };
+
+  return (menuItemId, menuVariantId) =>
+    toProfile(profileMenuItem(menuItemId, menuVariantId));
+}
+
+/**
+ * Read a customer's stored allergies and dietary restrictions
+ *
+ * Entries are free text (e.g. "nuts", "Vegan", "shellfish"), stored as a JSON
+ * array or a comma-separated string. Entries that match no allergen or
+ * dietary flag are returned as unrecognized rather than dropped silently.
+ */
+export function parseCustomerRestrictions(
+  allergies: Prisma.JsonValue | null,
+  dietaryRestrictions: Prisma.JsonValue | null,
+): CustomerRestrictions {
+  const entries = (value: Prisma.JsonValue | null): string[] => {
+    if (typeof value === 'string') {
+      return value.split(',');
+    }
+    if (Array.isArray(value)) {
+      return value.filter((v): v is string => typeof v === 'string');
+    }
+    return [];
+  };
+
+  const allergens = new Set<Allergen>();
+  const dietaryFlags = new Set<DietaryFlag>();
+  const unrecognized: string[] = [];
+
+  for (const entry of [
+    ...entries(allergies),
+    ...entries(dietaryRestrictions),
+  ]) {
+    const key = entry
+      .trim()
+      .toUpperCase()
+      .replace(/[^A-Z]+/g, '_')
+      .replace(/^_|_$/g, '');
+    if (!key) {
+      continue;
+    }
+
+    const matches = RESTRICTION_ALIASES[key] ?? [
+      ...Object.values(Allergen).filter((a) => a === key),
+      ...ALL_DIETARY_FLAGS.filter((f) => f === key),
+    ];
+    if (matches.length === 0) {
+      unrecognized.push(entry.trim());
+    }
+
+    for (const match of matches) {
+      if ((ALL_DIETARY_FLAGS as string[]).includes(match)) {
+        dietaryFlags.add(match as DietaryFlag);
+      } else {
+        allergens.add(match as Allergen);
+      }
+    }
+  }
+
+  return {
+    allergens: [...allergens],
+    dietaryFlags: [...dietaryFlags],
+    unrecognized,
+  };
+}
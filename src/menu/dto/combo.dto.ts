@@ -0,0 +1,93 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsNumber,
+  IsInt,
+  Min,
+  IsArray,
+  ArrayMinSize,
+  IsBoolean,
+  ValidateNested,
+  IsOptional,
+} from 'class-validator';
+
+export class ComboOptionDto {
+  @ApiProperty({ description: 'Menu item offered in the slot' })
+  @IsString()
+  @IsNotEmpty()
+  menuItemId!: string;
+
+  @ApiPropertyOptional({ description: 'Specific variant of the menu item' })
+  @IsOptional()
+  @IsString()
+  menuVariantId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Added to the combo price when chosen (e.g., upsize)',
+    default: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  priceDelta?: number;
+
+  @ApiPropertyOptional({
+    description: 'Chosen unless the order says otherwise',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class ComboSlotDto {
+  @ApiProperty({
+    description: 'Slot name (e.g., Main, Side, Drink)',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiPropertyOptional({
+    description: 'Portions of the chosen option per combo',
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  quantity?: number;
+
+  @ApiPropertyOptional({ description: 'Display order', default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  sortOrder?: number;
+
+  @ApiProperty({
+    description: 'Items the customer can choose from',
+    type: [ComboOptionDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ComboOptionDto)
+  options!: ComboOptionDto[];
+}
+
+export class SetComboSlotsDto {
+  @ApiProperty({
+    description: "Replaces the combo's slots",
+    type: [ComboSlotDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ComboSlotDto)
+  slots!: ComboSlotDto[];
+}
@@ -8,8 +8,14 @@ import {
   Min,
   IsOptional,
   IsUrl,
+  IsEnum,
 } from 'class-validator';
 
+export enum MenuItemType {
+  SINGLE = 'SINGLE',
+  COMBO = 'COMBO',
+}
+
 export class CreateMenuItemDto {
   @ApiProperty({ description: 'Menu item name', maxLength: 100 })
   @IsString()
@@ -28,12 +34,20 @@ export class CreateMenuItemDto {
   @IsUrl()
   imageUrl?: string;
 
-  @ApiPropertyOptional({ description: 'Category' })
+  @ApiPropertyOptional({
+    description: 'Free-text category label (superseded by categoryId)',
+    deprecated: true,
+  })
   @IsOptional()
   @IsString()
   @MaxLength(50)
   category?: string;
 
+  @ApiPropertyOptional({ description: 'Menu category ID' })
+  @IsOptional()
+  @IsString()
+  categoryId?: string;
+
   @ApiProperty({ description: 'Base price' })
   @IsNumber({ maxDecimalPlaces: 2 })
   @Type(() => Number)
@@ -50,6 +64,16 @@ export class CreateMenuItemDto {
   @Min(0.01)
   portionMultiplier?: number;
 
+  @ApiPropertyOptional({
+    description:
+      'Item type. Combos are priced as a bundle and costed from their slots',
+    enum: MenuItemType,
+    default: MenuItemType.SINGLE,
+  })
+  @IsOptional()
+  @IsEnum(MenuItemType)
+  type?: MenuItemType;
+
   @ApiPropertyOptional({ description: 'Recipe ID to link' })
   @IsOptional()
   @IsString()
@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class EffectiveMenuQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Moment to price the menu at (ISO 8601); defaults to now. Scheduled price changes due by then are included.',
+    example: '2025-06-01T18:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  at?: string;
+}
@@ -3,3 +3,6 @@ export * from './update-menu-item.dto';
 export * from './create-variant.dto';
 export * from './attach-recipe.dto';
 export * from './menu-item-response.dto';
+export * from './modifier.dto';
+export * from './combo.dto';
+export * from './effective-menu-query.dto';
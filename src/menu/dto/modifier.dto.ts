@@ -0,0 +1,207 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsNumber,
+  IsInt,
+  Min,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  ValidateNested,
+  IsOptional,
+} from 'class-validator';
+
+export enum ModifierAction {
+  ADD = 'ADD',
+  REMOVE = 'REMOVE',
+}
+
+export class ModifierIngredientDto {
+  @ApiProperty({ description: 'Ingredient ID' })
+  @IsString()
+  @IsNotEmpty()
+  ingredientId!: string;
+
+  @ApiProperty({
+    description: 'ADD uses extra ingredient, REMOVE leaves it out',
+    enum: ModifierAction,
+  })
+  @IsEnum(ModifierAction)
+  action!: ModifierAction;
+
+  @ApiProperty({ description: 'Quantity per item sold' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0.01)
+  quantity!: number;
+
+  @ApiPropertyOptional({
+    description: "Unit of quantity. Defaults to the ingredient's unit",
+    maxLength: 20,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  unit?: string;
+}
+
+export class CreateModifierDto {
+  @ApiProperty({
+    description: 'Modifier name (e.g., Extra cheese, No onions)',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Added to the item price when selected (negative for a discount)',
+    default: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  priceDelta?: number;
+
+  @ApiPropertyOptional({
+    description: 'Selected unless the order says otherwise',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiPropertyOptional({ description: 'Display order', default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  sortOrder?: number;
+
+  @ApiPropertyOptional({
+    description: 'Ingredients added or removed by this modifier',
+    type: [ModifierIngredientDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ModifierIngredientDto)
+  ingredients?: ModifierIngredientDto[];
+}
+
+export class UpdateModifierDto {
+  @ApiPropertyOptional({ description: 'Modifier name', maxLength: 100 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Price delta' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  priceDelta?: number;
+
+  @ApiPropertyOptional({ description: 'Selected by default' })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiPropertyOptional({ description: 'Display order' })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  sortOrder?: number;
+
+  @ApiPropertyOptional({
+    description: 'Replaces the ingredient effects when provided',
+    type: [ModifierIngredientDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ModifierIngredientDto)
+  ingredients?: ModifierIngredientDto[];
+}
+
+export class CreateModifierGroupDto {
+  @ApiProperty({
+    description: 'Group name (e.g., Extras, Remove)',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiPropertyOptional({
+    description: 'Minimum selections; above 0 makes the group required',
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(0)
+  minSelect?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum selections (omit for no limit)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  maxSelect?: number;
+
+  @ApiPropertyOptional({ description: 'Display order', default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  sortOrder?: number;
+
+  @ApiPropertyOptional({
+    description: 'Modifiers to create with the group',
+    type: [CreateModifierDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CreateModifierDto)
+  modifiers?: CreateModifierDto[];
+}
+
+export class UpdateModifierGroupDto {
+  @ApiPropertyOptional({ description: 'Group name', maxLength: 100 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Minimum selections' })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(0)
+  minSelect?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum selections (null for no limit)',
+    nullable: true,
+    type: Number,
+  })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  maxSelect?: number | null;
+
+  @ApiPropertyOptional({ description: 'Display order' })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  sortOrder?: number;
+}
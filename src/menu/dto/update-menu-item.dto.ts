@@ -27,12 +27,24 @@ export class UpdateMenuItemDto {
   @IsUrl()
   imageUrl?: string;
 
-  @ApiPropertyOptional({ description: 'Category' })
+  @ApiPropertyOptional({
+    description: 'Free-text category label (superseded by categoryId)',
+    deprecated: true,
+  })
   @IsOptional()
   @IsString()
   @MaxLength(50)
   category?: string;
 
+  @ApiPropertyOptional({
+    description: 'Menu category ID (null to uncategorize)',
+    nullable: true,
+    type: String,
+  })
+  @IsOptional()
+  @IsString()
+  categoryId?: string | null;
+
   @ApiPropertyOptional({ description: 'Base price' })
   @IsOptional()
   @IsNumber({ maxDecimalPlaces: 2 })
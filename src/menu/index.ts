@@ -2,3 +2,5 @@ export * from './dto';
 export * from './menu.controller';
 export * from './menu.service';
 export * from './menu.module';
+export * from './services/modifiers.service';
+export * from './services/combos.service';
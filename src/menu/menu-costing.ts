@@ -0,0 +1,209 @@
+import { Prisma } from '../../generated/prisma';
+import { convertToIngredientUnit } from '../units/unit-conversion';
+
+export interface ModifierBaseline {
+  modifierIds: string[];
+  costDelta: Prisma.Decimal;
+  priceDelta: Prisma.Decimal;
+}
+
+export type UnitCostOf = (ingredient: {
+  id: string;
+  fifoUnitCost: Prisma.Decimal | null;
+  averageUnitCost: Prisma.Decimal | null;
+}) => Prisma.Decimal;
+
+type ModifierGroups = Prisma.ModifierGroupGetPayload<{
+  include: {
+    modifiers: {
+      include: {
+        ingredients: {
+          include: { ingredient: { include: { unitConversions: true } } };
+        };
+      };
+    };
+  };
+}>;
+
+/**
+ * An ingredient's current unit cost: FIFO, else average, else zero
+ */
+export const currentUnitCost: UnitCostOf = (ingredient) =>
+  ingredient.fifoUnitCost ??
+  ingredient.averageUnitCost ??
+  new Prisma.Decimal(0);
+
+/**
+ * Load a menu item's active modifier groups with their ingredients
+ */
+export async function loadModifierGroups(
+  client: Prisma.TransactionClient,
+  menuItemId: string,
+): Promise<ModifierGroups[]> {
+  return client.modifierGroup.findMany({
+    where: { menuItemId, isActive: true },
+    include: {
+      modifiers: {
+        where: { isActive: true },
+        include: {
+          ingredients: {
+            include: {
+              ingredient: {
+                include: { unitConversions: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Cost modifiers and pick the baseline selection an item's cost and margin
+ * include: the defaults, topped up with the cheapest options in any group
+ * whose minimum they don't meet
+ *
+ * Also returns each modifier's cost delta (additions less removals).
+ */
+export function computeModifierBaseline(
+  groups: ModifierGroups[],
+  unitCostOf: UnitCostOf = currentUnitCost,
+): { baseline: ModifierBaseline; costDeltas: Map<string, Prisma.Decimal> } {
+  const baseline: ModifierBaseline = {
+    modifierIds: [],
+    costDelta: new Prisma.Decimal(0),
+    priceDelta: new Prisma.Decimal(0),
+  };
+  const costDeltas = new Map<string, Prisma.Decimal>();
+
+  for (const group of groups) {
+    const modifiers = group.modifiers.map((modifier) => {
+      const costDelta = modifier.ingredients.reduce((sum, mi) => {
+        const cost = unitCostOf(mi.ingredient).mul(
+          convertToIngredientUnit(mi.quantity, mi.unit, mi.ingredient),
+        );
+        return mi.action === 'ADD' ? sum.add(cost) : sum.sub(cost);
+      }, new Prisma.Decimal(0));
+      costDeltas.set(modifier.id, costDelta);
+
+      return { ...modifier, costDelta };
+    });
+
+    const defaults = modifiers.filter((m) => m.isDefault);
+    const fill = modifiers
+      .filter((m) => !m.isDefault)
+      .sort((a, b) => a.costDelta.comparedTo(b.costDelta))
+      .slice(0, Math.max(group.minSelect - defaults.length, 0));
+
+    for (const modifier of [...defaults, ...fill]) {
+      baseline.modifierIds.push(modifier.id);
+      baseline.costDelta = baseline.costDelta.add(modifier.costDelta);
+      baseline.priceDelta = baseline.priceDelta.add(modifier.priceDelta);
+    }
+  }
+
+  return { baseline, costDeltas };
+}
+
+/**
+ * Re-cost a menu item's modifiers at current ingredient costs
+ *
+ * Stores each modifier's cost delta and returns the item's baseline
+ * selection (see `computeModifierBaseline`).
+ */
+export async function refreshModifierCosts(
+  client: Prisma.TransactionClient,
+  menuItemId: string,
+): Promise<ModifierBaseline> {
+  const groups = await loadModifierGroups(client, menuItemId);
+  const { baseline, costDeltas } = computeModifierBaseline(groups);
+
+  for (const modifier of groups.flatMap((group) => group.modifiers)) {
+    const costDelta = costDeltas.get(modifier.id) ?? new Prisma.Decimal(0);
+    if (!costDelta.toDecimalPlaces(2).eq(modifier.costDelta)) {
+      await client.modifier.update({
+        where: { id: modifier.id },
+        data: { costDelta },
+      });
+    }
+  }
+
+  return baseline;
+}
+
+export type ComboOption = Prisma.ComboSlotOptionGetPayload<{
+  include: {
+    menuItem: { include: { recipe: true } };
+    menuVariant: { include: { recipe: true } };
+  };
+}>;
+
+/**
+ * A combo option's stored cost: a variant at its recipe's cost, otherwise the
+ * item's computed cost
+ */
+function storedOptionCost(option: ComboOption): Prisma.Decimal | null {
+  const recipe = option.menuVariant?.recipe ?? option.menuItem.recipe;
+  return option.menuVariant && recipe
+    ? recipe.totalCost
+        .div(recipe.yieldQuantity)
+        .mul(option.menuVariant.portionMultiplier)
+    : option.menuItem.computedCost;
+}
+
+/**
+ * Cost a combo from its slots
+ *
+ * Each slot is costed at its default option, or at its most expensive option
+ * when there is no default, so the combo's margin is never overstated.
+ * Returns null while any costed option has no known cost. `optionCost`
+ * replaces the stored option costs, e.g. to cost at simulated prices.
+ */
+export async function computeComboCost(
+  client: Prisma.TransactionClient,
+  comboItemId: string,
+  optionCost: (
+    option: ComboOption,
+  ) =>
+    | Prisma.Decimal
+    | null
+    | Promise<Prisma.Decimal | null> = storedOptionCost,
+): Promise<Prisma.Decimal | null> {
+  const slots = await client.comboSlot.findMany({
+    where: { comboItemId },
+    include: {
+      options: {
+        include: {
+          menuItem: { include: { recipe: true } },
+          menuVariant: { include: { recipe: true } },
+        },
+      },
+    },
+  });
+
+  let totalCost = new Prisma.Decimal(0);
+
+  for (const slot of slots) {
+    const costs: Array<{ isDefault: boolean; cost: Prisma.Decimal | null }> =
+      [];
+    for (const option of slot.options) {
+      costs.push({
+        isDefault: option.isDefault,
+        cost: await optionCost(option),
+      });
+    }
+
+    const defaultOption = costs.find((c) => c.isDefault);
+    const candidates = defaultOption ? [defaultOption] : costs;
+    const known = candidates.flatMap((c) => (c.cost ? [c.cost] : []));
+
+    if (known.length === 0 || known.length !== candidates.length) {
+      return null;
+    }
+
+    totalCost = totalCost.add(Prisma.Decimal.max(...known).mul(slot.quantity));
+  }
+
+  return totalCost;
+}
@@ -4,6 +4,7 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   UseGuards,
@@ -28,15 +29,27 @@ import {
   UpdateMenuItemDto,
   CreateVariantDto,
   AttachRecipeDto,
+  CreateModifierGroupDto,
+  UpdateModifierGroupDto,
+  CreateModifierDto,
+  UpdateModifierDto,
+  SetComboSlotsDto,
+  EffectiveMenuQueryDto,
 } from './dto';
 import { MenuService } from './menu.service';
+import { CombosService } from './services/combos.service';
+import { ModifiersService } from './services/modifiers.service';
 
 @ApiTags('Menu Items')
 @ApiBearerAuth('Auth0')
 @Controller('menu-items')
 @UseGuards(Auth0Guard)
 export class MenuController {
-  constructor(private readonly menuService: MenuService) {}
+  constructor(
+    private readonly menuService: MenuService,
+    private readonly modifiersService: ModifiersService,
+    private readonly combosService: CombosService,
+  ) {}
 
   @Post()
   @UseGuards(RolesGuard)
@@ -78,11 +91,64 @@ export class MenuController {
     );
   }
 
+  @Get('branch/:branchId/effective')
+  @ApiOperation({
+    summary: "Get a branch's effective menu",
+    description:
+      "Returns the branch's menu as customers see it at a moment (now by default): overrides, category schedules, scheduled price changes due by then and any running price rule.",
+  })
+  @ApiParam({ name: 'branchId', description: 'Branch UUID' })
+  @ApiResponse({ status: 200, description: 'Effective menu items' })
+  @ApiResponse({ status: 404, description: 'Branch not found' })
+  findEffective(
+    @Param('branchId') branchId: string,
+    @Query() query: EffectiveMenuQueryDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.menuService.getEffectiveMenuForBranch(
+      user.organizationId,
+      branchId,
+      query.at ? new Date(query.at) : undefined,
+    );
+  }
+
+  @Get('branch/:branchId/customer/:customerId')
+  @ApiOperation({
+    summary: "Get a branch's menu for a customer",
+    description:
+      "Returns the branch's menu at a moment (now by default) without the items that conflict with the customer's stored allergies or dietary restrictions, and lists the excluded items with the reasons why.",
+  })
+  @ApiParam({ name: 'branchId', description: 'Branch UUID' })
+  @ApiParam({ name: 'customerId', description: 'Customer UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Menu items suited to the customer and excluded items',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Branch or customer preferences not found',
+  })
+  findForCustomer(
+    @Param('branchId') branchId: string,
+    @Param('customerId') customerId: string,
+    @Query() query: EffectiveMenuQueryDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.menuService.getCustomerMenuForBranch(
+      user.organizationId,
+      branchId,
+      customerId,
+      query.at ? new Date(query.at) : undefined,
+    );
+  }
+
   @Get(':id')
   @ApiOperation({
     summary: 'Get menu item details',
     description:
-      'Retrieve detailed menu item with variants and branch-specific data',
+      'Retrieve detailed menu item with variants and branch-specific data, including allergens, dietary flags and nutrition rolled up from its ingredients',
   })
   @ApiParam({ name: 'id', description: 'Menu Item UUID' })
   @ApiResponse({ status: 200, description: 'Menu item details' })
@@ -176,4 +242,180 @@ export class MenuController {
       user.organizationId,
     );
   }
+
+  @Put(':id/combo')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Set combo slots',
+    description:
+      'Replaces the choice slots of a combo item (e.g., Main, Side, Drink) and recalculates its cost from the components',
+  })
+  @ApiParam({ name: 'id', description: 'Combo Menu Item UUID' })
+  @ApiResponse({ status: 200, description: 'Combo slots updated' })
+  @ApiResponse({ status: 400, description: 'Menu item is not a combo' })
+  setComboSlots(
+    @Param('id') id: string,
+    @Body() setComboSlotsDto: SetComboSlotsDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.combosService.setComboSlots(
+      id,
+      setComboSlotsDto,
+      user.organizationId,
+    );
+  }
+
+  @Post(':id/modifier-groups')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Create modifier group',
+    description:
+      'Adds a group of modifiers (e.g., Extras) with min/max selection rules. Recalculates the item cost.',
+  })
+  @ApiParam({ name: 'id', description: 'Menu Item UUID' })
+  @ApiResponse({ status: 201, description: 'Modifier group created' })
+  createModifierGroup(
+    @Param('id') id: string,
+    @Body() createModifierGroupDto: CreateModifierGroupDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.modifiersService.createModifierGroup(
+      id,
+      createModifierGroupDto,
+      user.organizationId,
+    );
+  }
+
+  @Patch(':id/modifier-groups/:groupId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Update modifier group',
+    description: 'Updates the group name, selection rules or display order',
+  })
+  @ApiParam({ name: 'id', description: 'Menu Item UUID' })
+  @ApiParam({ name: 'groupId', description: 'Modifier Group UUID' })
+  @ApiResponse({ status: 200, description: 'Modifier group updated' })
+  updateModifierGroup(
+    @Param('id') id: string,
+    @Param('groupId') groupId: string,
+    @Body() updateModifierGroupDto: UpdateModifierGroupDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.modifiersService.updateModifierGroup(
+      id,
+      groupId,
+      updateModifierGroupDto,
+      user.organizationId,
+    );
+  }
+
+  @Delete(':id/modifier-groups/:groupId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Delete modifier group (soft delete)',
+    description: 'Marks the group inactive and recalculates the item cost',
+  })
+  @ApiParam({ name: 'id', description: 'Menu Item UUID' })
+  @ApiParam({ name: 'groupId', description: 'Modifier Group UUID' })
+  @ApiResponse({ status: 200, description: 'Modifier group deleted' })
+  removeModifierGroup(
+    @Param('id') id: string,
+    @Param('groupId') groupId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.modifiersService.deleteModifierGroup(
+      id,
+      groupId,
+      user.organizationId,
+    );
+  }
+
+  @Post(':id/modifier-groups/:groupId/modifiers')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Create modifier',
+    description:
+      'Adds a modifier with a price delta and ingredient additions or removals',
+  })
+  @ApiParam({ name: 'id', description: 'Menu Item UUID' })
+  @ApiParam({ name: 'groupId', description: 'Modifier Group UUID' })
+  @ApiResponse({ status: 201, description: 'Modifier created' })
+  createModifier(
+    @Param('id') id: string,
+    @Param('groupId') groupId: string,
+    @Body() createModifierDto: CreateModifierDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.modifiersService.createModifier(
+      id,
+      groupId,
+      createModifierDto,
+      user.organizationId,
+    );
+  }
+
+  @Patch(':id/modifier-groups/:groupId/modifiers/:modifierId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Update modifier',
+    description:
+      'Updates a modifier. Ingredient effects are replaced when provided.',
+  })
+  @ApiParam({ name: 'id', description: 'Menu Item UUID' })
+  @ApiParam({ name: 'groupId', description: 'Modifier Group UUID' })
+  @ApiParam({ name: 'modifierId', description: 'Modifier UUID' })
+  @ApiResponse({ status: 200, description: 'Modifier updated' })
+  updateModifier(
+    @Param('id') id: string,
+    @Param('groupId') groupId: string,
+    @Param('modifierId') modifierId: string,
+    @Body() updateModifierDto: UpdateModifierDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.modifiersService.updateModifier(
+      id,
+      groupId,
+      modifierId,
+      updateModifierDto,
+      user.organizationId,
+    );
+  }
+
+  @Delete(':id/modifier-groups/:groupId/modifiers/:modifierId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Delete modifier (soft delete)',
+    description: 'Marks the modifier inactive and recalculates the item cost',
+  })
+  @ApiParam({ name: 'id', description: 'Menu Item UUID' })
+  @ApiParam({ name: 'groupId', description: 'Modifier Group UUID' })
+  @ApiParam({ name: 'modifierId', description: 'Modifier UUID' })
+  @ApiResponse({ status: 200, description: 'Modifier deleted' })
+  removeModifier(
+    @Param('id') id: string,
+    @Param('groupId') groupId: string,
+    @Param('modifierId') modifierId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.modifiersService.deleteModifier(
+      id,
+      groupId,
+      modifierId,
+      user.organizationId,
+    );
+  }
 }
@@ -8,6 +8,8 @@ import { QueueModule } from '../services/queue/queue.module';
 
 import { MenuController } from './menu.controller';
 import { MenuService } from './menu.service';
+import { CombosService } from './services/combos.service';
+import { ModifiersService } from './services/modifiers.service';
 
 @Module({
   imports: [
@@ -18,7 +20,7 @@ import { MenuService } from './menu.service';
     forwardRef(() => RecipesModule),
   ],
   controllers: [MenuController],
-  providers: [MenuService],
-  exports: [MenuService],
+  providers: [MenuService, ModifiersService, CombosService],
+  exports: [MenuService, ModifiersService, CombosService],
 })
 export class MenuModule {}
@@ -2,6 +2,7 @@ import {
   Injectable,
   NotFoundException,
   ConflictException,
+  BadRequestException,
   Logger,
 } from '@nestjs/common';
 
@@ -9,14 +10,27 @@ import { Prisma } from '../../generated/prisma';
 import { PaginationQueryDto } from '../common/dto/pagination.dto';
 import { PaginationService } from '../common/services/pagination.service';
 import { PrismaService } from '../database/prisma.service';
+import { getAvailableCategoryIds } from '../menu-categories/category-schedule';
+import {
+  createPriceResolver,
+  createScheduledPriceLookup,
+} from '../pricing/price-resolver';
 import { CacheService } from '../services/cache';
+import { ORDARO_JOB_TYPES } from '../services/queue/job-types.enum';
+import { QueueService } from '../services/queue/queue.service';
 
+import {
+  createDietaryProfiler,
+  parseCustomerRestrictions,
+} from './dietary-profile';
 import {
   CreateMenuItemDto,
   UpdateMenuItemDto,
   CreateVariantDto,
   AttachRecipeDto,
+  MenuItemType,
 } from './dto';
+import { computeComboCost, refreshModifierCosts } from './menu-costing';
 
 @Injectable()
 export class MenuService {
@@ -26,6 +40,7 @@ export class MenuService {
     private readonly prismaService: PrismaService,
     private readonly paginationService: PaginationService,
     private readonly cacheService: CacheService,
+    private readonly queueService: QueueService,
   ) {}
 
   /**
@@ -57,6 +72,12 @@ export class MenuService {
       );
     }
 
+    if (dto.type === MenuItemType.COMBO && dto.recipeId) {
+      throw new BadRequestException(
+        'Combo items are costed from their components and cannot have a recipe',
+      );
+    }
+
     // If recipeId provided, validate it exists
     if (dto.recipeId) {
       const recipe = await this.prismaService.recipe.findFirst({
@@ -71,6 +92,21 @@ export class MenuService {
       }
     }
 
+    // If categoryId provided, validate it exists
+    if (dto.categoryId) {
+      const category = await this.prismaService.menuCategory.findFirst({
+        where: {
+          id: dto.categoryId,
+          companyId: organization.id,
+          isActive: true,
+        },
+      });
+
+      if (!category) {
+        throw new NotFoundException('Menu category not found');
+      }
+    }
+
     const portionMultiplier = dto.portionMultiplier ?? 1;
     const basePrice = new Prisma.Decimal(dto.basePrice);
 
@@ -102,6 +138,8 @@ export class MenuService {
         description: dto.description ?? null,
         imageUrl: dto.imageUrl ?? null,
         category: dto.category ?? null,
+        categoryId: dto.categoryId ?? null,
+        type: dto.type ?? MenuItemType.SINGLE,
         basePrice,
         portionMultiplier: new Prisma.Decimal(portionMultiplier),
         computedCost,
@@ -159,9 +197,33 @@ export class MenuService {
         ...cursorCondition,
       },
       include: {
+        menuCategory: {
+          select: { id: true, name: true, parentId: true, sortOrder: true },
+        },
         variants: {
           where: { isActive: true },
         },
+        comboSlots: {
+          orderBy: { sortOrder: 'asc' },
+          include: {
+            options: {
+              include: {
+                menuItem: { select: { id: true, name: true } },
+                menuVariant: { select: { id: true, name: true } },
+              },
+            },
+          },
+        },
+        modifierGroups: {
+          where: { isActive: true },
+          orderBy: { sortOrder: 'asc' },
+          include: {
+            modifiers: {
+              where: { isActive: true },
+              orderBy: { sortOrder: 'asc' },
+            },
+          },
+        },
         ...(branchId && {
           branchMenus: {
             where: { branchId },
@@ -216,9 +278,46 @@ export class MenuService {
             },
           },
         },
+        menuCategory: {
+          select: { id: true, name: true, parentId: true, sortOrder: true },
+        },
         variants: {
           where: { isActive: true },
         },
+        comboSlots: {
+          orderBy: { sortOrder: 'asc' },
+          include: {
+            options: {
+              include: {
+                menuItem: { select: { id: true, name: true } },
+                menuVariant: { select: { id: true, name: true } },
+              },
+            },
+          },
+        },
+        modifierGroups: {
+          where: { isActive: true },
+          orderBy: { sortOrder: 'asc' },
+          include: {
+            modifiers: {
+              where: { isActive: true },
+              orderBy: { sortOrder: 'asc' },
+              include: {
+                ingredients: {
+                  include: {
+                    ingredient: {
+                      select: {
+                        id: true,
+                        name: true,
+                        unit: true,
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
         ...(branchId && {
           branchMenus: {
             where: { branchId },
@@ -232,7 +331,19 @@ export class MenuService {
       throw new NotFoundException('Menu item not found');
     }
 
-    return menuItem;
+    const profile = await createDietaryProfiler(
+      this.prismaService,
+      organization.id,
+    );
+
+    return {
+      ...menuItem,
+      dietary: profile(menuItem.id),
+      variants: menuItem.variants.map((variant) => ({
+        ...variant,
+        dietary: profile(menuItem.id, variant.id),
+      })),
+    };
   }
 
   /**
@@ -282,6 +393,12 @@ export class MenuService {
       }
     }
 
+    if (menuItem.type === 'COMBO' && dto.recipeId) {
+      throw new BadRequestException(
+        'Combo items are costed from their components and cannot have a recipe',
+      );
+    }
+
     // If recipeId is being updated, validate it
     if (dto.recipeId !== undefined) {
       if (dto.recipeId) {
@@ -298,6 +415,21 @@ export class MenuService {
       }
     }
 
+    // If categoryId is being updated, validate it
+    if (dto.categoryId) {
+      const category = await this.prismaService.menuCategory.findFirst({
+        where: {
+          id: dto.categoryId,
+          companyId: organization.id,
+          isActive: true,
+        },
+      });
+
+      if (!category) {
+        throw new NotFoundException('Menu category not found');
+      }
+    }
+
     // Recalculate cost if recipe or portionMultiplier changed
     const recipeId = dto.recipeId ?? menuItem.recipeId;
     const portionMultiplier = dto.portionMultiplier
@@ -316,12 +448,16 @@ export class MenuService {
       });
 
       if (recipe) {
+        const modifiers = await refreshModifierCosts(this.prismaService, id);
+        const price = basePrice.add(modifiers.priceDelta);
+
         computedCost = recipe.totalCost
           .div(recipe.yieldQuantity)
-          .mul(portionMultiplier);
+          .mul(portionMultiplier)
+          .add(modifiers.costDelta);
 
-        if (basePrice.gt(0)) {
-          margin = basePrice.sub(computedCost).div(basePrice);
+        if (price.gt(0)) {
+          margin = price.sub(computedCost).div(price);
         }
       }
     }
@@ -335,6 +471,9 @@ export class MenuService {
         }),
         ...(dto.imageUrl !== undefined && { imageUrl: dto.imageUrl ?? null }),
         ...(dto.category !== undefined && { category: dto.category ?? null }),
+        ...(dto.categoryId !== undefined && {
+          categoryId: dto.categoryId || null,
+        }),
         ...(dto.basePrice !== undefined && { basePrice }),
         ...(dto.portionMultiplier !== undefined && { portionMultiplier }),
         ...(dto.recipeId !== undefined && { recipeId: dto.recipeId ?? null }),
@@ -343,6 +482,10 @@ export class MenuService {
       },
     });
 
+    if (menuItem.type === 'COMBO') {
+      await this.recalculateMenuFromRecipe(id);
+    }
+
     this.logger.log(`Menu item updated: ${id}`);
 
     // Invalidate cache
@@ -488,6 +631,12 @@ export class MenuService {
       throw new NotFoundException('Menu item not found');
     }
 
+    if (menuItem.type === 'COMBO') {
+      throw new BadRequestException(
+        'Combo items are costed from their components and cannot have a recipe',
+      );
+    }
+
     const recipe = await this.prismaService.recipe.findFirst({
       where: {
         id: dto.recipeId,
@@ -521,18 +670,30 @@ export class MenuService {
       },
     });
 
-    if (!menuItem || !menuItem.recipe) {
+    if (!menuItem) {
       return;
     }
 
-    const recipe = menuItem.recipe;
-    const portionMultiplier = menuItem.portionMultiplier;
-    const basePrice = menuItem.basePrice;
+    const modifiers = await refreshModifierCosts(this.prismaService, menuId);
+
+    // Combos are costed from their components
+    let itemCost: Prisma.Decimal | null = null;
+    if (menuItem.type === 'COMBO') {
+      itemCost = await computeComboCost(this.prismaService, menuId);
+    } else if (menuItem.recipe) {
+      // Compute: (recipe.totalCost / recipe.yieldQuantity) * portionMultiplier
+      itemCost = menuItem.recipe.totalCost
+        .div(menuItem.recipe.yieldQuantity)
+        .mul(menuItem.portionMultiplier);
+    }
+
+    if (itemCost === null) {
+      return;
+    }
 
-    // Compute: menuComputedCost = (recipe.totalCost / recipe.yieldQuantity) * portionMultiplier
-    const computedCost = recipe.totalCost
-      .div(recipe.yieldQuantity)
-      .mul(portionMultiplier);
+    // Baseline modifiers (defaults and required choices) are part of the item
+    const basePrice = menuItem.basePrice.add(modifiers.priceDelta);
+    const computedCost = itemCost.add(modifiers.costDelta);
 
     // Compute margin = (basePrice - computedCost) / basePrice
     let margin: Prisma.Decimal | null = null;
@@ -567,14 +728,36 @@ export class MenuService {
         // TODO: Trigger notification/alert
       }
     }
+
+    // Combos offering this item are costed from it
+    if (menuItem.type === 'SINGLE') {
+      const combos = await this.prismaService.comboSlot.findMany({
+        where: { options: { some: { menuItemId: menuId } } },
+        select: { comboItemId: true },
+        distinct: ['comboItemId'],
+      });
+
+      for (const combo of combos) {
+        await this.queueService.addJob(ORDARO_JOB_TYPES.MENU_COST_UPDATE, {
+          menuItemId: combo.comboItemId,
+        });
+      }
+    }
   }
 
   /**
    * Get effective menu for branch (with overrides)
+   *
+   * Items in a category that is outside its schedule at the branch's local
+   * time (e.g. breakfast after 11am) are left out. Items are ordered by
+   * category, following the category tree. Prices are those that apply at
+   * `at`, including scheduled price changes due by then and any price rule
+   * (e.g. happy hour) running then.
    */
   async getEffectiveMenuForBranch(
     companyId: string,
     branchId: string,
+    at: Date = new Date(),
   ): Promise<unknown> {
     const organization = await this.prismaService.organization.findUnique({
       where: { auth0OrgId: companyId },
@@ -595,15 +778,152 @@ export class MenuService {
       throw new NotFoundException('Branch not found');
     }
 
+    return this.buildEffectiveMenu(organization.id, branch, at);
+  }
+
+  /**
+   * Get a branch's effective menu filtered for a customer's allergies and
+   * dietary restrictions
+   *
+   * Items containing one of the customer's allergens, or lacking a dietary
+   * flag they need, are excluded with the reasons why. Items whose recipes
+   * don't fully describe them are excluded while the customer has any
+   * restriction, since they can't be vouched for.
+   */
+  async getCustomerMenuForBranch(
+    companyId: string,
+    branchId: string,
+    customerId: string,
+    at: Date = new Date(),
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const branch = await this.prismaService.branch.findFirst({
+      where: {
+        id: branchId,
+        organizationId: organization.id,
+      },
+    });
+
+    if (!branch) {
+      throw new NotFoundException('Branch not found');
+    }
+
+    const preference = await this.prismaService.customerPreference.findUnique({
+      where: {
+        customerId_organizationId: {
+          customerId,
+          organizationId: organization.id,
+        },
+      },
+    });
+
+    if (!preference) {
+      throw new NotFoundException('Customer preferences not found');
+    }
+
+    const restrictions = parseCustomerRestrictions(
+      preference.allergies,
+      preference.dietaryRestrictions,
+    );
+    const hasRestrictions =
+      restrictions.allergens.length > 0 || restrictions.dietaryFlags.length > 0;
+
+    const reasonsFor = (dietary: {
+      allergens: string[];
+      dietaryFlags: string[];
+      isComplete: boolean;
+    }): string[] => {
+      if (hasRestrictions && !dietary.isComplete) {
+        return ['Ingredient information incomplete'];
+      }
+      return [
+        ...restrictions.allergens
+          .filter((allergen) => dietary.allergens.includes(allergen))
+          .map((allergen) => `Contains ${allergen}`),
+        ...restrictions.dietaryFlags
+          .filter((flag) => !dietary.dietaryFlags.includes(flag))
+          .map((flag) => `Not ${flag}`),
+      ];
+    };
+
+    const menu = await this.buildEffectiveMenu(organization.id, branch, at);
+    const items = [];
+    const excluded = [];
+
+    for (const item of menu) {
+      const reasons = reasonsFor(item.dietary);
+      const variants = item.variants.filter(
+        (variant) => reasonsFor(variant.dietary).length === 0,
+      );
+
+      if (reasons.length === 0 && variants.length > 0) {
+        items.push({ ...item, variants });
+      } else if (reasons.length === 0 && item.variants.length === 0) {
+        items.push(item);
+      } else {
+        excluded.push({
+          menuItemId: item.id,
+          name: item.name,
+          reasons:
+            reasons.length > 0 ? reasons : ['No variant suits the customer'],
+        });
+      }
+    }
+
+    return {
+      customerId,
+      restrictions,
+      items,
+      excluded,
+    };
+  }
+
+  private async buildEffectiveMenu(
+    organizationId: string,
+    branch: { id: string; timezone: string },
+    at: Date,
+  ) {
+    const branchId = branch.id;
     const menuItems = await this.prismaService.menuItem.findMany({
       where: {
-        companyId: organization.id,
+        companyId: organizationId,
         isActive: true,
       },
       include: {
+        menuCategory: {
+          select: { id: true, name: true, parentId: true, sortOrder: true },
+        },
         variants: {
           where: { isActive: true },
         },
+        comboSlots: {
+          orderBy: { sortOrder: 'asc' },
+          include: {
+            options: {
+              include: {
+                menuItem: { select: { id: true, name: true } },
+                menuVariant: { select: { id: true, name: true } },
+              },
+            },
+          },
+        },
+        modifierGroups: {
+          where: { isActive: true },
+          orderBy: { sortOrder: 'asc' },
+          include: {
+            modifiers: {
+              where: { isActive: true },
+              orderBy: { sortOrder: 'asc' },
+            },
+          },
+        },
         branchMenus: {
           where: {
             branchId,
@@ -614,14 +934,90 @@ export class MenuService {
       },
     });
 
-    // Merge with branch overrides
-    return menuItems.map((item) => {
-      const branchOverride = item.branchMenus[0];
-      return {
-        ...item,
-        effectivePrice: branchOverride?.localPrice ?? item.basePrice,
-        availability: branchOverride?.availability ?? true,
-      };
+    const categories = await this.prismaService.menuCategory.findMany({
+      where: { companyId: organizationId },
+      include: { schedules: true },
     });
+    const available = getAvailableCategoryIds(categories, at, branch.timezone);
+
+    // Sort key per category: the display orders along its path from the root
+    const categoryMap = new Map(categories.map((c) => [c.id, c]));
+    const sortPath = (categoryId: string | null): number[] => {
+      const path: number[] = [];
+      const seen = new Set<string>();
+      let category = categoryId ? categoryMap.get(categoryId) : undefined;
+      while (category && !seen.has(category.id)) {
+        seen.add(category.id);
+        path.unshift(category.sortOrder);
+        category = category.parentId
+          ? categoryMap.get(category.parentId)
+          : undefined;
+      }
+      return path;
+    };
+    const comparePaths = (a: number[], b: number[]): number => {
+      // Uncategorized items go last
+      if (a.length === 0 || b.length === 0) {
+        return b.length - a.length;
+      }
+      for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        const diff = (a[i] ?? 0) - (b[i] ?? 0);
+        if (diff !== 0) {
+          return diff;
+        }
+      }
+      return a.length - b.length;
+    };
+
+    const resolvePrice = await createPriceResolver(
+      this.prismaService,
+      organizationId,
+      branch,
+      at,
+    );
+    const regularPrice = await createScheduledPriceLookup(
+      this.prismaService,
+      organizationId,
+      branch.id,
+      at,
+    );
+    const profile = await createDietaryProfiler(
+      this.prismaService,
+      organizationId,
+    );
+
+    // Merge with branch overrides, scheduled price changes due by `at` and
+    // any price rule active then
+    return menuItems
+      .filter((item) => !item.categoryId || available.has(item.categoryId))
+      .map((item) => {
+        const branchOverride = item.branchMenus[0];
+        const { price, priceRule } = resolvePrice(
+          item,
+          regularPrice(item, branchOverride?.localPrice),
+        );
+        return {
+          ...item,
+          variants: item.variants.map((variant) => ({
+            ...variant,
+            effectivePrice: resolvePrice(item, variant.price).price,
+            dietary: profile(item.id, variant.id),
+          })),
+          effectivePrice: price,
+          priceRule,
+          dietary: profile(item.id),
+          availability: branchOverride?.availability ?? true,
+          sortPath: sortPath(item.categoryId),
+        };
+      })
+      .sort(
+        (a, b) =>
+          comparePaths(a.sortPath, b.sortPath) ||
+          (a.menuCategory?.name ?? '').localeCompare(
+            b.menuCategory?.name ?? '',
+          ) ||
+          a.name.localeCompare(b.name),
+      )
+      .map(({ sortPath: _sortPath, ...item }) => item);
   }
 }
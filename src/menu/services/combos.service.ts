@@ -0,0 +1,153 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../../generated/prisma';
+import { PrismaService } from '../../database/prisma.service';
+import { CacheService } from '../../services/cache';
+import { SetComboSlotsDto } from '../dto';
+import { MenuService } from '../menu.service';
+
+@Injectable()
+export class CombosService {
+  private readonly logger = new Logger(CombosService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly cacheService: CacheService,
+    private readonly menuService: MenuService,
+  ) {}
+
+  /**
+   * Replace a combo's slots and options, then re-cost the combo
+   */
+  async setComboSlots(
+    comboItemId: string,
+    dto: SetComboSlotsDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const combo = await this.prismaService.menuItem.findFirst({
+      where: {
+        id: comboItemId,
+        companyId: organization.id,
+      },
+    });
+
+    if (!combo) {
+      throw new NotFoundException('Menu item not found');
+    }
+
+    if (combo.type !== 'COMBO') {
+      throw new BadRequestException('Menu item is not a combo');
+    }
+
+    const names = dto.slots.map((s) => s.name);
+    if (new Set(names).size !== names.length) {
+      throw new BadRequestException('Combo slot names must be unique');
+    }
+
+    for (const slot of dto.slots) {
+      if (slot.options.filter((o) => o.isDefault).length > 1) {
+        throw new BadRequestException(
+          `Slot "${slot.name}" can have at most one default option`,
+        );
+      }
+    }
+
+    const options = dto.slots.flatMap((s) => s.options);
+    const menuItemIds = [...new Set(options.map((o) => o.menuItemId))];
+    const menuItems = await this.prismaService.menuItem.findMany({
+      where: {
+        id: { in: menuItemIds },
+        companyId: organization.id,
+        isActive: true,
+      },
+      include: {
+        variants: { where: { isActive: true } },
+      },
+    });
+    const itemMap = new Map(menuItems.map((i) => [i.id, i]));
+
+    for (const option of options) {
+      const item = itemMap.get(option.menuItemId);
+      if (!item) {
+        throw new NotFoundException(`Menu item ${option.menuItemId} not found`);
+      }
+
+      if (item.type === 'COMBO') {
+        throw new BadRequestException(
+          `Combo ${item.name} cannot be part of another combo`,
+        );
+      }
+
+      if (
+        option.menuVariantId &&
+        !item.variants.some((v) => v.id === option.menuVariantId)
+      ) {
+        throw new BadRequestException(
+          `Variant ${option.menuVariantId} does not belong to ${item.name}`,
+        );
+      }
+    }
+
+    await this.prismaService.$transaction(async (tx) => {
+      await tx.comboSlot.deleteMany({ where: { comboItemId } });
+
+      for (const [index, slot] of dto.slots.entries()) {
+        await tx.comboSlot.create({
+          data: {
+            comboItemId,
+            name: slot.name,
+            quantity: slot.quantity ?? 1,
+            sortOrder: slot.sortOrder ?? index,
+            options: {
+              create: slot.options.map((option) => ({
+                menuItemId: option.menuItemId,
+                menuVariantId: option.menuVariantId ?? null,
+                priceDelta: new Prisma.Decimal(option.priceDelta ?? 0),
+                isDefault: option.isDefault ?? false,
+              })),
+            },
+          },
+        });
+      }
+    });
+
+    await this.menuService.recalculateMenuFromRecipe(comboItemId);
+
+    this.logger.log(
+      `Combo slots set: ${dto.slots.length} slots on menu item ${comboItemId}`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return this.prismaService.menuItem.findUnique({
+      where: { id: comboItemId },
+      include: {
+        comboSlots: {
+          orderBy: { sortOrder: 'asc' },
+          include: {
+            options: {
+              include: {
+                menuItem: { select: { id: true, name: true } },
+                menuVariant: { select: { id: true, name: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+  }
+}
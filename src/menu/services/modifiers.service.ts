@@ -0,0 +1,462 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../../generated/prisma';
+import { PrismaService } from '../../database/prisma.service';
+import { CacheService } from '../../services/cache';
+import { convertToIngredientUnit } from '../../units/unit-conversion';
+import { normalizeUnit } from '../../units/unit-registry';
+import {
+  CreateModifierGroupDto,
+  UpdateModifierGroupDto,
+  CreateModifierDto,
+  UpdateModifierDto,
+  ModifierIngredientDto,
+} from '../dto';
+import { MenuService } from '../menu.service';
+
+@Injectable()
+export class ModifiersService {
+  private readonly logger = new Logger(ModifiersService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly cacheService: CacheService,
+    private readonly menuService: MenuService,
+  ) {}
+
+  /**
+   * Create a modifier group on a menu item, optionally with its modifiers
+   */
+  async createModifierGroup(
+    menuItemId: string,
+    dto: CreateModifierGroupDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organizationId = await this.findMenuItem(menuItemId, companyId);
+
+    const existing = await this.prismaService.modifierGroup.findFirst({
+      where: { menuItemId, name: dto.name },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        'A modifier group with this name already exists for this menu item',
+      );
+    }
+
+    const modifiers = dto.modifiers ?? [];
+    const names = modifiers.map((m) => m.name);
+    if (new Set(names).size !== names.length) {
+      throw new BadRequestException('Modifier names must be unique');
+    }
+
+    this.assertSelectionRules(
+      dto.minSelect ?? 0,
+      dto.maxSelect ?? null,
+      modifiers.filter((m) => m.isDefault).length,
+    );
+
+    const modifierData = [];
+    for (const modifier of modifiers) {
+      modifierData.push({
+        name: modifier.name,
+        priceDelta: new Prisma.Decimal(modifier.priceDelta ?? 0),
+        isDefault: modifier.isDefault ?? false,
+        sortOrder: modifier.sortOrder ?? 0,
+        ingredients: {
+          create: await this.buildModifierIngredients(
+            modifier.ingredients ?? [],
+            organizationId,
+          ),
+        },
+      });
+    }
+
+    const group = await this.prismaService.modifierGroup.create({
+      data: {
+        menuItemId,
+        name: dto.name,
+        minSelect: dto.minSelect ?? 0,
+        maxSelect: dto.maxSelect ?? null,
+        sortOrder: dto.sortOrder ?? 0,
+        modifiers: {
+          create: modifierData,
+        },
+      },
+    });
+
+    this.logger.log(
+      `Modifier group created: ${group.id} on menu item ${menuItemId}`,
+    );
+
+    return this.afterChange(menuItemId, group.id, companyId);
+  }
+
+  /**
+   * Update a modifier group's name, selection rules or order
+   */
+  async updateModifierGroup(
+    menuItemId: string,
+    groupId: string,
+    dto: UpdateModifierGroupDto,
+    companyId: string,
+  ): Promise<unknown> {
+    await this.findMenuItem(menuItemId, companyId);
+    const group = await this.findGroup(menuItemId, groupId);
+
+    if (dto.name && dto.name !== group.name) {
+      const existing = await this.prismaService.modifierGroup.findFirst({
+        where: { menuItemId, name: dto.name, id: { not: groupId } },
+      });
+
+      if (existing) {
+        throw new ConflictException(
+          'A modifier group with this name already exists for this menu item',
+        );
+      }
+    }
+
+    const defaults = await this.prismaService.modifier.count({
+      where: { groupId, isActive: true, isDefault: true },
+    });
+    this.assertSelectionRules(
+      dto.minSelect ?? group.minSelect,
+      dto.maxSelect !== undefined ? dto.maxSelect : group.maxSelect,
+      defaults,
+    );
+
+    await this.prismaService.modifierGroup.update({
+      where: { id: groupId },
+      data: {
+        ...(dto.name && { name: dto.name }),
+        ...(dto.minSelect !== undefined && { minSelect: dto.minSelect }),
+        ...(dto.maxSelect !== undefined && { maxSelect: dto.maxSelect }),
+        ...(dto.sortOrder !== undefined && { sortOrder: dto.sortOrder }),
+      },
+    });
+
+    this.logger.log(`Modifier group updated: ${groupId}`);
+
+    return this.afterChange(menuItemId, groupId, companyId);
+  }
+
+  /**
+   * Delete a modifier group (soft delete)
+   */
+  async deleteModifierGroup(
+    menuItemId: string,
+    groupId: string,
+    companyId: string,
+  ): Promise<unknown> {
+    await this.findMenuItem(menuItemId, companyId);
+    await this.findGroup(menuItemId, groupId);
+
+    const result = await this.prismaService.modifierGroup.update({
+      where: { id: groupId },
+      data: { isActive: false },
+    });
+
+    this.logger.log(`Modifier group deleted: ${groupId}`);
+
+    await this.menuService.recalculateMenuFromRecipe(menuItemId);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return result;
+  }
+
+  /**
+   * Add a modifier to a group
+   */
+  async createModifier(
+    menuItemId: string,
+    groupId: string,
+    dto: CreateModifierDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organizationId = await this.findMenuItem(menuItemId, companyId);
+    const group = await this.findGroup(menuItemId, groupId);
+
+    const existing = await this.prismaService.modifier.findFirst({
+      where: { groupId, name: dto.name },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        'A modifier with this name already exists in this group',
+      );
+    }
+
+    if (dto.isDefault) {
+      const defaults = await this.prismaService.modifier.count({
+        where: { groupId, isActive: true, isDefault: true },
+      });
+      this.assertSelectionRules(group.minSelect, group.maxSelect, defaults + 1);
+    }
+
+    const modifier = await this.prismaService.modifier.create({
+      data: {
+        groupId,
+        name: dto.name,
+        priceDelta: new Prisma.Decimal(dto.priceDelta ?? 0),
+        isDefault: dto.isDefault ?? false,
+        sortOrder: dto.sortOrder ?? 0,
+        ingredients: {
+          create: await this.buildModifierIngredients(
+            dto.ingredients ?? [],
+            organizationId,
+          ),
+        },
+      },
+    });
+
+    this.logger.log(`Modifier created: ${modifier.id} in group ${groupId}`);
+
+    return this.afterChange(menuItemId, groupId, companyId);
+  }
+
+  /**
+   * Update a modifier; `ingredients` replaces its ingredient effects
+   */
+  async updateModifier(
+    menuItemId: string,
+    groupId: string,
+    modifierId: string,
+    dto: UpdateModifierDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organizationId = await this.findMenuItem(menuItemId, companyId);
+    const group = await this.findGroup(menuItemId, groupId);
+
+    const modifier = await this.prismaService.modifier.findFirst({
+      where: { id: modifierId, groupId, isActive: true },
+    });
+
+    if (!modifier) {
+      throw new NotFoundException('Modifier not found');
+    }
+
+    if (dto.name && dto.name !== modifier.name) {
+      const existing = await this.prismaService.modifier.findFirst({
+        where: { groupId, name: dto.name, id: { not: modifierId } },
+      });
+
+      if (existing) {
+        throw new ConflictException(
+          'A modifier with this name already exists in this group',
+        );
+      }
+    }
+
+    if (dto.isDefault && !modifier.isDefault) {
+      const defaults = await this.prismaService.modifier.count({
+        where: { groupId, isActive: true, isDefault: true },
+      });
+      this.assertSelectionRules(group.minSelect, group.maxSelect, defaults + 1);
+    }
+
+    const ingredients = dto.ingredients
+      ? await this.buildModifierIngredients(dto.ingredients, organizationId)
+      : null;
+
+    await this.prismaService.$transaction(async (tx) => {
+      await tx.modifier.update({
+        where: { id: modifierId },
+        data: {
+          ...(dto.name && { name: dto.name }),
+          ...(dto.priceDelta !== undefined && {
+            priceDelta: new Prisma.Decimal(dto.priceDelta),
+          }),
+          ...(dto.isDefault !== undefined && { isDefault: dto.isDefault }),
+          ...(dto.sortOrder !== undefined && { sortOrder: dto.sortOrder }),
+        },
+      });
+
+      if (ingredients) {
+        await tx.modifierIngredient.deleteMany({
+          where: { modifierId },
+        });
+
+        await tx.modifierIngredient.createMany({
+          data: ingredients.map((item) => ({ modifierId, ...item })),
+        });
+      }
+    });
+
+    this.logger.log(`Modifier updated: ${modifierId}`);
+
+    return this.afterChange(menuItemId, groupId, companyId);
+  }
+
+  /**
+   * Delete a modifier (soft delete)
+   */
+  async deleteModifier(
+    menuItemId: string,
+    groupId: string,
+    modifierId: string,
+    companyId: string,
+  ): Promise<unknown> {
+    await this.findMenuItem(menuItemId, companyId);
+    await this.findGroup(menuItemId, groupId);
+
+    const modifier = await this.prismaService.modifier.findFirst({
+      where: { id: modifierId, groupId, isActive: true },
+    });
+
+    if (!modifier) {
+      throw new NotFoundException('Modifier not found');
+    }
+
+    await this.prismaService.modifier.update({
+      where: { id: modifierId },
+      data: { isActive: false },
+    });
+
+    this.logger.log(`Modifier deleted: ${modifierId}`);
+
+    return this.afterChange(menuItemId, groupId, companyId);
+  }
+
+  /**
+   * Validate ingredient effects and normalize their units
+   */
+  private async buildModifierIngredients(
+    ingredientDtos: ModifierIngredientDto[],
+    organizationId: string,
+  ) {
+    if (ingredientDtos.length === 0) {
+      return [];
+    }
+
+    const ingredientIds = ingredientDtos.map((i) => i.ingredientId);
+    if (new Set(ingredientIds).size !== ingredientIds.length) {
+      throw new BadRequestException(
+        'Each ingredient can only appear once per modifier',
+      );
+    }
+
+    const ingredients = await this.prismaService.ingredient.findMany({
+      where: {
+        id: { in: ingredientIds },
+        companyId: organizationId,
+        isActive: true,
+      },
+      include: { unitConversions: true },
+    });
+
+    if (ingredients.length !== ingredientIds.length) {
+      throw new NotFoundException('One or more ingredients not found');
+    }
+
+    return ingredientDtos.map((dto) => {
+      const ingredient = ingredients.find((i) => i.id === dto.ingredientId);
+      if (!ingredient) {
+        throw new NotFoundException(`Ingredient ${dto.ingredientId} not found`);
+      }
+
+      const quantity = new Prisma.Decimal(dto.quantity);
+      // Rejects units that can't be converted to the ingredient's unit
+      convertToIngredientUnit(quantity, dto.unit, ingredient);
+
+      return {
+        ingredientId: ingredient.id,
+        action: dto.action,
+        quantity,
+        unit: dto.unit ? normalizeUnit(dto.unit) : null,
+      };
+    });
+  }
+
+  private assertSelectionRules(
+    minSelect: number,
+    maxSelect: number | null,
+    defaults: number,
+  ): void {
+    if (maxSelect !== null && minSelect > maxSelect) {
+      throw new BadRequestException(
+        'minSelect cannot be greater than maxSelect',
+      );
+    }
+
+    if (maxSelect !== null && defaults > maxSelect) {
+      throw new BadRequestException(
+        `A group allowing ${maxSelect} selections cannot have ${defaults} defaults`,
+      );
+    }
+  }
+
+  /**
+   * Re-cost the menu item and return the group with its modifiers
+   */
+  private async afterChange(
+    menuItemId: string,
+    groupId: string,
+    companyId: string,
+  ): Promise<unknown> {
+    await this.menuService.recalculateMenuFromRecipe(menuItemId);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return this.prismaService.modifierGroup.findUnique({
+      where: { id: groupId },
+      include: {
+        modifiers: {
+          where: { isActive: true },
+          orderBy: { sortOrder: 'asc' },
+          include: { ingredients: true },
+        },
+      },
+    });
+  }
+
+  private async findMenuItem(
+    menuItemId: string,
+    companyId: string,
+  ): Promise<string> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const menuItem = await this.prismaService.menuItem.findFirst({
+      where: {
+        id: menuItemId,
+        companyId: organization.id,
+      },
+    });
+
+    if (!menuItem) {
+      throw new NotFoundException('Menu item not found');
+    }
+
+    return organization.id;
+  }
+
+  private async findGroup(menuItemId: string, groupId: string) {
+    const group = await this.prismaService.modifierGroup.findFirst({
+      where: {
+        id: groupId,
+        menuItemId,
+        isActive: true,
+      },
+    });
+
+    if (!group) {
+      throw new NotFoundException('Modifier group not found');
+    }
+
+    return group;
+  }
+}
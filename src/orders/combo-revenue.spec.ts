@@ -0,0 +1,80 @@
+import { Prisma } from '../../generated/prisma';
+
+import { allocateComboRevenue } from './combo-revenue';
+
+const component = (
+  slotName: string,
+  standalonePrice: number,
+  quantity = 1,
+) => ({
+  slotName,
+  quantity,
+  standalonePrice: new Prisma.Decimal(standalonePrice),
+  menuItemId: `item-${slotName}`,
+  menuVariantId: null,
+});
+
+const total = (allocations: Array<{ allocatedRevenue: Prisma.Decimal }>) =>
+  allocations.reduce(
+    (sum, a) => sum.add(a.allocatedRevenue),
+    new Prisma.Decimal(0),
+  );
+
+describe('allocateComboRevenue', () => {
+  it('splits the line total by standalone price times quantity', () => {
+    const allocations = allocateComboRevenue(
+      [component('main', 30), component('side', 10), component('drink', 5, 2)],
+      new Prisma.Decimal(40),
+    );
+
+    expect(allocations.map((a) => a.allocatedRevenue.toString())).toEqual([
+      '24',
+      '8',
+      '8',
+    ]);
+  });
+
+  it('puts the rounding remainder on the last component', () => {
+    const allocations = allocateComboRevenue(
+      [component('a', 10), component('b', 10), component('c', 10)],
+      new Prisma.Decimal(10),
+    );
+
+    expect(allocations.map((a) => a.allocatedRevenue.toString())).toEqual([
+      '3.33',
+      '3.33',
+      '3.34',
+    ]);
+    expect(total(allocations).toString()).toBe('10');
+  });
+
+  it('splits evenly when no component has a price', () => {
+    const allocations = allocateComboRevenue(
+      [component('a', 0), component('b', 0), component('c', 0)],
+      new Prisma.Decimal(20),
+    );
+
+    expect(allocations.map((a) => a.allocatedRevenue.toString())).toEqual([
+      '6.67',
+      '6.67',
+      '6.66',
+    ]);
+    expect(total(allocations).toString()).toBe('20');
+  });
+
+  it('keeps the component details alongside the allocation', () => {
+    const [allocation] = allocateComboRevenue(
+      [component('main', 12)],
+      new Prisma.Decimal(9.5),
+    );
+
+    expect(allocation).toEqual({
+      slotName: 'main',
+      quantity: 1,
+      standalonePrice: new Prisma.Decimal(12),
+      allocatedRevenue: new Prisma.Decimal(9.5),
+      menuItemId: 'item-main',
+      menuVariantId: null,
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { Prisma } from '../../generated/prisma';
+
+/**
+ * Split a combo line's total across its components in proportion to their
+ * standalone prices, with any rounding difference on the last component
+ */
+export function allocateComboRevenue(
+  components: Array<{
+    slotName: string;
+    quantity: number;
+    standalonePrice: Prisma.Decimal;
+    menuItemId: string;
+    menuVariantId: string | null;
+  }>,
+  lineTotal: Prisma.Decimal,
+) {
+  const weights = components.map((c) => c.standalonePrice.mul(c.quantity));
+  const totalWeight = weights.reduce(
+    (sum, weight) => sum.add(weight),
+    new Prisma.Decimal(0),
+  );
+
+  let remaining = lineTotal;
+  return components.map((component, index) => {
+    const isLast = index === components.length - 1;
+    const share = totalWeight.isZero()
+      ? lineTotal.div(components.length)
+      : lineTotal.mul(weights[index] ?? 0).div(totalWeight);
+    const allocatedRevenue = isLast ? remaining : share.toDecimalPlaces(2);
+    remaining = remaining.sub(allocatedRevenue);
+
+    return {
+      slotName: component.slotName,
+      quantity: component.quantity,
+      standalonePrice: component.standalonePrice,
+      allocatedRevenue,
+      menuItemId: component.menuItemId,
+      menuVariantId: component.menuVariantId,
+    };
+  });
+}
@@ -0,0 +1,112 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsInt,
+  Min,
+  IsOptional,
+  MaxLength,
+  IsArray,
+  ArrayMinSize,
+  ValidateNested,
+  IsEnum,
+} from 'class-validator';
+
+export enum OrderType {
+  DINE_IN = 'DINE_IN',
+  TAKEAWAY = 'TAKEAWAY',
+  DELIVERY = 'DELIVERY',
+}
+
+export class ComboSelectionDto {
+  @ApiProperty({ description: 'Combo slot ID' })
+  @IsString()
+  @IsNotEmpty()
+  slotId!: string;
+
+  @ApiProperty({ description: 'Chosen option ID within the slot' })
+  @IsString()
+  @IsNotEmpty()
+  optionId!: string;
+}
+
+export class OrderLineDto {
+  @ApiProperty({ description: 'Menu item ID' })
+  @IsString()
+  @IsNotEmpty()
+  menuItemId!: string;
+
+  @ApiPropertyOptional({ description: 'Menu variant ID (e.g., Large)' })
+  @IsOptional()
+  @IsString()
+  menuVariantId?: string;
+
+  @ApiProperty({ description: 'Quantity ordered', minimum: 1 })
+  @IsInt()
+  @Type(() => Number)
+  @Min(1)
+  quantity!: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Selected modifier IDs. Omit to use the item's default modifiers",
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  modifierIds?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Choices for a combo item. Slots left out use their default option',
+    type: [ComboSelectionDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ComboSelectionDto)
+  comboSelections?: ComboSelectionDto[];
+
+  @ApiPropertyOptional({ description: 'Line notes (e.g., no onions)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class CreateOrderDto {
+  @ApiProperty({
+    description: 'Order lines',
+    type: [OrderLineDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => OrderLineDto)
+  lines!: OrderLineDto[];
+
+  @ApiPropertyOptional({
+    description: 'Order type',
+    enum: OrderType,
+    default: OrderType.DINE_IN,
+  })
+  @IsOptional()
+  @IsEnum(OrderType)
+  type?: OrderType;
+
+  @ApiPropertyOptional({
+    description:
+      "Customer the order is for; counts towards the customer's order history",
+  })
+  @IsOptional()
+  @IsString()
+  customerId?: string;
+
+  @ApiPropertyOptional({ description: 'Order notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
@@ -0,0 +1,5 @@
+export * from './create-order.dto';
+export * from './void-order.dto';
+export * from './update-order-status.dto';
+export * from './order-response.dto';
+export * from './list-orders-query.dto';
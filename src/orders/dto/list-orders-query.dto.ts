@@ -0,0 +1,49 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsEnum, IsOptional, IsString } from 'class-validator';
+
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+
+export enum OrderStatus {
+  CONFIRMED = 'CONFIRMED',
+  READY = 'READY',
+  COMPLETED = 'COMPLETED',
+  VOIDED = 'VOIDED',
+}
+
+export class ListOrdersQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Branch ID (alternatively sent as X-Branch-Id header)',
+  })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by order status',
+    enum: OrderStatus,
+  })
+  @IsOptional()
+  @IsEnum(OrderStatus)
+  status?: OrderStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by customer' })
+  @IsOptional()
+  @IsString()
+  customerId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only orders created on or after this date (ISO 8601)',
+    example: '2025-01-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only orders created on or before this date (ISO 8601)',
+    example: '2025-01-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
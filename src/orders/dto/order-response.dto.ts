@@ -0,0 +1,81 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class OrderLineResponseDto {
+  @ApiProperty({ description: 'Order line ID' })
+  id!: string;
+
+  @ApiProperty({ description: 'Menu item ID' })
+  menuItemId!: string;
+
+  @ApiPropertyOptional({ description: 'Menu variant ID' })
+  menuVariantId?: string | null;
+
+  @ApiProperty({ description: 'Quantity ordered' })
+  quantity!: number;
+
+  @ApiProperty({ description: 'Unit price charged' })
+  unitPrice!: number;
+
+  @ApiProperty({ description: 'Line total (quantity × unit price)' })
+  lineTotal!: number;
+
+  @ApiPropertyOptional({ description: 'Line notes' })
+  notes?: string | null;
+}
+
+export class OrderResponseDto {
+  @ApiProperty({ description: 'Order ID' })
+  id!: string;
+
+  @ApiProperty({
+    description: 'Order status',
+    enum: ['CONFIRMED', 'READY', 'COMPLETED', 'VOIDED'],
+  })
+  status!: string;
+
+  @ApiProperty({
+    description: 'Order type',
+    enum: ['DINE_IN', 'TAKEAWAY', 'DELIVERY'],
+  })
+  type!: string;
+
+  @ApiProperty({ description: 'Sum of line totals' })
+  subtotal!: number;
+
+  @ApiProperty({ description: 'Amount charged' })
+  total!: number;
+
+  @ApiProperty({
+    description: 'Paid with loyalty points, already taken off the total',
+  })
+  loyaltyDiscount!: number;
+
+  @ApiPropertyOptional({ description: 'Order notes' })
+  notes?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Reference of the placement that created the order',
+  })
+  clientRef?: string | null;
+
+  @ApiPropertyOptional({ description: 'Void reason' })
+  voidReason?: string | null;
+
+  @ApiPropertyOptional({ description: 'Voided at timestamp' })
+  voidedAt?: Date | null;
+
+  @ApiProperty({ description: 'Branch ID' })
+  branchId!: string;
+
+  @ApiPropertyOptional({ description: 'Customer the order was placed for' })
+  customerId?: string | null;
+
+  @ApiProperty({ description: 'Order lines', type: [OrderLineResponseDto] })
+  lines!: OrderLineResponseDto[];
+
+  @ApiProperty({ description: 'Created at timestamp' })
+  createdAt!: Date;
+
+  @ApiProperty({ description: 'Updated at timestamp' })
+  updatedAt!: Date;
+}
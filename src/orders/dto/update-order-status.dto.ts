@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+
+export enum OrderProgressStatus {
+  READY = 'READY',
+  COMPLETED = 'COMPLETED',
+}
+
+export class UpdateOrderStatusDto {
+  @ApiProperty({
+    description:
+      'New status; READY notifies the customer their order is ready, COMPLETED sends their receipt',
+    enum: OrderProgressStatus,
+  })
+  @IsEnum(OrderProgressStatus)
+  status!: OrderProgressStatus;
+}
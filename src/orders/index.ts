@@ -0,0 +1,4 @@
+export * from './dto';
+export * from './orders.controller';
+export * from './orders.service';
+export * from './orders.module';
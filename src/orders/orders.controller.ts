@@ -0,0 +1,192 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiHeader,
+} from '@nestjs/swagger';
+
+import {
+  CurrentBranch,
+  CurrentUser,
+  Roles,
+  requiresOrganization,
+} from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, BranchGuard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+
+import {
+  CreateOrderDto,
+  ListOrdersQueryDto,
+  OrderResponseDto,
+  UpdateOrderStatusDto,
+  VoidOrderDto,
+} from './dto';
+import { OrdersService } from './orders.service';
+
+@ApiTags('Orders')
+@ApiBearerAuth('Auth0')
+@ApiHeader({
+  name: 'X-Branch-Id',
+  description: 'Branch the order belongs to',
+  required: false,
+})
+@Controller('orders')
+@UseGuards(Auth0Guard)
+export class OrdersController {
+  constructor(private readonly ordersService: OrdersService) {}
+
+  @Post()
+  @UseGuards(RolesGuard, BranchGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.WAITER)
+  @ApiOperation({
+    summary: 'Create order',
+    description:
+      'Creates an order at the current branch, priced at the effective branch price, and consumes recipe ingredients FIFO',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Order created successfully',
+    type: OrderResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Menu item unavailable at this branch',
+  })
+  createOrder(
+    @Body() createOrderDto: CreateOrderDto,
+    @CurrentBranch() branchId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.ordersService.createOrder(
+      createOrderDto,
+      branchId,
+      user.organizationId,
+      user.auth0Id,
+    );
+  }
+
+  @Get()
+  @UseGuards(RolesGuard, BranchGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.WAITER, UserRole.CHEF)
+  @ApiOperation({
+    summary: 'List orders',
+    description: 'Returns paginated orders for the current branch',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of orders',
+  })
+  listOrders(
+    @Query() query: ListOrdersQueryDto,
+    @CurrentBranch() branchId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.ordersService.listOrders(branchId, user.organizationId, query);
+  }
+
+  @Get(':id')
+  @UseGuards(RolesGuard, BranchGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.WAITER, UserRole.CHEF)
+  @ApiOperation({
+    summary: 'Get order details',
+    description: 'Returns an order with its lines and recorded COGS',
+  })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Order details',
+    type: OrderResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  getOrderById(
+    @Param('id') id: string,
+    @CurrentBranch() branchId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.ordersService.getOrderById(id, branchId, user.organizationId);
+  }
+
+  @Patch(':id/status')
+  @UseGuards(RolesGuard, BranchGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.WAITER, UserRole.CHEF)
+  @ApiOperation({
+    summary: 'Update order status',
+    description:
+      'Marks an order READY or COMPLETED. A linked customer is sent a ready message or their receipt on the channels they consented to.',
+  })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Order status updated successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid status transition',
+  })
+  updateOrderStatus(
+    @Param('id') id: string,
+    @Body() updateOrderStatusDto: UpdateOrderStatusDto,
+    @CurrentBranch() branchId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.ordersService.updateOrderStatus(
+      id,
+      updateOrderStatusDto,
+      branchId,
+      user.organizationId,
+    );
+  }
+
+  @Post(':id/void')
+  @UseGuards(RolesGuard, BranchGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Void order',
+    description:
+      'Voids an order with a reason. Consumed stock is restored and the COGS entry removed; voided orders are excluded from revenue.',
+  })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Order voided successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Order is already voided',
+  })
+  voidOrder(
+    @Param('id') id: string,
+    @Body() voidOrderDto: VoidOrderDto,
+    @CurrentBranch() branchId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.ordersService.voidOrder(
+      id,
+      voidOrderDto,
+      branchId,
+      user.organizationId,
+      user.auth0Id,
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+
+import { CommonModule } from '../common/common.module';
+import { CustomersModule } from '../customers';
+import { PrismaModule } from '../database';
+import { InventoryModule } from '../inventory';
+import { LoyaltyModule } from '../loyalty';
+import { CacheModule } from '../services/cache';
+import { QueueModule } from '../services/queue/queue.module';
+
+import { OrdersController } from './orders.controller';
+import { OrdersService } from './orders.service';
+
+@Module({
+  imports: [
+    PrismaModule,
+    QueueModule,
+    CacheModule,
+    CommonModule,
+    InventoryModule,
+    LoyaltyModule,
+    CustomersModule,
+  ],
+  controllers: [OrdersController],
+  providers: [OrdersService],
+  exports: [OrdersService],
+})
+export class OrdersModule {}
@@ -0,0 +1,854 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PaginationService } from '../common/services/pagination.service';
+import { NotificationService } from '../customers/services/notification.service';
+import { refreshCustomerOrderStats } from '../customers/utils/customer-stats';
+import { PrismaService } from '../database/prisma.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { LoyaltyPointsService } from '../loyalty/loyalty-points.service';
+import {
+  createPriceResolver,
+  createScheduledPriceLookup,
+} from '../pricing/price-resolver';
+import { CacheService } from '../services/cache';
+import { ORDARO_JOB_TYPES } from '../services/queue/job-types.enum';
+import { QueueService } from '../services/queue/queue.service';
+
+import { allocateComboRevenue } from './combo-revenue';
+import {
+  CreateOrderDto,
+  ListOrdersQueryDto,
+  UpdateOrderStatusDto,
+  VoidOrderDto,
+} from './dto';
+
+@Injectable()
+export class OrdersService {
+  private readonly logger = new Logger(OrdersService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly cacheService: CacheService,
+    private readonly queueService: QueueService,
+    private readonly inventoryService: InventoryService,
+    private readonly loyaltyPointsService: LoyaltyPointsService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Create order and consume recipe ingredients
+   *
+   * `creatorId` is left out for orders customers place themselves, e.g.
+   * over WhatsApp. `placedAt` dates an order taken offline to when it was
+   * placed, and prices it as of then. `clientRef` makes the placement
+   * idempotent: a retry with the same reference returns the order it already
+   * created instead of placing another.
+   */
+  async createOrder(
+    dto: CreateOrderDto,
+    branchId: string,
+    companyId: string,
+    creatorId?: string,
+    placedAt?: Date,
+    clientRef?: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const branch = await this.prismaService.branch.findFirst({
+      where: {
+        id: branchId,
+        organizationId: organization.id,
+        isActive: true,
+      },
+    });
+
+    if (!branch) {
+      throw new NotFoundException('Branch not found');
+    }
+
+    if (clientRef) {
+      const existing = await this.findByClientRef(branchId, clientRef);
+      if (existing) {
+        return this.getOrderById(existing.id, branchId, companyId);
+      }
+    }
+
+    const creator = creatorId
+      ? await this.prismaService.user.findUnique({
+          where: { auth0UserId: creatorId },
+        })
+      : null;
+
+    if (dto.customerId) {
+      const customer = await this.prismaService.transactionCustomer.findUnique({
+        where: { id: dto.customerId },
+      });
+
+      if (!customer) {
+        throw new NotFoundException('Customer not found');
+      }
+    }
+
+    const menuItemIds = [...new Set(dto.lines.map((line) => line.menuItemId))];
+    const menuItems = await this.prismaService.menuItem.findMany({
+      where: {
+        id: { in: menuItemIds },
+        companyId: organization.id,
+        isActive: true,
+      },
+      include: {
+        variants: {
+          where: { isActive: true },
+        },
+        modifierGroups: {
+          where: { isActive: true },
+          include: {
+            modifiers: {
+              where: { isActive: true },
+            },
+          },
+        },
+        // Inactive overrides are ignored, as on the branch menu
+        branchMenus: {
+          where: { branchId, isActive: true },
+          take: 1,
+        },
+        comboSlots: {
+          orderBy: { sortOrder: 'asc' },
+          include: {
+            options: {
+              include: {
+                menuItem: {
+                  include: {
+                    branchMenus: {
+                      where: { branchId, isActive: true },
+                      take: 1,
+                    },
+                  },
+                },
+                menuVariant: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const pricedAt = placedAt ?? new Date();
+    const resolvePrice = await createPriceResolver(
+      this.prismaService,
+      organization.id,
+      branch,
+      pricedAt,
+    );
+    const regularPrice = await createScheduledPriceLookup(
+      this.prismaService,
+      organization.id,
+      branchId,
+      pricedAt,
+    );
+
+    // Price each line at the branch's effective price (after any running
+    // price rule) plus its modifiers and combo upcharges
+    const lines = dto.lines.map((line) => {
+      const menuItem = menuItems.find((item) => item.id === line.menuItemId);
+      if (!menuItem) {
+        throw new NotFoundException(`Menu item ${line.menuItemId} not found`);
+      }
+
+      const branchOverride = menuItem.branchMenus[0];
+      if (branchOverride && !branchOverride.availability) {
+        throw new BadRequestException(
+          `${menuItem.name} is not available at this branch`,
+        );
+      }
+
+      let unitPrice = regularPrice(menuItem, branchOverride?.localPrice);
+      if (line.menuVariantId) {
+        const variant = menuItem.variants.find(
+          (v) => v.id === line.menuVariantId,
+        );
+        if (!variant) {
+          throw new NotFoundException(
+            `Variant ${line.menuVariantId} not found for ${menuItem.name}`,
+          );
+        }
+        unitPrice = variant.price;
+      }
+      unitPrice = resolvePrice(menuItem, unitPrice).price;
+
+      const modifiers = this.resolveModifiers(menuItem, line.modifierIds);
+      unitPrice = modifiers.reduce(
+        (sum, modifier) => sum.add(modifier.priceDelta),
+        unitPrice,
+      );
+
+      const components =
+        menuItem.type === 'COMBO'
+          ? this.resolveComboComponents(menuItem, line.comboSelections)
+          : [];
+      unitPrice = components.reduce(
+        (sum, component) => sum.add(component.priceDelta),
+        unitPrice,
+      );
+
+      const lineTotal = unitPrice.mul(line.quantity);
+
+      return {
+        menuItemId: menuItem.id,
+        menuVariantId: line.menuVariantId ?? null,
+        quantity: line.quantity,
+        unitPrice,
+        lineTotal,
+        notes: line.notes ?? null,
+        modifiers: {
+          create: modifiers.map((modifier) => ({
+            modifierId: modifier.id,
+            name: modifier.name,
+            priceDelta: modifier.priceDelta,
+          })),
+        },
+        components: {
+          create: allocateComboRevenue(components, lineTotal),
+        },
+      };
+    });
+
+    const subtotal = lines.reduce(
+      (sum, line) => sum.add(line.lineTotal),
+      new Prisma.Decimal(0),
+    );
+
+    let order;
+    try {
+      order = await this.prismaService.$transaction(async (tx) => {
+        const createdOrder = await tx.order.create({
+          data: {
+            type: dto.type ?? 'DINE_IN',
+            subtotal,
+            total: subtotal,
+            notes: dto.notes ?? null,
+            clientRef: clientRef ?? null,
+            companyId: organization.id,
+            branchId,
+            createdById: creator?.id ?? null,
+            customerId: dto.customerId ?? null,
+            ...(placedAt && { createdAt: placedAt }),
+            lines: {
+              create: lines,
+            },
+          },
+        });
+
+        await this.applyMenuItemStats(tx, lines, 1);
+
+        if (dto.customerId) {
+          await refreshCustomerOrderStats(tx, dto.customerId, organization.id);
+        }
+
+        return createdOrder;
+      });
+    } catch (error) {
+      // A concurrent placement with the same reference created it first
+      const existing =
+        clientRef &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+          ? await this.findByClientRef(branchId, clientRef)
+          : null;
+      if (!existing) {
+        throw error;
+      }
+      return this.getOrderById(existing.id, branchId, companyId);
+    }
+
+    this.logger.log(
+      `Order created: ${order.id} at branch ${branchId}, total: ${subtotal.toString()}`,
+    );
+
+    // Consume ingredients now; a failed consumption must not lose the sale,
+    // so it is retried in the background instead
+    try {
+      await this.inventoryService.consumeRecipeForOrder(order.id, companyId);
+    } catch (error) {
+      this.logger.warn(
+        `Recipe consumption failed for order ${order.id}, queued for retry: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      await this.queueService.addJob(
+        ORDARO_JOB_TYPES.CONSUME_RECIPE_FOR_ORDER,
+        {
+          orderId: order.id,
+          companyId,
+        },
+      );
+    }
+
+    if (order.customerId) {
+      await this.notifyCustomer(
+        order.id,
+        order.customerId,
+        organization.id,
+        'CONFIRMED',
+      );
+    }
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return this.getOrderById(order.id, branchId, companyId);
+  }
+
+  /**
+   * List orders for a branch
+   */
+  async listOrders(
+    branchId: string,
+    companyId: string,
+    query: ListOrdersQueryDto,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const {
+      limit = 20,
+      cursor,
+      orderDir = 'desc',
+      status,
+      customerId,
+      from,
+      to,
+    } = query;
+
+    let cursorCondition = {};
+    if (cursor) {
+      const decodedCursor = this.paginationService.decodeCursor(cursor);
+      if (decodedCursor && typeof decodedCursor.tieBreakerValue === 'string') {
+        cursorCondition = {
+          id:
+            orderDir === 'desc'
+              ? { lt: decodedCursor.tieBreakerValue }
+              : { gt: decodedCursor.tieBreakerValue },
+        };
+      }
+    }
+
+    const orders = await this.prismaService.order.findMany({
+      where: {
+        companyId: organization.id,
+        branchId,
+        ...(status && { status }),
+        ...(customerId && { customerId }),
+        ...((from || to) && {
+          createdAt: {
+            ...(from && { gte: new Date(from) }),
+            ...(to && { lte: new Date(to) }),
+          },
+        }),
+        ...cursorCondition,
+      },
+      include: {
+        lines: true,
+      },
+      orderBy: { createdAt: orderDir },
+      take: limit + 1,
+    });
+
+    return this.paginationService.buildPaginatedResponse(orders, limit, {
+      cursorField: 'id',
+      additionalCursorFields: ['createdAt'],
+    });
+  }
+
+  /**
+   * Get order details
+   */
+  async getOrderById(
+    id: string,
+    branchId: string,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const order = await this.prismaService.order.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+        branchId,
+      },
+      include: {
+        customer: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            fullName: true,
+            phone: true,
+          },
+        },
+        lines: {
+          include: {
+            menuItem: {
+              select: {
+                id: true,
+                name: true,
+                category: true,
+              },
+            },
+            menuVariant: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+            modifiers: {
+              select: {
+                modifierId: true,
+                name: true,
+                priceDelta: true,
+              },
+            },
+            components: {
+              select: {
+                slotName: true,
+                quantity: true,
+                standalonePrice: true,
+                allocatedRevenue: true,
+                menuItemId: true,
+                menuVariantId: true,
+              },
+            },
+          },
+        },
+        cogsEntries: {
+          select: {
+            id: true,
+            totalCost: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    return order;
+  }
+
+  /**
+   * Move an order forward to ready or completed and notify its customer
+   */
+  async updateOrderStatus(
+    id: string,
+    dto: UpdateOrderStatusDto,
+    branchId: string,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const order = await this.prismaService.order.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+        branchId,
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const allowed: Record<string, string[]> = {
+      CONFIRMED: ['READY', 'COMPLETED'],
+      READY: ['COMPLETED'],
+    };
+
+    if (!allowed[order.status]?.includes(dto.status)) {
+      throw new BadRequestException(
+        `Cannot change an order from ${order.status} to ${dto.status}`,
+      );
+    }
+
+    const updated = await this.prismaService.order.update({
+      where: { id },
+      data: { status: dto.status },
+    });
+
+    this.logger.log(`Order ${id} status changed to ${dto.status}`);
+
+    if (order.customerId) {
+      await this.notifyCustomer(
+        id,
+        order.customerId,
+        organization.id,
+        dto.status,
+      );
+    }
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return updated;
+  }
+
+  /**
+   * Void order
+   */
+  async voidOrder(
+    id: string,
+    dto: VoidOrderDto,
+    branchId: string,
+    companyId: string,
+    voiderId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const order = await this.prismaService.order.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+        branchId,
+      },
+      include: {
+        lines: true,
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (order.status === 'VOIDED') {
+      throw new BadRequestException('Order is already voided');
+    }
+
+    const voider = await this.prismaService.user.findUnique({
+      where: { auth0UserId: voiderId },
+    });
+
+    const updated = await this.prismaService.$transaction(async (tx) => {
+      // Claim the void so concurrent voids reverse the order only once
+      const claimed = await tx.order.updateMany({
+        where: { id, status: { not: 'VOIDED' } },
+        data: {
+          status: 'VOIDED',
+          voidReason: dto.reason,
+          voidedAt: new Date(),
+          voidedById: voider?.id ?? null,
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new BadRequestException('Order is already voided');
+      }
+
+      const voidedOrder = await tx.order.findUniqueOrThrow({ where: { id } });
+
+      await this.applyMenuItemStats(tx, order.lines, -1);
+
+      if (order.customerId) {
+        await refreshCustomerOrderStats(tx, order.customerId, organization.id);
+      }
+
+      return voidedOrder;
+    });
+
+    this.logger.log(`Order voided: ${id}, reason: ${dto.reason}`);
+
+    // Consumed ingredients go back into stock and the order's COGS is removed;
+    // a failure here must not undo the void
+    try {
+      await this.inventoryService.reverseRecipeConsumption(id, companyId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to restore stock for voided order ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    // Points earned or spent on the order are given back; as with recipe
+    // consumption, a failure here must not undo the void
+    try {
+      await this.loyaltyPointsService.reverseOrderPoints(id);
+    } catch (error) {
+      this.logger.error(
+        `Failed to reverse loyalty points for voided order ${id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return updated;
+  }
+
+  /**
+   * Resolve a line's modifier selection and enforce each group's min/max rules
+   *
+   * Without `modifierIds`, the item's default modifiers are selected.
+   */
+  private resolveModifiers<
+    T extends { id: string; isDefault: boolean; groupId: string },
+  >(
+    menuItem: {
+      name: string;
+      modifierGroups: Array<{
+        id: string;
+        name: string;
+        minSelect: number;
+        maxSelect: number | null;
+        modifiers: T[];
+      }>;
+    },
+    modifierIds?: string[],
+  ): T[] {
+    const available = menuItem.modifierGroups.flatMap((g) => g.modifiers);
+
+    let selected: T[];
+    if (modifierIds) {
+      if (new Set(modifierIds).size !== modifierIds.length) {
+        throw new BadRequestException('Each modifier can only appear once');
+      }
+
+      selected = modifierIds.map((modifierId) => {
+        const modifier = available.find((m) => m.id === modifierId);
+        if (!modifier) {
+          throw new NotFoundException(
+            `Modifier ${modifierId} not found for ${menuItem.name}`,
+          );
+        }
+        return modifier;
+      });
+    } else {
+      selected = available.filter((m) => m.isDefault);
+    }
+
+    for (const group of menuItem.modifierGroups) {
+      const count = selected.filter((m) => m.groupId === group.id).length;
+      if (count < group.minSelect) {
+        throw new BadRequestException(
+          `${menuItem.name}: choose at least ${group.minSelect} from ${group.name}`,
+        );
+      }
+      if (group.maxSelect !== null && count > group.maxSelect) {
+        throw new BadRequestException(
+          `${menuItem.name}: choose at most ${group.maxSelect} from ${group.name}`,
+        );
+      }
+    }
+
+    return selected;
+  }
+
+  /**
+   * Resolve the chosen option in each slot of a combo
+   *
+   * A slot without a selection falls back to its default option, or to its
+   * only option. Each component is priced at what the branch would charge for
+   * it on its own, which drives how the combo's revenue is split.
+   */
+  private resolveComboComponents(
+    menuItem: {
+      name: string;
+      comboSlots: Array<{
+        id: string;
+        name: string;
+        quantity: number;
+        options: Array<{
+          id: string;
+          priceDelta: Prisma.Decimal;
+          isDefault: boolean;
+          menuItemId: string;
+          menuVariantId: string | null;
+          menuItem: {
+            name: string;
+            basePrice: Prisma.Decimal;
+            isActive: boolean;
+            branchMenus: Array<{
+              localPrice: Prisma.Decimal | null;
+              availability: boolean;
+            }>;
+          };
+          menuVariant: { price: Prisma.Decimal; isActive: boolean } | null;
+        }>;
+      }>;
+    },
+    selections: Array<{ slotId: string; optionId: string }> = [],
+  ) {
+    if (menuItem.comboSlots.length === 0) {
+      throw new BadRequestException(`${menuItem.name} has no combo slots`);
+    }
+
+    for (const selection of selections) {
+      if (!menuItem.comboSlots.some((slot) => slot.id === selection.slotId)) {
+        throw new NotFoundException(
+          `Combo slot ${selection.slotId} not found for ${menuItem.name}`,
+        );
+      }
+    }
+
+    return menuItem.comboSlots.map((slot) => {
+      const selected = selections.filter((s) => s.slotId === slot.id);
+      if (selected.length > 1) {
+        throw new BadRequestException(
+          `${menuItem.name}: choose one option for ${slot.name}`,
+        );
+      }
+
+      let option;
+      if (selected[0]) {
+        option = slot.options.find((o) => o.id === selected[0]?.optionId);
+        if (!option) {
+          throw new NotFoundException(
+            `Option ${selected[0].optionId} not found in ${slot.name}`,
+          );
+        }
+      } else {
+        option =
+          slot.options.find((o) => o.isDefault) ??
+          (slot.options.length === 1 ? slot.options[0] : undefined);
+        if (!option) {
+          throw new BadRequestException(
+            `${menuItem.name}: choose an option for ${slot.name}`,
+          );
+        }
+      }
+
+      const branchOverride = option.menuItem.branchMenus[0];
+      if (
+        !option.menuItem.isActive ||
+        (option.menuVariant && !option.menuVariant.isActive) ||
+        (branchOverride && !branchOverride.availability)
+      ) {
+        throw new BadRequestException(
+          `${option.menuItem.name} is not available at this branch`,
+        );
+      }
+
+      return {
+        slotName: slot.name,
+        quantity: slot.quantity,
+        priceDelta: option.priceDelta,
+        standalonePrice:
+          option.menuVariant?.price ??
+          branchOverride?.localPrice ??
+          option.menuItem.basePrice,
+        menuItemId: option.menuItemId,
+        menuVariantId: option.menuVariantId,
+      };
+    });
+  }
+
+  /**
+   * Apply (or reverse, with direction -1) an order's contribution to menu item stats
+   */
+  private async applyMenuItemStats(
+    tx: Prisma.TransactionClient,
+    lines: Array<{ menuItemId: string; lineTotal: Prisma.Decimal }>,
+    direction: 1 | -1,
+  ): Promise<void> {
+    const revenueByItem = new Map<string, Prisma.Decimal>();
+    for (const line of lines) {
+      const current = revenueByItem.get(line.menuItemId);
+      revenueByItem.set(
+        line.menuItemId,
+        current ? current.add(line.lineTotal) : line.lineTotal,
+      );
+    }
+
+    for (const [menuItemId, revenue] of revenueByItem) {
+      await tx.menuItem.update({
+        where: { id: menuItemId },
+        data: {
+          totalOrders: { increment: direction },
+          totalRevenue: { increment: revenue.mul(direction) },
+          ...(direction === 1 && { lastOrderedAt: new Date() }),
+        },
+      });
+    }
+  }
+
+  /**
+   * Queue the customer message for an order status; like recipe consumption,
+   * a failure here must not fail the order
+   */
+  private async notifyCustomer(
+    orderId: string,
+    customerId: string,
+    organizationId: string,
+    status: 'CONFIRMED' | 'READY' | 'COMPLETED',
+  ): Promise<void> {
+    try {
+      switch (status) {
+        case 'CONFIRMED':
+          await this.notificationService.sendOrderConfirmation(
+            orderId,
+            customerId,
+            organizationId,
+          );
+          break;
+        case 'READY':
+          await this.notificationService.sendOrderReady(
+            orderId,
+            customerId,
+            organizationId,
+          );
+          break;
+        case 'COMPLETED':
+          await this.notificationService.sendOrderReceipt(
+            orderId,
+            customerId,
+            organizationId,
+          );
+          break;
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to notify customer ${customerId} about order ${orderId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private findByClientRef(branchId: string, clientRef: string) {
+    return this.prismaService.order.findUnique({
+      where: { branchId_clientRef: { branchId, clientRef } },
+      select: { id: true },
+    });
+  }
+}
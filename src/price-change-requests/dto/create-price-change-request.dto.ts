@@ -0,0 +1,32 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsNumber,
+  Min,
+  IsOptional,
+} from 'class-validator';
+
+export class CreatePriceChangeRequestDto {
+  @ApiProperty({ description: 'Menu item ID' })
+  @IsString()
+  @IsNotEmpty()
+  menuItemId!: string;
+
+  @ApiProperty({ description: 'Requested branch price (localPrice)' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0)
+  requestedPrice!: number;
+
+  @ApiPropertyOptional({
+    description: 'Reason for the price change',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,4 @@
+export * from './create-price-change-request.dto';
+export * from './approve-price-change.dto';
+export * from './reject-price-change.dto';
+export * from './list-price-change-requests-query.dto';
@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+
+export enum PriceChangeRequestStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+}
+
+export class ListPriceChangeRequestsQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by status',
+    enum: PriceChangeRequestStatus,
+  })
+  @IsOptional()
+  @IsEnum(PriceChangeRequestStatus)
+  status?: PriceChangeRequestStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by branch ID' })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+}
@@ -0,0 +1,4 @@
+export * from './dto';
+export * from './price-change-requests.controller';
+export * from './price-change-requests.service';
+export * from './price-change-requests.module';
@@ -0,0 +1,153 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+
+import {
+  CurrentBranch,
+  CurrentUser,
+  Roles,
+  requiresOrganization,
+} from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, BranchGuard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+
+import {
+  CreatePriceChangeRequestDto,
+  ApprovePriceChangeDto,
+  RejectPriceChangeDto,
+  ListPriceChangeRequestsQueryDto,
+} from './dto';
+import { PriceChangeRequestsService } from './price-change-requests.service';
+
+@ApiTags('Price Change Requests')
+@ApiBearerAuth('Auth0')
+@Controller('price-change-requests')
+@UseGuards(Auth0Guard)
+export class PriceChangeRequestsController {
+  constructor(
+    private readonly priceChangeRequestsService: PriceChangeRequestsService,
+  ) {}
+
+  @Post()
+  @UseGuards(RolesGuard, BranchGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Request branch price change',
+    description:
+      'Requests a new local price for a menu item at a branch. The price is applied once an owner approves the request.',
+  })
+  @ApiQuery({ name: 'branchId', description: 'Branch UUID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Price change request created successfully',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A request is already pending for this menu item',
+  })
+  create(
+    @Body() createPriceChangeRequestDto: CreatePriceChangeRequestDto,
+    @CurrentBranch() branchId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.priceChangeRequestsService.requestPriceChange(
+      createPriceChangeRequestDto,
+      branchId,
+      user.auth0Id,
+      user.organizationId,
+    );
+  }
+
+  @Get()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'List price change requests',
+    description:
+      'Returns paginated list of price change requests. Managers only see requests for their branches.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of price change requests',
+  })
+  findAll(
+    @CurrentUser() user: UserPayload,
+    @Query() query: ListPriceChangeRequestsQueryDto,
+  ) {
+    requiresOrganization(user);
+    return this.priceChangeRequestsService.listPriceChangeRequests(
+      user.organizationId,
+      query,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Post(':id/approve')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER)
+  @ApiOperation({
+    summary: 'Approve price change request',
+    description:
+      'Approves a price change request and applies the requested price to the branch menu',
+  })
+  @ApiParam({ name: 'id', description: 'Price change request UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Price change request approved successfully',
+  })
+  approve(
+    @Param('id') id: string,
+    @Body() approvePriceChangeDto: ApprovePriceChangeDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.priceChangeRequestsService.approvePriceChange(
+      id,
+      user.auth0Id,
+      user.organizationId,
+      approvePriceChangeDto,
+    );
+  }
+
+  @Post(':id/reject')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER)
+  @ApiOperation({
+    summary: 'Reject price change request',
+    description: 'Rejects a price change request with a reason',
+  })
+  @ApiParam({ name: 'id', description: 'Price change request UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Price change request rejected successfully',
+  })
+  reject(
+    @Param('id') id: string,
+    @Body() rejectPriceChangeDto: RejectPriceChangeDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.priceChangeRequestsService.rejectPriceChange(
+      id,
+      user.auth0Id,
+      rejectPriceChangeDto,
+      user.organizationId,
+    );
+  }
+}
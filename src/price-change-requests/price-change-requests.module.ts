@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+
+import { CommonModule } from '../common/common.module';
+import { PrismaModule } from '../database';
+import { CacheModule } from '../services/cache';
+
+import { PriceChangeRequestsController } from './price-change-requests.controller';
+import { PriceChangeRequestsService } from './price-change-requests.service';
+
+@Module({
+  imports: [PrismaModule, CacheModule, CommonModule],
+  controllers: [PriceChangeRequestsController],
+  providers: [PriceChangeRequestsService],
+  exports: [PriceChangeRequestsService],
+})
+export class PriceChangeRequestsModule {}
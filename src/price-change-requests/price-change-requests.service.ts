@@ -0,0 +1,346 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PaginationService } from '../common/services/pagination.service';
+import { PrismaService } from '../database/prisma.service';
+import { CacheService } from '../services/cache';
+
+import {
+  CreatePriceChangeRequestDto,
+  ApprovePriceChangeDto,
+  RejectPriceChangeDto,
+  ListPriceChangeRequestsQueryDto,
+} from './dto';
+
+@Injectable()
+export class PriceChangeRequestsService {
+  private readonly logger = new Logger(PriceChangeRequestsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * Request a branch price change
+   */
+  async requestPriceChange(
+    dto: CreatePriceChangeRequestDto,
+    branchId: string,
+    requesterId: string,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const branch = await this.prismaService.branch.findFirst({
+      where: {
+        id: branchId,
+        organizationId: organization.id,
+      },
+    });
+
+    if (!branch) {
+      throw new NotFoundException('Branch not found');
+    }
+
+    const menuItem = await this.prismaService.menuItem.findFirst({
+      where: {
+        id: dto.menuItemId,
+        companyId: organization.id,
+      },
+      include: {
+        branchMenus: {
+          where: { branchId },
+        },
+      },
+    });
+
+    if (!menuItem) {
+      throw new NotFoundException('Menu item not found');
+    }
+
+    const pending = await this.prismaService.priceChangeRequest.findFirst({
+      where: {
+        branchId,
+        menuItemId: dto.menuItemId,
+        status: 'PENDING',
+      },
+    });
+
+    if (pending) {
+      throw new ConflictException(
+        'A price change request is already pending for this menu item at this branch',
+      );
+    }
+
+    const requester = await this.prismaService.user.findUnique({
+      where: { auth0UserId: requesterId },
+    });
+
+    const request = await this.prismaService.priceChangeRequest.create({
+      data: {
+        branchId,
+        menuItemId: dto.menuItemId,
+        requestedPrice: new Prisma.Decimal(dto.requestedPrice),
+        previousPrice:
+          menuItem.branchMenus[0]?.localPrice ?? menuItem.basePrice,
+        reason: dto.reason ?? null,
+        requestedById: requester?.id ?? null,
+        status: 'PENDING',
+      },
+    });
+
+    this.logger.log(
+      `Price change request created: ${request.id} for menu item ${dto.menuItemId} at branch ${branchId}`,
+    );
+
+    return request;
+  }
+
+  /**
+   * Approve price change request and apply it to the branch menu
+   */
+  async approvePriceChange(
+    requestId: string,
+    approverId: string,
+    companyId: string,
+    dto?: ApprovePriceChangeDto,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const request = await this.prismaService.priceChangeRequest.findFirst({
+      where: {
+        id: requestId,
+        status: 'PENDING',
+        branch: { organizationId: organization.id },
+      },
+    });
+
+    if (!request) {
+      throw new NotFoundException(
+        'Price change request not found or already processed',
+      );
+    }
+
+    const approver = await this.prismaService.user.findUnique({
+      where: { auth0UserId: approverId },
+    });
+
+    if (!approver) {
+      throw new NotFoundException('Approver not found');
+    }
+
+    const updated = await this.prismaService.$transaction(async (tx) => {
+      // Claim the request so a concurrent approve or reject can't also apply
+      const claimed = await tx.priceChangeRequest.updateMany({
+        where: { id: requestId, status: 'PENDING' },
+        data: {
+          status: 'APPROVED',
+          approverId: approver.id,
+          notes: dto?.notes ?? null,
+          approvedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictException(
+          'Price change request has already been processed',
+        );
+      }
+
+      await tx.branchMenu.upsert({
+        where: {
+          branchId_menuItemId: {
+            branchId: request.branchId,
+            menuItemId: request.menuItemId,
+          },
+        },
+        update: {
+          localPrice: request.requestedPrice,
+        },
+        create: {
+          branchId: request.branchId,
+          menuItemId: request.menuItemId,
+          localPrice: request.requestedPrice,
+        },
+      });
+
+      return tx.priceChangeRequest.findUniqueOrThrow({
+        where: { id: requestId },
+      });
+    });
+
+    this.logger.log(
+      `Price change request ${requestId} approved, branch ${request.branchId} price set to ${request.requestedPrice.toString()}`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return updated;
+  }
+
+  /**
+   * Reject price change request
+   */
+  async rejectPriceChange(
+    requestId: string,
+    approverId: string,
+    dto: RejectPriceChangeDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const request = await this.prismaService.priceChangeRequest.findFirst({
+      where: {
+        id: requestId,
+        status: 'PENDING',
+        branch: { organizationId: organization.id },
+      },
+    });
+
+    if (!request) {
+      throw new NotFoundException(
+        'Price change request not found or already processed',
+      );
+    }
+
+    const approver = await this.prismaService.user.findUnique({
+      where: { auth0UserId: approverId },
+    });
+
+    if (!approver) {
+      throw new NotFoundException('Approver not found');
+    }
+
+    const updated = await this.prismaService.$transaction(async (tx) => {
+      // Claim the request so a concurrent approve or reject can't also apply
+      const claimed = await tx.priceChangeRequest.updateMany({
+        where: { id: requestId, status: 'PENDING' },
+        data: {
+          status: 'REJECTED',
+          approverId: approver.id,
+          notes: dto.reason,
+          rejectedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictException(
+          'Price change request has already been processed',
+        );
+      }
+
+      return tx.priceChangeRequest.findUniqueOrThrow({
+        where: { id: requestId },
+      });
+    });
+
+    this.logger.log(`Price change request ${requestId} rejected`);
+
+    return updated;
+  }
+
+  /**
+   * List price change requests
+   *
+   * `allowedBranchIds` restricts results to the caller's branches (undefined
+   * for owners, who see every branch).
+   */
+  async listPriceChangeRequests(
+    companyId: string,
+    query: ListPriceChangeRequestsQueryDto,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const { limit = 20, cursor, orderDir = 'desc', status, branchId } = query;
+
+    const visibleBranchIds =
+      allowedBranchIds && branchId
+        ? allowedBranchIds.filter((id) => id === branchId)
+        : allowedBranchIds;
+
+    let cursorCondition = {};
+    if (cursor) {
+      const decodedCursor = this.paginationService.decodeCursor(cursor);
+      if (decodedCursor && typeof decodedCursor.tieBreakerValue === 'string') {
+        cursorCondition = {
+          id:
+            orderDir === 'desc'
+              ? { lt: decodedCursor.tieBreakerValue }
+              : { gt: decodedCursor.tieBreakerValue },
+        };
+      }
+    }
+
+    const requests = await this.prismaService.priceChangeRequest.findMany({
+      where: {
+        branch: { organizationId: organization.id },
+        ...(status && { status }),
+        ...(branchId && { branchId }),
+        ...(visibleBranchIds && { branchId: { in: visibleBranchIds } }),
+        ...cursorCondition,
+      },
+      include: {
+        branch: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        menuItem: {
+          select: {
+            id: true,
+            name: true,
+            basePrice: true,
+          },
+        },
+        requestedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: { createdAt: orderDir },
+      take: limit + 1,
+    });
+
+    return this.paginationService.buildPaginatedResponse(requests, limit, {
+      cursorField: 'id',
+      additionalCursorFields: ['createdAt'],
+    });
+  }
+}
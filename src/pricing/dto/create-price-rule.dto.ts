@@ -0,0 +1,112 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
+  IsArray,
+  ArrayMinSize,
+  ArrayUnique,
+  IsEnum,
+  IsMilitaryTime,
+  IsOptional,
+  IsDateString,
+} from 'class-validator';
+
+export enum PriceRuleDiscountType {
+  PERCENTAGE = 'PERCENTAGE',
+  FIXED_AMOUNT = 'FIXED_AMOUNT',
+}
+
+export class CreatePriceRuleDto {
+  @ApiProperty({
+    description: 'Rule name (e.g., Cocktail happy hour)',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiProperty({
+    description: 'PERCENTAGE takes a percent off; FIXED_AMOUNT an amount off',
+    enum: PriceRuleDiscountType,
+  })
+  @IsEnum(PriceRuleDiscountType)
+  discountType!: PriceRuleDiscountType;
+
+  @ApiProperty({ description: 'Percent or amount off', example: 20 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0.01)
+  discountValue!: number;
+
+  @ApiProperty({
+    description: 'Days the rule applies (0 = Sunday ... 6 = Saturday)',
+    type: [Number],
+    example: [1, 2, 3, 4, 5],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek!: number[];
+
+  @ApiProperty({
+    description: "Start time (HH:mm) in the branch's timezone",
+    example: '17:00',
+  })
+  @IsMilitaryTime()
+  startTime!: string;
+
+  @ApiProperty({
+    description:
+      'End time (HH:mm), exclusive. Earlier than the start time for windows past midnight; equal for all day',
+    example: '19:00',
+  })
+  @IsMilitaryTime()
+  endTime!: string;
+
+  @ApiPropertyOptional({ description: 'Rule takes effect from (optional)' })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiPropertyOptional({ description: 'Rule ends at (optional)' })
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Branch the rule applies at. Omit for every branch',
+  })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Menu items the rule discounts',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  menuItemIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Menu categories the rule discounts, including subcategories',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  categoryIds?: string[];
+}
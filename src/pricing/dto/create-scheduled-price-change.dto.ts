@@ -0,0 +1,48 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsNumber,
+  Min,
+  IsOptional,
+  IsDateString,
+} from 'class-validator';
+
+export class CreateScheduledPriceChangeDto {
+  @ApiProperty({ description: 'Menu item ID' })
+  @IsString()
+  @IsNotEmpty()
+  menuItemId!: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Branch whose local price changes. Omit to change the item's base price",
+  })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @ApiProperty({ description: 'Price from the effective time' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0)
+  newPrice!: number;
+
+  @ApiProperty({
+    description: 'When the new price takes effect (must be in the future)',
+    example: '2026-11-01T00:00:00Z',
+  })
+  @IsDateString()
+  effectiveAt!: string;
+
+  @ApiPropertyOptional({
+    description: 'Reason for the price change',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
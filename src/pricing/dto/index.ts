@@ -0,0 +1,4 @@
+export * from './create-scheduled-price-change.dto';
+export * from './list-scheduled-price-changes-query.dto';
+export * from './create-price-rule.dto';
+export * from './update-price-rule.dto';
@@ -0,0 +1,30 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+
+export enum ScheduledPriceChangeStatus {
+  PENDING = 'PENDING',
+  APPLIED = 'APPLIED',
+  CANCELLED = 'CANCELLED',
+}
+
+export class ListScheduledPriceChangesQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by status',
+    enum: ScheduledPriceChangeStatus,
+  })
+  @IsOptional()
+  @IsEnum(ScheduledPriceChangeStatus)
+  status?: ScheduledPriceChangeStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by menu item ID' })
+  @IsOptional()
+  @IsString()
+  menuItemId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by branch ID' })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+}
@@ -0,0 +1,109 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  MaxLength,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
+  IsArray,
+  ArrayMinSize,
+  ArrayUnique,
+  IsEnum,
+  IsMilitaryTime,
+  IsOptional,
+  IsBoolean,
+  IsDateString,
+} from 'class-validator';
+
+import { PriceRuleDiscountType } from './create-price-rule.dto';
+
+export class UpdatePriceRuleDto {
+  @ApiPropertyOptional({ description: 'Rule name', maxLength: 100 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Discount type',
+    enum: PriceRuleDiscountType,
+  })
+  @IsOptional()
+  @IsEnum(PriceRuleDiscountType)
+  discountType?: PriceRuleDiscountType;
+
+  @ApiPropertyOptional({ description: 'Percent or amount off' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0.01)
+  discountValue?: number;
+
+  @ApiPropertyOptional({
+    description: 'Days the rule applies (0 = Sunday ... 6 = Saturday)',
+    type: [Number],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek?: number[];
+
+  @ApiPropertyOptional({ description: 'Start time (HH:mm)' })
+  @IsOptional()
+  @IsMilitaryTime()
+  startTime?: string;
+
+  @ApiPropertyOptional({ description: 'End time (HH:mm), exclusive' })
+  @IsOptional()
+  @IsMilitaryTime()
+  endTime?: string;
+
+  @ApiPropertyOptional({
+    description: 'Rule takes effect from (null to clear)',
+    nullable: true,
+    type: String,
+  })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Rule ends at (null to clear)',
+    nullable: true,
+    type: String,
+  })
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string | null;
+
+  @ApiPropertyOptional({ description: 'Enable or pause the rule' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Replaces the targeted menu items when provided',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  menuItemIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Replaces the targeted categories when provided',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  categoryIds?: string[];
+}
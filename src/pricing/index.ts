@@ -0,0 +1,6 @@
+export * from './dto';
+export * from './price-resolver';
+export * from './price-rules.service';
+export * from './pricing.controller';
+export * from './pricing.module';
+export * from './scheduled-price-changes.service';
@@ -0,0 +1,180 @@
+import { Prisma } from '../../generated/prisma';
+
+import {
+  applyDiscount,
+  createPriceResolver,
+  createScheduledPriceLookup,
+} from './price-resolver';
+
+const decimal = (value: number | string) => new Prisma.Decimal(value);
+
+describe('price resolver', () => {
+  describe('applyDiscount', () => {
+    it('takes a percentage off', () => {
+      expect(
+        applyDiscount(decimal(25), {
+          discountType: 'PERCENTAGE',
+          discountValue: decimal(10),
+        }).toString(),
+      ).toBe('22.5');
+    });
+
+    it('takes a fixed amount off', () => {
+      expect(
+        applyDiscount(decimal(25), {
+          discountType: 'FIXED_AMOUNT',
+          discountValue: decimal(4.5),
+        }).toString(),
+      ).toBe('20.5');
+    });
+
+    it('rounds to two decimal places', () => {
+      expect(
+        applyDiscount(decimal(9.99), {
+          discountType: 'PERCENTAGE',
+          discountValue: decimal(15),
+        }).toString(),
+      ).toBe('8.49');
+    });
+
+    it('never goes below zero', () => {
+      expect(
+        applyDiscount(decimal(5), {
+          discountType: 'FIXED_AMOUNT',
+          discountValue: decimal(8),
+        }).toString(),
+      ).toBe('0');
+    });
+  });
+
+  describe('createPriceResolver', () => {
+    const branch = { id: 'branch-1', timezone: 'UTC' };
+    const at = new Date('2026-10-19T12:00:00Z');
+    const allWeek = {
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      startTime: '00:00',
+      endTime: '00:00',
+    };
+
+    const clientWith = (rules: unknown[]) =>
+      ({
+        priceRule: { findMany: jest.fn().mockResolvedValue(rules) },
+        menuCategory: {
+          findMany: jest.fn().mockResolvedValue([
+            { id: 'mains', parentId: null },
+            { id: 'burgers', parentId: 'mains' },
+          ]),
+        },
+      }) as unknown as Prisma.TransactionClient;
+
+    it('applies the single best rule rather than stacking them', async () => {
+      const resolve = await createPriceResolver(
+        clientWith([
+          {
+            ...allWeek,
+            id: 'rule-percent',
+            name: 'Happy hour',
+            discountType: 'PERCENTAGE',
+            discountValue: decimal(20),
+            targets: [{ menuItemId: null, categoryId: 'mains' }],
+          },
+          {
+            ...allWeek,
+            id: 'rule-fixed',
+            name: 'Burger Monday',
+            discountType: 'FIXED_AMOUNT',
+            discountValue: decimal(3),
+            targets: [{ menuItemId: 'item-1', categoryId: null }],
+          },
+        ]),
+        'org-1',
+        branch,
+        at,
+      );
+
+      const result = resolve(
+        { id: 'item-1', categoryId: 'burgers' },
+        decimal(20),
+      );
+
+      // 20% off is 16, 3 off is 17; both together would be 13 or 13.6
+      expect(result.price.toString()).toBe('16');
+      expect(result.priceRule).toEqual({
+        priceRuleId: 'rule-percent',
+        name: 'Happy hour',
+        regularPrice: decimal(20),
+      });
+    });
+
+    it('ignores rules outside their schedule or targeting other items', async () => {
+      const resolve = await createPriceResolver(
+        clientWith([
+          {
+            id: 'rule-breakfast',
+            name: 'Breakfast',
+            daysOfWeek: [1],
+            startTime: '06:00',
+            endTime: '11:00',
+            discountType: 'PERCENTAGE',
+            discountValue: decimal(50),
+            targets: [{ menuItemId: 'item-1', categoryId: null }],
+          },
+          {
+            ...allWeek,
+            id: 'rule-other',
+            name: 'Other item',
+            discountType: 'PERCENTAGE',
+            discountValue: decimal(50),
+            targets: [{ menuItemId: 'item-2', categoryId: null }],
+          },
+        ]),
+        'org-1',
+        branch,
+        at,
+      );
+
+      expect(resolve({ id: 'item-1', categoryId: null }, decimal(20))).toEqual({
+        price: decimal(20),
+        priceRule: null,
+      });
+    });
+  });
+
+  describe('createScheduledPriceLookup', () => {
+    it('applies pending changes, the latest winning and branch prices first', async () => {
+      const client = {
+        scheduledPriceChange: {
+          findMany: jest.fn().mockResolvedValue([
+            { menuItemId: 'item-1', branchId: null, newPrice: decimal(12) },
+            { menuItemId: 'item-1', branchId: null, newPrice: decimal(13) },
+            {
+              menuItemId: 'item-2',
+              branchId: 'branch-1',
+              newPrice: decimal(7),
+            },
+          ]),
+        },
+      } as unknown as Prisma.TransactionClient;
+
+      const lookup = await createScheduledPriceLookup(
+        client,
+        'org-1',
+        'branch-1',
+        new Date('2026-10-19T12:00:00Z'),
+      );
+
+      expect(lookup({ id: 'item-1', basePrice: decimal(10) }, null)).toEqual(
+        decimal(13),
+      );
+      expect(
+        lookup({ id: 'item-1', basePrice: decimal(10) }, decimal(11)),
+      ).toEqual(decimal(11));
+      expect(
+        lookup({ id: 'item-2', basePrice: decimal(6) }, decimal(6.5)),
+      ).toEqual(decimal(7));
+      expect(lookup({ id: 'item-3', basePrice: decimal(9) }, null)).toEqual(
+        decimal(9),
+      );
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { Prisma } from '../../generated/prisma';
+import {
+  getLocalTime,
+  isWithinSchedules,
+} from '../menu-categories/category-schedule';
+
+export interface AppliedPriceRule {
+  priceRuleId: string;
+  name: string;
+  regularPrice: Prisma.Decimal;
+}
+
+export type PriceResolver = (
+  item: { id: string; categoryId: string | null },
+  price: Prisma.Decimal,
+) => { price: Prisma.Decimal; priceRule: AppliedPriceRule | null };
+
+export type ScheduledPriceLookup = (
+  item: { id: string; basePrice: Prisma.Decimal },
+  localPrice: Prisma.Decimal | null | undefined,
+) => Prisma.Decimal;
+
+/**
+ * Price after a rule's discount, never below zero
+ */
+export function applyDiscount(
+  price: Prisma.Decimal,
+  rule: {
+    discountType: 'PERCENTAGE' | 'FIXED_AMOUNT';
+    discountValue: Prisma.Decimal;
+  },
+): Prisma.Decimal {
+  const discounted =
+    rule.discountType === 'PERCENTAGE'
+      ? price.mul(new Prisma.Decimal(100).sub(rule.discountValue)).div(100)
+      : price.sub(rule.discountValue);
+
+  return Prisma.Decimal.max(discounted, 0).toDecimalPlaces(2);
+}
+
+/**
+ * A category and its ancestors, given each category's parent
+ */
+export function getCategoryPath(
+  categoryId: string | null,
+  parentOf: Map<string, string | null>,
+): Set<string> {
+  const path = new Set<string>();
+  let current = categoryId;
+  while (current && !path.has(current)) {
+    path.add(current);
+    current = parentOf.get(current) ?? null;
+  }
+  return path;
+}
+
+/**
+ * Whether a rule targets the item directly or through its category path
+ */
+export function isPriceRuleTarget(
+  rule: {
+    targets: Array<{ menuItemId: string | null; categoryId: string | null }>;
+  },
+  itemId: string,
+  categoryPath: Set<string>,
+): boolean {
+  return rule.targets.some(
+    (target) =>
+      target.menuItemId === itemId ||
+      (target.categoryId !== null && categoryPath.has(target.categoryId)),
+  );
+}
+
+/**
+ * Build a resolver for the prices that apply at a branch at a given moment
+ *
+ * Loads the organization's price rules that are active at `at` in the
+ * branch's timezone. A rule targeting a category also covers its
+ * subcategories. Rules don't stack: the lowest resulting price wins.
+ */
+export async function createPriceResolver(
+  client: Prisma.TransactionClient,
+  organizationId: string,
+  branch: { id: string; timezone: string },
+  at: Date,
+): Promise<PriceResolver> {
+  const rules = await client.priceRule.findMany({
+    where: {
+      companyId: organizationId,
+      isActive: true,
+      OR: [{ branchId: null }, { branchId: branch.id }],
+      AND: [
+        { OR: [{ startsAt: null }, { startsAt: { lte: at } }] },
+        { OR: [{ endsAt: null }, { endsAt: { gt: at } }] },
+      ],
+    },
+    include: { targets: true },
+  });
+
+  const local = getLocalTime(at, branch.timezone);
+  const activeRules = rules.filter((rule) => isWithinSchedules([rule], local));
+
+  if (activeRules.length === 0) {
+    return (_item, price) => ({ price, priceRule: null });
+  }
+
+  const categories = await client.menuCategory.findMany({
+    where: { companyId: organizationId },
+    select: { id: true, parentId: true },
+  });
+  const parentOf = new Map(categories.map((c) => [c.id, c.parentId]));
+
+  return (item, price) => {
+    const path = getCategoryPath(item.categoryId, parentOf);
+    let best: { price: Prisma.Decimal; priceRule: AppliedPriceRule | null } = {
+      price,
+      priceRule: null,
+    };
+
+    for (const rule of activeRules) {
+      if (!isPriceRuleTarget(rule, item.id, path)) {
+        continue;
+      }
+
+      const discounted = applyDiscount(price, rule);
+      if (discounted.lt(best.price)) {
+        best = {
+          price: discounted,
+          priceRule: {
+            priceRuleId: rule.id,
+            name: rule.name,
+            regularPrice: price,
+          },
+        };
+      }
+    }
+
+    return best;
+  };
+}
+
+/**
+ * Build a lookup for an item's regular price at a branch at a given moment
+ *
+ * Scheduled price changes still pending at `at` (future-dated, or not yet
+ * applied by the minutely job) are applied as if they had run, latest
+ * `effectiveAt` winning. A branch's local price takes precedence over the
+ * base price, as it does once the changes are applied.
+ */
+export async function createScheduledPriceLookup(
+  client: Prisma.TransactionClient,
+  organizationId: string,
+  branchId: string,
+  at: Date,
+): Promise<ScheduledPriceLookup> {
+  const changes = await client.scheduledPriceChange.findMany({
+    where: {
+      companyId: organizationId,
+      status: 'PENDING',
+      effectiveAt: { lte: at },
+      OR: [{ branchId: null }, { branchId }],
+    },
+    orderBy: { effectiveAt: 'asc' },
+  });
+
+  const basePrices = new Map<string, Prisma.Decimal>();
+  const localPrices = new Map<string, Prisma.Decimal>();
+  for (const change of changes) {
+    (change.branchId ? localPrices : basePrices).set(
+      change.menuItemId,
+      change.newPrice,
+    );
+  }
+
+  return (item, localPrice) =>
+    localPrices.get(item.id) ??
+    localPrice ??
+    basePrices.get(item.id) ??
+    item.basePrice;
+}
@@ -0,0 +1,356 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PrismaService } from '../database/prisma.service';
+import { CacheService } from '../services/cache';
+
+import {
+  CreatePriceRuleDto,
+  UpdatePriceRuleDto,
+  PriceRuleDiscountType,
+} from './dto';
+
+@Injectable()
+export class PriceRulesService {
+  private readonly logger = new Logger(PriceRulesService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * Create a recurring price rule (e.g. happy hour)
+   */
+  async createPriceRule(
+    dto: CreatePriceRuleDto,
+    companyId: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.assertBranch(organization.id, dto.branchId, allowedBranchIds);
+    this.assertDiscount(dto.discountType, dto.discountValue);
+    this.assertCampaignDates(dto.startsAt, dto.endsAt);
+
+    const targets = await this.buildTargets(
+      organization.id,
+      dto.menuItemIds ?? [],
+      dto.categoryIds ?? [],
+    );
+
+    const rule = await this.prismaService.priceRule.create({
+      data: {
+        name: dto.name,
+        discountType: dto.discountType,
+        discountValue: new Prisma.Decimal(dto.discountValue),
+        daysOfWeek: dto.daysOfWeek,
+        startTime: dto.startTime,
+        endTime: dto.endTime,
+        startsAt: dto.startsAt ? new Date(dto.startsAt) : null,
+        endsAt: dto.endsAt ? new Date(dto.endsAt) : null,
+        companyId: organization.id,
+        branchId: dto.branchId ?? null,
+        targets: {
+          create: targets,
+        },
+      },
+      include: {
+        targets: true,
+      },
+    });
+
+    this.logger.log(`Price rule created: ${rule.id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return rule;
+  }
+
+  /**
+   * List price rules, optionally only those for one branch
+   */
+  async listPriceRules(
+    companyId: string,
+    branchId?: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    // Managers see organization-wide rules and those for their branches
+    const branchIds = branchId
+      ? (allowedBranchIds ?? [branchId]).filter((id) => id === branchId)
+      : allowedBranchIds;
+
+    return this.prismaService.priceRule.findMany({
+      where: {
+        companyId: organization.id,
+        ...(branchIds && {
+          OR: [{ branchId: null }, { branchId: { in: branchIds } }],
+        }),
+      },
+      include: {
+        branch: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        targets: {
+          include: {
+            menuItem: { select: { id: true, name: true } },
+            category: { select: { id: true, name: true } },
+          },
+        },
+      },
+      orderBy: [{ isActive: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  /**
+   * Update a price rule; targets are replaced when provided
+   */
+  async updatePriceRule(
+    id: string,
+    dto: UpdatePriceRuleDto,
+    companyId: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const rule = await this.findRule(id, organization.id, allowedBranchIds);
+
+    this.assertDiscount(
+      dto.discountType ?? (rule.discountType as PriceRuleDiscountType),
+      dto.discountValue ?? rule.discountValue.toNumber(),
+    );
+    this.assertCampaignDates(
+      dto.startsAt !== undefined ? dto.startsAt : rule.startsAt?.toISOString(),
+      dto.endsAt !== undefined ? dto.endsAt : rule.endsAt?.toISOString(),
+    );
+
+    const replaceTargets =
+      dto.menuItemIds !== undefined || dto.categoryIds !== undefined;
+    const targets = replaceTargets
+      ? await this.buildTargets(
+          organization.id,
+          dto.menuItemIds ??
+            rule.targets.flatMap((t) => (t.menuItemId ? [t.menuItemId] : [])),
+          dto.categoryIds ??
+            rule.targets.flatMap((t) => (t.categoryId ? [t.categoryId] : [])),
+        )
+      : [];
+
+    const updated = await this.prismaService.$transaction(async (tx) => {
+      if (replaceTargets) {
+        await tx.priceRuleTarget.deleteMany({ where: { ruleId: id } });
+      }
+
+      return tx.priceRule.update({
+        where: { id },
+        data: {
+          ...(dto.name && { name: dto.name }),
+          ...(dto.discountType && { discountType: dto.discountType }),
+          ...(dto.discountValue !== undefined && {
+            discountValue: new Prisma.Decimal(dto.discountValue),
+          }),
+          ...(dto.daysOfWeek && { daysOfWeek: dto.daysOfWeek }),
+          ...(dto.startTime && { startTime: dto.startTime }),
+          ...(dto.endTime && { endTime: dto.endTime }),
+          ...(dto.startsAt !== undefined && {
+            startsAt: dto.startsAt ? new Date(dto.startsAt) : null,
+          }),
+          ...(dto.endsAt !== undefined && {
+            endsAt: dto.endsAt ? new Date(dto.endsAt) : null,
+          }),
+          ...(dto.isActive !== undefined && { isActive: dto.isActive }),
+          ...(replaceTargets && { targets: { create: targets } }),
+        },
+        include: {
+          targets: true,
+        },
+      });
+    });
+
+    this.logger.log(`Price rule updated: ${id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return updated;
+  }
+
+  /**
+   * Delete a price rule
+   */
+  async deletePriceRule(
+    id: string,
+    companyId: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.findRule(id, organization.id, allowedBranchIds);
+
+    const result = await this.prismaService.priceRule.delete({
+      where: { id },
+    });
+
+    this.logger.log(`Price rule deleted: ${id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return result;
+  }
+
+  private async findRule(
+    id: string,
+    organizationId: string,
+    allowedBranchIds?: string[],
+  ) {
+    const rule = await this.prismaService.priceRule.findFirst({
+      where: {
+        id,
+        companyId: organizationId,
+      },
+      include: { targets: true },
+    });
+
+    if (!rule) {
+      throw new NotFoundException('Price rule not found');
+    }
+
+    if (
+      allowedBranchIds &&
+      (!rule.branchId || !allowedBranchIds.includes(rule.branchId))
+    ) {
+      throw new ForbiddenException('You do not have access to this branch');
+    }
+
+    return rule;
+  }
+
+  /**
+   * Managers may only create rules for their own branches
+   */
+  private async assertBranch(
+    organizationId: string,
+    branchId: string | undefined,
+    allowedBranchIds?: string[],
+  ): Promise<void> {
+    if (
+      allowedBranchIds &&
+      (!branchId || !allowedBranchIds.includes(branchId))
+    ) {
+      throw new ForbiddenException(
+        branchId
+          ? 'You do not have access to this branch'
+          : 'Only owners can create organization-wide price rules',
+      );
+    }
+
+    if (branchId) {
+      const branch = await this.prismaService.branch.findFirst({
+        where: {
+          id: branchId,
+          organizationId,
+        },
+      });
+
+      if (!branch) {
+        throw new NotFoundException('Branch not found');
+      }
+    }
+  }
+
+  private assertDiscount(
+    discountType: PriceRuleDiscountType,
+    discountValue: number,
+  ): void {
+    if (
+      discountType === PriceRuleDiscountType.PERCENTAGE &&
+      discountValue > 100
+    ) {
+      throw new BadRequestException('A percentage discount cannot exceed 100');
+    }
+  }
+
+  private assertCampaignDates(
+    startsAt: string | null | undefined,
+    endsAt: string | null | undefined,
+  ): void {
+    if (startsAt && endsAt && new Date(endsAt) <= new Date(startsAt)) {
+      throw new BadRequestException('endsAt must be after startsAt');
+    }
+  }
+
+  private async buildTargets(
+    organizationId: string,
+    menuItemIds: string[],
+    categoryIds: string[],
+  ): Promise<Array<{ menuItemId?: string; categoryId?: string }>> {
+    if (menuItemIds.length === 0 && categoryIds.length === 0) {
+      throw new BadRequestException(
+        'A price rule needs at least one menu item or category',
+      );
+    }
+
+    const [menuItems, categories] = await Promise.all([
+      this.prismaService.menuItem.count({
+        where: { id: { in: menuItemIds }, companyId: organizationId },
+      }),
+      this.prismaService.menuCategory.count({
+        where: {
+          id: { in: categoryIds },
+          companyId: organizationId,
+          isActive: true,
+        },
+      }),
+    ]);
+
+    if (menuItems !== menuItemIds.length) {
+      throw new NotFoundException('One or more menu items not found');
+    }
+
+    if (categories !== categoryIds.length) {
+      throw new NotFoundException('One or more menu categories not found');
+    }
+
+    return [
+      ...menuItemIds.map((menuItemId) => ({ menuItemId })),
+      ...categoryIds.map((categoryId) => ({ categoryId })),
+    ];
+  }
+}
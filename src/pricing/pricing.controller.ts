@@ -0,0 +1,198 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+
+import { CurrentUser, Roles, requiresOrganization } from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+
+import {
+  CreateScheduledPriceChangeDto,
+  ListScheduledPriceChangesQueryDto,
+  CreatePriceRuleDto,
+  UpdatePriceRuleDto,
+} from './dto';
+import { PriceRulesService } from './price-rules.service';
+import { ScheduledPriceChangesService } from './scheduled-price-changes.service';
+
+@ApiTags('Pricing')
+@ApiBearerAuth('Auth0')
+@Controller('pricing')
+@UseGuards(Auth0Guard)
+export class PricingController {
+  constructor(
+    private readonly scheduledPriceChangesService: ScheduledPriceChangesService,
+    private readonly priceRulesService: PriceRulesService,
+  ) {}
+
+  @Post('scheduled-changes')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Schedule price change',
+    description:
+      "Schedules a new base price, or a branch's local price, to take effect automatically at a future time. Only owners can change base prices.",
+  })
+  @ApiResponse({ status: 201, description: 'Price change scheduled' })
+  @ApiResponse({ status: 400, description: 'effectiveAt is not in the future' })
+  schedule(
+    @Body() createScheduledPriceChangeDto: CreateScheduledPriceChangeDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.scheduledPriceChangesService.schedulePriceChange(
+      createScheduledPriceChangeDto,
+      user.auth0Id,
+      user.organizationId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Get('scheduled-changes')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'List scheduled price changes',
+    description:
+      'Returns paginated scheduled price changes. Managers only see changes for their branches.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of scheduled price changes',
+  })
+  findScheduledChanges(
+    @CurrentUser() user: UserPayload,
+    @Query() query: ListScheduledPriceChangesQueryDto,
+  ) {
+    requiresOrganization(user);
+    return this.scheduledPriceChangesService.listScheduledPriceChanges(
+      user.organizationId,
+      query,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Post('scheduled-changes/:id/cancel')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Cancel scheduled price change',
+    description: 'Cancels a price change that has not taken effect yet',
+  })
+  @ApiParam({ name: 'id', description: 'Scheduled price change UUID' })
+  @ApiResponse({ status: 200, description: 'Price change cancelled' })
+  @ApiResponse({ status: 400, description: 'Price change is not pending' })
+  cancelScheduledChange(
+    @Param('id') id: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.scheduledPriceChangesService.cancelScheduledPriceChange(
+      id,
+      user.organizationId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Post('rules')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Create price rule',
+    description:
+      'Creates a recurring discount window (e.g., 20% off cocktails 17:00-19:00 on weekdays) for menu items or categories, at one branch or all. Managers can only create rules for their branches.',
+  })
+  @ApiResponse({ status: 201, description: 'Price rule created' })
+  createRule(
+    @Body() createPriceRuleDto: CreatePriceRuleDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.priceRulesService.createPriceRule(
+      createPriceRuleDto,
+      user.organizationId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Get('rules')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'List price rules',
+    description:
+      'Returns price rules with their targets. Filter by branch to see the rules that apply there.',
+  })
+  @ApiQuery({ name: 'branchId', required: false, description: 'Branch UUID' })
+  @ApiResponse({ status: 200, description: 'List of price rules' })
+  findRules(
+    @CurrentUser() user: UserPayload,
+    @Query('branchId') branchId?: string,
+  ) {
+    requiresOrganization(user);
+    return this.priceRulesService.listPriceRules(
+      user.organizationId,
+      branchId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Patch('rules/:id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Update price rule',
+    description:
+      'Updates a price rule. Targets are replaced when menuItemIds or categoryIds are provided.',
+  })
+  @ApiParam({ name: 'id', description: 'Price rule UUID' })
+  @ApiResponse({ status: 200, description: 'Price rule updated' })
+  updateRule(
+    @Param('id') id: string,
+    @Body() updatePriceRuleDto: UpdatePriceRuleDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.priceRulesService.updatePriceRule(
+      id,
+      updatePriceRuleDto,
+      user.organizationId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Delete('rules/:id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Delete price rule',
+    description: 'Deletes a price rule',
+  })
+  @ApiParam({ name: 'id', description: 'Price rule UUID' })
+  @ApiResponse({ status: 200, description: 'Price rule deleted' })
+  removeRule(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.priceRulesService.deletePriceRule(
+      id,
+      user.organizationId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+
+import { CommonModule } from '../common/common.module';
+import { CompanySettingsModule } from '../company-settings';
+import { PrismaModule } from '../database';
+import { MenuModule } from '../menu';
+import { CacheModule } from '../services/cache';
+
+import { PriceRulesService } from './price-rules.service';
+import { PricingController } from './pricing.controller';
+import { ScheduledPriceChangesService } from './scheduled-price-changes.service';
+
+@Module({
+  imports: [
+    PrismaModule,
+    CacheModule,
+    CommonModule,
+    MenuModule,
+    CompanySettingsModule,
+  ],
+  controllers: [PricingController],
+  providers: [ScheduledPriceChangesService, PriceRulesService],
+  exports: [ScheduledPriceChangesService, PriceRulesService],
+})
+export class PricingModule {}
@@ -0,0 +1,369 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PaginationService } from '../common/services/pagination.service';
+import { CompanySettingsService } from '../company-settings/company-settings.service';
+import { PrismaService } from '../database/prisma.service';
+import { MenuService } from '../menu/menu.service';
+import { CacheService } from '../services/cache';
+
+import {
+  CreateScheduledPriceChangeDto,
+  ListScheduledPriceChangesQueryDto,
+} from './dto';
+
+@Injectable()
+export class ScheduledPriceChangesService {
+  private readonly logger = new Logger(ScheduledPriceChangesService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly cacheService: CacheService,
+    private readonly menuService: MenuService,
+    private readonly companySettingsService: CompanySettingsService,
+  ) {}
+
+  /**
+   * Schedule a base or branch price change for a future time
+   *
+   * Only owners can change base prices. Branch prices follow the same rule as
+   * direct overrides: managers may only schedule them when branch price
+   * overrides are allowed.
+   */
+  async schedulePriceChange(
+    dto: CreateScheduledPriceChangeDto,
+    creatorId: string,
+    companyId: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const effectiveAt = new Date(dto.effectiveAt);
+    if (effectiveAt <= new Date()) {
+      throw new BadRequestException('effectiveAt must be in the future');
+    }
+
+    if (allowedBranchIds) {
+      if (!dto.branchId) {
+        throw new ForbiddenException(
+          'Only owners can schedule base price changes',
+        );
+      }
+
+      if (!allowedBranchIds.includes(dto.branchId)) {
+        throw new ForbiddenException('You do not have access to this branch');
+      }
+
+      const allowed =
+        await this.companySettingsService.allowBranchPriceOverride(companyId);
+      if (!allowed) {
+        throw new ForbiddenException(
+          'Branch price overrides are disabled. Submit a price change request for owner approval.',
+        );
+      }
+    }
+
+    if (dto.branchId) {
+      const branch = await this.prismaService.branch.findFirst({
+        where: {
+          id: dto.branchId,
+          organizationId: organization.id,
+        },
+      });
+
+      if (!branch) {
+        throw new NotFoundException('Branch not found');
+      }
+    }
+
+    const menuItem = await this.prismaService.menuItem.findFirst({
+      where: {
+        id: dto.menuItemId,
+        companyId: organization.id,
+        isActive: true,
+      },
+    });
+
+    if (!menuItem) {
+      throw new NotFoundException('Menu item not found');
+    }
+
+    const creator = await this.prismaService.user.findUnique({
+      where: { auth0UserId: creatorId },
+    });
+
+    const change = await this.prismaService.scheduledPriceChange.create({
+      data: {
+        newPrice: new Prisma.Decimal(dto.newPrice),
+        effectiveAt,
+        reason: dto.reason ?? null,
+        companyId: organization.id,
+        menuItemId: dto.menuItemId,
+        branchId: dto.branchId ?? null,
+        createdById: creator?.id ?? null,
+      },
+    });
+
+    this.logger.log(
+      `Price change scheduled: ${change.id} for menu item ${dto.menuItemId} at ${effectiveAt.toISOString()}`,
+    );
+
+    return change;
+  }
+
+  /**
+   * List scheduled price changes
+   */
+  async listScheduledPriceChanges(
+    companyId: string,
+    query: ListScheduledPriceChangesQueryDto,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const {
+      limit = 20,
+      cursor,
+      orderDir = 'desc',
+      status,
+      menuItemId,
+      branchId,
+    } = query;
+
+    const visibleBranchIds =
+      allowedBranchIds && branchId
+        ? allowedBranchIds.filter((id) => id === branchId)
+        : allowedBranchIds;
+
+    let cursorCondition = {};
+    if (cursor) {
+      const decodedCursor = this.paginationService.decodeCursor(cursor);
+      if (decodedCursor && typeof decodedCursor.tieBreakerValue === 'string') {
+        cursorCondition = {
+          id:
+            orderDir === 'desc'
+              ? { lt: decodedCursor.tieBreakerValue }
+              : { gt: decodedCursor.tieBreakerValue },
+        };
+      }
+    }
+
+    const changes = await this.prismaService.scheduledPriceChange.findMany({
+      where: {
+        companyId: organization.id,
+        ...(status && { status }),
+        ...(menuItemId && { menuItemId }),
+        ...(branchId && { branchId }),
+        ...(visibleBranchIds && { branchId: { in: visibleBranchIds } }),
+        ...cursorCondition,
+      },
+      include: {
+        menuItem: {
+          select: {
+            id: true,
+            name: true,
+            basePrice: true,
+          },
+        },
+        branch: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { createdAt: orderDir },
+      take: limit + 1,
+    });
+
+    return this.paginationService.buildPaginatedResponse(changes, limit, {
+      cursorField: 'id',
+      additionalCursorFields: ['createdAt'],
+    });
+  }
+
+  /**
+   * Cancel a pending scheduled price change
+   */
+  async cancelScheduledPriceChange(
+    id: string,
+    companyId: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const change = await this.prismaService.scheduledPriceChange.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+      },
+    });
+
+    if (!change) {
+      throw new NotFoundException('Scheduled price change not found');
+    }
+
+    if (
+      allowedBranchIds &&
+      (!change.branchId || !allowedBranchIds.includes(change.branchId))
+    ) {
+      throw new ForbiddenException('You do not have access to this branch');
+    }
+
+    if (change.status !== 'PENDING') {
+      throw new BadRequestException(
+        `Cannot cancel a price change with status ${change.status}`,
+      );
+    }
+
+    const cancelled = await this.prismaService.scheduledPriceChange.update({
+      where: { id },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: new Date(),
+      },
+    });
+
+    this.logger.log(`Scheduled price change cancelled: ${id}`);
+
+    return cancelled;
+  }
+
+  /**
+   * Apply every pending price change whose effective time has passed
+   *
+   * Run on a schedule by the pricing worker. Changes are applied oldest
+   * first, so the latest one wins when several fall due together.
+   */
+  async applyDuePriceChanges(
+    now: Date = new Date(),
+  ): Promise<{ applied: number }> {
+    const due = await this.prismaService.scheduledPriceChange.findMany({
+      where: {
+        status: 'PENDING',
+        effectiveAt: { lte: now },
+      },
+      include: {
+        company: { select: { auth0OrgId: true } },
+      },
+      orderBy: { effectiveAt: 'asc' },
+    });
+
+    let applied = 0;
+    for (const change of due) {
+      try {
+        await this.applyPriceChange(change);
+        applied++;
+
+        // Invalidate cache
+        await this.cacheService.invalidateOrganization(
+          change.company.auth0OrgId,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to apply scheduled price change ${change.id}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    return { applied };
+  }
+
+  private async applyPriceChange(change: {
+    id: string;
+    newPrice: Prisma.Decimal;
+    menuItemId: string;
+    branchId: string | null;
+  }): Promise<void> {
+    const { branchId } = change;
+
+    const claimed = await this.prismaService.$transaction(async (tx) => {
+      // Claim the change first so overlapping runs apply it only once
+      const { count } = await tx.scheduledPriceChange.updateMany({
+        where: { id: change.id, status: 'PENDING' },
+        data: { status: 'APPLIED', appliedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      let previousPrice: Prisma.Decimal | null;
+      if (branchId) {
+        const existing = await tx.branchMenu.findUnique({
+          where: {
+            branchId_menuItemId: { branchId, menuItemId: change.menuItemId },
+          },
+        });
+        previousPrice = existing?.localPrice ?? null;
+
+        await tx.branchMenu.upsert({
+          where: {
+            branchId_menuItemId: { branchId, menuItemId: change.menuItemId },
+          },
+          update: { localPrice: change.newPrice },
+          create: {
+            branchId,
+            menuItemId: change.menuItemId,
+            localPrice: change.newPrice,
+          },
+        });
+      } else {
+        const menuItem = await tx.menuItem.findUnique({
+          where: { id: change.menuItemId },
+        });
+        previousPrice = menuItem?.basePrice ?? null;
+
+        await tx.menuItem.update({
+          where: { id: change.menuItemId },
+          data: { basePrice: change.newPrice },
+        });
+      }
+
+      await tx.scheduledPriceChange.update({
+        where: { id: change.id },
+        data: { previousPrice },
+      });
+
+      return true;
+    });
+
+    if (!claimed) {
+      return;
+    }
+
+    // Base price changes move the item's margin
+    if (!branchId) {
+      await this.menuService.recalculateMenuFromRecipe(change.menuItemId);
+    }
+
+    this.logger.log(
+      `Scheduled price change applied: ${change.id} (${branchId ? `branch ${branchId}` : 'base price'} now ${change.newPrice.toString()})`,
+    );
+  }
+}
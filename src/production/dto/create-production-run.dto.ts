@@ -0,0 +1,40 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateProductionRunDto {
+  @ApiProperty({ description: 'Recipe of the prep item to produce' })
+  @IsString()
+  @IsNotEmpty()
+  recipeId!: string;
+
+  @ApiProperty({
+    description:
+      'Number of recipe batches to make (each yields the recipe yield)',
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0.01)
+  batches!: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Branch producing the prep item (consumes and stocks that branch's inventory)",
+  })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @ApiPropertyOptional({ description: 'Notes', maxLength: 500 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
@@ -0,0 +1,2 @@
+export * from './create-production-run.dto';
+export * from './list-production-runs-query.dto';
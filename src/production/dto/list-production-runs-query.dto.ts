@@ -0,0 +1,30 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+
+export enum ProductionRunStatus {
+  IN_PROGRESS = 'IN_PROGRESS',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+export class ListProductionRunsQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by status',
+    enum: ProductionRunStatus,
+  })
+  @IsOptional()
+  @IsEnum(ProductionRunStatus)
+  status?: ProductionRunStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by recipe ID' })
+  @IsOptional()
+  @IsString()
+  recipeId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by branch ID' })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+}
@@ -0,0 +1,4 @@
+export * from './dto';
+export * from './production.controller';
+export * from './production.service';
+export * from './production.module';
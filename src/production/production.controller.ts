@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+
+import { CurrentUser, Roles, requiresOrganization } from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+
+import { CreateProductionRunDto, ListProductionRunsQueryDto } from './dto';
+import { ProductionService } from './production.service';
+
+@ApiTags('Production')
+@ApiBearerAuth('Auth0')
+@Controller('production-runs')
+@UseGuards(Auth0Guard)
+export class ProductionController {
+  constructor(private readonly productionService: ProductionService) {}
+
+  @Post()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.CHEF)
+  @ApiOperation({
+    summary: 'Run prep production',
+    description:
+      "Makes batches of a prep item: deducts the recipe's ingredients FIFO and stocks the prep item as a new batch at the rolled-up cost. Non-owners must produce at one of their branches.",
+  })
+  @ApiResponse({ status: 201, description: 'Production run completed' })
+  @ApiResponse({
+    status: 400,
+    description: 'Recipe has no prep item or stock is insufficient',
+  })
+  create(
+    @Body() createProductionRunDto: CreateProductionRunDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.productionService.createProductionRun(
+      createProductionRunDto,
+      user.auth0Id,
+      user.organizationId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Get()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.CHEF)
+  @ApiOperation({
+    summary: 'List production runs',
+    description: 'Returns paginated production runs',
+  })
+  @ApiResponse({ status: 200, description: 'Paginated list of runs' })
+  findAll(
+    @CurrentUser() user: UserPayload,
+    @Query() query: ListProductionRunsQueryDto,
+  ) {
+    requiresOrganization(user);
+    return this.productionService.listProductionRuns(
+      user.organizationId,
+      query,
+    );
+  }
+
+  @Get(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.CHEF)
+  @ApiOperation({
+    summary: 'Get production run',
+    description: 'Returns a production run with the batch it produced',
+  })
+  @ApiParam({ name: 'id', description: 'Production run UUID' })
+  @ApiResponse({ status: 200, description: 'Production run details' })
+  findOne(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.productionService.getProductionRunById(id, user.organizationId);
+  }
+}
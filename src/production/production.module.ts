@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+
+import { CommonModule } from '../common/common.module';
+import { PrismaModule } from '../database';
+import { InventoryModule } from '../inventory';
+import { CacheModule } from '../services/cache';
+
+import { ProductionController } from './production.controller';
+import { ProductionService } from './production.service';
+
+@Module({
+  imports: [PrismaModule, CacheModule, CommonModule, InventoryModule],
+  controllers: [ProductionController],
+  providers: [ProductionService],
+  exports: [ProductionService],
+})
+export class ProductionModule {}
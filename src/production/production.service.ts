@@ -0,0 +1,364 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PaginationService } from '../common/services/pagination.service';
+import { PrismaService } from '../database/prisma.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { BatchService } from '../inventory/services/batch.service';
+import { CacheService } from '../services/cache';
+
+import { CreateProductionRunDto, ListProductionRunsQueryDto } from './dto';
+
+interface IngredientUsed {
+  ingredientId: string;
+  qty: string;
+  cost: string;
+}
+
+@Injectable()
+export class ProductionService {
+  private readonly logger = new Logger(ProductionService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly cacheService: CacheService,
+    private readonly inventoryService: InventoryService,
+    private readonly batchService: BatchService,
+  ) {}
+
+  /**
+   * Produce a prep item from its recipe
+   *
+   * Deducts the recipe's ingredients FIFO and stocks the prep item as a new
+   * batch at the rolled-up cost of what was consumed, all in one transaction:
+   * a run that fails is marked FAILED and leaves stock untouched.
+   */
+  async createProductionRun(
+    dto: CreateProductionRunDto,
+    producerId: string,
+    companyId: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    if (
+      allowedBranchIds &&
+      (!dto.branchId || !allowedBranchIds.includes(dto.branchId))
+    ) {
+      throw new ForbiddenException('You do not have access to this branch');
+    }
+
+    if (dto.branchId) {
+      const branch = await this.prismaService.branch.findFirst({
+        where: {
+          id: dto.branchId,
+          organizationId: organization.id,
+        },
+      });
+
+      if (!branch) {
+        throw new NotFoundException('Branch not found');
+      }
+    }
+
+    const recipe = await this.prismaService.recipe.findFirst({
+      where: {
+        id: dto.recipeId,
+        companyId: organization.id,
+        isActive: true,
+      },
+      include: { prepItem: true },
+    });
+
+    if (!recipe) {
+      throw new NotFoundException('Recipe not found');
+    }
+
+    const prepItem = recipe.prepItem;
+    if (!prepItem?.isActive) {
+      throw new BadRequestException(
+        'Recipe is not linked to a prep item ingredient',
+      );
+    }
+
+    const batches = new Prisma.Decimal(dto.batches);
+    const quantityProduced = recipe.yieldQuantity.mul(batches);
+
+    // Aggregate what the run needs per ingredient
+    const requirements = new Map<string, Prisma.Decimal>();
+    for (const item of await this.inventoryService.expandRecipe(
+      recipe.id,
+      batches,
+    )) {
+      requirements.set(
+        item.ingredientId,
+        (requirements.get(item.ingredientId) ?? new Prisma.Decimal(0)).add(
+          item.qty,
+        ),
+      );
+    }
+
+    if (requirements.has(prepItem.id)) {
+      throw new BadRequestException('A prep item cannot be made from itself');
+    }
+
+    // Check everything up front against the batches the deductions draw on,
+    // so a short ingredient fails with a clear message
+    const ingredients = await this.prismaService.ingredient.findMany({
+      where: { id: { in: [...requirements.keys()] } },
+    });
+    for (const [ingredientId, qty] of requirements) {
+      const ingredient = ingredients.find((i) => i.id === ingredientId);
+      const available = await this.batchService.getBatchStock(
+        ingredientId,
+        dto.branchId,
+      );
+
+      if (available.lt(qty.toDecimalPlaces(4))) {
+        throw new BadRequestException(
+          `Insufficient stock of ${ingredient?.name ?? ingredientId}. Available: ${available.toString()}, Required: ${qty.toDecimalPlaces(4).toString()}`,
+        );
+      }
+    }
+
+    const producer = await this.prismaService.user.findUnique({
+      where: { auth0UserId: producerId },
+    });
+
+    const run = await this.prismaService.productionRun.create({
+      data: {
+        companyId: organization.id,
+        recipeId: recipe.id,
+        ingredientId: prepItem.id,
+        branchId: dto.branchId ?? null,
+        batches,
+        quantityProduced,
+        notes: dto.notes ?? null,
+        producedById: producer?.id ?? null,
+      },
+    });
+
+    const expiresAt =
+      prepItem.shelfLifeHours !== null
+        ? new Date(Date.now() + prepItem.shelfLifeHours * 60 * 60 * 1000)
+        : null;
+
+    let produced: {
+      ingredientsUsed: IngredientUsed[];
+      totalCost: Prisma.Decimal;
+      batchId: string;
+    };
+    try {
+      produced = await this.prismaService.$transaction(
+        async (tx) => {
+          const ingredientsUsed: IngredientUsed[] = [];
+          let totalCost = new Prisma.Decimal(0);
+
+          for (const [ingredientId, qty] of requirements) {
+            const result = await this.inventoryService.deductStock(
+              ingredientId,
+              qty.toDecimalPlaces(4),
+              {
+                recipeId: recipe.id,
+                reason: 'production',
+                ...(dto.branchId && { branchId: dto.branchId }),
+                tx,
+              },
+              companyId,
+            );
+
+            totalCost = totalCost.add(result.totalCost);
+            ingredientsUsed.push({
+              ingredientId,
+              qty: qty.toDecimalPlaces(4).toString(),
+              cost: result.totalCost.toString(),
+            });
+          }
+
+          const { batch } = await this.inventoryService.recordStockEntry(
+            {
+              ingredientId: prepItem.id,
+              quantity: quantityProduced.toNumber(),
+              totalCost: totalCost.toDecimalPlaces(2).toNumber(),
+              receiptRef: `PRODUCTION-${run.id}`,
+              ...(expiresAt && { expiresAt: expiresAt.toISOString() }),
+              ...(dto.branchId && { branchId: dto.branchId }),
+            },
+            companyId,
+            { type: 'PRODUCTION', costHistoryReason: 'Production', tx },
+          );
+
+          return { ingredientsUsed, totalCost, batchId: batch.id };
+        },
+        {
+          maxWait: 5000,
+          timeout: 30000,
+        },
+      );
+    } catch (error) {
+      await this.prismaService.productionRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'FAILED',
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+      throw error;
+    }
+
+    const { ingredientsUsed, totalCost } = produced;
+    await this.prismaService.productionRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'COMPLETED',
+        ingredientsUsed: ingredientsUsed as unknown as Prisma.InputJsonValue,
+        totalCost: totalCost.toDecimalPlaces(2),
+        unitCost: totalCost.div(quantityProduced),
+        expiresAt,
+        batchId: produced.batchId,
+        completedAt: new Date(),
+      },
+    });
+
+    this.logger.log(
+      `Production run ${run.id}: ${quantityProduced.toString()} ${prepItem.unit} of ${prepItem.name}, cost ${totalCost.toString()}`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return this.getProductionRunById(run.id, companyId);
+  }
+
+  /**
+   * Get production run details
+   */
+  async getProductionRunById(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const run = await this.prismaService.productionRun.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+      },
+      include: {
+        recipe: {
+          select: {
+            id: true,
+            name: true,
+            yieldQuantity: true,
+          },
+        },
+        ingredient: {
+          select: {
+            id: true,
+            name: true,
+            unit: true,
+          },
+        },
+        branch: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        batch: true,
+      },
+    });
+
+    if (!run) {
+      throw new NotFoundException('Production run not found');
+    }
+
+    return run;
+  }
+
+  /**
+   * List production runs
+   */
+  async listProductionRuns(
+    companyId: string,
+    query: ListProductionRunsQueryDto,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const {
+      limit = 20,
+      cursor,
+      orderDir = 'desc',
+      status,
+      recipeId,
+      branchId,
+    } = query;
+
+    let cursorCondition = {};
+    if (cursor) {
+      const decodedCursor = this.paginationService.decodeCursor(cursor);
+      if (decodedCursor && typeof decodedCursor.tieBreakerValue === 'string') {
+        cursorCondition = {
+          id:
+            orderDir === 'desc'
+              ? { lt: decodedCursor.tieBreakerValue }
+              : { gt: decodedCursor.tieBreakerValue },
+        };
+      }
+    }
+
+    const runs = await this.prismaService.productionRun.findMany({
+      where: {
+        companyId: organization.id,
+        ...(status && { status }),
+        ...(recipeId && { recipeId }),
+        ...(branchId && { branchId }),
+        ...cursorCondition,
+      },
+      include: {
+        ingredient: {
+          select: {
+            id: true,
+            name: true,
+            unit: true,
+          },
+        },
+        branch: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { createdAt: orderDir },
+      take: limit + 1,
+    });
+
+    return this.paginationService.buildPaginatedResponse(runs, limit, {
+      cursorField: 'id',
+      additionalCursorFields: ['createdAt'],
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  IsDateString,
+  ArrayMinSize,
+  ValidateNested,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class PurchaseOrderLineDto {
+  @ApiProperty({ description: 'Ingredient ID' })
+  @IsString()
+  @IsNotEmpty()
+  ingredientId!: string;
+
+  @ApiProperty({ description: 'Quantity ordered', minimum: 0.01 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0.01)
+  quantity!: number;
+
+  @ApiPropertyOptional({
+    description: "Unit cost (defaults to the supplier's last quoted price)",
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  unitCost?: number;
+}
+
+export class CreatePurchaseOrderDto {
+  @ApiProperty({ description: 'Supplier ID' })
+  @IsString()
+  @IsNotEmpty()
+  supplierId!: string;
+
+  @ApiPropertyOptional({ description: 'Delivery branch ID' })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Expected delivery date (defaults to today plus the supplier's lead time)",
+  })
+  @IsOptional()
+  @IsDateString()
+  expectedAt?: string;
+
+  @ApiProperty({ description: 'Order lines', type: [PurchaseOrderLineDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderLineDto)
+  lines!: PurchaseOrderLineDto[];
+
+  @ApiPropertyOptional({ description: 'Notes', maxLength: 500 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
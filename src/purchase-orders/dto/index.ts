@@ -0,0 +1,3 @@
+export * from './create-purchase-order.dto';
+export * from './receive-purchase-order.dto';
+export * from './list-purchase-orders-query.dto';
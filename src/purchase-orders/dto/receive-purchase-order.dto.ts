@@ -0,0 +1,53 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  IsDateString,
+  ValidateNested,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class ReceivedLineDto {
+  @ApiProperty({ description: 'Purchase order line ID' })
+  @IsString()
+  @IsNotEmpty()
+  lineId!: string;
+
+  @ApiProperty({ description: 'Quantity received', minimum: 0.01 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0.01)
+  quantity!: number;
+
+  @ApiPropertyOptional({ description: 'Expiration date of the received stock' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class ReceivePurchaseOrderDto {
+  @ApiPropertyOptional({
+    description:
+      'Received lines. Omit to receive every outstanding line in full.',
+    type: [ReceivedLineDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReceivedLineDto)
+  lines?: ReceivedLineDto[];
+
+  @ApiPropertyOptional({
+    description: 'Delivery note or invoice reference',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  receiptRef?: string;
+}
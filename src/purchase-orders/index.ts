@@ -0,0 +1,4 @@
+export * from './dto';
+export * from './purchase-orders.controller';
+export * from './purchase-orders.service';
+export * from './purchase-orders.module';
@@ -0,0 +1,139 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+
+import { CurrentUser, Roles, requiresOrganization } from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+
+import {
+  CreatePurchaseOrderDto,
+  ReceivePurchaseOrderDto,
+  ListPurchaseOrdersQueryDto,
+} from './dto';
+import { PurchaseOrdersService } from './purchase-orders.service';
+
+@ApiTags('Purchase Orders')
+@ApiBearerAuth('Auth0')
+@Controller('purchase-orders')
+@UseGuards(Auth0Guard)
+export class PurchaseOrdersController {
+  constructor(private readonly purchaseOrdersService: PurchaseOrdersService) {}
+
+  @Post()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Create purchase order',
+    description:
+      "Creates a purchase order with a supplier. Line costs default to the supplier's last quoted price.",
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Purchase order created successfully',
+  })
+  create(
+    @Body() createPurchaseOrderDto: CreatePurchaseOrderDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.purchaseOrdersService.createPurchaseOrder(
+      createPurchaseOrderDto,
+      user.auth0Id,
+      user.organizationId,
+    );
+  }
+
+  @Get()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'List purchase orders',
+    description: 'Returns paginated purchase orders',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of purchase orders',
+  })
+  findAll(
+    @CurrentUser() user: UserPayload,
+    @Query() query: ListPurchaseOrdersQueryDto,
+  ) {
+    requiresOrganization(user);
+    return this.purchaseOrdersService.listPurchaseOrders(
+      user.organizationId,
+      query,
+    );
+  }
+
+  @Get(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Get purchase order',
+    description: 'Returns a purchase order with its lines',
+  })
+  @ApiParam({ name: 'id', description: 'Purchase order UUID' })
+  @ApiResponse({ status: 200, description: 'Purchase order details' })
+  findOne(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.purchaseOrdersService.getPurchaseOrderById(
+      id,
+      user.organizationId,
+    );
+  }
+
+  @Post(':id/receive')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Receive purchase order',
+    description:
+      'Receives a purchase order fully or partially, creating PURCHASE stock entries and batches',
+  })
+  @ApiParam({ name: 'id', description: 'Purchase order UUID' })
+  @ApiResponse({ status: 200, description: 'Purchase order received' })
+  receive(
+    @Param('id') id: string,
+    @Body() receivePurchaseOrderDto: ReceivePurchaseOrderDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.purchaseOrdersService.receivePurchaseOrder(
+      id,
+      receivePurchaseOrderDto,
+      user.organizationId,
+    );
+  }
+
+  @Post(':id/cancel')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Cancel purchase order',
+    description: 'Cancels a purchase order that has not been received',
+  })
+  @ApiParam({ name: 'id', description: 'Purchase order UUID' })
+  @ApiResponse({ status: 200, description: 'Purchase order cancelled' })
+  cancel(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.purchaseOrdersService.cancelPurchaseOrder(
+      id,
+      user.organizationId,
+    );
+  }
+}
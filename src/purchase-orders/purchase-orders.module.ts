@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+
+import { CommonModule } from '../common/common.module';
+import { PrismaModule } from '../database';
+import { InventoryModule } from '../inventory';
+import { CacheModule } from '../services/cache';
+
+import { PurchaseOrdersController } from './purchase-orders.controller';
+import { PurchaseOrdersService } from './purchase-orders.service';
+
+@Module({
+  imports: [PrismaModule, CacheModule, CommonModule, InventoryModule],
+  controllers: [PurchaseOrdersController],
+  providers: [PurchaseOrdersService],
+  exports: [PurchaseOrdersService],
+})
+export class PurchaseOrdersModule {}
@@ -0,0 +1,486 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PaginationService } from '../common/services/pagination.service';
+import { PrismaService } from '../database/prisma.service';
+import { StockEntryDto } from '../inventory/dto';
+import { InventoryService } from '../inventory/inventory.service';
+import { CacheService } from '../services/cache';
+
+import {
+  CreatePurchaseOrderDto,
+  ReceivePurchaseOrderDto,
+  ListPurchaseOrdersQueryDto,
+} from './dto';
+
+@Injectable()
+export class PurchaseOrdersService {
+  private readonly logger = new Logger(PurchaseOrdersService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly cacheService: CacheService,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  /**
+   * Create a purchase order
+   */
+  async createPurchaseOrder(
+    dto: CreatePurchaseOrderDto,
+    creatorId: string,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const supplier = await this.prismaService.supplier.findFirst({
+      where: {
+        id: dto.supplierId,
+        companyId: organization.id,
+        isActive: true,
+      },
+      include: { ingredients: true },
+    });
+
+    if (!supplier) {
+      throw new NotFoundException('Supplier not found');
+    }
+
+    if (dto.branchId) {
+      const branch = await this.prismaService.branch.findFirst({
+        where: {
+          id: dto.branchId,
+          organizationId: organization.id,
+        },
+      });
+
+      if (!branch) {
+        throw new NotFoundException('Branch not found');
+      }
+    }
+
+    const ingredientIds = dto.lines.map((line) => line.ingredientId);
+    if (new Set(ingredientIds).size !== ingredientIds.length) {
+      throw new BadRequestException('Each ingredient can only appear once');
+    }
+
+    const ingredients = await this.prismaService.ingredient.findMany({
+      where: {
+        id: { in: ingredientIds },
+        companyId: organization.id,
+      },
+    });
+
+    const lines = dto.lines.map((line) => {
+      const ingredient = ingredients.find((i) => i.id === line.ingredientId);
+      if (!ingredient) {
+        throw new NotFoundException(
+          `Ingredient ${line.ingredientId} not found`,
+        );
+      }
+
+      const quote = supplier.ingredients.find(
+        (si) => si.ingredientId === line.ingredientId,
+      );
+      if (line.unitCost === undefined && !quote) {
+        throw new BadRequestException(
+          `No quoted price from ${supplier.name} for ${ingredient.name}; provide unitCost`,
+        );
+      }
+
+      const quantity = new Prisma.Decimal(line.quantity);
+      const unitCost =
+        line.unitCost !== undefined
+          ? new Prisma.Decimal(line.unitCost)
+          : (quote?.unitPrice ?? new Prisma.Decimal(0));
+
+      return { ingredientId: line.ingredientId, quantity, unitCost };
+    });
+
+    const totalCost = lines.reduce(
+      (sum, line) => sum.add(line.unitCost.mul(line.quantity)),
+      new Prisma.Decimal(0),
+    );
+
+    const expectedAt = dto.expectedAt
+      ? new Date(dto.expectedAt)
+      : supplier.leadTimeDays !== null
+        ? new Date(Date.now() + supplier.leadTimeDays * 24 * 60 * 60 * 1000)
+        : null;
+
+    const creator = await this.prismaService.user.findUnique({
+      where: { auth0UserId: creatorId },
+    });
+
+    const purchaseOrder = await this.prismaService.purchaseOrder.create({
+      data: {
+        companyId: organization.id,
+        supplierId: supplier.id,
+        branchId: dto.branchId ?? null,
+        totalCost: totalCost.toDecimalPlaces(2),
+        expectedAt,
+        notes: dto.notes ?? null,
+        createdById: creator?.id ?? null,
+        lines: {
+          create: lines,
+        },
+      },
+    });
+
+    this.logger.log(
+      `Purchase order created: ${purchaseOrder.id} with supplier ${supplier.id}, total ${totalCost.toString()}`,
+    );
+
+    return this.getPurchaseOrderById(purchaseOrder.id, companyId);
+  }
+
+  /**
+   * Receive a purchase order, fully or partially
+   *
+   * Each received line becomes a PURCHASE stock entry and batch, and writes
+   * ingredient cost history with the supplier as the reason.
+   */
+  async receivePurchaseOrder(
+    id: string,
+    dto: ReceivePurchaseOrderDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const purchaseOrder = await this.prismaService.purchaseOrder.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+      },
+      include: {
+        supplier: true,
+        lines: true,
+      },
+    });
+
+    if (!purchaseOrder) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    if (
+      purchaseOrder.status !== 'ORDERED' &&
+      purchaseOrder.status !== 'PARTIALLY_RECEIVED'
+    ) {
+      throw new BadRequestException(
+        `Purchase order is ${purchaseOrder.status} and cannot be received`,
+      );
+    }
+
+    let receipts: Array<{
+      line: (typeof purchaseOrder.lines)[number];
+      quantity: Prisma.Decimal;
+      expiresAt?: string;
+    }>;
+
+    if (dto.lines) {
+      const lineIds = dto.lines.map((l) => l.lineId);
+      if (new Set(lineIds).size !== lineIds.length) {
+        throw new BadRequestException('Each line can only appear once');
+      }
+
+      receipts = dto.lines.map((input) => {
+        const line = purchaseOrder.lines.find((l) => l.id === input.lineId);
+        if (!line) {
+          throw new NotFoundException(
+            `Purchase order line ${input.lineId} not found`,
+          );
+        }
+
+        const quantity = new Prisma.Decimal(input.quantity);
+        if (quantity.gt(this.getOutstandingQty(line))) {
+          throw new BadRequestException(
+            `Received quantity for line ${line.id} exceeds outstanding quantity ${this.getOutstandingQty(line).toString()}`,
+          );
+        }
+
+        return {
+          line,
+          quantity,
+          ...(input.expiresAt && { expiresAt: input.expiresAt }),
+        };
+      });
+    } else {
+      receipts = purchaseOrder.lines
+        .filter((line) => this.getOutstandingQty(line).gt(0))
+        .map((line) => ({ line, quantity: this.getOutstandingQty(line) }));
+    }
+
+    if (receipts.length === 0) {
+      throw new BadRequestException('Nothing left to receive');
+    }
+
+    const receiptRef = dto.receiptRef ?? `PO-${purchaseOrder.id}`;
+    const stockEntries: unknown[] = [];
+
+    // Each receipt and its line's received quantity are written together, so
+    // they stay in step
+    for (const { line, quantity, expiresAt } of receipts) {
+      const stockEntryDto: StockEntryDto = {
+        ingredientId: line.ingredientId,
+        quantity: quantity.toNumber(),
+        totalCost: line.unitCost.mul(quantity).toDecimalPlaces(2).toNumber(),
+        receiptRef,
+        ...(expiresAt && { expiresAt }),
+        ...(purchaseOrder.branchId && { branchId: purchaseOrder.branchId }),
+      };
+
+      const result = await this.inventoryService.recordStockEntry(
+        stockEntryDto,
+        companyId,
+        {
+          purchaseOrderId: purchaseOrder.id,
+          costHistoryReason: `Purchase from ${purchaseOrder.supplier.name}`,
+          onRecord: async (tx) => {
+            const updated = await tx.purchaseOrderLine.update({
+              where: { id: line.id },
+              data: {
+                receivedQty: { increment: quantity },
+              },
+            });
+
+            // A concurrent receipt may have taken what was outstanding
+            if (updated.receivedQty.gt(updated.quantity)) {
+              throw new BadRequestException(
+                `Received quantity for line ${line.id} exceeds outstanding quantity ${this.getOutstandingQty(updated).add(quantity).toString()}`,
+              );
+            }
+          },
+        },
+      );
+
+      stockEntries.push(result.stockEntry);
+    }
+
+    const lines = await this.prismaService.purchaseOrderLine.findMany({
+      where: { purchaseOrderId: purchaseOrder.id },
+    });
+    const fullyReceived = lines.every((line) =>
+      this.getOutstandingQty(line).lte(0),
+    );
+
+    await this.prismaService.purchaseOrder.update({
+      where: { id: purchaseOrder.id },
+      data: {
+        status: fullyReceived ? 'RECEIVED' : 'PARTIALLY_RECEIVED',
+        ...(fullyReceived && { receivedAt: new Date() }),
+      },
+    });
+
+    this.logger.log(
+      `Purchase order ${purchaseOrder.id} received: ${receipts.length} lines, ${fullyReceived ? 'complete' : 'partial'}`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return {
+      purchaseOrder: await this.getPurchaseOrderById(
+        purchaseOrder.id,
+        companyId,
+      ),
+      stockEntries,
+    };
+  }
+
+  /**
+   * Cancel a purchase order that has not been received
+   */
+  async cancelPurchaseOrder(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const purchaseOrder = await this.prismaService.purchaseOrder.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+      },
+    });
+
+    if (!purchaseOrder) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    if (purchaseOrder.status !== 'ORDERED') {
+      throw new BadRequestException(
+        `Purchase order is ${purchaseOrder.status} and cannot be cancelled`,
+      );
+    }
+
+    const updated = await this.prismaService.purchaseOrder.update({
+      where: { id },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: new Date(),
+      },
+    });
+
+    this.logger.log(`Purchase order cancelled: ${id}`);
+
+    return updated;
+  }
+
+  /**
+   * Get purchase order with lines
+   */
+  async getPurchaseOrderById(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const purchaseOrder = await this.prismaService.purchaseOrder.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+      },
+      include: {
+        supplier: {
+          select: {
+            id: true,
+            name: true,
+            contactName: true,
+            email: true,
+            phone: true,
+          },
+        },
+        branch: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        lines: {
+          include: {
+            ingredient: {
+              select: {
+                id: true,
+                name: true,
+                unit: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!purchaseOrder) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    return purchaseOrder;
+  }
+
+  /**
+   * List purchase orders
+   */
+  async listPurchaseOrders(
+    companyId: string,
+    query: ListPurchaseOrdersQueryDto,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const {
+      limit = 20,
+      cursor,
+      orderDir = 'desc',
+      status,
+      supplierId,
+      branchId,
+    } = query;
+
+    let cursorCondition = {};
+    if (cursor) {
+      const decodedCursor = this.paginationService.decodeCursor(cursor);
+      if (decodedCursor && typeof decodedCursor.tieBreakerValue === 'string') {
+        cursorCondition = {
+          id:
+            orderDir === 'desc'
+              ? { lt: decodedCursor.tieBreakerValue }
+              : { gt: decodedCursor.tieBreakerValue },
+        };
+      }
+    }
+
+    const purchaseOrders = await this.prismaService.purchaseOrder.findMany({
+      where: {
+        companyId: organization.id,
+        ...(status && { status }),
+        ...(supplierId && { supplierId }),
+        ...(branchId && { branchId }),
+        ...cursorCondition,
+      },
+      include: {
+        supplier: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        branch: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        _count: {
+          select: { lines: true },
+        },
+      },
+      orderBy: { createdAt: orderDir },
+      take: limit + 1,
+    });
+
+    return this.paginationService.buildPaginatedResponse(
+      purchaseOrders,
+      limit,
+      {
+        cursorField: 'id',
+        additionalCursorFields: ['createdAt'],
+      },
+    );
+  }
+
+  private getOutstandingQty(line: {
+    quantity: Prisma.Decimal;
+    receivedQty: Prisma.Decimal;
+  }): Prisma.Decimal {
+    return line.quantity.sub(line.receivedQty);
+  }
+}
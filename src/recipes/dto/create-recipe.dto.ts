@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 import {
   IsString,
@@ -8,6 +8,7 @@ import {
   Min,
   IsArray,
   ValidateNested,
+  IsOptional,
 } from 'class-validator';
 
 export class RecipeIngredientDto {
@@ -21,6 +22,29 @@ export class RecipeIngredientDto {
   @Type(() => Number)
   @Min(0.01)
   quantityUsed!: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Unit of quantityUsed (e.g., g for an ingredient stocked in kg). Defaults to the ingredient's unit",
+    maxLength: 20,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  unit?: string;
+}
+
+export class RecipeComponentDto {
+  @ApiProperty({ description: 'Sub-recipe ID (e.g., a sauce or dough)' })
+  @IsString()
+  @IsNotEmpty()
+  recipeId!: string;
+
+  @ApiProperty({ description: "Quantity in the sub-recipe's yield units" })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0.01)
+  quantity!: number;
 }
 
 export class CreateRecipeDto {
@@ -46,4 +70,14 @@ export class CreateRecipeDto {
   @ValidateNested({ each: true })
   @Type(() => RecipeIngredientDto)
   ingredients!: RecipeIngredientDto[];
+
+  @ApiPropertyOptional({
+    description: 'Sub-recipes used as components, costed recursively',
+    type: [RecipeComponentDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RecipeComponentDto)
+  subRecipes?: RecipeComponentDto[];
 }
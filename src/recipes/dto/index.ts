@@ -2,3 +2,4 @@ export * from './create-recipe.dto';
 export * from './update-recipe.dto';
 export * from './recipe-response.dto';
 export * from './link-recipe-menu.dto';
+export * from './recipe-version-diff-query.dto';
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, Min } from 'class-validator';
+
+export class RecipeVersionDiffQueryDto {
+  @ApiProperty({ description: 'Version to compare from', example: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  from!: number;
+
+  @ApiProperty({ description: 'Version to compare to', example: 3 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  to!: number;
+}
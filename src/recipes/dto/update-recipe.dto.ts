@@ -10,7 +10,7 @@ import {
   ValidateNested,
 } from 'class-validator';
 
-import { RecipeIngredientDto } from './create-recipe.dto';
+import { RecipeComponentDto, RecipeIngredientDto } from './create-recipe.dto';
 
 export class UpdateRecipeDto {
   @ApiPropertyOptional({ description: 'Recipe name', maxLength: 100 })
@@ -38,4 +38,15 @@ export class UpdateRecipeDto {
   @ValidateNested({ each: true })
   @Type(() => RecipeIngredientDto)
   ingredients?: RecipeIngredientDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Sub-recipes used as components (full replacement if provided)',
+    type: [RecipeComponentDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RecipeComponentDto)
+  subRecipes?: RecipeComponentDto[];
 }
@@ -0,0 +1,86 @@
+import { Prisma } from '../../generated/prisma';
+
+import {
+  diffRecipeVersionLines,
+  type RecipeVersionLine,
+} from './recipe-versions';
+
+const line = (
+  refId: string,
+  baseQuantity: string,
+  unitCost: string,
+  type: RecipeVersionLine['type'] = 'INGREDIENT',
+): RecipeVersionLine => ({
+  type,
+  refId,
+  name: refId,
+  quantity: baseQuantity,
+  unit: null,
+  baseQuantity,
+  unitCost,
+  totalCost: new Prisma.Decimal(baseQuantity).mul(unitCost).toString(),
+});
+
+const sum = (values: Prisma.Decimal[]) =>
+  values.reduce((total, value) => total.add(value), new Prisma.Decimal(0));
+
+describe('diffRecipeVersionLines', () => {
+  const fromLines = [
+    line('flour', '0.5', '4.2'),
+    line('butter', '0.25', '18.75'),
+    line('salt', '0.01', '2'),
+    line('dough', '1', '3.3333', 'SUB_RECIPE'),
+  ];
+  const toLines = [
+    line('flour', '0.55', '4.85'),
+    line('butter', '0.25', '21.1'),
+    line('dough', '1.5', '3.3333', 'SUB_RECIPE'),
+    line('sugar', '0.1', '6.4'),
+  ];
+
+  const diff = diffRecipeVersionLines(fromLines, toLines);
+  const byRef = new Map(diff.lines.map((l) => [l.refId, l]));
+
+  it('attributes exactly the total cost change', () => {
+    const totalChange = sum(
+      toLines.map((l) => new Prisma.Decimal(l.totalCost)),
+    ).sub(sum(fromLines.map((l) => new Prisma.Decimal(l.totalCost))));
+
+    expect(diff.quantityEffect.add(diff.priceEffect)).toEqual(totalChange);
+    for (const l of diff.lines) {
+      expect(l.quantityEffect.add(l.priceEffect)).toEqual(l.costChange);
+    }
+  });
+
+  it('splits a changed line into quantity at the old price and price at the new quantity', () => {
+    const flour = byRef.get('flour');
+
+    // 0.05 more at 4.20, then 0.65 dearer on 0.55
+    expect(flour?.status).toBe('CHANGED');
+    expect(flour?.quantityEffect.toString()).toBe('0.21');
+    expect(flour?.priceEffect.toString()).toBe('0.3575');
+  });
+
+  it('counts a price-only change entirely as price', () => {
+    const butter = byRef.get('butter');
+
+    expect(butter?.quantityEffect.toString()).toBe('0');
+    expect(butter?.priceEffect.toString()).toBe('0.5875');
+  });
+
+  it('counts added and removed lines entirely as quantity', () => {
+    expect(byRef.get('sugar')).toMatchObject({ status: 'ADDED', from: null });
+    expect(byRef.get('sugar')?.quantityEffect.toString()).toBe('0.64');
+    expect(byRef.get('salt')).toMatchObject({ status: 'REMOVED', to: null });
+    expect(byRef.get('salt')?.quantityEffect.toString()).toBe('-0.02');
+    expect(byRef.get('salt')?.priceEffect.toString()).toBe('0');
+  });
+
+  it('marks lines with no change as unchanged', () => {
+    const same = diffRecipeVersionLines(fromLines, fromLines);
+
+    expect(same.lines.every((l) => l.status === 'UNCHANGED')).toBe(true);
+    expect(same.quantityEffect.toString()).toBe('0');
+    expect(same.priceEffect.toString()).toBe('0');
+  });
+});
@@ -0,0 +1,152 @@
+import { Prisma } from '../../generated/prisma';
+import { convertToIngredientUnit } from '../units/unit-conversion';
+
+export interface RecipeVersionLine {
+  type: 'INGREDIENT' | 'SUB_RECIPE';
+  /** Ingredient or sub-recipe ID */
+  refId: string;
+  name: string;
+  /** Quantity as written on the recipe, in `unit` */
+  quantity: string;
+  unit: string | null;
+  /** Quantity in the unit `unitCost` is quoted in (ingredient unit or sub-recipe yield unit) */
+  baseQuantity: string;
+  unitCost: string;
+  totalCost: string;
+}
+
+/**
+ * Compare two versions' lines and attribute the cost change to quantity vs
+ * price
+ *
+ * Per line, the quantity effect is the change in quantity at the old unit
+ * cost and the price effect is the change in unit cost at the new quantity,
+ * so the two always add up to the line's cost change. Added and removed
+ * lines count entirely as quantity changes.
+ */
+export function diffRecipeVersionLines(
+  fromLines: RecipeVersionLine[],
+  toLines: RecipeVersionLine[],
+) {
+  const key = (line: RecipeVersionLine) => `${line.type}:${line.refId}`;
+
+  const keys = [...new Set([...fromLines, ...toLines].map(key))];
+  const zero = new Prisma.Decimal(0);
+  let quantityEffect = zero;
+  let priceEffect = zero;
+
+  const lines = keys.map((lineKey) => {
+    const before = fromLines.find((line) => key(line) === lineKey);
+    const after = toLines.find((line) => key(line) === lineKey);
+
+    const beforeQty = new Prisma.Decimal(before?.baseQuantity ?? 0);
+    const afterQty = new Prisma.Decimal(after?.baseQuantity ?? 0);
+    const beforeCost = new Prisma.Decimal(before?.totalCost ?? 0);
+    const afterCost = new Prisma.Decimal(after?.totalCost ?? 0);
+    const costChange = afterCost.sub(beforeCost);
+
+    const lineQuantityEffect =
+      before && after
+        ? afterQty.sub(beforeQty).mul(before.unitCost).toDecimalPlaces(2)
+        : costChange;
+    const linePriceEffect = costChange.sub(lineQuantityEffect);
+
+    quantityEffect = quantityEffect.add(lineQuantityEffect);
+    priceEffect = priceEffect.add(linePriceEffect);
+
+    const line = (after ?? before) as RecipeVersionLine;
+
+    return {
+      type: line.type,
+      refId: line.refId,
+      name: line.name,
+      status: !before
+        ? 'ADDED'
+        : !after
+          ? 'REMOVED'
+          : costChange.isZero() && beforeQty.eq(afterQty)
+            ? 'UNCHANGED'
+            : 'CHANGED',
+      from: before ?? null,
+      to: after ?? null,
+      costChange,
+      quantityEffect: lineQuantityEffect,
+      priceEffect: linePriceEffect,
+    };
+  });
+
+  return { lines, quantityEffect, priceEffect };
+}
+
+/**
+ * Snapshot a recipe's current lines and costs under its current version
+ *
+ * Call after the recipe's version has been bumped, inside the same
+ * transaction. Snapshots are immutable: recording a version twice fails
+ * rather than dropping the newer lines.
+ */
+export async function recordRecipeVersion(
+  client: Prisma.TransactionClient,
+  recipeId: string,
+  reason: string,
+): Promise<void> {
+  const recipe = await client.recipe.findUnique({
+    where: { id: recipeId },
+    include: {
+      recipeIngredients: {
+        include: {
+          ingredient: {
+            include: { unitConversions: true },
+          },
+        },
+      },
+      components: {
+        include: { subRecipe: true },
+      },
+    },
+  });
+
+  if (!recipe) {
+    return;
+  }
+
+  const lines: RecipeVersionLine[] = [
+    ...recipe.recipeIngredients.map((ri) => ({
+      type: 'INGREDIENT' as const,
+      refId: ri.ingredientId,
+      name: ri.ingredient.name,
+      quantity: ri.quantityUsed.toString(),
+      unit: ri.unit ?? ri.ingredient.unit,
+      baseQuantity: convertToIngredientUnit(
+        ri.quantityUsed,
+        ri.unit,
+        ri.ingredient,
+      ).toString(),
+      unitCost: ri.unitCostAtUse.toString(),
+      totalCost: ri.totalCost.toString(),
+    })),
+    ...recipe.components.map((component) => ({
+      type: 'SUB_RECIPE' as const,
+      refId: component.subRecipeId,
+      name: component.subRecipe.name,
+      quantity: component.quantity.toString(),
+      unit: null,
+      baseQuantity: component.quantity.toString(),
+      unitCost: component.unitCostAtUse.toString(),
+      totalCost: component.totalCost.toString(),
+    })),
+  ];
+
+  await client.recipeVersion.create({
+    data: {
+      recipeId,
+      version: recipe.version,
+      name: recipe.name,
+      yieldQuantity: recipe.yieldQuantity,
+      totalCost: recipe.totalCost,
+      costPerPortion: recipe.costPerPortion,
+      lines: lines as unknown as Prisma.InputJsonValue,
+      reason,
+    },
+  });
+}
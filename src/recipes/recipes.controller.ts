@@ -8,6 +8,7 @@ import {
   Delete,
   UseGuards,
   Query,
+  ParseIntPipe,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -23,7 +24,11 @@ import { Auth0Guard, RolesGuard } from '../auth/guards';
 import type { UserPayload } from '../auth/interfaces';
 import { PaginationQueryDto } from '../common/dto/pagination.dto';
 
-import { CreateRecipeDto, UpdateRecipeDto } from './dto';
+import {
+  CreateRecipeDto,
+  UpdateRecipeDto,
+  RecipeVersionDiffQueryDto,
+} from './dto';
 import { RecipesService } from './recipes.service';
 
 @ApiTags('Recipes')
@@ -83,6 +88,71 @@ export class RecipesController {
     return this.recipesService.getRecipeDetails(id, user.organizationId);
   }
 
+  @Get(':id/versions')
+  @ApiOperation({
+    summary: 'List recipe versions',
+    description:
+      'Returns cost snapshots for each version of the recipe, newest first',
+  })
+  @ApiParam({ name: 'id', description: 'Recipe UUID' })
+  @ApiResponse({ status: 200, description: 'Paginated list of versions' })
+  findVersions(
+    @Param('id') id: string,
+    @CurrentUser() user: UserPayload,
+    @Query() paginationQuery: PaginationQueryDto,
+  ) {
+    requiresOrganization(user);
+    return this.recipesService.listRecipeVersions(
+      id,
+      user.organizationId,
+      paginationQuery,
+    );
+  }
+
+  @Get(':id/versions/diff')
+  @ApiOperation({
+    summary: 'Compare recipe versions',
+    description:
+      'Compares two versions line by line and attributes the cost change to quantity changes versus ingredient price changes',
+  })
+  @ApiParam({ name: 'id', description: 'Recipe UUID' })
+  @ApiResponse({ status: 200, description: 'Version diff' })
+  @ApiResponse({ status: 404, description: 'Recipe or version not found' })
+  diffVersions(
+    @Param('id') id: string,
+    @Query() query: RecipeVersionDiffQueryDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.recipesService.diffRecipeVersions(
+      id,
+      query,
+      user.organizationId,
+    );
+  }
+
+  @Get(':id/versions/:version')
+  @ApiOperation({
+    summary: 'Get recipe version',
+    description: 'Returns the snapshot of a version with its lines and costs',
+  })
+  @ApiParam({ name: 'id', description: 'Recipe UUID' })
+  @ApiParam({ name: 'version', description: 'Version number' })
+  @ApiResponse({ status: 200, description: 'Version snapshot' })
+  @ApiResponse({ status: 404, description: 'Recipe or version not found' })
+  findVersion(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.recipesService.getRecipeVersion(
+      id,
+      version,
+      user.organizationId,
+    );
+  }
+
   @Patch(':id')
   @UseGuards(RolesGuard)
   @Roles(UserRole.OWNER, UserRole.MANAGER)
@@ -106,6 +176,20 @@ export class RecipesController {
     );
   }
 
+  @Post('versions/backfill')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER)
+  @ApiOperation({
+    summary: 'Backfill recipe version snapshots',
+    description:
+      'Records a snapshot of the current version of every recipe that has none, e.g. recipes created before versions were recorded',
+  })
+  @ApiResponse({ status: 200, description: 'Number of snapshots recorded' })
+  backfillVersions(@CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.recipesService.backfillRecipeVersions(user.organizationId);
+  }
+
   @Post(':id/recalculate')
   @UseGuards(RolesGuard)
   @Roles(UserRole.OWNER, UserRole.MANAGER)
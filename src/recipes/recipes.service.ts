@@ -13,8 +13,21 @@ import { PrismaService } from '../database/prisma.service';
 import { CacheService } from '../services/cache';
 import { ORDARO_JOB_TYPES } from '../services/queue/job-types.enum';
 import { QueueService } from '../services/queue/queue.service';
+import { convertToIngredientUnit } from '../units/unit-conversion';
+import { normalizeUnit } from '../units/unit-registry';
 
-import { CreateRecipeDto, UpdateRecipeDto } from './dto';
+import {
+  CreateRecipeDto,
+  UpdateRecipeDto,
+  RecipeIngredientDto,
+  RecipeComponentDto,
+  RecipeVersionDiffQueryDto,
+} from './dto';
+import {
+  diffRecipeVersionLines,
+  recordRecipeVersion,
+  type RecipeVersionLine,
+} from './recipe-versions';
 
 @Injectable()
 export class RecipesService {
@@ -56,53 +69,25 @@ export class RecipesService {
       );
     }
 
-    if (!dto.ingredients || dto.ingredients.length === 0) {
-      throw new BadRequestException('Recipe must have at least one ingredient');
-    }
-
-    // Fetch all ingredients with current costs
-    const ingredientIds = dto.ingredients.map((ing) => ing.ingredientId);
-    const ingredients = await this.prismaService.ingredient.findMany({
-      where: {
-        id: { in: ingredientIds },
-        companyId: organization.id,
-        isActive: true,
-      },
-    });
-
-    if (ingredients.length !== ingredientIds.length) {
-      throw new NotFoundException('One or more ingredients not found');
+    if (dto.ingredients.length === 0 && !dto.subRecipes?.length) {
+      throw new BadRequestException(
+        'Recipe must have at least one ingredient or sub-recipe',
+      );
     }
 
     // Calculate costs using FIFO cost or average cost
-    const recipeIngredients = dto.ingredients.map((ingDto) => {
-      const ingredient = ingredients.find(
-        (ing) => ing.id === ingDto.ingredientId,
-      );
-      if (!ingredient) {
-        throw new NotFoundException(
-          `Ingredient ${ingDto.ingredientId} not found`,
-        );
-      }
-
-      // Use FIFO cost if available, otherwise average cost
-      const unitCost =
-        ingredient.fifoUnitCost ??
-        ingredient.averageUnitCost ??
-        new Prisma.Decimal(0);
-      const quantityUsed = new Prisma.Decimal(ingDto.quantityUsed);
-      const totalCost = unitCost.mul(quantityUsed);
+    const recipeIngredients = await this.buildRecipeIngredients(
+      dto.ingredients,
+      organization.id,
+    );
 
-      return {
-        ingredientId: ingredient.id,
-        quantityUsed,
-        unitCostAtUse: unitCost,
-        totalCost,
-      };
-    });
+    const components = await this.buildComponents(
+      dto.subRecipes ?? [],
+      organization.id,
+    );
 
     // Calculate total recipe cost
-    const totalCost = recipeIngredients.reduce(
+    const totalCost = [...recipeIngredients, ...components].reduce(
       (sum, item) => sum.add(item.totalCost),
       new Prisma.Decimal(0),
     );
@@ -127,13 +112,21 @@ export class RecipesService {
       await tx.recipeIngredient.createMany({
         data: recipeIngredients.map((item) => ({
           recipeId: createdRecipe.id,
-          ingredientId: item.ingredientId,
-          quantityUsed: item.quantityUsed,
-          unitCostAtUse: item.unitCostAtUse,
-          totalCost: item.totalCost,
+          ...item,
         })),
       });
 
+      if (components.length > 0) {
+        await tx.recipeComponent.createMany({
+          data: components.map((item) => ({
+            recipeId: createdRecipe.id,
+            ...item,
+          })),
+        });
+      }
+
+      await recordRecipeVersion(tx, createdRecipe.id, 'Recipe created');
+
       return createdRecipe;
     });
 
@@ -167,9 +160,14 @@ export class RecipesService {
       include: {
         recipeIngredients: {
           include: {
-            ingredient: true,
+            ingredient: {
+              include: { unitConversions: true },
+            },
           },
         },
+        components: {
+          include: { subRecipe: true },
+        },
       },
     });
 
@@ -184,8 +182,13 @@ export class RecipesService {
         ingredient.fifoUnitCost ??
         ingredient.averageUnitCost ??
         new Prisma.Decimal(0);
-      const quantityUsed = ri.quantityUsed;
-      const totalCost = unitCost.mul(quantityUsed);
+      // Normalize to the ingredient's unit, which its costs are quoted in
+      const quantity = convertToIngredientUnit(
+        ri.quantityUsed,
+        ri.unit,
+        ingredient,
+      );
+      const totalCost = unitCost.mul(quantity);
 
       return {
         id: ri.id,
@@ -194,8 +197,21 @@ export class RecipesService {
       };
     });
 
+    // Sub-recipes are costed at their current cost per yield unit
+    const components = recipe.components.map((component) => {
+      const unitCost = component.subRecipe.totalCost.div(
+        component.subRecipe.yieldQuantity,
+      );
+
+      return {
+        id: component.id,
+        unitCostAtUse: unitCost,
+        totalCost: unitCost.mul(component.quantity),
+      };
+    });
+
     // Calculate new totals
-    const totalCost = recipeIngredients.reduce(
+    const totalCost = [...recipeIngredients, ...components].reduce(
       (sum, item) => sum.add(item.totalCost),
       new Prisma.Decimal(0),
     );
@@ -209,7 +225,7 @@ export class RecipesService {
         data: {
           totalCost,
           costPerPortion,
-          version: recipe.version + 1,
+          version: { increment: 1 },
         },
       });
 
@@ -224,6 +240,18 @@ export class RecipesService {
         });
       }
 
+      for (const component of components) {
+        await tx.recipeComponent.update({
+          where: { id: component.id },
+          data: {
+            unitCostAtUse: component.unitCostAtUse,
+            totalCost: component.totalCost,
+          },
+        });
+      }
+
+      await recordRecipeVersion(tx, recipeId, 'Cost recalculated');
+
       return updatedRecipe;
     });
 
@@ -242,6 +270,8 @@ export class RecipesService {
       });
     }
 
+    await this.enqueueParentRecipeUpdates(recipeId);
+
     this.logger.log(`Recipe cost recalculated: ${recipeId}`);
 
     // Invalidate cache
@@ -279,6 +309,17 @@ export class RecipesService {
             },
           },
         },
+        components: {
+          include: {
+            subRecipe: {
+              select: {
+                id: true,
+                name: true,
+                yieldQuantity: true,
+              },
+            },
+          },
+        },
       },
     });
 
@@ -310,6 +351,10 @@ export class RecipesService {
         id,
         companyId: organization.id,
       },
+      include: {
+        recipeIngredients: true,
+        components: true,
+      },
     });
 
     if (!recipe) {
@@ -333,55 +378,28 @@ export class RecipesService {
       }
     }
 
-    // If ingredients are being updated, recalculate
-    if (dto.ingredients) {
-      if (dto.ingredients.length === 0) {
+    // If ingredients or sub-recipes are being updated, recalculate
+    if (dto.ingredients || dto.subRecipes) {
+      const recipeIngredients = dto.ingredients
+        ? await this.buildRecipeIngredients(dto.ingredients, organization.id)
+        : null;
+      const components = dto.subRecipes
+        ? await this.buildComponents(dto.subRecipes, organization.id, id)
+        : null;
+
+      // Lines that are not being replaced keep their cost snapshots
+      const lines = [
+        ...(recipeIngredients ?? recipe.recipeIngredients),
+        ...(components ?? recipe.components),
+      ];
+
+      if (lines.length === 0) {
         throw new BadRequestException(
-          'Recipe must have at least one ingredient',
+          'Recipe must have at least one ingredient or sub-recipe',
         );
       }
 
-      // Fetch ingredients
-      const ingredientIds = dto.ingredients.map((ing) => ing.ingredientId);
-      const ingredients = await this.prismaService.ingredient.findMany({
-        where: {
-          id: { in: ingredientIds },
-          companyId: organization.id,
-          isActive: true,
-        },
-      });
-
-      if (ingredients.length !== ingredientIds.length) {
-        throw new NotFoundException('One or more ingredients not found');
-      }
-
-      // Calculate new costs
-      const recipeIngredients = dto.ingredients.map((ingDto) => {
-        const ingredient = ingredients.find(
-          (ing) => ing.id === ingDto.ingredientId,
-        );
-        if (!ingredient) {
-          throw new NotFoundException(
-            `Ingredient ${ingDto.ingredientId} not found`,
-          );
-        }
-
-        const unitCost =
-          ingredient.fifoUnitCost ??
-          ingredient.averageUnitCost ??
-          new Prisma.Decimal(0);
-        const quantityUsed = new Prisma.Decimal(ingDto.quantityUsed);
-        const totalCost = unitCost.mul(quantityUsed);
-
-        return {
-          ingredientId: ingredient.id,
-          quantityUsed,
-          unitCostAtUse: unitCost,
-          totalCost,
-        };
-      });
-
-      const totalCost = recipeIngredients.reduce(
+      const totalCost = lines.reduce(
         (sum, item) => sum.add(item.totalCost),
         new Prisma.Decimal(0),
       );
@@ -400,25 +418,39 @@ export class RecipesService {
             ...(dto.yieldQuantity && { yieldQuantity }),
             totalCost,
             costPerPortion,
-            version: recipe.version + 1,
+            version: { increment: 1 },
           },
         });
 
-        // Delete old recipe ingredients
-        await tx.recipeIngredient.deleteMany({
-          where: { recipeId: id },
-        });
+        if (recipeIngredients) {
+          // Delete old recipe ingredients
+          await tx.recipeIngredient.deleteMany({
+            where: { recipeId: id },
+          });
+
+          // Create new recipe ingredients
+          await tx.recipeIngredient.createMany({
+            data: recipeIngredients.map((item) => ({
+              recipeId: id,
+              ...item,
+            })),
+          });
+        }
 
-        // Create new recipe ingredients
-        await tx.recipeIngredient.createMany({
-          data: recipeIngredients.map((item) => ({
-            recipeId: id,
-            ingredientId: item.ingredientId,
-            quantityUsed: item.quantityUsed,
-            unitCostAtUse: item.unitCostAtUse,
-            totalCost: item.totalCost,
-          })),
-        });
+        if (components) {
+          await tx.recipeComponent.deleteMany({
+            where: { recipeId: id },
+          });
+
+          await tx.recipeComponent.createMany({
+            data: components.map((item) => ({
+              recipeId: id,
+              ...item,
+            })),
+          });
+        }
+
+        await recordRecipeVersion(tx, id, 'Recipe updated');
 
         return updatedRecipe;
       });
@@ -438,6 +470,8 @@ export class RecipesService {
         });
       }
 
+      await this.enqueueParentRecipeUpdates(id);
+
       this.logger.log(`Recipe updated: ${id}`);
 
       // Invalidate cache
@@ -447,19 +481,33 @@ export class RecipesService {
     }
 
     // Simple update without ingredient changes
-    const updated = await this.prismaService.recipe.update({
-      where: { id },
-      data: {
-        ...(dto.name && { name: dto.name }),
-        ...(dto.yieldQuantity && {
-          yieldQuantity: new Prisma.Decimal(dto.yieldQuantity),
-          costPerPortion: recipe.totalCost.div(
-            new Prisma.Decimal(dto.yieldQuantity),
-          ),
-        }),
-      },
+    const updated = await this.prismaService.$transaction(async (tx) => {
+      const updatedRecipe = await tx.recipe.update({
+        where: { id },
+        data: {
+          ...(dto.name && { name: dto.name }),
+          ...(dto.yieldQuantity && {
+            yieldQuantity: new Prisma.Decimal(dto.yieldQuantity),
+            costPerPortion: recipe.totalCost.div(
+              new Prisma.Decimal(dto.yieldQuantity),
+            ),
+            version: { increment: 1 },
+          }),
+        },
+      });
+
+      if (dto.yieldQuantity) {
+        await recordRecipeVersion(tx, id, 'Yield updated');
+      }
+
+      return updatedRecipe;
     });
 
+    // Parent recipes cost this one per yield unit
+    if (dto.yieldQuantity) {
+      await this.enqueueParentRecipeUpdates(id);
+    }
+
     this.logger.log(`Recipe updated: ${id}`);
 
     // Invalidate cache
@@ -592,6 +640,7 @@ export class RecipesService {
         _count: {
           select: {
             menuItems: true,
+            usedIn: true,
           },
         },
       },
@@ -608,6 +657,12 @@ export class RecipesService {
       );
     }
 
+    if (recipe._count.usedIn > 0) {
+      throw new ConflictException(
+        'Cannot delete recipe that is used in other recipes',
+      );
+    }
+
     // Soft delete
     const result = await this.prismaService.recipe.update({
       where: { id },
@@ -621,4 +676,368 @@ export class RecipesService {
 
     return result;
   }
+
+  /**
+   * List a recipe's version snapshots, newest first
+   */
+  async listRecipeVersions(
+    recipeId: string,
+    companyId: string,
+    paginationQuery: PaginationQueryDto,
+  ): Promise<unknown> {
+    const { limit = 20, cursor, orderDir = 'desc' } = paginationQuery;
+
+    await this.findRecipe(recipeId, companyId);
+
+    let cursorCondition = {};
+    if (cursor) {
+      const decodedCursor = this.paginationService.decodeCursor(cursor);
+      if (decodedCursor && typeof decodedCursor.value === 'number') {
+        cursorCondition = {
+          version:
+            orderDir === 'desc'
+              ? { lt: decodedCursor.value }
+              : { gt: decodedCursor.value },
+        };
+      }
+    }
+
+    const versions = await this.prismaService.recipeVersion.findMany({
+      where: {
+        recipeId,
+        ...cursorCondition,
+      },
+      select: {
+        id: true,
+        version: true,
+        name: true,
+        yieldQuantity: true,
+        totalCost: true,
+        costPerPortion: true,
+        reason: true,
+        createdAt: true,
+      },
+      orderBy: { version: orderDir },
+      take: limit + 1,
+    });
+
+    return this.paginationService.buildPaginatedResponse(versions, limit, {
+      orderBy: 'version',
+      cursorField: 'id',
+    });
+  }
+
+  /**
+   * Snapshot every recipe that has no snapshot of its current version, e.g.
+   * recipes created before versions were recorded
+   */
+  async backfillRecipeVersions(
+    companyId: string,
+  ): Promise<{ backfilled: number }> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const recipes = await this.prismaService.recipe.findMany({
+      where: { companyId: organization.id },
+      select: {
+        id: true,
+        version: true,
+        versions: {
+          select: { version: true },
+          orderBy: { version: 'desc' },
+          take: 1,
+        },
+      },
+    });
+
+    let backfilled = 0;
+    for (const recipe of recipes) {
+      if (recipe.versions[0]?.version === recipe.version) {
+        continue;
+      }
+
+      // Re-read in the transaction: an edit since the list was loaded has
+      // already recorded its own snapshot
+      await this.prismaService.$transaction(async (tx) => {
+        const current = await tx.recipe.findUnique({
+          where: { id: recipe.id },
+          select: { version: true },
+        });
+        const existing = await tx.recipeVersion.findUnique({
+          where: {
+            recipeId_version: {
+              recipeId: recipe.id,
+              version: current?.version ?? recipe.version,
+            },
+          },
+        });
+
+        if (current && !existing) {
+          await recordRecipeVersion(tx, recipe.id, 'Backfilled');
+          backfilled++;
+        }
+      });
+    }
+
+    this.logger.log(
+      `Recipe versions backfilled for organization ${organization.id}: ${backfilled}`,
+    );
+
+    return { backfilled };
+  }
+
+  /**
+   * Get a single version snapshot with its lines
+   */
+  async getRecipeVersion(
+    recipeId: string,
+    version: number,
+    companyId: string,
+  ): Promise<unknown> {
+    await this.findRecipe(recipeId, companyId);
+
+    return this.findVersion(recipeId, version);
+  }
+
+  /**
+   * Compare two versions and attribute the cost change to quantity vs price
+   * (see `diffRecipeVersionLines`)
+   */
+  async diffRecipeVersions(
+    recipeId: string,
+    query: RecipeVersionDiffQueryDto,
+    companyId: string,
+  ): Promise<unknown> {
+    await this.findRecipe(recipeId, companyId);
+
+    const from = await this.findVersion(recipeId, query.from);
+    const to = await this.findVersion(recipeId, query.to);
+
+    const { lines, quantityEffect, priceEffect } = diffRecipeVersionLines(
+      from.lines as unknown as RecipeVersionLine[],
+      to.lines as unknown as RecipeVersionLine[],
+    );
+
+    return {
+      recipeId,
+      from: {
+        version: from.version,
+        yieldQuantity: from.yieldQuantity,
+        totalCost: from.totalCost,
+        costPerPortion: from.costPerPortion,
+        createdAt: from.createdAt,
+      },
+      to: {
+        version: to.version,
+        yieldQuantity: to.yieldQuantity,
+        totalCost: to.totalCost,
+        costPerPortion: to.costPerPortion,
+        createdAt: to.createdAt,
+      },
+      totalCostChange: to.totalCost.sub(from.totalCost),
+      costPerPortionChange: to.costPerPortion.sub(from.costPerPortion),
+      attribution: {
+        quantity: quantityEffect,
+        price: priceEffect,
+      },
+      lines,
+    };
+  }
+
+  /**
+   * Cost ingredient lines at each ingredient's FIFO or average unit cost
+   */
+  private async buildRecipeIngredients(
+    ingredientDtos: RecipeIngredientDto[],
+    organizationId: string,
+  ) {
+    const ingredientIds = ingredientDtos.map((ing) => ing.ingredientId);
+    const ingredients = await this.prismaService.ingredient.findMany({
+      where: {
+        id: { in: ingredientIds },
+        companyId: organizationId,
+        isActive: true,
+      },
+      include: { unitConversions: true },
+    });
+
+    if (ingredients.length !== ingredientIds.length) {
+      throw new NotFoundException('One or more ingredients not found');
+    }
+
+    return ingredientDtos.map((ingDto) => {
+      const ingredient = ingredients.find(
+        (ing) => ing.id === ingDto.ingredientId,
+      );
+      if (!ingredient) {
+        throw new NotFoundException(
+          `Ingredient ${ingDto.ingredientId} not found`,
+        );
+      }
+
+      // Use FIFO cost if available, otherwise average cost
+      const unitCost =
+        ingredient.fifoUnitCost ??
+        ingredient.averageUnitCost ??
+        new Prisma.Decimal(0);
+      const quantityUsed = new Prisma.Decimal(ingDto.quantityUsed);
+      // Ingredient costs are per ingredient unit
+      const totalCost = unitCost.mul(
+        convertToIngredientUnit(quantityUsed, ingDto.unit, ingredient),
+      );
+
+      return {
+        ingredientId: ingredient.id,
+        quantityUsed,
+        unit: ingDto.unit ? normalizeUnit(ingDto.unit) : null,
+        unitCostAtUse: unitCost,
+        totalCost,
+      };
+    });
+  }
+
+  /**
+   * Cost sub-recipe lines at each sub-recipe's cost per yield unit
+   *
+   * With `recipeId` (an existing recipe), sub-recipes that already contain
+   * it are rejected.
+   */
+  private async buildComponents(
+    componentDtos: RecipeComponentDto[],
+    organizationId: string,
+    recipeId?: string,
+  ) {
+    if (componentDtos.length === 0) {
+      return [];
+    }
+
+    const subRecipeIds = componentDtos.map((c) => c.recipeId);
+    if (new Set(subRecipeIds).size !== subRecipeIds.length) {
+      throw new BadRequestException('Each sub-recipe can only appear once');
+    }
+
+    if (recipeId) {
+      await this.assertNoCycle(recipeId, subRecipeIds);
+    }
+
+    const subRecipes = await this.prismaService.recipe.findMany({
+      where: {
+        id: { in: subRecipeIds },
+        companyId: organizationId,
+        isActive: true,
+      },
+    });
+
+    if (subRecipes.length !== subRecipeIds.length) {
+      throw new NotFoundException('One or more sub-recipes not found');
+    }
+
+    return componentDtos.map((componentDto) => {
+      const subRecipe = subRecipes.find((r) => r.id === componentDto.recipeId);
+      if (!subRecipe) {
+        throw new NotFoundException(
+          `Sub-recipe ${componentDto.recipeId} not found`,
+        );
+      }
+
+      const quantity = new Prisma.Decimal(componentDto.quantity);
+      const unitCost = subRecipe.totalCost.div(subRecipe.yieldQuantity);
+
+      return {
+        subRecipeId: subRecipe.id,
+        quantity,
+        unitCostAtUse: unitCost,
+        totalCost: unitCost.mul(quantity),
+      };
+    });
+  }
+
+  /**
+   * Reject sub-recipes that include the recipe, directly or further down
+   */
+  private async assertNoCycle(
+    recipeId: string,
+    subRecipeIds: string[],
+  ): Promise<void> {
+    const visited = new Set<string>();
+    let frontier = subRecipeIds;
+
+    while (frontier.length > 0) {
+      if (frontier.includes(recipeId)) {
+        throw new BadRequestException(
+          'A recipe cannot include itself as a sub-recipe, directly or through other sub-recipes',
+        );
+      }
+
+      frontier.forEach((id) => visited.add(id));
+
+      const children = await this.prismaService.recipeComponent.findMany({
+        where: { recipeId: { in: frontier } },
+        select: { subRecipeId: true },
+      });
+
+      frontier = [...new Set(children.map((c) => c.subRecipeId))].filter(
+        (id) => !visited.has(id),
+      );
+    }
+  }
+
+  /**
+   * Re-cost recipes that use this recipe as a sub-recipe
+   */
+  private async enqueueParentRecipeUpdates(recipeId: string): Promise<void> {
+    const parents = await this.prismaService.recipeComponent.findMany({
+      where: { subRecipeId: recipeId },
+      select: { recipeId: true },
+      distinct: ['recipeId'],
+    });
+
+    for (const parent of parents) {
+      await this.queueService.addJob(ORDARO_JOB_TYPES.RECIPE_COST_UPDATE, {
+        recipeId: parent.recipeId,
+      });
+    }
+  }
+
+  private async findRecipe(recipeId: string, companyId: string) {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const recipe = await this.prismaService.recipe.findFirst({
+      where: {
+        id: recipeId,
+        companyId: organization.id,
+      },
+    });
+
+    if (!recipe) {
+      throw new NotFoundException('Recipe not found');
+    }
+
+    return recipe;
+  }
+
+  private async findVersion(recipeId: string, version: number) {
+    const snapshot = await this.prismaService.recipeVersion.findUnique({
+      where: {
+        recipeId_version: { recipeId, version },
+      },
+    });
+
+    if (!snapshot) {
+      throw new NotFoundException(`Recipe version ${version} not found`);
+    }
+
+    return snapshot;
+  }
 }
@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  IsArray,
+  ArrayMinSize,
+  ValidateNested,
+  Min,
+} from 'class-validator';
+
+import { ReorderSuggestionsQueryDto } from './reorder-suggestions-query.dto';
+
+export class ReorderLineDto {
+  @ApiProperty({ description: 'Ingredient ID' })
+  @IsString()
+  @IsNotEmpty()
+  ingredientId!: string;
+
+  @ApiPropertyOptional({
+    description: 'Quantity to order (defaults to the suggested quantity)',
+    minimum: 0.01,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0.01)
+  quantity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Supplier to order from (defaults to the suggested supplier)',
+  })
+  @IsOptional()
+  @IsString()
+  supplierId?: string;
+}
+
+export class CreateReorderPurchaseOrdersDto extends ReorderSuggestionsQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Suggestions to order, with optional overrides (defaults to every suggestion)',
+    type: [ReorderLineDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ReorderLineDto)
+  lines?: ReorderLineDto[];
+}
@@ -0,0 +1,3 @@
+export * from './set-par-level.dto';
+export * from './reorder-suggestions-query.dto';
+export * from './create-reorder-purchase-orders.dto';
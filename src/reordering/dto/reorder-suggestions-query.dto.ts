@@ -0,0 +1,30 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+
+export class ReorderSuggestionsQueryDto {
+  @ApiProperty({ description: 'Branch to reorder for' })
+  @IsString()
+  @IsNotEmpty()
+  branchId!: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Days of consumption history to average (defaults to the company reorderWindowDays setting)',
+    minimum: 1,
+    maximum: 365,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  windowDays?: number;
+}
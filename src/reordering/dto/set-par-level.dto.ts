@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsString, IsNotEmpty, IsNumber, Min } from 'class-validator';
+
+export class SetParLevelDto {
+  @ApiProperty({ description: 'Branch ID' })
+  @IsString()
+  @IsNotEmpty()
+  branchId!: string;
+
+  @ApiProperty({ description: 'Ingredient ID' })
+  @IsString()
+  @IsNotEmpty()
+  ingredientId!: string;
+
+  @ApiProperty({
+    description:
+      "Stock to hold at the branch after each delivery, in the ingredient's unit",
+    minimum: 0,
+  })
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  parQuantity!: number;
+}
@@ -0,0 +1,4 @@
+export * from './dto';
+export * from './reordering.controller';
+export * from './reordering.module';
+export * from './reordering.service';
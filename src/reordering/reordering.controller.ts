@@ -0,0 +1,167 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Header,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+
+import { CurrentUser, Roles, requiresOrganization } from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+
+import {
+  SetParLevelDto,
+  ReorderSuggestionsQueryDto,
+  CreateReorderPurchaseOrdersDto,
+} from './dto';
+import { ReorderingService } from './reordering.service';
+
+@ApiTags('Reordering')
+@ApiBearerAuth('Auth0')
+@Controller('reordering')
+@UseGuards(Auth0Guard)
+export class ReorderingController {
+  constructor(private readonly reorderingService: ReorderingService) {}
+
+  @Put('par-levels')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Set par level',
+    description:
+      'Sets the stock an ingredient should be topped back up to at a branch',
+  })
+  @ApiResponse({ status: 200, description: 'Par level set' })
+  @ApiResponse({ status: 404, description: 'Branch or ingredient not found' })
+  setParLevel(
+    @Body() setParLevelDto: SetParLevelDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.reorderingService.setParLevel(
+      setParLevelDto,
+      user.organizationId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Get('par-levels')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'List par levels',
+    description: 'Returns par levels, optionally for one branch',
+  })
+  @ApiQuery({ name: 'branchId', required: false })
+  @ApiResponse({ status: 200, description: 'List of par levels' })
+  listParLevels(
+    @CurrentUser() user: UserPayload,
+    @Query('branchId') branchId?: string,
+  ) {
+    requiresOrganization(user);
+    return this.reorderingService.listParLevels(
+      user.organizationId,
+      branchId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Delete('par-levels/:id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Delete par level',
+    description: 'Stops reorder suggestions for the ingredient at the branch',
+  })
+  @ApiParam({ name: 'id', description: 'Par level UUID' })
+  @ApiResponse({ status: 200, description: 'Par level deleted' })
+  deleteParLevel(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.reorderingService.deleteParLevel(
+      id,
+      user.organizationId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Get('suggestions')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Get reorder suggestions',
+    description:
+      "Draft reorder list for a branch: quantities to bring each ingredient back to par, from its recent consumption, the supplier's lead time and stock already on order",
+  })
+  @ApiResponse({ status: 200, description: 'Draft reorder list' })
+  getSuggestions(
+    @CurrentUser() user: UserPayload,
+    @Query() query: ReorderSuggestionsQueryDto,
+  ) {
+    requiresOrganization(user);
+    return this.reorderingService.getReorderSuggestions(
+      user.organizationId,
+      query,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Get('suggestions/export')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @Header('Content-Type', 'text/csv')
+  @Header('Content-Disposition', 'attachment; filename="reorder.csv"')
+  @ApiOperation({
+    summary: 'Export reorder suggestions',
+    description: 'Draft reorder list for a branch as a CSV file',
+  })
+  @ApiResponse({ status: 200, description: 'CSV file' })
+  exportSuggestions(
+    @CurrentUser() user: UserPayload,
+    @Query() query: ReorderSuggestionsQueryDto,
+  ) {
+    requiresOrganization(user);
+    return this.reorderingService.exportReorderSuggestions(
+      user.organizationId,
+      query,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Post('suggestions/purchase-orders')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Create purchase orders from reorder suggestions',
+    description:
+      'Creates one purchase order per supplier from the draft reorder list, or from the given lines. Lines with no supplier are returned unordered.',
+  })
+  @ApiResponse({ status: 201, description: 'Purchase orders created' })
+  @ApiResponse({ status: 400, description: 'Nothing to reorder' })
+  createPurchaseOrders(
+    @Body() createReorderPurchaseOrdersDto: CreateReorderPurchaseOrdersDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.reorderingService.createPurchaseOrdersFromSuggestions(
+      createReorderPurchaseOrdersDto,
+      user.auth0Id,
+      user.organizationId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+}
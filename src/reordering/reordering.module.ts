@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+
+import { CommonModule } from '../common/common.module';
+import { PrismaModule } from '../database';
+import { PurchaseOrdersModule } from '../purchase-orders';
+import { CacheModule } from '../services/cache';
+
+import { ReorderingController } from './reordering.controller';
+import { ReorderingService } from './reordering.service';
+
+@Module({
+  imports: [PrismaModule, CacheModule, CommonModule, PurchaseOrdersModule],
+  controllers: [ReorderingController],
+  providers: [ReorderingService],
+  exports: [ReorderingService],
+})
+export class ReorderingModule {}
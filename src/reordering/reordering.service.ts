@@ -0,0 +1,510 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PrismaService } from '../database/prisma.service';
+import { PurchaseOrderLineDto } from '../purchase-orders/dto';
+import { PurchaseOrdersService } from '../purchase-orders/purchase-orders.service';
+import { CacheService } from '../services/cache';
+
+import {
+  SetParLevelDto,
+  ReorderSuggestionsQueryDto,
+  CreateReorderPurchaseOrdersDto,
+  ReorderLineDto,
+} from './dto';
+
+const DEFAULT_WINDOW_DAYS = 28;
+const DEFAULT_LEAD_TIME_DAYS = 1; // Assumed when a supplier has no lead time set
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReorderSuggestion {
+  ingredientId: string;
+  name: string;
+  unit: string;
+  currentStock: Prisma.Decimal;
+  onOrder: Prisma.Decimal;
+  parLevel: Prisma.Decimal;
+  dailyUsage: Prisma.Decimal;
+  daysOfCover: Prisma.Decimal | null;
+  leadTimeDays: number;
+  suggestedQuantity: Prisma.Decimal;
+  supplier: { id: string; name: string } | null;
+  unitCost: Prisma.Decimal | null;
+  estimatedCost: Prisma.Decimal | null;
+}
+
+@Injectable()
+export class ReorderingService {
+  private readonly logger = new Logger(ReorderingService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly cacheService: CacheService,
+    private readonly purchaseOrdersService: PurchaseOrdersService,
+  ) {}
+
+  /**
+   * Set an ingredient's par level at a branch
+   */
+  async setParLevel(
+    dto: SetParLevelDto,
+    companyId: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.assertBranch(organization.id, dto.branchId, allowedBranchIds);
+
+    const ingredient = await this.prismaService.ingredient.findFirst({
+      where: {
+        id: dto.ingredientId,
+        companyId: organization.id,
+        isActive: true,
+      },
+    });
+
+    if (!ingredient) {
+      throw new NotFoundException('Ingredient not found');
+    }
+
+    const parQuantity = new Prisma.Decimal(dto.parQuantity);
+    const parLevel = await this.prismaService.parLevel.upsert({
+      where: {
+        branchId_ingredientId: {
+          branchId: dto.branchId,
+          ingredientId: dto.ingredientId,
+        },
+      },
+      update: { parQuantity },
+      create: {
+        branchId: dto.branchId,
+        ingredientId: dto.ingredientId,
+        parQuantity,
+      },
+    });
+
+    this.logger.log(
+      `Par level set: ${ingredient.name} at branch ${dto.branchId} = ${parQuantity.toString()} ${ingredient.unit}`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return parLevel;
+  }
+
+  /**
+   * List par levels, optionally for one branch
+   */
+  async listParLevels(
+    companyId: string,
+    branchId?: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    if (branchId) {
+      await this.assertBranch(organization.id, branchId, allowedBranchIds);
+    }
+
+    return this.prismaService.parLevel.findMany({
+      where: {
+        branch: { organizationId: organization.id },
+        ...(branchId && { branchId }),
+        ...(!branchId &&
+          allowedBranchIds && {
+            branchId: { in: allowedBranchIds },
+          }),
+      },
+      include: {
+        branch: { select: { id: true, name: true } },
+        ingredient: { select: { id: true, name: true, unit: true } },
+      },
+      orderBy: [{ branchId: 'asc' }, { ingredient: { name: 'asc' } }],
+    });
+  }
+
+  /**
+   * Delete a par level
+   */
+  async deleteParLevel(
+    id: string,
+    companyId: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const parLevel = await this.prismaService.parLevel.findFirst({
+      where: {
+        id,
+        branch: { organizationId: organization.id },
+      },
+    });
+
+    if (!parLevel) {
+      throw new NotFoundException('Par level not found');
+    }
+
+    if (allowedBranchIds && !allowedBranchIds.includes(parLevel.branchId)) {
+      throw new ForbiddenException('You do not have access to this branch');
+    }
+
+    const result = await this.prismaService.parLevel.delete({
+      where: { id },
+    });
+
+    this.logger.log(`Par level deleted: ${id}`);
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return result;
+  }
+
+  /**
+   * Draft reorder list for a branch
+   *
+   * Daily usage is averaged from the branch's stock deductions over the
+   * window (transfers out are not consumption). Each ingredient with a par
+   * level is topped back up to par, allowing for what will be used before
+   * the cheapest supplier can deliver and for stock already on order.
+   */
+  async getReorderSuggestions(
+    companyId: string,
+    query: ReorderSuggestionsQueryDto,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const { windowDays, lines } = await this.loadSuggestions(
+      companyId,
+      query,
+      allowedBranchIds,
+    );
+
+    return {
+      branchId: query.branchId,
+      windowDays,
+      generatedAt: new Date(),
+      lines,
+      totalEstimatedCost: lines.reduce(
+        (sum, line) => sum.add(line.estimatedCost ?? 0),
+        new Prisma.Decimal(0),
+      ),
+    };
+  }
+
+  /**
+   * Draft reorder list for a branch as CSV, for purchasing to work from
+   */
+  async exportReorderSuggestions(
+    companyId: string,
+    query: ReorderSuggestionsQueryDto,
+    allowedBranchIds?: string[],
+  ): Promise<string> {
+    const { lines } = await this.loadSuggestions(
+      companyId,
+      query,
+      allowedBranchIds,
+    );
+
+    const header = [
+      'Ingredient',
+      'Unit',
+      'Current stock',
+      'On order',
+      'Par level',
+      'Daily usage',
+      'Lead time (days)',
+      'Suggested quantity',
+      'Supplier',
+      'Unit cost',
+      'Estimated cost',
+    ];
+    const rows = lines.map((line) => [
+      line.name,
+      line.unit,
+      line.currentStock.toString(),
+      line.onOrder.toString(),
+      line.parLevel.toString(),
+      line.dailyUsage.toDecimalPlaces(4).toString(),
+      String(line.leadTimeDays),
+      line.suggestedQuantity.toString(),
+      line.supplier?.name ?? '',
+      line.unitCost?.toString() ?? '',
+      line.estimatedCost?.toString() ?? '',
+    ]);
+
+    return [header, ...rows].map((row) => this.toCsvRow(row)).join('\n');
+  }
+
+  /**
+   * Turn a branch's reorder suggestions into purchase orders, one per
+   * supplier
+   *
+   * Orders every suggestion unless lines are given, which may override the
+   * quantity or supplier. Lines without a supplier are returned unordered.
+   */
+  async createPurchaseOrdersFromSuggestions(
+    dto: CreateReorderPurchaseOrdersDto,
+    creatorId: string,
+    companyId: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const { lines: suggestions } = await this.loadSuggestions(
+      companyId,
+      dto,
+      allowedBranchIds,
+    );
+
+    const selected: ReorderLineDto[] =
+      dto.lines ??
+      suggestions.map((suggestion) => ({
+        ingredientId: suggestion.ingredientId,
+      }));
+
+    const bySupplier = new Map<string, PurchaseOrderLineDto[]>();
+    const unassigned: Array<{ ingredientId: string; quantity: number }> = [];
+
+    for (const line of selected) {
+      const suggestion = suggestions.find(
+        (s) => s.ingredientId === line.ingredientId,
+      );
+      const quantity =
+        line.quantity ?? suggestion?.suggestedQuantity.toNumber();
+
+      if (quantity === undefined) {
+        throw new BadRequestException(
+          `Ingredient ${line.ingredientId} has no reorder suggestion; provide a quantity`,
+        );
+      }
+
+      const supplierId = line.supplierId ?? suggestion?.supplier?.id;
+      if (!supplierId) {
+        unassigned.push({ ingredientId: line.ingredientId, quantity });
+        continue;
+      }
+
+      const supplierLines = bySupplier.get(supplierId) ?? [];
+      supplierLines.push({ ingredientId: line.ingredientId, quantity });
+      bySupplier.set(supplierId, supplierLines);
+    }
+
+    if (bySupplier.size === 0 && unassigned.length === 0) {
+      throw new BadRequestException('Nothing to reorder');
+    }
+
+    const purchaseOrders = [];
+    for (const [supplierId, lines] of bySupplier) {
+      purchaseOrders.push(
+        await this.purchaseOrdersService.createPurchaseOrder(
+          {
+            supplierId,
+            branchId: dto.branchId,
+            lines,
+            notes: 'Created from reorder suggestions',
+          },
+          creatorId,
+          companyId,
+        ),
+      );
+    }
+
+    this.logger.log(
+      `Reorder for branch ${dto.branchId}: ${purchaseOrders.length} purchase orders, ${unassigned.length} lines without a supplier`,
+    );
+
+    return { purchaseOrders, unassigned };
+  }
+
+  private async loadSuggestions(
+    companyId: string,
+    query: ReorderSuggestionsQueryDto,
+    allowedBranchIds?: string[],
+  ): Promise<{ windowDays: number; lines: ReorderSuggestion[] }> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+      include: { settings: true },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.assertBranch(organization.id, query.branchId, allowedBranchIds);
+
+    const windowDays =
+      query.windowDays ??
+      organization.settings?.reorderWindowDays ??
+      DEFAULT_WINDOW_DAYS;
+
+    return {
+      windowDays,
+      lines: await this.buildSuggestions(query.branchId, windowDays),
+    };
+  }
+
+  private async buildSuggestions(
+    branchId: string,
+    windowDays: number,
+  ): Promise<ReorderSuggestion[]> {
+    const parLevels = await this.prismaService.parLevel.findMany({
+      where: {
+        branchId,
+        ingredient: { isActive: true },
+      },
+      include: {
+        ingredient: {
+          include: {
+            supplierIngredients: {
+              where: { supplier: { isActive: true } },
+              include: { supplier: true },
+            },
+          },
+        },
+      },
+      orderBy: { ingredient: { name: 'asc' } },
+    });
+
+    const ingredientIds = parLevels.map((p) => p.ingredientId);
+    const since = new Date(Date.now() - windowDays * DAY_MS);
+
+    const [stocks, consumption, openLines] = await Promise.all([
+      this.prismaService.branchStock.findMany({
+        where: { branchId, ingredientId: { in: ingredientIds } },
+      }),
+      this.prismaService.stockDeduction.groupBy({
+        by: ['ingredientId'],
+        where: {
+          ingredientId: { in: ingredientIds },
+          createdAt: { gte: since },
+          batch: { branchId },
+          OR: [{ reason: null }, { reason: { not: 'transfer' } }],
+        },
+        _sum: { quantityDeducted: true },
+      }),
+      this.prismaService.purchaseOrderLine.findMany({
+        where: {
+          ingredientId: { in: ingredientIds },
+          purchaseOrder: {
+            branchId,
+            status: { in: ['ORDERED', 'PARTIALLY_RECEIVED'] },
+          },
+        },
+      }),
+    ]);
+
+    const suggestions: ReorderSuggestion[] = [];
+
+    for (const { ingredient, parQuantity } of parLevels) {
+      const currentStock =
+        stocks.find((s) => s.ingredientId === ingredient.id)?.quantity ??
+        new Prisma.Decimal(0);
+      const consumed =
+        consumption.find((c) => c.ingredientId === ingredient.id)?._sum
+          .quantityDeducted ?? new Prisma.Decimal(0);
+      const onOrder = openLines
+        .filter((l) => l.ingredientId === ingredient.id)
+        .reduce(
+          (sum, l) => sum.add(l.quantity.sub(l.receivedQty)),
+          new Prisma.Decimal(0),
+        );
+      const dailyUsage = consumed.div(windowDays);
+
+      // Cheapest quote, then the quickest delivery
+      const [quote] = [...ingredient.supplierIngredients].sort(
+        (a, b) =>
+          a.unitPrice.comparedTo(b.unitPrice) ||
+          (a.supplier.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS) -
+            (b.supplier.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS),
+      );
+      const leadTimeDays =
+        quote?.supplier.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+
+      const suggestedQuantity = parQuantity
+        .add(dailyUsage.mul(leadTimeDays))
+        .sub(currentStock)
+        .sub(onOrder)
+        .toDecimalPlaces(2, Prisma.Decimal.ROUND_UP);
+
+      if (suggestedQuantity.lte(0)) {
+        continue;
+      }
+
+      suggestions.push({
+        ingredientId: ingredient.id,
+        name: ingredient.name,
+        unit: ingredient.unit,
+        currentStock,
+        onOrder,
+        parLevel: parQuantity,
+        dailyUsage,
+        daysOfCover: dailyUsage.gt(0)
+          ? currentStock.div(dailyUsage).toDecimalPlaces(1)
+          : null,
+        leadTimeDays,
+        suggestedQuantity,
+        supplier: quote
+          ? { id: quote.supplier.id, name: quote.supplier.name }
+          : null,
+        unitCost: quote?.unitPrice ?? null,
+        estimatedCost: quote
+          ? quote.unitPrice.mul(suggestedQuantity).toDecimalPlaces(2)
+          : null,
+      });
+    }
+
+    return suggestions;
+  }
+
+  private async assertBranch(
+    organizationId: string,
+    branchId: string,
+    allowedBranchIds?: string[],
+  ): Promise<void> {
+    if (allowedBranchIds && !allowedBranchIds.includes(branchId)) {
+      throw new ForbiddenException('You do not have access to this branch');
+    }
+
+    const branch = await this.prismaService.branch.findFirst({
+      where: {
+        id: branchId,
+        organizationId,
+      },
+    });
+
+    if (!branch) {
+      throw new NotFoundException('Branch not found');
+    }
+  }
+
+  private toCsvRow(values: string[]): string {
+    return values
+      .map((value) =>
+        /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value,
+      )
+      .join(',');
+  }
+}
@@ -1,3 +1,4 @@
+import { escapeHtml } from '../../../common/utils/html.util';
 import type { ClerkEmailTemplateData } from '../dto/clerk-email.dto';
 import { ClerkEmailType } from '../dto/clerk-email.dto';
 import type { EmailTemplate } from '../email.service';
@@ -333,15 +334,6 @@ function fallbackTemplate(data: ClerkEmailTemplateData): EmailTemplate {
   });
 }
 
-function escapeHtml(input: string): string {
-  return input
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
-}
-
 export function getClerkEmailTemplate(
   type: ClerkEmailType,
   data: ClerkEmailTemplateData,
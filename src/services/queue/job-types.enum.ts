@@ -12,6 +12,7 @@ export enum ORDARO_JOB_TYPES {
   SEND_AUTH0_EMAIL = 'SEND_AUTH0_EMAIL',
   SEND_CLERK_EMAIL = 'SEND_CLERK_EMAIL',
   SEND_SMS = 'SEND_SMS',
+  SEND_WHATSAPP = 'SEND_WHATSAPP',
   SEND_PUSH_NOTIFICATION = 'SEND_PUSH_NOTIFICATION',
 
   // Inventory & Sync
@@ -35,4 +36,8 @@ export enum ORDARO_JOB_TYPES {
   CONSUME_RECIPE_FOR_ORDER = 'CONSUME_RECIPE_FOR_ORDER',
   CHECK_EXPIRING_BATCHES = 'CHECK_EXPIRING_BATCHES',
   PROCESS_SYNC_QUEUE = 'PROCESS_SYNC_QUEUE',
+  APPLY_SCHEDULED_PRICE_CHANGES = 'APPLY_SCHEDULED_PRICE_CHANGES',
+  EXPIRE_LOYALTY_POINTS = 'EXPIRE_LOYALTY_POINTS',
+  DISPATCH_CAMPAIGN = 'DISPATCH_CAMPAIGN',
+  DELIVER_CAMPAIGN_MESSAGE = 'DELIVER_CAMPAIGN_MESSAGE',
 }
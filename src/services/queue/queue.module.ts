@@ -2,22 +2,31 @@ import { Module, Global, forwardRef } from '@nestjs/common';
 
 import { EmailModule } from '../email/email.module';
 import { SMSModule } from '../sms/sms.module';
+import { WhatsAppModule } from '../whatsapp/whatsapp.module';
 
 import { QueueService } from './queue.service';
+import { CampaignWorker } from './workers/campaign.worker';
 import { CostUpdateWorker } from './workers/cost-update.worker';
 import { InventoryWorker } from './workers/inventory.worker';
+import { LoyaltyWorker } from './workers/loyalty.worker';
 import { MenuCascadeWorker } from './workers/menu-cascade.worker';
 import { NotificationWorker } from './workers/notification.worker';
+import { OrderWorker } from './workers/order.worker';
+import { PricingWorker } from './workers/pricing.worker';
 
 @Global()
 @Module({
-  imports: [forwardRef(() => EmailModule), SMSModule],
+  imports: [forwardRef(() => EmailModule), SMSModule, WhatsAppModule],
   providers: [
     QueueService,
     NotificationWorker,
     CostUpdateWorker,
     MenuCascadeWorker,
     InventoryWorker,
+    PricingWorker,
+    LoyaltyWorker,
+    CampaignWorker,
+    OrderWorker,
   ],
   exports: [QueueService],
 })
@@ -19,6 +19,7 @@ export interface JobOptions {
   attempts?: number;
   removeOnComplete?: boolean | number;
   removeOnFail?: boolean | number;
+  jobId?: string; // A job with the same ID is only added once
 }
 
 @Injectable()
@@ -111,7 +112,7 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
   createWorker(
     queueName: string,
     processor: (job: Job<JobData>) => Promise<unknown>,
-    options?: WorkerOptions,
+    options?: Omit<WorkerOptions, 'connection'>,
   ): Worker {
     if (this.workers.has(queueName)) {
       this.logger.warn(`Worker ${queueName} already exists, replacing...`);
@@ -197,6 +198,7 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
       attempts?: number;
       removeOnComplete?: boolean | number;
       removeOnFail?: boolean | number;
+      jobId?: string;
     } = {};
 
     if (options?.priority !== undefined) {
@@ -214,6 +216,9 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
     if (options?.removeOnFail !== undefined) {
       jobOptions.removeOnFail = options.removeOnFail;
     }
+    if (options?.jobId !== undefined) {
+      jobOptions.jobId = options.jobId;
+    }
 
     const job = await queue.add(jobType, data, jobOptions);
 
@@ -223,6 +228,29 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
     return job;
   }
 
+  /**
+   * Create or update a repeatable job on a cron pattern
+   */
+  async scheduleJob(
+    jobType: ORDARO_JOB_TYPES,
+    pattern: string,
+    data: JobData = {},
+  ): Promise<void> {
+    const queueName = this.getQueueNameForJobType(jobType);
+    const queue = this.getQueue(queueName);
+
+    // Keyed by job type so restarts update the schedule instead of duplicating it
+    await queue.upsertJobScheduler(
+      jobType,
+      { pattern },
+      { name: jobType, data },
+    );
+
+    this.logger.log(
+      `Job ${jobType} scheduled on queue ${queueName} with pattern ${pattern}`,
+    );
+  }
+
   /**
    * Get job status
    */
@@ -307,19 +335,9 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
    * Get queue name for job type
    */
   private getQueueNameForJobType(jobType: ORDARO_JOB_TYPES): string {
-    // Map job types to queue names
-    if (jobType.startsWith('PROCESS_') || jobType.includes('ORDER')) {
-      return 'orders';
-    }
-    if (jobType.startsWith('SEND_')) {
-      return 'notifications';
-    }
-    if (jobType.startsWith('SYNC_')) {
-      return 'sync';
-    }
-    if (jobType.includes('ANALYTICS') || jobType.includes('REPORT')) {
-      return 'analytics';
-    }
+    // Map job types to queue names; explicit job types come before the name
+    // patterns, which would otherwise catch e.g. CONSUME_RECIPE_FOR_ORDER
+
     // Cost update jobs
     if (
       jobType === ORDARO_JOB_TYPES.INGREDIENT_COST_UPDATE ||
@@ -344,6 +362,35 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
     if (jobType === ORDARO_JOB_TYPES.PROCESS_SYNC_QUEUE) {
       return 'sync';
     }
+    // Pricing jobs
+    if (jobType === ORDARO_JOB_TYPES.APPLY_SCHEDULED_PRICE_CHANGES) {
+      return 'pricing';
+    }
+    // Loyalty jobs
+    if (jobType === ORDARO_JOB_TYPES.EXPIRE_LOYALTY_POINTS) {
+      return 'loyalty';
+    }
+    // Campaign jobs
+    if (
+      jobType === ORDARO_JOB_TYPES.DISPATCH_CAMPAIGN ||
+      jobType === ORDARO_JOB_TYPES.DELIVER_CAMPAIGN_MESSAGE
+    ) {
+      return 'campaigns';
+    }
+
+    // Remaining job types by name
+    if (jobType.startsWith('PROCESS_') || jobType.includes('ORDER')) {
+      return 'orders';
+    }
+    if (jobType.startsWith('SEND_')) {
+      return 'notifications';
+    }
+    if (jobType.startsWith('SYNC_')) {
+      return 'sync';
+    }
+    if (jobType.includes('ANALYTICS') || jobType.includes('REPORT')) {
+      return 'analytics';
+    }
     return 'default';
   }
 }
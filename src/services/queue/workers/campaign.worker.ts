@@ -0,0 +1,74 @@
+import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { Job } from 'bullmq';
+
+import { CampaignsService } from '../../../campaigns/campaigns.service';
+import { ORDARO_JOB_TYPES } from '../job-types.enum';
+import { QueueService, JobData } from '../queue.service';
+
+// Keeps promotions within provider rate limits and spreads load on large segments
+const CAMPAIGN_MESSAGES_PER_MINUTE = 60;
+
+@Injectable()
+export class CampaignWorker implements OnModuleInit {
+  private readonly logger = new Logger(CampaignWorker.name);
+
+  constructor(
+    private readonly queueService: QueueService,
+    private readonly moduleRef: ModuleRef,
+  ) {}
+
+  onModuleInit() {
+    // Create a rate-limited worker for the campaigns queue
+    this.queueService.createWorker(
+      'campaigns',
+      async (job: Job<JobData>) => {
+        return this.processCampaignJob(job);
+      },
+      {
+        limiter: { max: CAMPAIGN_MESSAGES_PER_MINUTE, duration: 60_000 },
+      },
+    );
+
+    this.logger.log('Campaign worker initialized');
+  }
+
+  private async processCampaignJob(job: Job<JobData>): Promise<unknown> {
+    const attemptNumber = (job.attemptsMade ?? 0) + 1;
+    const maxAttempts = job.opts.attempts ?? 3;
+
+    this.logger.log(
+      `Processing campaign job ${job.id ?? 'unknown'} (${job.name ?? 'unknown'}) - Attempt ${attemptNumber}/${maxAttempts}`,
+    );
+
+    try {
+      const jobName = job.name as ORDARO_JOB_TYPES;
+      const campaignsService = this.moduleRef.get(CampaignsService, {
+        strict: false,
+      });
+
+      switch (jobName) {
+        case ORDARO_JOB_TYPES.DISPATCH_CAMPAIGN: {
+          const { campaignId } = job.data as { campaignId: string };
+          return await campaignsService.dispatchCampaign(campaignId);
+        }
+
+        case ORDARO_JOB_TYPES.DELIVER_CAMPAIGN_MESSAGE: {
+          const { notificationId } = job.data as { notificationId: string };
+          return await campaignsService.deliverCampaignMessage(
+            notificationId,
+            attemptNumber >= maxAttempts,
+          );
+        }
+
+        default:
+          throw new Error(`Unknown job type: ${jobName}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error processing campaign job ${job.id ?? 'unknown'}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw error;
+    }
+  }
+}
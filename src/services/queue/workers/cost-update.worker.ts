@@ -3,6 +3,12 @@ import { Job } from 'bullmq';
 
 import { Prisma } from '../../../../generated/prisma';
 import { PrismaService } from '../../../database/prisma.service';
+import {
+  computeComboCost,
+  refreshModifierCosts,
+} from '../../../menu/menu-costing';
+import { recordRecipeVersion } from '../../../recipes/recipe-versions';
+import { convertToIngredientUnit } from '../../../units/unit-conversion';
 import { ORDARO_JOB_TYPES } from '../job-types.enum';
 import { QueueService, JobData } from '../queue.service';
 
@@ -64,11 +70,36 @@ export class CostUpdateWorker implements OnModuleInit {
             );
           }
 
+          // Modifiers add or remove the ingredient outside any recipe
+          const modifierMenuItems = await this.prismaService.menuItem.findMany({
+            where: {
+              isActive: true,
+              modifierGroups: {
+                some: {
+                  modifiers: {
+                    some: { ingredients: { some: { ingredientId } } },
+                  },
+                },
+              },
+            },
+            select: { id: true },
+          });
+
+          for (const menuItem of modifierMenuItems) {
+            await this.queueService.addJob(ORDARO_JOB_TYPES.MENU_COST_UPDATE, {
+              menuItemId: menuItem.id,
+            });
+          }
+
           this.logger.log(
-            `Ingredient cost update: ${ingredientId} affects ${recipeIngredients.length} recipes`,
+            `Ingredient cost update: ${ingredientId} affects ${recipeIngredients.length} recipes and ${modifierMenuItems.length} menu items through modifiers`,
           );
 
-          return { ingredientId, affectedRecipes: recipeIngredients.length };
+          return {
+            ingredientId,
+            affectedRecipes: recipeIngredients.length,
+            affectedMenuItems: modifierMenuItems.length,
+          };
         }
 
         case ORDARO_JOB_TYPES.RECIPE_COST_UPDATE: {
@@ -83,9 +114,14 @@ export class CostUpdateWorker implements OnModuleInit {
             include: {
               recipeIngredients: {
                 include: {
-                  ingredient: true,
+                  ingredient: {
+                    include: { unitConversions: true },
+                  },
                 },
               },
+              components: {
+                include: { subRecipe: true },
+              },
             },
           });
 
@@ -93,37 +129,73 @@ export class CostUpdateWorker implements OnModuleInit {
             throw new Error(`Recipe not found: ${recipeId}`);
           }
 
-          // Recalculate costs
-          let totalCost = new Prisma.Decimal(0);
-
-          for (const ri of recipe.recipeIngredients) {
-            const currentUnitCost =
-              ri.ingredient.fifoUnitCost ??
-              ri.ingredient.averageUnitCost ??
-              new Prisma.Decimal(0);
-            const ingredientTotalCost = currentUnitCost.mul(ri.quantityUsed);
-
-            // Update recipe ingredient with new cost snapshot
-            await this.prismaService.recipeIngredient.update({
-              where: { id: ri.id },
-              data: {
-                unitCostAtUse: currentUnitCost,
-                totalCost: ingredientTotalCost,
-              },
-            });
+          // Recalculate and snapshot in one transaction, so the version is
+          // bumped atomically with the lines it describes
+          const { version, totalCost } = await this.prismaService.$transaction(
+            async (tx) => {
+              // Recalculate costs
+              let totalCost = new Prisma.Decimal(0);
+
+              for (const ri of recipe.recipeIngredients) {
+                const currentUnitCost =
+                  ri.ingredient.fifoUnitCost ??
+                  ri.ingredient.averageUnitCost ??
+                  new Prisma.Decimal(0);
+                const ingredientTotalCost = currentUnitCost.mul(
+                  convertToIngredientUnit(
+                    ri.quantityUsed,
+                    ri.unit,
+                    ri.ingredient,
+                  ),
+                );
+
+                // Update recipe ingredient with new cost snapshot
+                await tx.recipeIngredient.update({
+                  where: { id: ri.id },
+                  data: {
+                    unitCostAtUse: currentUnitCost,
+                    totalCost: ingredientTotalCost,
+                  },
+                });
+
+                totalCost = totalCost.add(ingredientTotalCost);
+              }
+
+              // Sub-recipes roll up at their current cost per yield unit
+              for (const component of recipe.components) {
+                const subRecipeUnitCost = component.subRecipe.totalCost.div(
+                  component.subRecipe.yieldQuantity,
+                );
+                const componentTotalCost = subRecipeUnitCost.mul(
+                  component.quantity,
+                );
+
+                await tx.recipeComponent.update({
+                  where: { id: component.id },
+                  data: {
+                    unitCostAtUse: subRecipeUnitCost,
+                    totalCost: componentTotalCost,
+                  },
+                });
+
+                totalCost = totalCost.add(componentTotalCost);
+              }
+
+              // Update recipe
+              const updated = await tx.recipe.update({
+                where: { id: recipeId },
+                data: {
+                  totalCost,
+                  costPerPortion: totalCost.div(recipe.yieldQuantity),
+                  version: { increment: 1 },
+                },
+              });
 
-            totalCost = totalCost.add(ingredientTotalCost);
-          }
+              await recordRecipeVersion(tx, recipeId, 'Cost update');
 
-          // Update recipe
-          const version = recipe.version + 1;
-          await this.prismaService.recipe.update({
-            where: { id: recipeId },
-            data: {
-              totalCost,
-              version,
+              return { version: updated.version, totalCost };
             },
-          });
+          );
 
           // Find all menu items using this recipe
           const menuItems = await this.prismaService.menuItem.findMany({
@@ -141,8 +213,26 @@ export class CostUpdateWorker implements OnModuleInit {
             });
           }
 
+          // Cascade to recipes using this one as a sub-recipe (cycles are
+          // rejected when recipes are saved, so this terminates)
+          const parentRecipes =
+            await this.prismaService.recipeComponent.findMany({
+              where: { subRecipeId: recipeId },
+              select: { recipeId: true },
+              distinct: ['recipeId'],
+            });
+
+          for (const parent of parentRecipes) {
+            await this.queueService.addJob(
+              ORDARO_JOB_TYPES.RECIPE_COST_UPDATE,
+              {
+                recipeId: parent.recipeId,
+              },
+            );
+          }
+
           this.logger.log(
-            `Recipe cost update: ${recipeId} (v${version}), affects ${menuItems.length} menu items`,
+            `Recipe cost update: ${recipeId} (v${version}), affects ${menuItems.length} menu items and ${parentRecipes.length} parent recipes`,
           );
 
           return {
@@ -150,6 +240,7 @@ export class CostUpdateWorker implements OnModuleInit {
             version,
             totalCost,
             affectedMenuItems: menuItems.length,
+            affectedParentRecipes: parentRecipes.length,
           };
         }
 
@@ -166,21 +257,37 @@ export class CostUpdateWorker implements OnModuleInit {
             },
           });
 
-          if (!menuItem || !menuItem.recipe) {
+          if (!menuItem) {
+            this.logger.warn(`Menu item ${menuItemId} not found`);
+            return { menuItemId, skipped: true };
+          }
+
+          const modifiers = await refreshModifierCosts(
+            this.prismaService,
+            menuItemId,
+          );
+
+          // Combos are costed from their components
+          let itemCost: Prisma.Decimal | null = null;
+          if (menuItem.type === 'COMBO') {
+            itemCost = await computeComboCost(this.prismaService, menuItemId);
+          } else if (menuItem.recipe) {
+            // Compute: (recipe.totalCost / recipe.yieldQuantity) * portionMultiplier
+            itemCost = menuItem.recipe.totalCost
+              .div(menuItem.recipe.yieldQuantity)
+              .mul(menuItem.portionMultiplier);
+          }
+
+          if (itemCost === null) {
             this.logger.warn(
-              `Menu item ${menuItemId} not found or has no recipe`,
+              `Menu item ${menuItemId} has no recipe or uncosted combo components`,
             );
             return { menuItemId, skipped: true };
           }
 
-          const recipe = menuItem.recipe;
-          const portionMultiplier = menuItem.portionMultiplier;
-          const basePrice = menuItem.basePrice;
-
-          // Compute: menuComputedCost = (recipe.totalCost / recipe.yieldQuantity) * portionMultiplier
-          const computedCost = recipe.totalCost
-            .div(recipe.yieldQuantity)
-            .mul(portionMultiplier);
+          // Baseline modifiers (defaults and required choices) are part of the item
+          const basePrice = menuItem.basePrice.add(modifiers.priceDelta);
+          const computedCost = itemCost.add(modifiers.costDelta);
 
           // Compute margin = (basePrice - computedCost) / basePrice
           let margin: Prisma.Decimal | null = null;
@@ -218,11 +325,33 @@ export class CostUpdateWorker implements OnModuleInit {
             }
           }
 
+          // Cascade to combos offering this item (combos can't contain
+          // combos, so this stops after one level)
+          const combos =
+            menuItem.type === 'SINGLE'
+              ? await this.prismaService.comboSlot.findMany({
+                  where: { options: { some: { menuItemId } } },
+                  select: { comboItemId: true },
+                  distinct: ['comboItemId'],
+                })
+              : [];
+
+          for (const combo of combos) {
+            await this.queueService.addJob(ORDARO_JOB_TYPES.MENU_COST_UPDATE, {
+              menuItemId: combo.comboItemId,
+            });
+          }
+
           this.logger.log(
-            `Menu cost update: ${menuItemId}, computedCost: ${computedCost.toString()}, margin: ${margin?.toString() ?? 'null'}`,
+            `Menu cost update: ${menuItemId}, computedCost: ${computedCost.toString()}, margin: ${margin?.toString() ?? 'null'}, affects ${combos.length} combos`,
           );
 
-          return { menuItemId, computedCost, margin };
+          return {
+            menuItemId,
+            computedCost,
+            margin,
+            affectedCombos: combos.length,
+          };
         }
 
         default:
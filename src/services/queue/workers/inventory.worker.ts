@@ -1,8 +1,11 @@
 import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
 import { Job } from 'bullmq';
 
 import { Prisma } from '../../../../generated/prisma';
 import { PrismaService } from '../../../database/prisma.service';
+import { InventoryService } from '../../../inventory/inventory.service';
+import { ExpiryService } from '../../../inventory/services/expiry.service';
 import { ORDARO_JOB_TYPES } from '../job-types.enum';
 import { QueueService, JobData } from '../queue.service';
 
@@ -13,6 +16,7 @@ export class InventoryWorker implements OnModuleInit {
   constructor(
     private readonly queueService: QueueService,
     private readonly prismaService: PrismaService,
+    private readonly moduleRef: ModuleRef,
   ) {}
 
   onModuleInit() {
@@ -21,6 +25,15 @@ export class InventoryWorker implements OnModuleInit {
       return this.processInventoryJob(job);
     });
 
+    // Scan for expiring batches every hour; each batch is only warned once
+    this.queueService
+      .scheduleJob(ORDARO_JOB_TYPES.CHECK_EXPIRING_BATCHES, '0 * * * *')
+      .catch((error: unknown) => {
+        this.logger.error(
+          `Failed to schedule expiring batch check: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      });
+
     this.logger.log('Inventory worker initialized');
   }
 
@@ -113,12 +126,43 @@ export class InventoryWorker implements OnModuleInit {
         }
 
         case ORDARO_JOB_TYPES.CONSUME_RECIPE_FOR_ORDER: {
-          // This will be implemented when OrderService is integrated
           const orderId = data['orderId'] as string;
+          const companyId = data['companyId'] as string;
+          if (!orderId || !companyId) {
+            throw new Error('orderId and companyId are required');
+          }
+
+          // Resolved lazily: InventoryModule depends on the global QueueModule
+          const inventoryService = this.moduleRef.get(InventoryService, {
+            strict: false,
+          });
+          const result = await inventoryService.consumeRecipeForOrder(
+            orderId,
+            companyId,
+          );
+
+          this.logger.log(
+            `Recipe consumption processed for order ${orderId}, COGS: ${result.totalCost.toString()}`,
+          );
+
+          return {
+            orderId,
+            totalCost: result.totalCost.toString(),
+            alreadyConsumed: result.alreadyConsumed,
+          };
+        }
+
+        case ORDARO_JOB_TYPES.CHECK_EXPIRING_BATCHES: {
+          const expiryService = this.moduleRef.get(ExpiryService, {
+            strict: false,
+          });
+          const result = await expiryService.sendExpiryWarnings();
+
           this.logger.log(
-            `Recipe consumption for order ${orderId} - to be implemented with OrderService integration`,
+            `Expiring batch check processed: ${result.batches} batches, ${result.notifications} notifications`,
           );
-          return { orderId, message: 'To be implemented with OrderService' };
+
+          return result;
         }
 
         default:
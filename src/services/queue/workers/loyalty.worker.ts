@@ -0,0 +1,74 @@
+import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { Job } from 'bullmq';
+
+import { LoyaltyPointsService } from '../../../loyalty/loyalty-points.service';
+import { ORDARO_JOB_TYPES } from '../job-types.enum';
+import { QueueService, JobData } from '../queue.service';
+
+@Injectable()
+export class LoyaltyWorker implements OnModuleInit {
+  private readonly logger = new Logger(LoyaltyWorker.name);
+
+  constructor(
+    private readonly queueService: QueueService,
+    private readonly moduleRef: ModuleRef,
+  ) {}
+
+  onModuleInit() {
+    // Create worker for loyalty queue
+    this.queueService.createWorker('loyalty', async (job: Job<JobData>) => {
+      return this.processLoyaltyJob(job);
+    });
+
+    // Expire loyalty points daily at 02:00
+    this.queueService
+      .scheduleJob(ORDARO_JOB_TYPES.EXPIRE_LOYALTY_POINTS, '0 2 * * *')
+      .catch((error: unknown) => {
+        this.logger.error(
+          `Failed to schedule loyalty points expiry: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      });
+
+    this.logger.log('Loyalty worker initialized');
+  }
+
+  private async processLoyaltyJob(job: Job<JobData>): Promise<unknown> {
+    const attemptNumber = (job.attemptsMade ?? 0) + 1;
+    const maxAttempts = job.opts.attempts ?? 3;
+
+    this.logger.log(
+      `Processing loyalty job ${job.id ?? 'unknown'} (${job.name ?? 'unknown'}) - Attempt ${attemptNumber}/${maxAttempts}`,
+    );
+
+    try {
+      const jobName = job.name as ORDARO_JOB_TYPES;
+
+      switch (jobName) {
+        case ORDARO_JOB_TYPES.EXPIRE_LOYALTY_POINTS: {
+          const loyaltyPointsService = this.moduleRef.get(
+            LoyaltyPointsService,
+            { strict: false },
+          );
+          const result = await loyaltyPointsService.expireDuePoints();
+
+          if (result.expired > 0) {
+            this.logger.log(
+              `Loyalty point earnings expired: ${result.expired}`,
+            );
+          }
+
+          return result;
+        }
+
+        default:
+          throw new Error(`Unknown job type: ${jobName}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error processing loyalty job ${job.id ?? 'unknown'}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw error;
+    }
+  }
+}
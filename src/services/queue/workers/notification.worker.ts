@@ -1,6 +1,7 @@
 import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
 
+import { PrismaService } from '../../../database/prisma.service';
 import {
   Auth0EmailType,
   Auth0UserDto,
@@ -13,6 +14,7 @@ import {
 } from '../../email/dto/clerk-email.dto';
 import { EmailService } from '../../email/email.service';
 import { SMSService } from '../../sms/sms.service';
+import { WhatsAppService } from '../../whatsapp/whatsapp.service';
 import { ORDARO_JOB_TYPES } from '../job-types.enum';
 import { QueueService, JobData } from '../queue.service';
 
@@ -24,6 +26,8 @@ export class NotificationWorker implements OnModuleInit {
     private readonly queueService: QueueService,
     private readonly emailService: EmailService,
     private readonly smsService: SMSService,
+    private readonly whatsAppService: WhatsAppService,
+    private readonly prismaService: PrismaService,
   ) {}
 
   onModuleInit() {
@@ -63,6 +67,9 @@ export class NotificationWorker implements OnModuleInit {
         case ORDARO_JOB_TYPES.SEND_SMS:
           result = await this.handleSendSMS(job.data);
           break;
+        case ORDARO_JOB_TYPES.SEND_WHATSAPP:
+          result = await this.handleSendWhatsApp(job.data);
+          break;
         case ORDARO_JOB_TYPES.SEND_INVITATION_EMAIL:
           result = await this.handleSendInvitationEmail(job.data);
           break;
@@ -75,6 +82,8 @@ export class NotificationWorker implements OnModuleInit {
           );
       }
 
+      await this.recordNotificationResult(job.data, result);
+
       this.logger.log(
         `Job ${job.id ?? 'unknown'} completed successfully on attempt ${attemptNumber}`,
       );
@@ -94,6 +103,10 @@ export class NotificationWorker implements OnModuleInit {
         this.logger.error(
           `Job ${job.id ?? 'unknown'} failed after ${maxAttempts} attempts. Marking as failed.`,
         );
+        await this.recordNotificationResult(job.data, {
+          success: false,
+          error: errorMessage,
+        });
       }
 
       throw error;
@@ -157,6 +170,65 @@ export class NotificationWorker implements OnModuleInit {
     return this.smsService.sendSMS(phoneNumber, message);
   }
 
+  private async handleSendWhatsApp(data: JobData): Promise<unknown> {
+    const { phoneNumber, template, parameters, languageCode } = data as {
+      phoneNumber: string;
+      template: string;
+      parameters?: string[];
+      languageCode?: string;
+    };
+
+    const result = await this.whatsAppService.sendTemplate(phoneNumber, {
+      name: template,
+      parameters: parameters ?? [],
+      ...(languageCode && { languageCode }),
+    });
+
+    // Throw so the queue retries; the notification is marked failed only
+    // once attempts are exhausted
+    if (!result.success) {
+      throw new Error(result.error ?? 'WhatsApp message failed');
+    }
+
+    return result;
+  }
+
+  /**
+   * Mark the CustomerNotification a job delivers as sent or failed
+   */
+  private async recordNotificationResult(
+    data: JobData,
+    result: unknown,
+  ): Promise<void> {
+    const notificationId = data['notificationId'];
+    if (typeof notificationId !== 'string') {
+      return;
+    }
+
+    const { success, error } = (result ?? {}) as {
+      success?: boolean;
+      error?: string;
+    };
+
+    try {
+      await this.prismaService.customerNotification.update({
+        where: { id: notificationId },
+        data:
+          success === false
+            ? {
+                status: 'FAILED',
+                failedAt: new Date(),
+                errorMessage: error ?? 'Delivery failed',
+              }
+            : { status: 'SENT', sentAt: new Date() },
+      });
+    } catch (updateError) {
+      this.logger.warn(
+        `Failed to record status of notification ${notificationId}: ${updateError instanceof Error ? updateError.message : String(updateError)}`,
+      );
+    }
+  }
+
   private async handleSendInvitationEmail(data: JobData): Promise<unknown> {
     const { email, invitationUrl, inviterName, organizationName } = data as {
       email: string;
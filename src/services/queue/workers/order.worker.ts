@@ -0,0 +1,66 @@
+import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { Job } from 'bullmq';
+
+import type { WhatsAppOrderMessageJob } from '../../../whatsapp-ordering/dto';
+import { WhatsAppOrderingService } from '../../../whatsapp-ordering/whatsapp-ordering.service';
+import { ORDARO_JOB_TYPES } from '../job-types.enum';
+import { QueueService, JobData } from '../queue.service';
+
+@Injectable()
+export class OrderWorker implements OnModuleInit {
+  private readonly logger = new Logger(OrderWorker.name);
+
+  constructor(
+    private readonly queueService: QueueService,
+    private readonly moduleRef: ModuleRef,
+  ) {}
+
+  onModuleInit() {
+    // Create worker for orders queue; one job at a time so a customer's
+    // messages advance their conversation in the order they were sent
+    this.queueService.createWorker(
+      'orders',
+      async (job: Job<JobData>) => {
+        return this.processOrderJob(job);
+      },
+      { concurrency: 1 },
+    );
+
+    this.logger.log('Order worker initialized');
+  }
+
+  private async processOrderJob(job: Job<JobData>): Promise<unknown> {
+    const attemptNumber = (job.attemptsMade ?? 0) + 1;
+    const maxAttempts = job.opts.attempts ?? 3;
+
+    this.logger.log(
+      `Processing order job ${job.id ?? 'unknown'} (${job.name ?? 'unknown'}) - Attempt ${attemptNumber}/${maxAttempts}`,
+    );
+
+    try {
+      const jobName = job.name as ORDARO_JOB_TYPES;
+
+      switch (jobName) {
+        case ORDARO_JOB_TYPES.PROCESS_WHATSAPP_ORDER: {
+          const whatsAppOrderingService = this.moduleRef.get(
+            WhatsAppOrderingService,
+            { strict: false },
+          );
+          await whatsAppOrderingService.handleInboundMessage(
+            job.data as unknown as WhatsAppOrderMessageJob,
+          );
+          return { processed: true };
+        }
+
+        default:
+          throw new Error(`Unknown job type: ${jobName}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error processing order job ${job.id ?? 'unknown'}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw error;
+    }
+  }
+}
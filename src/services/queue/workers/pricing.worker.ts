@@ -0,0 +1,75 @@
+import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { Job } from 'bullmq';
+
+import { ScheduledPriceChangesService } from '../../../pricing/scheduled-price-changes.service';
+import { ORDARO_JOB_TYPES } from '../job-types.enum';
+import { QueueService, JobData } from '../queue.service';
+
+@Injectable()
+export class PricingWorker implements OnModuleInit {
+  private readonly logger = new Logger(PricingWorker.name);
+
+  constructor(
+    private readonly queueService: QueueService,
+    private readonly moduleRef: ModuleRef,
+  ) {}
+
+  onModuleInit() {
+    // Create worker for pricing queue
+    this.queueService.createWorker('pricing', async (job: Job<JobData>) => {
+      return this.processPricingJob(job);
+    });
+
+    // Apply scheduled price changes every minute
+    this.queueService
+      .scheduleJob(ORDARO_JOB_TYPES.APPLY_SCHEDULED_PRICE_CHANGES, '* * * * *')
+      .catch((error: unknown) => {
+        this.logger.error(
+          `Failed to schedule price change application: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      });
+
+    this.logger.log('Pricing worker initialized');
+  }
+
+  private async processPricingJob(job: Job<JobData>): Promise<unknown> {
+    const attemptNumber = (job.attemptsMade ?? 0) + 1;
+    const maxAttempts = job.opts.attempts ?? 3;
+
+    this.logger.log(
+      `Processing pricing job ${job.id ?? 'unknown'} (${job.name ?? 'unknown'}) - Attempt ${attemptNumber}/${maxAttempts}`,
+    );
+
+    try {
+      const jobName = job.name as ORDARO_JOB_TYPES;
+
+      switch (jobName) {
+        case ORDARO_JOB_TYPES.APPLY_SCHEDULED_PRICE_CHANGES: {
+          const scheduledPriceChangesService = this.moduleRef.get(
+            ScheduledPriceChangesService,
+            { strict: false },
+          );
+          const result =
+            await scheduledPriceChangesService.applyDuePriceChanges();
+
+          if (result.applied > 0) {
+            this.logger.log(
+              `Scheduled price changes applied: ${result.applied}`,
+            );
+          }
+
+          return result;
+        }
+
+        default:
+          throw new Error(`Unknown job type: ${jobName}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error processing pricing job ${job.id ?? 'unknown'}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw error;
+    }
+  }
+}
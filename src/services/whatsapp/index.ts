@@ -0,0 +1,3 @@
+export { WhatsAppService } from './whatsapp.service';
+export { WhatsAppModule } from './whatsapp.module';
+export type { WhatsAppOptions, WhatsAppTemplate } from './whatsapp.service';
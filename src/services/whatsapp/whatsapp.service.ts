@@ -0,0 +1,249 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+
+export interface WhatsAppTemplate {
+  name: string; // Approved template name, e.g. order_ready
+  parameters: string[]; // Values for the template body's {{1}}, {{2}}, ...
+  languageCode?: string;
+}
+
+export interface WhatsAppProvider {
+  sendTemplate(phoneNumber: string, template: WhatsAppTemplate): Promise<void>;
+  sendText(phoneNumber: string, text: string): Promise<void>;
+}
+
+export interface WhatsAppOptions {
+  provider?: 'cloud' | 'mock';
+  phoneNumberId?: string; // Send from this number instead of the default
+}
+
+@Injectable()
+export class WhatsAppService {
+  private readonly logger = new Logger(WhatsAppService.name);
+  private readonly provider: WhatsAppProvider;
+  private readonly defaultProvider: 'cloud' | 'mock';
+
+  constructor(private readonly configService: ConfigService) {
+    this.defaultProvider =
+      (this.configService.get<string>('app.whatsapp.provider') as
+        | 'cloud'
+        | 'mock') || 'mock';
+
+    this.provider = this.createProvider(this.defaultProvider);
+  }
+
+  /**
+   * Send a pre-approved template message
+   *
+   * Businesses may only start a WhatsApp conversation with a template.
+   */
+  async sendTemplate(
+    phoneNumber: string,
+    template: WhatsAppTemplate,
+    options?: WhatsAppOptions,
+  ): Promise<{ success: boolean; error?: string }> {
+    return this.deliver(phoneNumber, options, (provider, to) =>
+      provider.sendTemplate(to, template),
+    );
+  }
+
+  /**
+   * Send a free-form text message
+   *
+   * Only delivered within 24 hours of the customer's last message.
+   */
+  async sendText(
+    phoneNumber: string,
+    text: string,
+    options?: WhatsAppOptions,
+  ): Promise<{ success: boolean; error?: string }> {
+    return this.deliver(phoneNumber, options, (provider, to) =>
+      provider.sendText(to, text),
+    );
+  }
+
+  private async deliver(
+    phoneNumber: string,
+    options: WhatsAppOptions | undefined,
+    send: (provider: WhatsAppProvider, to: string) => Promise<void>,
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const normalizedPhone = this.normalizePhoneNumber(phoneNumber);
+      const provider =
+        options?.provider || options?.phoneNumberId
+          ? this.createProvider(
+              options.provider ?? this.defaultProvider,
+              options.phoneNumberId,
+            )
+          : this.provider;
+
+      await send(provider, normalizedPhone);
+      this.logger.log(`WhatsApp message sent to ${normalizedPhone}`);
+
+      return { success: true };
+    } catch (error) {
+      this.logger.error(
+        `Failed to send WhatsApp message to ${phoneNumber}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Normalize phone number to international format without the leading +
+   */
+  private normalizePhoneNumber(phone: string): string {
+    // Remove all non-digit characters
+    let cleaned = phone.replace(/\D/g, '');
+
+    // Handle Ghana numbers (convert 0XXX to 233XXX)
+    if (cleaned.startsWith('0') && cleaned.length === 10) {
+      cleaned = '233' + cleaned.substring(1);
+    } else if (cleaned.length === 9) {
+      // Assume Ghana number without country code
+      cleaned = '233' + cleaned;
+    }
+
+    return cleaned;
+  }
+
+  /**
+   * Create WhatsApp provider instance
+   */
+  private createProvider(
+    provider: 'cloud' | 'mock',
+    phoneNumberId?: string,
+  ): WhatsAppProvider {
+    switch (provider) {
+      case 'cloud':
+        return new CloudApiProvider(
+          this.configService,
+          this.logger,
+          phoneNumberId,
+        );
+      case 'mock':
+        return new MockWhatsAppProvider(this.logger);
+      default:
+        throw new Error(`Unsupported WhatsApp provider: ${String(provider)}`);
+    }
+  }
+}
+
+/**
+ * WhatsApp Business Cloud API Provider
+ */
+class CloudApiProvider implements WhatsAppProvider {
+  private readonly accessToken: string;
+  private readonly phoneNumberId: string;
+  private readonly languageCode: string;
+  private readonly client: AxiosInstance;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: Logger,
+    phoneNumberId?: string,
+  ) {
+    this.accessToken =
+      this.configService.get<string>('app.whatsapp.accessToken') ||
+      process.env['WHATSAPP_ACCESS_TOKEN'] ||
+      '';
+    this.phoneNumberId =
+      phoneNumberId ||
+      this.configService.get<string>('app.whatsapp.phoneNumberId') ||
+      process.env['WHATSAPP_PHONE_NUMBER_ID'] ||
+      '';
+    this.languageCode =
+      this.configService.get<string>('app.whatsapp.templateLanguage') || 'en';
+
+    const apiVersion =
+      this.configService.get<string>('app.whatsapp.apiVersion') || 'v21.0';
+
+    this.client = axios.create({
+      baseURL: `https://graph.facebook.com/${apiVersion}/${this.phoneNumberId}`,
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      timeout: 10000,
+    });
+  }
+
+  async sendTemplate(
+    phoneNumber: string,
+    template: WhatsAppTemplate,
+  ): Promise<void> {
+    await this.post({
+      messaging_product: 'whatsapp',
+      to: phoneNumber,
+      type: 'template',
+      template: {
+        name: template.name,
+        language: { code: template.languageCode ?? this.languageCode },
+        components: template.parameters.length
+          ? [
+              {
+                type: 'body',
+                parameters: template.parameters.map((text) => ({
+                  type: 'text',
+                  text,
+                })),
+              },
+            ]
+          : [],
+      },
+    });
+  }
+
+  async sendText(phoneNumber: string, text: string): Promise<void> {
+    await this.post({
+      messaging_product: 'whatsapp',
+      to: phoneNumber,
+      type: 'text',
+      text: { body: text },
+    });
+  }
+
+  private async post(payload: Record<string, unknown>): Promise<void> {
+    if (!this.accessToken || !this.phoneNumberId) {
+      throw new Error('WhatsApp Cloud API credentials not configured');
+    }
+
+    try {
+      const response = await this.client.post('/messages', payload);
+
+      this.logger.debug(
+        `WhatsApp message sent: ${JSON.stringify(response.data?.messages)}`,
+      );
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          `WhatsApp Cloud API request failed: ${error.response?.data?.error?.message || error.message}`,
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Local WhatsApp Provider that logs messages instead of sending them
+ */
+class MockWhatsAppProvider implements WhatsAppProvider {
+  constructor(private readonly logger: Logger) {}
+
+  sendTemplate(phoneNumber: string, template: WhatsAppTemplate): Promise<void> {
+    this.logger.log(
+      `[mock] WhatsApp template ${template.name} to ${phoneNumber}: ${template.parameters.join(' | ')}`,
+    );
+    return Promise.resolve();
+  }
+
+  sendText(phoneNumber: string, text: string): Promise<void> {
+    this.logger.log(`[mock] WhatsApp text to ${phoneNumber}: ${text}`);
+    return Promise.resolve();
+  }
+}
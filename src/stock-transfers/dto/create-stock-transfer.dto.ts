@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  ArrayMinSize,
+  ValidateNested,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class StockTransferItemDto {
+  @ApiProperty({ description: 'Ingredient ID' })
+  @IsString()
+  @IsNotEmpty()
+  ingredientId!: string;
+
+  @ApiProperty({ description: 'Quantity to transfer', minimum: 0.01 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0.01)
+  quantity!: number;
+}
+
+export class CreateStockTransferDto {
+  @ApiProperty({ description: 'Source branch ID' })
+  @IsString()
+  @IsNotEmpty()
+  fromBranchId!: string;
+
+  @ApiProperty({ description: 'Destination branch ID' })
+  @IsString()
+  @IsNotEmpty()
+  toBranchId!: string;
+
+  @ApiProperty({
+    description: 'Ingredients to transfer',
+    type: [StockTransferItemDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => StockTransferItemDto)
+  items!: StockTransferItemDto[];
+
+  @ApiPropertyOptional({ description: 'Notes', maxLength: 500 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
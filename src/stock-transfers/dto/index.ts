@@ -0,0 +1,3 @@
+export * from './create-stock-transfer.dto';
+export * from './receive-stock-transfer.dto';
+export * from './list-stock-transfers-query.dto';
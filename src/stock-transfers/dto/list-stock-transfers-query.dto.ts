@@ -0,0 +1,28 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+
+export enum StockTransferStatus {
+  REQUESTED = 'REQUESTED',
+  DISPATCHED = 'DISPATCHED',
+  RECEIVED = 'RECEIVED',
+  CANCELLED = 'CANCELLED',
+}
+
+export class ListStockTransfersQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by status',
+    enum: StockTransferStatus,
+  })
+  @IsOptional()
+  @IsEnum(StockTransferStatus)
+  status?: StockTransferStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by branch ID (source or destination)',
+  })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+}
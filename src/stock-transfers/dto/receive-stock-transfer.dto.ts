@@ -0,0 +1,44 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  ValidateNested,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class ReceivedItemDto {
+  @ApiProperty({ description: 'Ingredient ID' })
+  @IsString()
+  @IsNotEmpty()
+  ingredientId!: string;
+
+  @ApiProperty({ description: 'Quantity actually received', minimum: 0 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Type(() => Number)
+  @Min(0)
+  receivedQty!: number;
+}
+
+export class ReceiveStockTransferDto {
+  @ApiPropertyOptional({
+    description:
+      'Received quantities. Ingredients not listed are received in full.',
+    type: [ReceivedItemDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReceivedItemDto)
+  items?: ReceivedItemDto[];
+
+  @ApiPropertyOptional({ description: 'Receipt notes', maxLength: 500 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
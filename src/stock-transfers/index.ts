@@ -0,0 +1,4 @@
+export * from './dto';
+export * from './stock-transfers.controller';
+export * from './stock-transfers.service';
+export * from './stock-transfers.module';
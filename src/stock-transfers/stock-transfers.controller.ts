@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+
+import { CurrentUser, Roles, requiresOrganization } from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+
+import {
+  CreateStockTransferDto,
+  ReceiveStockTransferDto,
+  ListStockTransfersQueryDto,
+} from './dto';
+import { StockTransfersService } from './stock-transfers.service';
+
+@ApiTags('Stock Transfers')
+@ApiBearerAuth('Auth0')
+@Controller('stock-transfers')
+@UseGuards(Auth0Guard)
+export class StockTransfersController {
+  constructor(private readonly stockTransfersService: StockTransfersService) {}
+
+  @Post()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Request stock transfer',
+    description:
+      'Requests a stock transfer between two branches. Managers must belong to one of the branches.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Stock transfer requested successfully',
+  })
+  create(
+    @Body() createStockTransferDto: CreateStockTransferDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.stockTransfersService.createTransfer(
+      createStockTransferDto,
+      user.auth0Id,
+      user.organizationId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Get()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'List stock transfers',
+    description:
+      'Returns paginated stock transfers. Managers only see transfers involving their branches.',
+  })
+  @ApiResponse({ status: 200, description: 'Paginated list of transfers' })
+  findAll(
+    @CurrentUser() user: UserPayload,
+    @Query() query: ListStockTransfersQueryDto,
+  ) {
+    requiresOrganization(user);
+    return this.stockTransfersService.listTransfers(
+      user.organizationId,
+      query,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Get(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Get stock transfer',
+    description: 'Returns a stock transfer with its items',
+  })
+  @ApiParam({ name: 'id', description: 'Stock transfer UUID' })
+  @ApiResponse({ status: 200, description: 'Stock transfer details' })
+  findOne(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.stockTransfersService.getTransferById(id, user.organizationId);
+  }
+
+  @Post(':id/dispatch')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Dispatch stock transfer',
+    description:
+      "Deducts the requested quantities FIFO from the source branch's batches",
+  })
+  @ApiParam({ name: 'id', description: 'Stock transfer UUID' })
+  @ApiResponse({ status: 200, description: 'Stock transfer dispatched' })
+  dispatch(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.stockTransfersService.dispatchTransfer(
+      id,
+      user.auth0Id,
+      user.organizationId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Post(':id/receive')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Receive stock transfer',
+    description:
+      'Creates batches at the destination branch at the dispatched unit cost. Shortfalls are recorded as ADJUSTMENT stock entries.',
+  })
+  @ApiParam({ name: 'id', description: 'Stock transfer UUID' })
+  @ApiResponse({ status: 200, description: 'Stock transfer received' })
+  receive(
+    @Param('id') id: string,
+    @Body() receiveStockTransferDto: ReceiveStockTransferDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.stockTransfersService.receiveTransfer(
+      id,
+      receiveStockTransferDto,
+      user.auth0Id,
+      user.organizationId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+
+  @Post(':id/cancel')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Cancel stock transfer',
+    description: 'Cancels a transfer that has not been dispatched',
+  })
+  @ApiParam({ name: 'id', description: 'Stock transfer UUID' })
+  @ApiResponse({ status: 200, description: 'Stock transfer cancelled' })
+  cancel(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.stockTransfersService.cancelTransfer(
+      id,
+      user.organizationId,
+      user.role === UserRole.OWNER ? undefined : user.branchIds,
+    );
+  }
+}
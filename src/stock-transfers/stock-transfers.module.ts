@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+
+import { CommonModule } from '../common/common.module';
+import { PrismaModule } from '../database';
+import { InventoryModule } from '../inventory';
+import { CacheModule } from '../services/cache';
+import { QueueModule } from '../services/queue/queue.module';
+
+import { StockTransfersController } from './stock-transfers.controller';
+import { StockTransfersService } from './stock-transfers.service';
+
+@Module({
+  imports: [
+    PrismaModule,
+    QueueModule,
+    CacheModule,
+    CommonModule,
+    InventoryModule,
+  ],
+  controllers: [StockTransfersController],
+  providers: [StockTransfersService],
+  exports: [StockTransfersService],
+})
+export class StockTransfersModule {}
@@ -0,0 +1,672 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PaginationService } from '../common/services/pagination.service';
+import { PrismaService } from '../database/prisma.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { BatchService } from '../inventory/services/batch.service';
+import { CacheService } from '../services/cache';
+import { ORDARO_JOB_TYPES } from '../services/queue/job-types.enum';
+import { QueueService } from '../services/queue/queue.service';
+
+import {
+  CreateStockTransferDto,
+  ReceiveStockTransferDto,
+  ListStockTransfersQueryDto,
+} from './dto';
+
+interface DispatchedBatch {
+  batchId: string;
+  qty: string;
+  unitCost: string;
+  expiresAt: string | null;
+}
+
+@Injectable()
+export class StockTransfersService {
+  private readonly logger = new Logger(StockTransfersService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly cacheService: CacheService,
+    private readonly queueService: QueueService,
+    private readonly inventoryService: InventoryService,
+    private readonly batchService: BatchService,
+  ) {}
+
+  /**
+   * Request a stock transfer between branches
+   */
+  async createTransfer(
+    dto: CreateStockTransferDto,
+    requesterId: string,
+    companyId: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    if (dto.fromBranchId === dto.toBranchId) {
+      throw new BadRequestException(
+        'Source and destination branches must differ',
+      );
+    }
+
+    // Either side of the transfer may raise it
+    if (
+      allowedBranchIds &&
+      !allowedBranchIds.includes(dto.fromBranchId) &&
+      !allowedBranchIds.includes(dto.toBranchId)
+    ) {
+      throw new ForbiddenException('You do not have access to this branch');
+    }
+
+    const branches = await this.prismaService.branch.findMany({
+      where: {
+        id: { in: [dto.fromBranchId, dto.toBranchId] },
+        organizationId: organization.id,
+      },
+    });
+
+    if (branches.length !== 2) {
+      throw new NotFoundException('Branch not found');
+    }
+
+    const ingredientIds = dto.items.map((item) => item.ingredientId);
+    if (new Set(ingredientIds).size !== ingredientIds.length) {
+      throw new BadRequestException('Each ingredient can only appear once');
+    }
+
+    const ingredients = await this.prismaService.ingredient.findMany({
+      where: {
+        id: { in: ingredientIds },
+        companyId: organization.id,
+      },
+    });
+
+    for (const ingredientId of ingredientIds) {
+      if (!ingredients.some((i) => i.id === ingredientId)) {
+        throw new NotFoundException(`Ingredient ${ingredientId} not found`);
+      }
+    }
+
+    const requester = await this.prismaService.user.findUnique({
+      where: { auth0UserId: requesterId },
+    });
+
+    const transfer = await this.prismaService.stockTransfer.create({
+      data: {
+        companyId: organization.id,
+        fromBranchId: dto.fromBranchId,
+        toBranchId: dto.toBranchId,
+        notes: dto.notes ?? null,
+        requestedById: requester?.id ?? null,
+        items: {
+          create: dto.items.map((item) => ({
+            ingredientId: item.ingredientId,
+            requestedQty: new Prisma.Decimal(item.quantity),
+          })),
+        },
+      },
+    });
+
+    this.logger.log(
+      `Stock transfer requested: ${transfer.id} from branch ${dto.fromBranchId} to ${dto.toBranchId}`,
+    );
+
+    return this.getTransferById(transfer.id, companyId);
+  }
+
+  /**
+   * Dispatch a transfer, deducting FIFO from the source branch's batches
+   *
+   * The claim, every item's deduction and the items' dispatch records are
+   * one transaction, so concurrent dispatches or a cancellation can't also
+   * act on the transfer, and a failed dispatch leaves no stock moved.
+   */
+  async dispatchTransfer(
+    id: string,
+    dispatcherId: string,
+    companyId: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const transfer = await this.findTransferInStatus(
+      id,
+      organization.id,
+      'REQUESTED',
+    );
+
+    if (allowedBranchIds && !allowedBranchIds.includes(transfer.fromBranchId)) {
+      throw new ForbiddenException('You do not have access to this branch');
+    }
+
+    const dispatcher = await this.prismaService.user.findUnique({
+      where: { auth0UserId: dispatcherId },
+    });
+
+    if (!dispatcher) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.prismaService.$transaction(
+      async (tx) => {
+        await this.claimTransfer(
+          id,
+          'REQUESTED',
+          {
+            status: 'DISPATCHED',
+            dispatchedById: dispatcher.id,
+            dispatchedAt: new Date(),
+          },
+          tx,
+        );
+
+        await this.dispatchItems(tx, transfer, companyId);
+      },
+      { timeout: 30000 },
+    );
+
+    this.logger.log(
+      `Stock transfer ${id} dispatched from branch ${transfer.fromBranchId}`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return this.getTransferById(id, companyId);
+  }
+
+  /**
+   * Receive a transfer, creating batches at the destination at the
+   * dispatched unit cost. Shortfalls are recorded as ADJUSTMENT entries.
+   */
+  async receiveTransfer(
+    id: string,
+    dto: ReceiveStockTransferDto,
+    receiverId: string,
+    companyId: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const transfer = await this.findTransferInStatus(
+      id,
+      organization.id,
+      'DISPATCHED',
+    );
+
+    if (allowedBranchIds && !allowedBranchIds.includes(transfer.toBranchId)) {
+      throw new ForbiddenException('You do not have access to this branch');
+    }
+
+    const receiver = await this.prismaService.user.findUnique({
+      where: { auth0UserId: receiverId },
+    });
+
+    if (!receiver) {
+      throw new NotFoundException('User not found');
+    }
+
+    const receipts = transfer.items.map((item) => {
+      const dispatchedQty = item.dispatchedQty ?? new Prisma.Decimal(0);
+      const input = dto.items?.find(
+        (i) => i.ingredientId === item.ingredientId,
+      );
+      const receivedQty =
+        input !== undefined
+          ? new Prisma.Decimal(input.receivedQty)
+          : dispatchedQty;
+
+      if (receivedQty.gt(dispatchedQty)) {
+        throw new BadRequestException(
+          `Received quantity for ingredient ${item.ingredientId} exceeds dispatched quantity ${dispatchedQty.toString()}`,
+        );
+      }
+
+      return { item, dispatchedQty, receivedQty };
+    });
+
+    for (const input of dto.items ?? []) {
+      if (!transfer.items.some((i) => i.ingredientId === input.ingredientId)) {
+        throw new BadRequestException(
+          `Ingredient ${input.ingredientId} is not part of this transfer`,
+        );
+      }
+    }
+
+    const updated = await this.prismaService.$transaction(async (tx) => {
+      // Claim the transfer first, so it can only be received once
+      await this.claimTransfer(
+        id,
+        'DISPATCHED',
+        {
+          status: 'RECEIVED',
+          receivedById: receiver.id,
+          receiptNotes: dto.notes ?? null,
+          receivedAt: new Date(),
+        },
+        tx,
+      );
+
+      for (const { item, dispatchedQty, receivedQty } of receipts) {
+        // Recreate the dispatched batches at the destination, oldest first
+        let remaining = receivedQty;
+        const dispatchedBatches = (item.dispatchedBatches ??
+          []) as unknown as DispatchedBatch[];
+
+        for (const dispatched of dispatchedBatches) {
+          if (remaining.lte(0)) {
+            break;
+          }
+
+          const qty = Prisma.Decimal.min(
+            remaining,
+            new Prisma.Decimal(dispatched.qty),
+          );
+          const unitCost = new Prisma.Decimal(dispatched.unitCost);
+
+          await tx.ingredientBatch.create({
+            data: {
+              ingredientId: item.ingredientId,
+              branchId: transfer.toBranchId,
+              remainingQty: qty,
+              unitCost,
+              totalCost: unitCost.mul(qty),
+              receiptRef: `TRANSFER-${transfer.id}`,
+              expiresAt: dispatched.expiresAt
+                ? new Date(dispatched.expiresAt)
+                : null,
+            },
+          });
+
+          remaining = remaining.sub(qty);
+        }
+
+        if (receivedQty.gt(0)) {
+          await tx.ingredient.update({
+            where: { id: item.ingredientId },
+            data: {
+              totalStock: { increment: receivedQty },
+            },
+          });
+
+          await this.batchService.adjustBranchStock(
+            tx,
+            transfer.toBranchId,
+            item.ingredientId,
+            receivedQty,
+          );
+        }
+
+        // Stock lost in transit was already deducted at dispatch
+        const discrepancy = dispatchedQty.sub(receivedQty);
+        if (discrepancy.gt(0)) {
+          const unitCost =
+            item.totalCost && dispatchedQty.gt(0)
+              ? item.totalCost.div(dispatchedQty)
+              : new Prisma.Decimal(0);
+
+          await tx.stockEntry.create({
+            data: {
+              type: 'ADJUSTMENT',
+              ingredientId: item.ingredientId,
+              branchId: transfer.toBranchId,
+              quantity: discrepancy,
+              unitCost,
+              totalCost: unitCost.mul(discrepancy),
+              reference: `TRANSFER-${transfer.id}`,
+              reason: 'Transfer discrepancy',
+              recordedById: receiver.id,
+              metadata: {
+                transferId: transfer.id,
+                dispatchedQty: dispatchedQty.toString(),
+                receivedQty: receivedQty.toString(),
+              },
+            },
+          });
+        }
+
+        await tx.stockTransferItem.update({
+          where: { id: item.id },
+          data: { receivedQty },
+        });
+      }
+
+      return tx.stockTransfer.findUniqueOrThrow({ where: { id } });
+    });
+
+    // Recalculate cached costs for the received ingredients
+    for (const { item } of receipts) {
+      await this.queueService.addJob(ORDARO_JOB_TYPES.INVENTORY_BATCH_CHANGE, {
+        ingredientId: item.ingredientId,
+      });
+    }
+
+    this.logger.log(
+      `Stock transfer ${id} received at branch ${transfer.toBranchId}`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return this.getTransferById(updated.id, companyId);
+  }
+
+  /**
+   * Cancel a transfer that has not been dispatched yet
+   */
+  async cancelTransfer(
+    id: string,
+    companyId: string,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const transfer = await this.findTransferInStatus(
+      id,
+      organization.id,
+      'REQUESTED',
+    );
+
+    if (
+      allowedBranchIds &&
+      !allowedBranchIds.includes(transfer.fromBranchId) &&
+      !allowedBranchIds.includes(transfer.toBranchId)
+    ) {
+      throw new ForbiddenException('You do not have access to this branch');
+    }
+
+    if (transfer.items.some((item) => item.dispatchedQty !== null)) {
+      throw new BadRequestException(
+        'Transfer is partially dispatched; complete the dispatch instead',
+      );
+    }
+
+    // A dispatch may have claimed the transfer since it was read
+    await this.claimTransfer(id, 'REQUESTED', {
+      status: 'CANCELLED',
+      cancelledAt: new Date(),
+    });
+
+    const updated = await this.prismaService.stockTransfer.findUniqueOrThrow({
+      where: { id },
+    });
+
+    this.logger.log(`Stock transfer ${id} cancelled`);
+
+    return updated;
+  }
+
+  /**
+   * Get stock transfer with items
+   */
+  async getTransferById(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const transfer = await this.prismaService.stockTransfer.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+      },
+      include: {
+        fromBranch: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        toBranch: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        items: {
+          include: {
+            ingredient: {
+              select: {
+                id: true,
+                name: true,
+                unit: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!transfer) {
+      throw new NotFoundException('Stock transfer not found');
+    }
+
+    return transfer;
+  }
+
+  /**
+   * List stock transfers
+   *
+   * `allowedBranchIds` restricts results to transfers touching the caller's
+   * branches (undefined for owners).
+   */
+  async listTransfers(
+    companyId: string,
+    query: ListStockTransfersQueryDto,
+    allowedBranchIds?: string[],
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const { limit = 20, cursor, orderDir = 'desc', status, branchId } = query;
+
+    let cursorCondition = {};
+    if (cursor) {
+      const decodedCursor = this.paginationService.decodeCursor(cursor);
+      if (decodedCursor && typeof decodedCursor.tieBreakerValue === 'string') {
+        cursorCondition = {
+          id:
+            orderDir === 'desc'
+              ? { lt: decodedCursor.tieBreakerValue }
+              : { gt: decodedCursor.tieBreakerValue },
+        };
+      }
+    }
+
+    const branchFilters: Prisma.StockTransferWhereInput[] = [];
+    if (branchId) {
+      branchFilters.push({
+        OR: [{ fromBranchId: branchId }, { toBranchId: branchId }],
+      });
+    }
+    if (allowedBranchIds) {
+      branchFilters.push({
+        OR: [
+          { fromBranchId: { in: allowedBranchIds } },
+          { toBranchId: { in: allowedBranchIds } },
+        ],
+      });
+    }
+
+    const transfers = await this.prismaService.stockTransfer.findMany({
+      where: {
+        companyId: organization.id,
+        ...(status && { status }),
+        ...(branchFilters.length > 0 && { AND: branchFilters }),
+        ...cursorCondition,
+      },
+      include: {
+        fromBranch: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        toBranch: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        _count: {
+          select: { items: true },
+        },
+      },
+      orderBy: { createdAt: orderDir },
+      take: limit + 1,
+    });
+
+    return this.paginationService.buildPaginatedResponse(transfers, limit, {
+      cursorField: 'id',
+      additionalCursorFields: ['createdAt'],
+    });
+  }
+
+  /**
+   * Deduct the transfer's items from the source branch within the dispatch
+   */
+  private async dispatchItems(
+    tx: Prisma.TransactionClient,
+    transfer: { id: string; fromBranchId: string },
+    companyId: string,
+  ): Promise<void> {
+    const pendingItems = await tx.stockTransferItem.findMany({
+      where: { transferId: transfer.id, dispatchedQty: null },
+    });
+
+    // Check the whole transfer up front so a short item fails before any stock moves
+    for (const item of pendingItems) {
+      const available = await this.batchService.getBranchStock(
+        transfer.fromBranchId,
+        item.ingredientId,
+        tx,
+      );
+      if (available.lt(item.requestedQty)) {
+        throw new BadRequestException(
+          `Insufficient branch stock for ingredient ${item.ingredientId}. Available: ${available.toString()}, Required: ${item.requestedQty.toString()}`,
+        );
+      }
+    }
+
+    for (const item of pendingItems) {
+      const result = await this.inventoryService.deductStock(
+        item.ingredientId,
+        item.requestedQty,
+        { reason: 'transfer', branchId: transfer.fromBranchId, tx },
+        companyId,
+      );
+
+      const batches = await tx.ingredientBatch.findMany({
+        where: { id: { in: result.deductions.map((d) => d.batchId) } },
+        select: { id: true, expiresAt: true },
+      });
+
+      const dispatchedBatches: DispatchedBatch[] = result.deductions.map(
+        (d) => ({
+          batchId: d.batchId,
+          qty: d.qtyDeducted.toString(),
+          unitCost: d.costPerUnit.toString(),
+          expiresAt:
+            batches.find((b) => b.id === d.batchId)?.expiresAt?.toISOString() ??
+            null,
+        }),
+      );
+
+      await tx.stockTransferItem.update({
+        where: { id: item.id },
+        data: {
+          dispatchedQty: item.requestedQty,
+          totalCost: result.totalCost,
+          dispatchedBatches:
+            dispatchedBatches as unknown as Prisma.InputJsonValue,
+        },
+      });
+    }
+  }
+
+  /**
+   * Move a transfer out of `from`, failing if another request already has
+   */
+  private async claimTransfer(
+    id: string,
+    from: 'REQUESTED' | 'DISPATCHED',
+    data: Prisma.StockTransferUncheckedUpdateManyInput,
+    tx: Prisma.TransactionClient = this.prismaService,
+  ): Promise<void> {
+    const claimed = await tx.stockTransfer.updateMany({
+      where: { id, status: from },
+      data,
+    });
+
+    if (claimed.count === 0) {
+      throw new BadRequestException(`Stock transfer is no longer ${from}`);
+    }
+  }
+
+  private async findTransferInStatus(
+    id: string,
+    organizationId: string,
+    status: 'REQUESTED' | 'DISPATCHED',
+  ) {
+    const transfer = await this.prismaService.stockTransfer.findFirst({
+      where: {
+        id,
+        companyId: organizationId,
+      },
+      include: { items: true },
+    });
+
+    if (!transfer) {
+      throw new NotFoundException('Stock transfer not found');
+    }
+
+    if (transfer.status !== status) {
+      throw new BadRequestException(
+        `Stock transfer is ${transfer.status}, expected ${status}`,
+      );
+    }
+
+    return transfer;
+  }
+}
@@ -0,0 +1,3 @@
+export * from './create-supplier.dto';
+export * from './update-supplier.dto';
+export * from './supplier-ingredient.dto';
@@ -0,0 +1,29 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class UpsertSupplierIngredientDto {
+  @ApiProperty({ description: 'Ingredient ID' })
+  @IsString()
+  @IsNotEmpty()
+  ingredientId!: string;
+
+  @ApiProperty({ description: 'Quoted unit price', minimum: 0 })
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0)
+  unitPrice!: number;
+
+  @ApiPropertyOptional({ description: "Supplier's SKU", maxLength: 50 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  supplierSku?: string;
+}
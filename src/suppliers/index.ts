@@ -0,0 +1,4 @@
+export * from './dto';
+export * from './suppliers.controller';
+export * from './suppliers.service';
+export * from './suppliers.module';
@@ -0,0 +1,180 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+
+import { CurrentUser, Roles, requiresOrganization } from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+import { PaginationQueryDto } from '../common/dto/pagination.dto';
+
+import {
+  CreateSupplierDto,
+  UpdateSupplierDto,
+  UpsertSupplierIngredientDto,
+} from './dto';
+import { SuppliersService } from './suppliers.service';
+
+@ApiTags('Suppliers')
+@ApiBearerAuth('Auth0')
+@Controller('suppliers')
+@UseGuards(Auth0Guard)
+export class SuppliersController {
+  constructor(private readonly suppliersService: SuppliersService) {}
+
+  @Post()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Create supplier',
+    description: 'Creates a supplier with contact details and lead time',
+  })
+  @ApiResponse({ status: 201, description: 'Supplier created successfully' })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Supplier name already exists',
+  })
+  create(
+    @Body() createSupplierDto: CreateSupplierDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.suppliersService.createSupplier(
+      createSupplierDto,
+      user.organizationId,
+    );
+  }
+
+  @Get()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'List suppliers',
+    description: 'Returns paginated list of active suppliers',
+  })
+  @ApiResponse({ status: 200, description: 'Paginated list of suppliers' })
+  findAll(
+    @CurrentUser() user: UserPayload,
+    @Query() paginationQuery: PaginationQueryDto,
+  ) {
+    requiresOrganization(user);
+    return this.suppliersService.listSuppliers(
+      user.organizationId,
+      paginationQuery,
+    );
+  }
+
+  @Get(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Get supplier details',
+    description:
+      'Returns a supplier with the ingredients they supply at their last quoted price',
+  })
+  @ApiParam({ name: 'id', description: 'Supplier UUID' })
+  @ApiResponse({ status: 200, description: 'Supplier details' })
+  @ApiResponse({ status: 404, description: 'Supplier not found' })
+  findOne(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.suppliersService.getSupplierById(id, user.organizationId);
+  }
+
+  @Patch(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Update supplier',
+    description: 'Updates supplier details',
+  })
+  @ApiParam({ name: 'id', description: 'Supplier UUID' })
+  @ApiResponse({ status: 200, description: 'Supplier updated successfully' })
+  update(
+    @Param('id') id: string,
+    @Body() updateSupplierDto: UpdateSupplierDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.suppliersService.updateSupplier(
+      id,
+      updateSupplierDto,
+      user.organizationId,
+    );
+  }
+
+  @Delete(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER)
+  @ApiOperation({
+    summary: 'Delete supplier (soft delete)',
+    description: 'Marks a supplier as inactive. Owner role only.',
+  })
+  @ApiParam({ name: 'id', description: 'Supplier UUID' })
+  @ApiResponse({ status: 200, description: 'Supplier deleted successfully' })
+  remove(@Param('id') id: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.suppliersService.deleteSupplier(id, user.organizationId);
+  }
+
+  @Put(':id/ingredients')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Set supplier ingredient price',
+    description:
+      'Adds an ingredient to the supplier or updates its last quoted price',
+  })
+  @ApiParam({ name: 'id', description: 'Supplier UUID' })
+  @ApiResponse({ status: 200, description: 'Supplier ingredient saved' })
+  upsertIngredient(
+    @Param('id') id: string,
+    @Body() upsertSupplierIngredientDto: UpsertSupplierIngredientDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.suppliersService.upsertSupplierIngredient(
+      id,
+      upsertSupplierIngredientDto,
+      user.organizationId,
+    );
+  }
+
+  @Delete(':id/ingredients/:ingredientId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Remove supplier ingredient',
+    description: "Removes an ingredient from the supplier's catalogue",
+  })
+  @ApiParam({ name: 'id', description: 'Supplier UUID' })
+  @ApiParam({ name: 'ingredientId', description: 'Ingredient UUID' })
+  @ApiResponse({ status: 200, description: 'Supplier ingredient removed' })
+  removeIngredient(
+    @Param('id') id: string,
+    @Param('ingredientId') ingredientId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.suppliersService.removeSupplierIngredient(
+      id,
+      ingredientId,
+      user.organizationId,
+    );
+  }
+}
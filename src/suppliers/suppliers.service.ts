@@ -0,0 +1,368 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PaginationQueryDto } from '../common/dto/pagination.dto';
+import { PaginationService } from '../common/services/pagination.service';
+import { PrismaService } from '../database/prisma.service';
+import { CacheService } from '../services/cache';
+
+import {
+  CreateSupplierDto,
+  UpdateSupplierDto,
+  UpsertSupplierIngredientDto,
+} from './dto';
+
+@Injectable()
+export class SuppliersService {
+  private readonly logger = new Logger(SuppliersService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * Create a new supplier
+   */
+  async createSupplier(
+    dto: CreateSupplierDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const existing = await this.prismaService.supplier.findFirst({
+      where: {
+        companyId: organization.id,
+        name: dto.name,
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        'A supplier with this name already exists in your organization',
+      );
+    }
+
+    const supplier = await this.prismaService.supplier.create({
+      data: {
+        name: dto.name,
+        contactName: dto.contactName ?? null,
+        email: dto.email ?? null,
+        phone: dto.phone ?? null,
+        address: dto.address ?? null,
+        leadTimeDays: dto.leadTimeDays ?? null,
+        notes: dto.notes ?? null,
+        companyId: organization.id,
+      },
+    });
+
+    this.logger.log(
+      `Supplier created: ${supplier.id} in organization ${organization.id}`,
+    );
+
+    return supplier;
+  }
+
+  /**
+   * Update supplier
+   */
+  async updateSupplier(
+    id: string,
+    dto: UpdateSupplierDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const supplier = await this.findSupplier(id, organization.id);
+
+    if (dto.name && dto.name !== supplier.name) {
+      const existing = await this.prismaService.supplier.findFirst({
+        where: {
+          companyId: organization.id,
+          name: dto.name,
+          id: { not: id },
+        },
+      });
+
+      if (existing) {
+        throw new ConflictException(
+          'A supplier with this name already exists in your organization',
+        );
+      }
+    }
+
+    const updated = await this.prismaService.supplier.update({
+      where: { id },
+      data: {
+        ...(dto.name && { name: dto.name }),
+        ...(dto.contactName !== undefined && { contactName: dto.contactName }),
+        ...(dto.email !== undefined && { email: dto.email }),
+        ...(dto.phone !== undefined && { phone: dto.phone }),
+        ...(dto.address !== undefined && { address: dto.address }),
+        ...(dto.leadTimeDays !== undefined && {
+          leadTimeDays: dto.leadTimeDays,
+        }),
+        ...(dto.notes !== undefined && { notes: dto.notes }),
+        ...(dto.isActive !== undefined && { isActive: dto.isActive }),
+      },
+    });
+
+    this.logger.log(`Supplier updated: ${id}`);
+
+    return updated;
+  }
+
+  /**
+   * List active suppliers
+   */
+  async listSuppliers(
+    companyId: string,
+    paginationQuery: PaginationQueryDto,
+  ): Promise<unknown> {
+    const { limit = 20, cursor, orderDir = 'desc' } = paginationQuery;
+
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    let cursorCondition = {};
+    if (cursor) {
+      const decodedCursor = this.paginationService.decodeCursor(cursor);
+      if (decodedCursor && typeof decodedCursor.tieBreakerValue === 'string') {
+        cursorCondition = {
+          id:
+            orderDir === 'desc'
+              ? { lt: decodedCursor.tieBreakerValue }
+              : { gt: decodedCursor.tieBreakerValue },
+        };
+      }
+    }
+
+    const suppliers = await this.prismaService.supplier.findMany({
+      where: {
+        companyId: organization.id,
+        isActive: true,
+        ...cursorCondition,
+      },
+      include: {
+        _count: {
+          select: {
+            ingredients: true,
+            purchaseOrders: true,
+          },
+        },
+      },
+      orderBy: { createdAt: orderDir },
+      take: limit + 1,
+    });
+
+    return this.paginationService.buildPaginatedResponse(suppliers, limit, {
+      cursorField: 'id',
+      additionalCursorFields: ['createdAt'],
+    });
+  }
+
+  /**
+   * Get supplier with the ingredients they supply
+   */
+  async getSupplierById(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const supplier = await this.prismaService.supplier.findFirst({
+      where: {
+        id,
+        companyId: organization.id,
+      },
+      include: {
+        ingredients: {
+          include: {
+            ingredient: {
+              select: {
+                id: true,
+                name: true,
+                unit: true,
+              },
+            },
+          },
+          orderBy: { quotedAt: 'desc' },
+        },
+      },
+    });
+
+    if (!supplier) {
+      throw new NotFoundException('Supplier not found');
+    }
+
+    return supplier;
+  }
+
+  /**
+   * Delete supplier (soft delete)
+   */
+  async deleteSupplier(id: string, companyId: string): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.findSupplier(id, organization.id);
+
+    const result = await this.prismaService.supplier.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    this.logger.log(`Supplier deleted: ${id}`);
+
+    return result;
+  }
+
+  /**
+   * Record the supplier's quoted price for an ingredient
+   */
+  async upsertSupplierIngredient(
+    supplierId: string,
+    dto: UpsertSupplierIngredientDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.findSupplier(supplierId, organization.id);
+
+    const ingredient = await this.prismaService.ingredient.findFirst({
+      where: {
+        id: dto.ingredientId,
+        companyId: organization.id,
+      },
+    });
+
+    if (!ingredient) {
+      throw new NotFoundException('Ingredient not found');
+    }
+
+    const unitPrice = new Prisma.Decimal(dto.unitPrice);
+    const supplierIngredient =
+      await this.prismaService.supplierIngredient.upsert({
+        where: {
+          supplierId_ingredientId: {
+            supplierId,
+            ingredientId: dto.ingredientId,
+          },
+        },
+        update: {
+          unitPrice,
+          ...(dto.supplierSku !== undefined && {
+            supplierSku: dto.supplierSku,
+          }),
+          quotedAt: new Date(),
+        },
+        create: {
+          supplierId,
+          ingredientId: dto.ingredientId,
+          unitPrice,
+          supplierSku: dto.supplierSku ?? null,
+        },
+      });
+
+    this.logger.log(
+      `Supplier ${supplierId} quoted ${unitPrice.toString()} for ingredient ${dto.ingredientId}`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return supplierIngredient;
+  }
+
+  /**
+   * Remove an ingredient from a supplier's catalogue
+   */
+  async removeSupplierIngredient(
+    supplierId: string,
+    ingredientId: string,
+    companyId: string,
+  ): Promise<unknown> {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    await this.findSupplier(supplierId, organization.id);
+
+    const supplierIngredient =
+      await this.prismaService.supplierIngredient.findUnique({
+        where: {
+          supplierId_ingredientId: { supplierId, ingredientId },
+        },
+      });
+
+    if (!supplierIngredient) {
+      throw new NotFoundException('Supplier ingredient not found');
+    }
+
+    const result = await this.prismaService.supplierIngredient.delete({
+      where: { id: supplierIngredient.id },
+    });
+
+    this.logger.log(
+      `Ingredient ${ingredientId} removed from supplier ${supplierId}`,
+    );
+
+    return result;
+  }
+
+  private async findSupplier(id: string, organizationId: string) {
+    const supplier = await this.prismaService.supplier.findFirst({
+      where: {
+        id,
+        companyId: organizationId,
+      },
+    });
+
+    if (!supplier) {
+      throw new NotFoundException('Supplier not found');
+    }
+
+    return supplier;
+  }
+}
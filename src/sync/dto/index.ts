@@ -0,0 +1,2 @@
+export * from './push-sync.dto';
+export * from './sync-query.dto';
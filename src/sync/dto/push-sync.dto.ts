@@ -0,0 +1,71 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsObject,
+  IsDateString,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  MaxLength,
+} from 'class-validator';
+
+export enum SyncActionType {
+  CREATE_ORDER = 'CREATE_ORDER',
+  UPDATE_STOCK = 'UPDATE_STOCK',
+  RECORD_WASTE = 'RECORD_WASTE',
+}
+
+export class SyncActionDto {
+  @ApiProperty({
+    description:
+      'Client-generated key; an action with the same key is applied only once per branch',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  idempotencyKey!: string;
+
+  @ApiProperty({ description: 'Action type', enum: SyncActionType })
+  @IsEnum(SyncActionType)
+  action!: SyncActionType;
+
+  @ApiProperty({
+    description:
+      'Action payload: CreateOrderDto for CREATE_ORDER, AdjustStockDto for UPDATE_STOCK, RecordWasteDto for RECORD_WASTE',
+    type: Object,
+  })
+  @IsObject()
+  payload!: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    description: 'When the action happened on the device (ISO 8601)',
+  })
+  @IsOptional()
+  @IsDateString()
+  occurredAt?: string;
+}
+
+export class PushSyncDto {
+  @ApiPropertyOptional({ description: 'Device identifier', maxLength: 100 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceId?: string;
+
+  @ApiProperty({
+    description: 'Queued actions, in the order they happened',
+    type: [SyncActionDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => SyncActionDto)
+  actions!: SyncActionDto[];
+}
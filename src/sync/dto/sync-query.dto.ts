@@ -0,0 +1,38 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsIn, IsOptional, IsString } from 'class-validator';
+
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+
+export class PullSyncQueryDto {
+  @ApiPropertyOptional({
+    description: 'Branch ID (alternatively sent as X-Branch-Id header)',
+  })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Return changes after this time (ISO 8601). Defaults to the branch lastSyncedAt.',
+  })
+  @IsOptional()
+  @IsDateString()
+  since?: string;
+}
+
+export class ListSyncQueueQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Branch ID (alternatively sent as X-Branch-Id header)',
+  })
+  @IsOptional()
+  @IsString()
+  branchId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by status',
+    enum: ['PENDING', 'PROCESSING', 'SYNCED', 'FAILED'],
+  })
+  @IsOptional()
+  @IsIn(['PENDING', 'PROCESSING', 'SYNCED', 'FAILED'])
+  status?: 'PENDING' | 'PROCESSING' | 'SYNCED' | 'FAILED';
+}
@@ -0,0 +1,4 @@
+export * from './dto';
+export * from './sync.controller';
+export * from './sync.service';
+export * from './sync.module';
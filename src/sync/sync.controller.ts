@@ -0,0 +1,110 @@
+import { Controller, Get, Post, Body, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiHeader,
+} from '@nestjs/swagger';
+
+import {
+  CurrentBranch,
+  CurrentUser,
+  Roles,
+  requiresOrganization,
+} from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, BranchGuard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+
+import { PushSyncDto, PullSyncQueryDto, ListSyncQueueQueryDto } from './dto';
+import { SyncService } from './sync.service';
+
+@ApiTags('Sync')
+@ApiBearerAuth('Auth0')
+@ApiHeader({
+  name: 'X-Branch-Id',
+  description: 'Branch the device belongs to',
+  required: false,
+})
+@Controller('sync')
+@UseGuards(Auth0Guard)
+export class SyncController {
+  constructor(private readonly syncService: SyncService) {}
+
+  @Post('push')
+  @UseGuards(RolesGuard, BranchGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.WAITER, UserRole.CHEF)
+  @ApiOperation({
+    summary: 'Push offline actions',
+    description:
+      'Applies a batch of queued device actions in order. Actions are idempotent by idempotencyKey; failed actions stay queued with their error for replay.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Per-action results with conflict reporting',
+  })
+  push(
+    @Body() pushSyncDto: PushSyncDto,
+    @CurrentBranch() branchId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.syncService.push(pushSyncDto, branchId, user.organizationId, {
+      auth0Id: user.auth0Id,
+      role: user.role,
+    });
+  }
+
+  @Get('pull')
+  @UseGuards(RolesGuard, BranchGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER, UserRole.WAITER, UserRole.CHEF)
+  @ApiOperation({
+    summary: 'Pull changes',
+    description:
+      'Returns menu, price and stock changes since the branch lastSyncedAt (or the given time) and advances lastSyncedAt',
+  })
+  @ApiResponse({ status: 200, description: 'Changes since last sync' })
+  pull(
+    @Query() query: PullSyncQueryDto,
+    @CurrentBranch() branchId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.syncService.pull(branchId, user.organizationId, query);
+  }
+
+  @Get('queue')
+  @UseGuards(RolesGuard, BranchGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'List sync queue',
+    description: 'Returns paginated sync queue entries for the branch',
+  })
+  @ApiResponse({ status: 200, description: 'Paginated sync queue entries' })
+  listQueue(
+    @Query() query: ListSyncQueueQueryDto,
+    @CurrentBranch() branchId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.syncService.listQueue(branchId, user.organizationId, query);
+  }
+
+  @Post('replay')
+  @UseGuards(RolesGuard, BranchGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Replay failed actions',
+    description:
+      'Re-applies failed sync actions for the branch in the order they happened',
+  })
+  @ApiResponse({ status: 201, description: 'Replay results' })
+  replay(@CurrentBranch() branchId: string, @CurrentUser() user: UserPayload) {
+    requiresOrganization(user);
+    return this.syncService.replayFailed(branchId, user.organizationId, {
+      auth0Id: user.auth0Id,
+      role: user.role,
+    });
+  }
+}
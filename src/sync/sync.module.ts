@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+
+import { CommonModule } from '../common/common.module';
+import { PrismaModule } from '../database';
+import { InventoryModule } from '../inventory';
+import { OrdersModule } from '../orders';
+
+import { SyncController } from './sync.controller';
+import { SyncService } from './sync.service';
+
+@Module({
+  imports: [PrismaModule, CommonModule, InventoryModule, OrdersModule],
+  controllers: [SyncController],
+  providers: [SyncService],
+  exports: [SyncService],
+})
+export class SyncModule {}
@@ -0,0 +1,522 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  Logger,
+} from '@nestjs/common';
+import { plainToInstance, type ClassConstructor } from 'class-transformer';
+import { validate } from 'class-validator';
+
+import { Prisma } from '../../generated/prisma';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { PaginationService } from '../common/services/pagination.service';
+import { formatValidationErrors } from '../common/utils/format-errors.util';
+import { PrismaService } from '../database/prisma.service';
+import { AdjustStockDto, RecordWasteDto } from '../inventory/dto';
+import { InventoryService } from '../inventory/inventory.service';
+import { WasteService } from '../inventory/services/waste.service';
+import { CreateOrderDto } from '../orders/dto';
+import { OrdersService } from '../orders/orders.service';
+
+import {
+  PushSyncDto,
+  SyncActionType,
+  PullSyncQueryDto,
+  ListSyncQueueQueryDto,
+} from './dto';
+
+const ACTION_ROLES: Record<SyncActionType, UserRole[]> = {
+  [SyncActionType.CREATE_ORDER]: [
+    UserRole.OWNER,
+    UserRole.MANAGER,
+    UserRole.WAITER,
+  ],
+  [SyncActionType.UPDATE_STOCK]: [UserRole.OWNER, UserRole.MANAGER],
+  [SyncActionType.RECORD_WASTE]: [
+    UserRole.OWNER,
+    UserRole.MANAGER,
+    UserRole.CHEF,
+  ],
+};
+
+// A PROCESSING claim older than this is treated as abandoned
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+interface SyncActor {
+  auth0Id: string;
+  role: UserRole;
+}
+
+interface SyncActionResult {
+  id: string;
+  idempotencyKey: string;
+  action: string;
+  status: 'SYNCED' | 'FAILED' | 'DUPLICATE';
+  conflict?: boolean;
+  error?: string;
+  result?: Prisma.JsonValue;
+}
+
+@Injectable()
+export class SyncService {
+  private readonly logger = new Logger(SyncService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly ordersService: OrdersService,
+    private readonly inventoryService: InventoryService,
+    private readonly wasteService: WasteService,
+  ) {}
+
+  /**
+   * Push queued device actions and apply them in order
+   */
+  async push(
+    dto: PushSyncDto,
+    branchId: string,
+    companyId: string,
+    actor: SyncActor,
+  ): Promise<unknown> {
+    await this.getBranch(branchId, companyId);
+
+    const results: SyncActionResult[] = [];
+
+    for (const action of dto.actions) {
+      // Record the action before applying it so failures stay queued
+      const entry = await this.prismaService.syncQueue.upsert({
+        where: {
+          branchId_idempotencyKey: {
+            branchId,
+            idempotencyKey: action.idempotencyKey,
+          },
+        },
+        update: {},
+        create: {
+          branchId,
+          idempotencyKey: action.idempotencyKey,
+          deviceId: dto.deviceId ?? null,
+          action: action.action,
+          payload: action.payload as Prisma.InputJsonValue,
+          occurredAt: action.occurredAt
+            ? new Date(action.occurredAt)
+            : new Date(),
+        },
+      });
+
+      // Only the request that claims the entry applies it; a resent action
+      // that is synced or still being applied is a duplicate
+      if (!(await this.claimEntry(entry.id))) {
+        const current = await this.prismaService.syncQueue.findUniqueOrThrow({
+          where: { id: entry.id },
+        });
+        results.push({
+          id: current.id,
+          idempotencyKey: current.idempotencyKey,
+          action: current.action,
+          status: 'DUPLICATE',
+          result: current.result,
+        });
+        continue;
+      }
+
+      results.push(await this.applyEntry(entry, companyId, actor));
+    }
+
+    const failed = results.filter((r) => r.status === 'FAILED').length;
+    this.logger.log(
+      `Sync push for branch ${branchId}: ${results.length} actions, ${failed} failed`,
+    );
+
+    return {
+      branchId,
+      total: results.length,
+      synced: results.filter((r) => r.status === 'SYNCED').length,
+      duplicates: results.filter((r) => r.status === 'DUPLICATE').length,
+      failed,
+      results,
+    };
+  }
+
+  /**
+   * Replay failed actions for a branch, oldest first
+   */
+  async replayFailed(
+    branchId: string,
+    companyId: string,
+    actor: SyncActor,
+  ): Promise<unknown> {
+    await this.getBranch(branchId, companyId);
+
+    const entries = await this.prismaService.syncQueue.findMany({
+      where: {
+        branchId,
+        // Abandoned PROCESSING claims are picked up again by claimEntry
+        status: { in: ['PENDING', 'FAILED', 'PROCESSING'] },
+      },
+      orderBy: [{ occurredAt: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const results: SyncActionResult[] = [];
+    for (const entry of entries) {
+      // Skip entries a concurrent push or replay has taken
+      if (!(await this.claimEntry(entry.id))) {
+        continue;
+      }
+
+      results.push(await this.applyEntry(entry, companyId, actor));
+    }
+
+    const failed = results.filter((r) => r.status === 'FAILED').length;
+    this.logger.log(
+      `Sync replay for branch ${branchId}: ${results.length} actions, ${failed} still failing`,
+    );
+
+    return {
+      branchId,
+      total: results.length,
+      synced: results.length - failed,
+      failed,
+      results,
+    };
+  }
+
+  /**
+   * Pull menu, price and stock changes since the last sync
+   *
+   * Ingredient stock is the branch's own stock level.
+   */
+  async pull(
+    branchId: string,
+    companyId: string,
+    query: PullSyncQueryDto,
+  ): Promise<unknown> {
+    const branch = await this.getBranch(branchId, companyId);
+
+    // Captured before reading so changes made during the pull are not missed
+    const serverTime = new Date();
+    const since = query.since
+      ? new Date(query.since)
+      : (branch.lastSyncedAt ?? undefined);
+    const changedSince = since ? { gt: since } : undefined;
+
+    const [menuItems, branchMenus, ingredients, failedActions] =
+      await Promise.all([
+        this.prismaService.menuItem.findMany({
+          where: {
+            companyId: branch.organizationId,
+            ...(changedSince && {
+              OR: [
+                { updatedAt: changedSince },
+                { variants: { some: { updatedAt: changedSince } } },
+              ],
+            }),
+          },
+          include: {
+            variants: true,
+          },
+        }),
+        this.prismaService.branchMenu.findMany({
+          where: {
+            branchId,
+            ...(changedSince && { updatedAt: changedSince }),
+          },
+        }),
+        this.prismaService.ingredient.findMany({
+          where: {
+            companyId: branch.organizationId,
+            ...(changedSince && {
+              OR: [
+                { updatedAt: changedSince },
+                {
+                  branchStocks: {
+                    some: { branchId, updatedAt: changedSince },
+                  },
+                },
+              ],
+            }),
+          },
+          select: {
+            id: true,
+            name: true,
+            unit: true,
+            reorderThreshold: true,
+            isActive: true,
+            updatedAt: true,
+            branchStocks: {
+              where: { branchId },
+              select: { quantity: true },
+            },
+          },
+        }),
+        this.prismaService.syncQueue.findMany({
+          where: {
+            branchId,
+            status: 'FAILED',
+          },
+          orderBy: { occurredAt: 'asc' },
+        }),
+      ]);
+
+    await this.prismaService.branch.update({
+      where: { id: branchId },
+      data: { lastSyncedAt: serverTime },
+    });
+
+    return {
+      branchId,
+      since: since ?? null,
+      serverTime,
+      menuItems,
+      branchMenus,
+      ingredients: ingredients.map(({ branchStocks, ...ingredient }) => ({
+        ...ingredient,
+        stock: branchStocks[0]?.quantity ?? new Prisma.Decimal(0),
+      })),
+      failedActions,
+    };
+  }
+
+  /**
+   * List queued sync actions for a branch
+   */
+  async listQueue(
+    branchId: string,
+    companyId: string,
+    query: ListSyncQueueQueryDto,
+  ): Promise<unknown> {
+    await this.getBranch(branchId, companyId);
+
+    const { limit = 20, cursor, orderDir = 'desc', status } = query;
+
+    let cursorCondition = {};
+    if (cursor) {
+      const decodedCursor = this.paginationService.decodeCursor(cursor);
+      if (decodedCursor && typeof decodedCursor.tieBreakerValue === 'string') {
+        cursorCondition = {
+          id:
+            orderDir === 'desc'
+              ? { lt: decodedCursor.tieBreakerValue }
+              : { gt: decodedCursor.tieBreakerValue },
+        };
+      }
+    }
+
+    const entries = await this.prismaService.syncQueue.findMany({
+      where: {
+        branchId,
+        ...(status && { status }),
+        ...cursorCondition,
+      },
+      orderBy: { createdAt: orderDir },
+      take: limit + 1,
+    });
+
+    return this.paginationService.buildPaginatedResponse(entries, limit, {
+      cursorField: 'id',
+      additionalCursorFields: ['createdAt'],
+    });
+  }
+
+  /**
+   * Apply a queued action and record its outcome on the queue entry
+   */
+  private async applyEntry(
+    entry: {
+      id: string;
+      idempotencyKey: string;
+      action: string;
+      payload: Prisma.JsonValue;
+      branchId: string;
+      occurredAt: Date;
+    },
+    companyId: string,
+    actor: SyncActor,
+  ): Promise<SyncActionResult> {
+    try {
+      const result = await this.applyAction(
+        entry.action,
+        entry.payload,
+        entry.branchId,
+        entry.occurredAt,
+        entry.idempotencyKey,
+        companyId,
+        actor,
+      );
+
+      await this.prismaService.syncQueue.update({
+        where: { id: entry.id },
+        data: {
+          status: 'SYNCED',
+          error: null,
+          result: result as Prisma.InputJsonValue,
+          attempts: { increment: 1 },
+          syncedAt: new Date(),
+        },
+      });
+
+      return {
+        id: entry.id,
+        idempotencyKey: entry.idempotencyKey,
+        action: entry.action,
+        status: 'SYNCED',
+        result: result as Prisma.JsonValue,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Client errors (unavailable item, insufficient stock, ...) are conflicts
+      // with server state; anything else is an unexpected failure
+      const conflict =
+        error instanceof HttpException && error.getStatus() < 500;
+
+      await this.prismaService.syncQueue.update({
+        where: { id: entry.id },
+        data: {
+          status: 'FAILED',
+          error: message,
+          attempts: { increment: 1 },
+        },
+      });
+
+      this.logger.warn(
+        `Sync action ${entry.action} (${entry.idempotencyKey}) failed: ${message}`,
+      );
+
+      return {
+        id: entry.id,
+        idempotencyKey: entry.idempotencyKey,
+        action: entry.action,
+        status: 'FAILED',
+        conflict,
+        error: message,
+      };
+    }
+  }
+
+  private async applyAction(
+    action: string,
+    payload: Prisma.JsonValue,
+    branchId: string,
+    occurredAt: Date,
+    idempotencyKey: string,
+    companyId: string,
+    actor: SyncActor,
+  ): Promise<Record<string, unknown>> {
+    const allowedRoles = ACTION_ROLES[action as SyncActionType];
+    if (!allowedRoles) {
+      throw new BadRequestException(`Unsupported sync action: ${action}`);
+    }
+
+    if (!allowedRoles.includes(actor.role)) {
+      throw new ForbiddenException(
+        `Role ${actor.role} cannot perform ${action}`,
+      );
+    }
+
+    switch (action as SyncActionType) {
+      case SyncActionType.CREATE_ORDER: {
+        const dto = await this.validatePayload(CreateOrderDto, payload);
+        // Keyed on the entry so re-applying it, e.g. after its claim timed
+        // out mid-apply, returns the order it already created
+        const order = (await this.ordersService.createOrder(
+          dto,
+          branchId,
+          companyId,
+          actor.auth0Id,
+          occurredAt,
+          idempotencyKey,
+        )) as { id: string };
+        return { orderId: order.id };
+      }
+
+      case SyncActionType.UPDATE_STOCK: {
+        const dto = await this.validatePayload(AdjustStockDto, payload);
+        dto.branchId = branchId;
+        const stockEntry = (await this.inventoryService.adjustStock(
+          dto,
+          companyId,
+        )) as { id: string };
+        return { stockEntryId: stockEntry.id };
+      }
+
+      case SyncActionType.RECORD_WASTE: {
+        const dto = await this.validatePayload(RecordWasteDto, payload);
+        dto.branchId = branchId;
+        const entries = (await this.wasteService.recordWaste(
+          dto,
+          actor.auth0Id,
+          companyId,
+        )) as Array<{ id: string }>;
+        return { stockEntryIds: entries.map((e) => e.id) };
+      }
+    }
+  }
+
+  /**
+   * Mark an entry as being applied; false if it is already synced or
+   * another request is applying it
+   */
+  private async claimEntry(entryId: string): Promise<boolean> {
+    const now = new Date();
+    const claimed = await this.prismaService.syncQueue.updateMany({
+      where: {
+        id: entryId,
+        OR: [
+          { status: { in: ['PENDING', 'FAILED'] } },
+          {
+            status: 'PROCESSING',
+            claimedAt: { lt: new Date(now.getTime() - CLAIM_TIMEOUT_MS) },
+          },
+        ],
+      },
+      data: { status: 'PROCESSING', claimedAt: now },
+    });
+
+    return claimed.count > 0;
+  }
+
+  private async validatePayload<T extends object>(
+    cls: ClassConstructor<T>,
+    payload: Prisma.JsonValue,
+  ): Promise<T> {
+    const instance = plainToInstance(cls, payload as Record<string, unknown>);
+    const errors = await validate(instance, {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+
+    if (errors.length > 0) {
+      const details = formatValidationErrors(errors)
+        .map((e) => `${e.field ?? 'payload'}: ${e.message}`)
+        .join('; ');
+      throw new BadRequestException(`Invalid payload: ${details}`);
+    }
+
+    return instance;
+  }
+
+  private async getBranch(branchId: string, companyId: string) {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const branch = await this.prismaService.branch.findFirst({
+      where: {
+        id: branchId,
+        organizationId: organization.id,
+      },
+    });
+
+    if (!branch) {
+      throw new NotFoundException('Branch not found');
+    }
+
+    return branch;
+  }
+}
@@ -0,0 +1 @@
+export * from './upsert-unit-conversion.dto';
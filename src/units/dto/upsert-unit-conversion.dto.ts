@@ -0,0 +1,39 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class UpsertUnitConversionDto {
+  @ApiProperty({
+    description: 'Custom unit code (e.g., crate, bunch, can)',
+    maxLength: 20,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  unit!: string;
+
+  @ApiProperty({
+    description:
+      'How much one of the custom unit holds (e.g., 30 for a crate of eggs)',
+  })
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Type(() => Number)
+  @Min(0.0001)
+  quantity!: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Unit the quantity is expressed in (defaults to the ingredient's unit)",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  inUnit?: string;
+}
@@ -0,0 +1,6 @@
+export * from './dto';
+export * from './unit-conversion';
+export * from './unit-registry';
+export * from './units.controller';
+export * from './units.service';
+export * from './units.module';
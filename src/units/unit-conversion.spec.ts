@@ -0,0 +1,48 @@
+import { BadRequestException } from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+
+import { convertToIngredientUnit } from './unit-conversion';
+
+describe('convertToIngredientUnit', () => {
+  const flour = { name: 'Flour', unit: 'kg' };
+
+  it('leaves a quantity without a unit in the ingredient unit', () => {
+    expect(
+      convertToIngredientUnit(new Prisma.Decimal(2), null, flour).toString(),
+    ).toBe('2');
+  });
+
+  it('matches units through their aliases', () => {
+    expect(
+      convertToIngredientUnit(new Prisma.Decimal(2), 'Kilos', flour).toString(),
+    ).toBe('2');
+  });
+
+  it('converts within a dimension through the registry', () => {
+    expect(
+      convertToIngredientUnit(new Prisma.Decimal(250), 'g', flour).toString(),
+    ).toBe('0.25');
+    expect(
+      convertToIngredientUnit(new Prisma.Decimal(1), 'lb', flour).toString(),
+    ).toBe('0.45359237');
+  });
+
+  it("prefers the ingredient's own conversions", () => {
+    const eggs = {
+      name: 'Eggs',
+      unit: 'pc',
+      unitConversions: [{ unit: 'tray', factor: new Prisma.Decimal(30) }],
+    };
+
+    expect(
+      convertToIngredientUnit(new Prisma.Decimal(2), 'tray', eggs).toString(),
+    ).toBe('60');
+  });
+
+  it('rejects units of another dimension', () => {
+    expect(() =>
+      convertToIngredientUnit(new Prisma.Decimal(1), 'ml', flour),
+    ).toThrow(BadRequestException);
+  });
+});
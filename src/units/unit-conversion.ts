@@ -0,0 +1,52 @@
+import { BadRequestException } from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+
+import { findUnit, normalizeUnit } from './unit-registry';
+
+export interface ConvertibleIngredient {
+  name: string;
+  unit: string;
+  unitConversions?: Array<{ unit: string; factor: Prisma.Decimal }>;
+}
+
+/**
+ * Convert a quantity into the ingredient's own unit
+ *
+ * Uses the ingredient's custom conversions first, then the registry for units
+ * of the same dimension. A missing unit means the quantity is already in the
+ * ingredient's unit.
+ */
+export function convertToIngredientUnit(
+  quantity: Prisma.Decimal,
+  unit: string | null | undefined,
+  ingredient: ConvertibleIngredient,
+): Prisma.Decimal {
+  if (!unit) {
+    return quantity;
+  }
+
+  const from = normalizeUnit(unit);
+  const to = normalizeUnit(ingredient.unit);
+
+  if (from === to) {
+    return quantity;
+  }
+
+  const custom = ingredient.unitConversions?.find(
+    (conversion) => normalizeUnit(conversion.unit) === from,
+  );
+  if (custom) {
+    return quantity.mul(custom.factor);
+  }
+
+  const fromUnit = findUnit(from);
+  const toUnit = findUnit(to);
+  if (fromUnit && toUnit && fromUnit.dimension === toUnit.dimension) {
+    return quantity.mul(fromUnit.toBase).div(toUnit.toBase);
+  }
+
+  throw new BadRequestException(
+    `Unit "${unit}" cannot be converted to ${ingredient.name}'s unit "${ingredient.unit}"`,
+  );
+}
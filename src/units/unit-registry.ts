@@ -0,0 +1,145 @@
+export enum UnitDimension {
+  MASS = 'MASS',
+  VOLUME = 'VOLUME',
+  COUNT = 'COUNT',
+}
+
+export interface UnitDefinition {
+  code: string;
+  name: string;
+  dimension: UnitDimension;
+  /** Size of one unit in the dimension's base unit (g, ml or pc) */
+  toBase: string;
+  aliases: string[];
+}
+
+export const UNIT_REGISTRY: readonly UnitDefinition[] = [
+  // Mass (base: g)
+  {
+    code: 'mg',
+    name: 'Milligram',
+    dimension: UnitDimension.MASS,
+    toBase: '0.001',
+    aliases: ['milligram', 'milligrams'],
+  },
+  {
+    code: 'g',
+    name: 'Gram',
+    dimension: UnitDimension.MASS,
+    toBase: '1',
+    aliases: ['gram', 'grams', 'gr'],
+  },
+  {
+    code: 'kg',
+    name: 'Kilogram',
+    dimension: UnitDimension.MASS,
+    toBase: '1000',
+    aliases: ['kilogram', 'kilograms', 'kgs', 'kilo', 'kilos'],
+  },
+  {
+    code: 'oz',
+    name: 'Ounce',
+    dimension: UnitDimension.MASS,
+    toBase: '28.349523125',
+    aliases: ['ounce', 'ounces'],
+  },
+  {
+    code: 'lb',
+    name: 'Pound',
+    dimension: UnitDimension.MASS,
+    toBase: '453.59237',
+    aliases: ['pound', 'pounds', 'lbs'],
+  },
+
+  // Volume (base: ml)
+  {
+    code: 'ml',
+    name: 'Millilitre',
+    dimension: UnitDimension.VOLUME,
+    toBase: '1',
+    aliases: ['milliliter', 'milliliters', 'millilitre', 'millilitres'],
+  },
+  {
+    code: 'cl',
+    name: 'Centilitre',
+    dimension: UnitDimension.VOLUME,
+    toBase: '10',
+    aliases: ['centiliter', 'centiliters', 'centilitre', 'centilitres'],
+  },
+  {
+    code: 'l',
+    name: 'Litre',
+    dimension: UnitDimension.VOLUME,
+    toBase: '1000',
+    aliases: ['liter', 'liters', 'litre', 'litres', 'ltr', 'ltrs'],
+  },
+  {
+    code: 'tsp',
+    name: 'Teaspoon',
+    dimension: UnitDimension.VOLUME,
+    toBase: '4.92892159375',
+    aliases: ['teaspoon', 'teaspoons'],
+  },
+  {
+    code: 'tbsp',
+    name: 'Tablespoon',
+    dimension: UnitDimension.VOLUME,
+    toBase: '14.78676478125',
+    aliases: ['tablespoon', 'tablespoons'],
+  },
+  {
+    code: 'fl_oz',
+    name: 'Fluid ounce',
+    dimension: UnitDimension.VOLUME,
+    toBase: '29.5735295625',
+    aliases: ['fl oz', 'floz', 'fluid ounce', 'fluid ounces'],
+  },
+  {
+    code: 'cup',
+    name: 'Cup',
+    dimension: UnitDimension.VOLUME,
+    toBase: '240',
+    aliases: ['cups'],
+  },
+  {
+    code: 'gal',
+    name: 'Gallon',
+    dimension: UnitDimension.VOLUME,
+    toBase: '3785.411784',
+    aliases: ['gallon', 'gallons'],
+  },
+
+  // Count (base: pc)
+  {
+    code: 'pc',
+    name: 'Piece',
+    dimension: UnitDimension.COUNT,
+    toBase: '1',
+    aliases: ['piece', 'pieces', 'pcs', 'unit', 'units', 'each', 'ea'],
+  },
+  {
+    code: 'dozen',
+    name: 'Dozen',
+    dimension: UnitDimension.COUNT,
+    toBase: '12',
+    aliases: ['dz', 'doz'],
+  },
+];
+
+/**
+ * Find a registry unit by code or alias (case-insensitive)
+ */
+export function findUnit(unit: string): UnitDefinition | undefined {
+  const key = unit.trim().toLowerCase();
+  return UNIT_REGISTRY.find(
+    (definition) => definition.code === key || definition.aliases.includes(key),
+  );
+}
+
+/**
+ * Normalize a unit to its registry code; unknown units are only trimmed and
+ * lower-cased so they can still be matched against custom conversions
+ */
+export function normalizeUnit(unit: string): string {
+  return findUnit(unit)?.code ?? unit.trim().toLowerCase();
+}
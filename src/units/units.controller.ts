@@ -0,0 +1,113 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+
+import { CurrentUser, Roles, requiresOrganization } from '../auth/decorators';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { Auth0Guard, RolesGuard } from '../auth/guards';
+import type { UserPayload } from '../auth/interfaces';
+
+import { UpsertUnitConversionDto } from './dto';
+import { UnitsService } from './units.service';
+
+@ApiTags('Units')
+@ApiBearerAuth('Auth0')
+@Controller('units')
+@UseGuards(Auth0Guard)
+export class UnitsController {
+  constructor(private readonly unitsService: UnitsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List units of measure',
+    description:
+      'Returns the mass, volume and count units with their conversion factors',
+  })
+  @ApiResponse({ status: 200, description: 'Unit registry' })
+  findAll() {
+    return this.unitsService.listUnits();
+  }
+
+  @Get('ingredients/:ingredientId')
+  @ApiOperation({
+    summary: 'List ingredient unit conversions',
+    description:
+      "Returns the ingredient's custom units (e.g., 1 crate = 30 pc)",
+  })
+  @ApiParam({ name: 'ingredientId', description: 'Ingredient UUID' })
+  @ApiResponse({ status: 200, description: 'Ingredient unit conversions' })
+  findConversions(
+    @Param('ingredientId') ingredientId: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.unitsService.listIngredientConversions(
+      ingredientId,
+      user.organizationId,
+    );
+  }
+
+  @Put('ingredients/:ingredientId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Set ingredient unit conversion',
+    description:
+      'Creates or updates a custom unit for the ingredient. Changing a factor re-costs recipes using the ingredient.',
+  })
+  @ApiParam({ name: 'ingredientId', description: 'Ingredient UUID' })
+  @ApiResponse({ status: 200, description: 'Unit conversion saved' })
+  @ApiResponse({
+    status: 400,
+    description: 'Unit already converts through the registry',
+  })
+  upsertConversion(
+    @Param('ingredientId') ingredientId: string,
+    @Body() upsertUnitConversionDto: UpsertUnitConversionDto,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.unitsService.upsertIngredientConversion(
+      ingredientId,
+      upsertUnitConversionDto,
+      user.organizationId,
+    );
+  }
+
+  @Delete('ingredients/:ingredientId/:unit')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.OWNER, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Remove ingredient unit conversion',
+    description: 'Removes a custom unit that is not used by any recipe',
+  })
+  @ApiParam({ name: 'ingredientId', description: 'Ingredient UUID' })
+  @ApiParam({ name: 'unit', description: 'Custom unit code' })
+  @ApiResponse({ status: 200, description: 'Unit conversion removed' })
+  @ApiResponse({ status: 409, description: 'Unit is used in recipes' })
+  removeConversion(
+    @Param('ingredientId') ingredientId: string,
+    @Param('unit') unit: string,
+    @CurrentUser() user: UserPayload,
+  ) {
+    requiresOrganization(user);
+    return this.unitsService.removeIngredientConversion(
+      ingredientId,
+      unit,
+      user.organizationId,
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+
+import { PrismaModule } from '../database';
+import { CacheModule } from '../services/cache';
+import { QueueModule } from '../services/queue/queue.module';
+
+import { UnitsController } from './units.controller';
+import { UnitsService } from './units.service';
+
+@Module({
+  imports: [PrismaModule, QueueModule, CacheModule],
+  controllers: [UnitsController],
+  providers: [UnitsService],
+  exports: [UnitsService],
+})
+export class UnitsModule {}
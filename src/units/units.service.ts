@@ -0,0 +1,188 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { PrismaService } from '../database/prisma.service';
+import { CacheService } from '../services/cache';
+import { ORDARO_JOB_TYPES } from '../services/queue/job-types.enum';
+import { QueueService } from '../services/queue/queue.service';
+
+import { UpsertUnitConversionDto } from './dto';
+import { convertToIngredientUnit } from './unit-conversion';
+import { UNIT_REGISTRY, findUnit, normalizeUnit } from './unit-registry';
+
+@Injectable()
+export class UnitsService {
+  private readonly logger = new Logger(UnitsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly cacheService: CacheService,
+    private readonly queueService: QueueService,
+  ) {}
+
+  /**
+   * List registry units
+   */
+  listUnits() {
+    return UNIT_REGISTRY;
+  }
+
+  /**
+   * List an ingredient's custom unit conversions
+   */
+  async listIngredientConversions(
+    ingredientId: string,
+    companyId: string,
+  ): Promise<unknown> {
+    const ingredient = await this.findIngredient(ingredientId, companyId);
+
+    return {
+      ingredientId: ingredient.id,
+      unit: ingredient.unit,
+      conversions: ingredient.unitConversions,
+    };
+  }
+
+  /**
+   * Create or update a custom unit conversion for an ingredient
+   *
+   * Changing an existing factor re-costs the recipes using the ingredient.
+   */
+  async upsertIngredientConversion(
+    ingredientId: string,
+    dto: UpsertUnitConversionDto,
+    companyId: string,
+  ): Promise<unknown> {
+    const ingredient = await this.findIngredient(ingredientId, companyId);
+
+    const unit = normalizeUnit(dto.unit);
+    const ingredientUnit = findUnit(ingredient.unit);
+    const registryUnit = findUnit(unit);
+
+    if (
+      unit === normalizeUnit(ingredient.unit) ||
+      (registryUnit &&
+        ingredientUnit &&
+        registryUnit.dimension === ingredientUnit.dimension)
+    ) {
+      throw new BadRequestException(
+        `"${dto.unit}" already converts to "${ingredient.unit}"`,
+      );
+    }
+
+    const factor = convertToIngredientUnit(
+      new Prisma.Decimal(dto.quantity),
+      dto.inUnit,
+      {
+        ...ingredient,
+        unitConversions: ingredient.unitConversions.filter(
+          (conversion) => conversion.unit !== unit,
+        ),
+      },
+    );
+
+    const existing = ingredient.unitConversions.find(
+      (conversion) => conversion.unit === unit,
+    );
+
+    const conversion = await this.prismaService.ingredientUnitConversion.upsert(
+      {
+        where: {
+          ingredientId_unit: { ingredientId, unit },
+        },
+        update: { factor },
+        create: { ingredientId, unit, factor },
+      },
+    );
+
+    if (existing && !existing.factor.equals(factor)) {
+      await this.queueService.addJob(ORDARO_JOB_TYPES.INGREDIENT_COST_UPDATE, {
+        ingredientId,
+      });
+    }
+
+    this.logger.log(
+      `Unit conversion set for ingredient ${ingredientId}: 1 ${unit} = ${factor.toString()} ${ingredient.unit}`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return conversion;
+  }
+
+  /**
+   * Remove a custom unit conversion that no recipe uses
+   */
+  async removeIngredientConversion(
+    ingredientId: string,
+    unit: string,
+    companyId: string,
+  ): Promise<unknown> {
+    const ingredient = await this.findIngredient(ingredientId, companyId);
+
+    const code = normalizeUnit(unit);
+    const conversion = ingredient.unitConversions.find((c) => c.unit === code);
+
+    if (!conversion) {
+      throw new NotFoundException('Unit conversion not found');
+    }
+
+    const usage = await this.prismaService.recipeIngredient.count({
+      where: { ingredientId, unit: code },
+    });
+
+    if (usage > 0) {
+      throw new ConflictException(
+        'Cannot remove a unit conversion that is used in recipes',
+      );
+    }
+
+    const result = await this.prismaService.ingredientUnitConversion.delete({
+      where: { id: conversion.id },
+    });
+
+    this.logger.log(
+      `Unit conversion ${code} removed from ingredient ${ingredientId}`,
+    );
+
+    // Invalidate cache
+    await this.cacheService.invalidateOrganization(companyId);
+
+    return result;
+  }
+
+  private async findIngredient(ingredientId: string, companyId: string) {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { auth0OrgId: companyId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const ingredient = await this.prismaService.ingredient.findFirst({
+      where: {
+        id: ingredientId,
+        companyId: organization.id,
+      },
+      include: {
+        unitConversions: {
+          orderBy: { unit: 'asc' },
+        },
+      },
+    });
+
+    if (!ingredient) {
+      throw new NotFoundException('Ingredient not found');
+    }
+
+    return ingredient;
+  }
+}
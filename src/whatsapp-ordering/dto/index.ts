@@ -0,0 +1 @@
+export * from './whatsapp-webhook-event.dto';
@@ -0,0 +1,56 @@
+/**
+ * WhatsApp Cloud API Webhook DTOs
+ * Only the fields used for inbound ordering are described
+ * @see https://developers.facebook.com/docs/whatsapp/cloud-api/webhooks/components
+ */
+
+export interface WhatsAppWebhookEvent {
+  object: string; // 'whatsapp_business_account'
+  entry?: WhatsAppWebhookEntry[];
+}
+
+export interface WhatsAppWebhookEntry {
+  id: string;
+  changes?: Array<{
+    field: string; // 'messages'
+    value: WhatsAppWebhookValue;
+  }>;
+}
+
+export interface WhatsAppWebhookValue {
+  messaging_product: 'whatsapp';
+  metadata: {
+    display_phone_number: string;
+    phone_number_id: string;
+  };
+  contacts?: Array<{
+    wa_id: string;
+    profile?: { name?: string };
+  }>;
+  messages?: WhatsAppInboundMessage[];
+  statuses?: unknown[];
+}
+
+export interface WhatsAppInboundMessage {
+  id: string;
+  from: string; // Customer's number, international format without +
+  timestamp: string;
+  type: string; // 'text', 'interactive', 'image', ...
+  text?: { body: string };
+  interactive?: {
+    type: 'button_reply' | 'list_reply';
+    button_reply?: { id: string; title: string };
+    list_reply?: { id: string; title: string };
+  };
+}
+
+/**
+ * Job data for PROCESS_WHATSAPP_ORDER, one per inbound message
+ */
+export interface WhatsAppOrderMessageJob {
+  messageId: string;
+  phoneNumberId: string; // The branch number the message was sent to
+  from: string;
+  profileName?: string;
+  text: string;
+}
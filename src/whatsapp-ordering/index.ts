@@ -0,0 +1,4 @@
+export * from './dto';
+export * from './whatsapp-webhook.controller';
+export * from './whatsapp-ordering.service';
+export * from './whatsapp-ordering.module';
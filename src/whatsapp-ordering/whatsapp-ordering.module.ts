@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+
+import { ConfigModule } from '../config/config.module';
+import { CustomersModule } from '../customers';
+import { PrismaModule } from '../database/prisma.module';
+import { MenuModule } from '../menu';
+import { OrdersModule } from '../orders';
+import { CacheModule } from '../services/cache';
+import { QueueModule } from '../services/queue/queue.module';
+
+import { WhatsAppOrderingService } from './whatsapp-ordering.service';
+import { WhatsAppWebhookController } from './whatsapp-webhook.controller';
+
+@Module({
+  imports: [
+    ConfigModule,
+    PrismaModule,
+    QueueModule,
+    CacheModule,
+    CustomersModule,
+    MenuModule,
+    OrdersModule,
+  ],
+  controllers: [WhatsAppWebhookController],
+  providers: [WhatsAppOrderingService],
+  exports: [WhatsAppOrderingService],
+})
+export class WhatsAppOrderingModule {}
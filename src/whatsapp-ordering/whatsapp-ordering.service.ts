@@ -0,0 +1,595 @@
+import { HttpException, Injectable, Logger } from '@nestjs/common';
+
+import { Prisma } from '../../generated/prisma';
+import { CustomersService } from '../customers/customers.service';
+import { PrismaService } from '../database/prisma.service';
+import { MenuService } from '../menu/menu.service';
+import { OrderType } from '../orders/dto';
+import { OrdersService } from '../orders/orders.service';
+import { RedisService } from '../services/cache';
+import { WhatsAppService } from '../services/whatsapp/whatsapp.service';
+
+import type { WhatsAppOrderMessageJob } from './dto';
+
+// Conversations left idle this long start over
+const CONVERSATION_TTL_SECONDS = 2 * 60 * 60;
+const MAX_LINE_QUANTITY = 50;
+// WhatsApp text bodies are limited to 4096 characters
+const MAX_MESSAGE_LENGTH = 4000;
+
+interface MenuEntry {
+  menuItemId: string;
+  menuVariantId?: string;
+  name: string;
+  category: string;
+  price: string;
+}
+
+interface CartLine {
+  menuItemId: string;
+  menuVariantId?: string;
+  name: string;
+  unitPrice: string;
+  quantity: number;
+}
+
+interface ConversationState {
+  step: 'BROWSING' | 'CHOOSING_FULFILMENT' | 'AWAITING_ADDRESS' | 'CONFIRMING';
+  menu: MenuEntry[]; // Numbered as last shown to the customer
+  cart: CartLine[];
+  orderType?: OrderType.TAKEAWAY | OrderType.DELIVERY;
+  deliveryAddress?: string;
+  // Set just before the order is created; the order carries `orderRef` as
+  // its client reference, so a retried or repeated confirmation finds that
+  // order instead of placing another
+  placing?: { messageId: string; orderRef: string };
+}
+
+interface Branch {
+  id: string;
+  name: string;
+  isActive: boolean;
+  whatsappPhoneNumberId: string | null;
+  organization: { id: string; auth0OrgId: string };
+}
+
+@Injectable()
+export class WhatsAppOrderingService {
+  private readonly logger = new Logger(WhatsAppOrderingService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly whatsAppService: WhatsAppService,
+    private readonly menuService: MenuService,
+    private readonly customersService: CustomersService,
+    private readonly ordersService: OrdersService,
+  ) {}
+
+  /**
+   * Advance a customer's ordering conversation with a branch by one message
+   *
+   * Customers browse the branch's effective menu, build a cart, choose pickup
+   * or delivery and confirm; the conversation lives in Redis until the order
+   * is placed, cancelled or left idle.
+   */
+  async handleInboundMessage(message: WhatsAppOrderMessageJob): Promise<void> {
+    const branch = await this.prismaService.branch.findUnique({
+      where: { whatsappPhoneNumberId: message.phoneNumberId },
+      include: {
+        organization: { select: { id: true, auth0OrgId: true } },
+      },
+    });
+
+    if (!branch) {
+      this.logger.warn(
+        `WhatsApp message to unlinked number ${message.phoneNumberId} ignored`,
+      );
+      return;
+    }
+
+    if (!branch.isActive) {
+      await this.reply(
+        branch,
+        message.from,
+        `Sorry, ${branch.name} isn't taking orders right now.`,
+      );
+      return;
+    }
+
+    const key = this.conversationKey(branch.id, message.from);
+    const state = await this.redisService.getJson<ConversationState>(key);
+    const text = message.text.trim();
+    const command = text.toLowerCase();
+
+    if (!state || command === 'menu' || command === 'start') {
+      const next: ConversationState = {
+        step: 'BROWSING',
+        menu: await this.loadMenu(branch),
+        cart: state?.cart ?? [],
+      };
+      await this.save(key, next);
+      await this.reply(
+        branch,
+        message.from,
+        this.formatMenu(branch, next, !state),
+      );
+      return;
+    }
+
+    if (command === 'cancel') {
+      await this.redisService.del(key);
+      await this.reply(
+        branch,
+        message.from,
+        'Your order has been cancelled. Send any message to start again.',
+      );
+      return;
+    }
+
+    if (command === 'cart') {
+      await this.reply(branch, message.from, this.formatCart(state));
+      return;
+    }
+
+    switch (state.step) {
+      case 'BROWSING':
+        await this.handleBrowsing(branch, message, key, state, command);
+        break;
+      case 'CHOOSING_FULFILMENT':
+        await this.handleFulfilment(branch, message, key, state, command);
+        break;
+      case 'AWAITING_ADDRESS':
+        await this.handleAddress(branch, message, key, state, text);
+        break;
+      case 'CONFIRMING':
+        await this.handleConfirmation(branch, message, key, state, command);
+        break;
+    }
+  }
+
+  private async handleBrowsing(
+    branch: Branch,
+    message: WhatsAppOrderMessageJob,
+    key: string,
+    state: ConversationState,
+    command: string,
+  ): Promise<void> {
+    // "3", "3 2" or "3x2": add menu item 3, optionally with a quantity
+    const add = /^(\d+)(?:\s*[x*]\s*|\s+)?(\d+)?$/.exec(command);
+    if (add) {
+      const entry = state.menu[Number(add[1]) - 1];
+      const quantity = Number(add[2] ?? 1);
+
+      if (!entry) {
+        await this.reply(
+          branch,
+          message.from,
+          `There's no item ${add[1]} on the menu. Reply *MENU* to see it again.`,
+        );
+        return;
+      }
+
+      if (quantity < 1 || quantity > MAX_LINE_QUANTITY) {
+        await this.reply(
+          branch,
+          message.from,
+          `Please choose a quantity from 1 to ${MAX_LINE_QUANTITY}.`,
+        );
+        return;
+      }
+
+      const existing = state.cart.find(
+        (line) =>
+          line.menuItemId === entry.menuItemId &&
+          line.menuVariantId === entry.menuVariantId,
+      );
+      if (existing) {
+        existing.quantity = Math.min(
+          existing.quantity + quantity,
+          MAX_LINE_QUANTITY,
+        );
+      } else {
+        state.cart.push({
+          menuItemId: entry.menuItemId,
+          ...(entry.menuVariantId && { menuVariantId: entry.menuVariantId }),
+          name: entry.name,
+          unitPrice: entry.price,
+          quantity,
+        });
+      }
+
+      await this.save(key, state);
+      await this.reply(
+        branch,
+        message.from,
+        `Added ${quantity} x ${entry.name}.\n\n${this.formatCart(state)}`,
+      );
+      return;
+    }
+
+    const remove = /^remove\s+(\d+)$/.exec(command);
+    if (remove) {
+      const index = Number(remove[1]) - 1;
+      const [removed] = state.cart.splice(index, 1);
+
+      if (!removed) {
+        await this.reply(
+          branch,
+          message.from,
+          `There's no line ${remove[1]} in your cart.`,
+        );
+        return;
+      }
+
+      await this.save(key, state);
+      await this.reply(
+        branch,
+        message.from,
+        `Removed ${removed.name}.\n\n${this.formatCart(state)}`,
+      );
+      return;
+    }
+
+    if (command === 'done' || command === 'checkout') {
+      if (state.cart.length === 0) {
+        await this.reply(
+          branch,
+          message.from,
+          'Your cart is empty. Reply with an item number to add it.',
+        );
+        return;
+      }
+
+      state.step = 'CHOOSING_FULFILMENT';
+      await this.save(key, state);
+      await this.reply(
+        branch,
+        message.from,
+        'How would you like to get your order?\n1. Pickup\n2. Delivery',
+      );
+      return;
+    }
+
+    await this.reply(
+      branch,
+      message.from,
+      [
+        'Reply with an item number to add it, e.g. *3* or *3 x2*.',
+        '*REMOVE 1* - remove line 1 from your cart',
+        '*CART* - see your cart',
+        '*DONE* - check out',
+        '*MENU* - see the menu again',
+        '*CANCEL* - start over',
+      ].join('\n'),
+    );
+  }
+
+  private async handleFulfilment(
+    branch: Branch,
+    message: WhatsAppOrderMessageJob,
+    key: string,
+    state: ConversationState,
+    command: string,
+  ): Promise<void> {
+    if (command === '1' || command === 'pickup') {
+      state.orderType = OrderType.TAKEAWAY;
+      delete state.deliveryAddress;
+      state.step = 'CONFIRMING';
+      await this.save(key, state);
+      await this.reply(branch, message.from, this.formatConfirmation(state));
+      return;
+    }
+
+    if (command === '2' || command === 'delivery') {
+      state.orderType = OrderType.DELIVERY;
+      state.step = 'AWAITING_ADDRESS';
+      await this.save(key, state);
+      await this.reply(
+        branch,
+        message.from,
+        'Please send your delivery address.',
+      );
+      return;
+    }
+
+    await this.reply(
+      branch,
+      message.from,
+      'Reply *1* for pickup or *2* for delivery.',
+    );
+  }
+
+  private async handleAddress(
+    branch: Branch,
+    message: WhatsAppOrderMessageJob,
+    key: string,
+    state: ConversationState,
+    text: string,
+  ): Promise<void> {
+    if (text.length < 5) {
+      await this.reply(
+        branch,
+        message.from,
+        'Please send your full delivery address.',
+      );
+      return;
+    }
+
+    state.deliveryAddress = text.slice(0, 400);
+    state.step = 'CONFIRMING';
+    await this.save(key, state);
+    await this.reply(branch, message.from, this.formatConfirmation(state));
+  }
+
+  private async handleConfirmation(
+    branch: Branch,
+    message: WhatsAppOrderMessageJob,
+    key: string,
+    state: ConversationState,
+    command: string,
+  ): Promise<void> {
+    if (command === 'no' || command === 'back') {
+      state.step = 'BROWSING';
+      delete state.placing;
+      await this.save(key, state);
+      await this.reply(
+        branch,
+        message.from,
+        `No problem, you can keep changing your order.\n\n${this.formatCart(state)}`,
+      );
+      return;
+    }
+
+    if (command !== 'yes' && command !== 'confirm') {
+      await this.reply(
+        branch,
+        message.from,
+        'Reply *YES* to place your order or *NO* to change it.',
+      );
+      return;
+    }
+
+    const customer = (await this.customersService.findOrCreateCustomer({
+      phone: message.from,
+      ...(message.profileName && { fullName: message.profileName }),
+      organizationId: branch.organization.id,
+      branchId: branch.id,
+    })) as { id: string };
+
+    let order: { id: string; total: Prisma.Decimal } | null = null;
+    if (state.placing) {
+      order = await this.prismaService.order.findUnique({
+        where: {
+          branchId_clientRef: {
+            branchId: branch.id,
+            clientRef: state.placing.orderRef,
+          },
+        },
+        select: { id: true, total: true },
+      });
+
+      if (order) {
+        this.logger.log(
+          `WhatsApp confirmation ${message.messageId} matched order ${order.id}, already placed by ${state.placing.messageId}`,
+        );
+      }
+    } else {
+      state.placing = {
+        messageId: message.messageId,
+        orderRef: `whatsapp:${message.messageId}`,
+      };
+      await this.save(key, state);
+    }
+
+    try {
+      order ??= (await this.ordersService.createOrder(
+        {
+          lines: state.cart.map((line) => ({
+            menuItemId: line.menuItemId,
+            ...(line.menuVariantId && { menuVariantId: line.menuVariantId }),
+            quantity: line.quantity,
+          })),
+          type: state.orderType ?? OrderType.TAKEAWAY,
+          customerId: customer.id,
+          notes: state.deliveryAddress
+            ? `WhatsApp order. Deliver to: ${state.deliveryAddress}`
+            : 'WhatsApp order',
+        },
+        branch.id,
+        branch.organization.auth0OrgId,
+        undefined,
+        undefined,
+        state.placing.orderRef,
+      )) as { id: string; total: Prisma.Decimal };
+    } catch (error) {
+      // Validation failures (e.g. an item that has since become unavailable)
+      // go back to the customer; anything else is retried by the queue
+      if (!(error instanceof HttpException)) {
+        throw error;
+      }
+
+      state.step = 'BROWSING';
+      delete state.placing;
+      await this.save(key, state);
+      await this.reply(
+        branch,
+        message.from,
+        `Sorry, we couldn't place your order: ${error.message}. Reply *CART* to review it or *MENU* to see what's available.`,
+      );
+      return;
+    }
+
+    await this.redisService.del(key);
+
+    this.logger.log(
+      `WhatsApp order ${order.id} placed at branch ${branch.id} by customer ${customer.id}`,
+    );
+
+    await this.reply(
+      branch,
+      message.from,
+      `Thank you! Your order ${order.id.slice(0, 8).toUpperCase()} has been placed. Total: ${new Prisma.Decimal(order.total).toFixed(2)}. We'll message you when it's ready.`,
+    );
+  }
+
+  /**
+   * Snapshot the branch's effective menu as numbered entries; items with
+   * variants get one entry per variant
+   */
+  private async loadMenu(branch: Branch): Promise<MenuEntry[]> {
+    const items = (await this.menuService.getEffectiveMenuForBranch(
+      branch.organization.auth0OrgId,
+      branch.id,
+    )) as Array<{
+      id: string;
+      name: string;
+      availability: boolean;
+      effectivePrice: Prisma.Decimal;
+      menuCategory: { name: string } | null;
+      variants: Array<{
+        id: string;
+        name: string;
+        effectivePrice: Prisma.Decimal;
+      }>;
+    }>;
+
+    return items
+      .filter((item) => item.availability)
+      .flatMap((item) => {
+        const category = item.menuCategory?.name ?? 'Other';
+
+        if (item.variants.length === 0) {
+          return [
+            {
+              menuItemId: item.id,
+              name: item.name,
+              category,
+              price: new Prisma.Decimal(item.effectivePrice).toFixed(2),
+            },
+          ];
+        }
+
+        return item.variants.map((variant) => ({
+          menuItemId: item.id,
+          menuVariantId: variant.id,
+          name: `${item.name} (${variant.name})`,
+          category,
+          price: new Prisma.Decimal(variant.effectivePrice).toFixed(2),
+        }));
+      });
+  }
+
+  private formatMenu(
+    branch: Branch,
+    state: ConversationState,
+    isNew: boolean,
+  ): string {
+    if (state.menu.length === 0) {
+      return `Sorry, nothing on the ${branch.name} menu is available right now.`;
+    }
+
+    const lines: string[] = [];
+    if (isNew) {
+      lines.push(`Welcome to ${branch.name}! Here's our menu:`);
+    }
+
+    let category: string | null = null;
+    state.menu.forEach((entry, index) => {
+      if (entry.category !== category) {
+        category = entry.category;
+        lines.push('', `*${category}*`);
+      }
+      lines.push(`${index + 1}. ${entry.name} - ${entry.price}`);
+    });
+
+    lines.push(
+      '',
+      'Reply with an item number to add it to your cart, e.g. *3* or *3 x2*. Reply *DONE* when you are ready to check out.',
+    );
+
+    return lines.join('\n');
+  }
+
+  private formatCart(state: ConversationState): string {
+    if (state.cart.length === 0) {
+      return 'Your cart is empty.';
+    }
+
+    const lines = state.cart.map(
+      (line, index) =>
+        `${index + 1}. ${line.quantity} x ${line.name} - ${new Prisma.Decimal(line.unitPrice).mul(line.quantity).toFixed(2)}`,
+    );
+
+    return [
+      '*Your cart*',
+      ...lines,
+      `Total: ${this.cartTotal(state).toFixed(2)}`,
+      '',
+      'Add more items, *REMOVE 1* to remove a line, or *DONE* to check out.',
+    ].join('\n');
+  }
+
+  private formatConfirmation(state: ConversationState): string {
+    const lines = state.cart.map((line) => `${line.quantity} x ${line.name}`);
+
+    return [
+      '*Please confirm your order*',
+      ...lines,
+      `Estimated total: ${this.cartTotal(state).toFixed(2)}`,
+      state.orderType === OrderType.DELIVERY
+        ? `Delivery to: ${state.deliveryAddress ?? ''}`
+        : 'Pickup',
+      '',
+      'Reply *YES* to place it or *NO* to change it.',
+    ].join('\n');
+  }
+
+  private cartTotal(state: ConversationState): Prisma.Decimal {
+    return state.cart.reduce(
+      (sum, line) =>
+        sum.add(new Prisma.Decimal(line.unitPrice).mul(line.quantity)),
+      new Prisma.Decimal(0),
+    );
+  }
+
+  private conversationKey(branchId: string, phone: string): string {
+    return `whatsapp:conversation:${branchId}:${phone}`;
+  }
+
+  private async save(key: string, state: ConversationState): Promise<void> {
+    await this.redisService.setJson(key, state, CONVERSATION_TTL_SECONDS);
+  }
+
+  /**
+   * Reply from the branch's number, split to fit WhatsApp's message limit
+   */
+  private async reply(branch: Branch, to: string, text: string): Promise<void> {
+    const chunks: string[] = [];
+    let current = '';
+    for (const line of text.split('\n')) {
+      if (current && current.length + line.length + 1 > MAX_MESSAGE_LENGTH) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n${line}` : line;
+    }
+    chunks.push(current);
+
+    for (const chunk of chunks) {
+      const result = await this.whatsAppService.sendText(to, chunk, {
+        ...(branch.whatsappPhoneNumberId && {
+          phoneNumberId: branch.whatsappPhoneNumberId,
+        }),
+      });
+
+      // The conversation has already moved on, so a failed reply is not retried
+      if (!result.success) {
+        this.logger.warn(
+          `Failed to reply to ${to} from branch ${branch.id}: ${result.error ?? 'unknown error'}`,
+        );
+        return;
+      }
+    }
+  }
+}
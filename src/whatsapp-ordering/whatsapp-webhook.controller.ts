@@ -0,0 +1,210 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import {
+  Controller,
+  Get,
+  Post,
+  Headers,
+  Query,
+  Req,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiHeader,
+  ApiQuery,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+
+import { ConfigService } from '../config';
+import { ORDARO_JOB_TYPES } from '../services/queue/job-types.enum';
+import { QueueService } from '../services/queue/queue.service';
+
+import type {
+  WhatsAppInboundMessage,
+  WhatsAppOrderMessageJob,
+  WhatsAppWebhookEvent,
+} from './dto';
+
+@ApiTags('Webhooks')
+@Controller('whatsapp')
+export class WhatsAppWebhookController {
+  private readonly logger = new Logger(WhatsAppWebhookController.name);
+  private readonly appSecret: string;
+  private readonly verifyToken: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly queueService: QueueService,
+  ) {
+    this.appSecret =
+      this.configService.get<string>('app.whatsapp.appSecret') ||
+      process.env['WHATSAPP_APP_SECRET'] ||
+      '';
+    this.verifyToken =
+      this.configService.get<string>('app.whatsapp.verifyToken') ||
+      process.env['WHATSAPP_VERIFY_TOKEN'] ||
+      '';
+
+    if (!this.appSecret) {
+      this.logger.warn(
+        'WHATSAPP_APP_SECRET not configured. Webhook signature verification will fail.',
+      );
+    }
+  }
+
+  /**
+   * Answer the webhook subscription handshake
+   */
+  @Get('webhook')
+  @ApiOperation({
+    summary: 'WhatsApp webhook verification',
+    description:
+      'Echoes hub.challenge when hub.verify_token matches WHATSAPP_VERIFY_TOKEN, as required when subscribing the webhook.',
+  })
+  @ApiQuery({ name: 'hub.mode', required: false })
+  @ApiQuery({ name: 'hub.verify_token', required: false })
+  @ApiQuery({ name: 'hub.challenge', required: false })
+  @ApiResponse({ status: 200, description: 'Challenge echoed' })
+  @ApiResponse({ status: 403, description: 'Verify token mismatch' })
+  verifyWebhook(
+    @Query('hub.mode') mode?: string,
+    @Query('hub.verify_token') token?: string,
+    @Query('hub.challenge') challenge?: string,
+  ): string {
+    if (
+      mode !== 'subscribe' ||
+      !this.verifyToken ||
+      token !== this.verifyToken ||
+      !challenge
+    ) {
+      throw new ForbiddenException('Webhook verification failed');
+    }
+
+    return challenge;
+  }
+
+  /**
+   * Handle inbound WhatsApp messages
+   * Verifies the X-Hub-Signature-256 HMAC and queues each message for the
+   * ordering conversation
+   */
+  @Post('webhook')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'WhatsApp webhook handler',
+    description:
+      'Receives messages sent to branch WhatsApp numbers. The X-Hub-Signature-256 header must be the HMAC-SHA256 of the raw body using the app secret.',
+  })
+  @ApiHeader({
+    name: 'x-hub-signature-256',
+    description: 'sha256=<HMAC-SHA256 of the raw body>',
+    required: false,
+  })
+  @ApiResponse({ status: 200, description: 'Webhook processed successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid webhook payload' })
+  @ApiResponse({ status: 401, description: 'Invalid webhook signature' })
+  async handleWhatsAppWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-hub-signature-256') signature?: string,
+  ) {
+    if (!this.appSecret) {
+      this.logger.error('WHATSAPP_APP_SECRET not configured');
+      throw new BadRequestException('Webhook secret not configured');
+    }
+
+    if (!signature) {
+      throw new BadRequestException('Missing X-Hub-Signature-256 header');
+    }
+
+    if (!req.rawBody) {
+      throw new BadRequestException('Missing request body');
+    }
+
+    if (!this.isValidSignature(req.rawBody, signature)) {
+      this.logger.warn('Invalid WhatsApp webhook signature');
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    const event = req.body as WhatsAppWebhookEvent;
+
+    let queued = 0;
+    for (const entry of event.entry ?? []) {
+      for (const change of entry.changes ?? []) {
+        if (change.field !== 'messages') {
+          continue;
+        }
+
+        const { metadata, contacts, messages } = change.value;
+        for (const message of messages ?? []) {
+          const text = this.extractText(message);
+          if (text === null) {
+            continue;
+          }
+
+          const contact = contacts?.find((c) => c.wa_id === message.from);
+          const job: WhatsAppOrderMessageJob = {
+            messageId: message.id,
+            phoneNumberId: metadata.phone_number_id,
+            from: message.from,
+            ...(contact?.profile?.name && {
+              profileName: contact.profile.name,
+            }),
+            text,
+          };
+
+          // WhatsApp redelivers unacknowledged webhooks; the message ID as
+          // job ID keeps each message from being handled twice
+          await this.queueService.addJob(
+            ORDARO_JOB_TYPES.PROCESS_WHATSAPP_ORDER,
+            { ...job },
+            { jobId: `whatsapp-${message.id}` },
+          );
+          queued++;
+        }
+      }
+    }
+
+    if (queued > 0) {
+      this.logger.log(`WhatsApp messages queued: ${queued}`);
+    }
+
+    return { received: true };
+  }
+
+  private isValidSignature(rawBody: Buffer, signature: string): boolean {
+    const expected = Buffer.from(
+      `sha256=${createHmac('sha256', this.appSecret).update(rawBody).digest('hex')}`,
+    );
+    const received = Buffer.from(signature);
+
+    return (
+      expected.length === received.length && timingSafeEqual(expected, received)
+    );
+  }
+
+  /**
+   * Text of a message, or of the button or list option it selected
+   */
+  private extractText(message: WhatsAppInboundMessage): string | null {
+    if (message.type === 'text' && message.text) {
+      return message.text.body;
+    }
+
+    if (message.type === 'interactive' && message.interactive) {
+      const reply =
+        message.interactive.button_reply ?? message.interactive.list_reply;
+      return reply?.id ?? null;
+    }
+
+    return null;
+  }
+}